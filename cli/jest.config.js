@@ -6,9 +6,16 @@ export default {
     '^.+\\.ts$': ['ts-jest', {
       useESM: true,
     }],
+    // wasmoon's Emscripten loader has a dynamic import(), which Jest's module
+    // sandbox cannot run; compiled to CommonJS it becomes a require()
+    '^.+/wasmoon/dist/.+\\.js$': ['ts-jest', {
+      useESM: true,
+      isolatedModules: true,
+      tsconfig: { allowJs: true },
+    }],
   },
   transformIgnorePatterns: [
-    'node_modules/(?!(chalk|#ansi-styles|#supports-color|strip-ansi|ansi-regex|wrap-ansi|ansi-styles|escape-string-regexp|has-flag|supports-color|ora|@pnpm)/)'
+    'node_modules/(?!(chalk|#ansi-styles|#supports-color|strip-ansi|ansi-regex|wrap-ansi|ansi-styles|escape-string-regexp|has-flag|supports-color|ora|@pnpm|wasmoon|\\.pnpm/wasmoon@[^/]+/node_modules/wasmoon)/)'
   ],
   moduleNameMapper: {
     '^(\\.{1,2}/.*)\\.js$': '$1',
@@ -13,8 +13,8 @@ export class APIKeyManager {
   private configPath: string;
   private config: APIConfig;
 
-  constructor() {
-    this.configPath = path.join(os.homedir(), '.ao-config');
+  constructor(configPath: string = path.join(os.homedir(), '.ao-config')) {
+    this.configPath = configPath;
     this.config = {};
   }
 
@@ -8,9 +8,15 @@ import { AICommand } from './commands/ai.js';
 import { PluginCommand } from './commands/plugin.js';
 import { ProcessCommand } from './commands/process.js';
 import { ConfigCommand } from './commands/config.js';
+import { WalletCommand } from './commands/wallet.js';
+import { DoctorCommand } from './commands/doctor.js';
+import { TestCommand } from './commands/test.js';
+import { ScenarioCommand } from './commands/scenario.js';
+import { FuzzCommand } from './commands/fuzz.js';
 import { logger } from './utils/logging.js';
 import { ErrorHandler } from './utils/error-handling.js';
 import { PluginManager } from './plugins/plugin-manager.js';
+import { NETWORK_ENV } from './process/network.js';
 import { PluginContext, PluginHook } from '../types/plugins.js';
 import chalk from 'chalk';
 
@@ -39,7 +45,16 @@ export class CLI {
     this.program
       .name(this.options.name!)
       .version(this.options.version!)
-      .description(this.options.description!);
+      .description(this.options.description!)
+      .option('--network <name>', 'Network profile from ao.config.yml to use for AO processes and messages');
+
+    // Commands resolve the network themselves, from the config and this flag
+    this.program.hook('preAction', () => {
+      const { network } = this.program.opts();
+      if (network) {
+        process.env[NETWORK_ENV] = network;
+      }
+    });
     
     // Initialize plugin manager
     const context: PluginContext = {
@@ -82,6 +97,11 @@ export class CLI {
     // Process and config management
     new ProcessCommand().register(this.program);
     new ConfigCommand().register(this.program);
+    new WalletCommand().register(this.program);
+    new DoctorCommand().register(this.program);
+    new TestCommand().register(this.program);
+    new ScenarioCommand().register(this.program);
+    new FuzzCommand().register(this.program);
     
     // TODO: Re-enable these commands when implemented
     // new DeployCommand().register(this.program);
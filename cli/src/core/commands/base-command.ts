@@ -85,6 +85,7 @@ export abstract class BaseCommand {
   protected logError(message: string, error?: Error): void {
     logger.error(`Failed: ${message}`);
     if (error) {
+      logger.error(`  ${error.message}`);
       logger.debug('Error details:', error);
     }
   }
@@ -3,6 +3,7 @@ import { CommandOption } from '../../types/cli.js';
 import { ProjectManager } from '../managers/project-manager.js';
 import { ConfigManager } from '../managers/config-manager.js';
 import { ProcessManager } from '../managers/process-manager.js';
+import { NamedProcessDefinition, hasProcessDefinitions, selectProcessDefinitions } from '../process/definitions.js';
 import path from 'path';
 import fs from 'fs-extra';
 import { exec } from 'child_process';
@@ -24,6 +25,11 @@ export class BuildCommand extends BaseCommand {
       flag: '--clean',
       description: 'Clean output directory before building',
       required: false
+    },
+    {
+      flag: '--process <name>',
+      description: 'Only package the given AO process from ao.config.yml',
+      required: false
     }
   ];
 
@@ -42,6 +48,7 @@ export class BuildCommand extends BaseCommand {
       // Load configuration
       const configManager = new ConfigManager(projectPath);
       const config = await configManager.loadConfig();
+      const definitions = selectProcessDefinitions(config, options.process);
       
       // Create managers
       const projectManager = new ProjectManager(projectPath);
@@ -59,7 +66,7 @@ export class BuildCommand extends BaseCommand {
       // Users should run: aos [process-name] --load ./ao/contract.lua
       
       // Generate build artifacts
-      await this.generateBuildArtifacts(projectPath, config, options);
+      await this.generateBuildArtifacts(projectPath, config, definitions, options);
       
       this.logSuccess('Project built successfully');
       
@@ -147,7 +154,12 @@ export class BuildCommand extends BaseCommand {
     }
   }
 
-  private async generateBuildArtifacts(projectPath: string, config: any, options: any): Promise<void> {
+  private async generateBuildArtifacts(
+    projectPath: string,
+    config: any,
+    definitions: NamedProcessDefinition[],
+    options: any
+  ): Promise<void> {
     this.logInfo('Generating build artifacts...');
     
     try {
@@ -155,10 +167,10 @@ export class BuildCommand extends BaseCommand {
       await fs.ensureDir(outputPath);
       
       // Copy build artifacts
-      await this.copyBuildArtifacts(projectPath, outputPath, config);
+      await this.copyBuildArtifacts(projectPath, outputPath, config, definitions);
       
       // Generate deployment manifest
-      await this.generateDeploymentManifest(outputPath, config);
+      await this.generateDeploymentManifest(outputPath, config, definitions);
       
       this.logSuccess('Build artifacts generated successfully');
       
@@ -168,7 +180,12 @@ export class BuildCommand extends BaseCommand {
     }
   }
 
-  private async copyBuildArtifacts(projectPath: string, outputPath: string, config: any): Promise<void> {
+  private async copyBuildArtifacts(
+    projectPath: string,
+    outputPath: string,
+    config: any,
+    definitions: NamedProcessDefinition[]
+  ): Promise<void> {
     // Copy framework build output
     const frameworkOutputs = {
       'nextjs': '.next',
@@ -188,29 +205,49 @@ export class BuildCommand extends BaseCommand {
       }
     }
     
-    // Copy AO process files
-    if (config.luaFiles && config.luaFiles.length > 0) {
-      const aosPath = path.join(outputPath, 'aos');
+    // Copy AO process files, one directory per process when several are defined
+    for (const definition of definitions) {
+      const luaFiles = definition.luaFiles || [];
+      if (luaFiles.length === 0) {
+        continue;
+      }
+
+      const aosPath = hasProcessDefinitions(config)
+        ? path.join(outputPath, 'aos', definition.name)
+        : path.join(outputPath, 'aos');
       await fs.ensureDir(aosPath);
       
-      for (const luaFile of config.luaFiles) {
+      for (const luaFile of luaFiles) {
         const sourcePath = path.join(projectPath, luaFile);
         const destPath = path.join(aosPath, luaFile);
         
         if (await fs.pathExists(sourcePath)) {
           await fs.copy(sourcePath, destPath);
+        } else {
+          this.logInfo(`Lua file not found for ${definition.name}: ${luaFile}`);
         }
       }
     }
   }
 
-  private async generateDeploymentManifest(outputPath: string, config: any): Promise<void> {
+  private async generateDeploymentManifest(
+    outputPath: string,
+    config: any,
+    definitions: NamedProcessDefinition[]
+  ): Promise<void> {
+    // Wallet paths are left out; they are resolved again at deploy time
+    const processes: Record<string, Omit<NamedProcessDefinition, 'name' | 'wallet'>> = {};
+    for (const { name, wallet, ...definition } of definitions) {
+      processes[name] = definition;
+    }
+
     const manifest = {
       version: '1.0.0',
       timestamp: new Date().toISOString(),
       framework: config.framework,
       aos: config.aos,
       processName: config.processName,
+      processes,
       files: await this.getBuildFiles(outputPath)
     };
     
@@ -255,12 +292,14 @@ Build the project for production deployment.
 The build process will:
 - Compile and optimize the framework code
 - Generate deployment artifacts
+- Copy the Lua files of each process in ao.config.yml
 - Create a deployment manifest
 
 Examples:
   ao-forge build                    # Build with default settings
   ao-forge build -o ./build        # Specify output directory
   ao-forge build --clean           # Clean output before building
+  ao-forge build --process token   # Only package the token process
 
 Note: AO process building is handled by the AOS CLI:
   npm i -g https://get_ao.g8way.io
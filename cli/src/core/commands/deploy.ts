@@ -2,10 +2,16 @@ import { BaseCommand } from './base-command.js';
 import { CommandOption } from '../../types/cli.js';
 import { ProjectManager } from '../managers/project-manager.js';
 import { ConfigManager } from '../managers/config-manager.js';
-import { ProcessManager } from '../managers/process-manager.js';
+import { DeployResult, ProcessManager } from '../managers/process-manager.js';
+import { NamedProcessDefinition, hasProcessDefinitions, selectProcessDefinitions } from '../process/definitions.js';
+import { getSpawnTarget, resolveNetwork } from '../process/network.js';
+import { AOConfig, ResolvedNetwork } from '../../types/aos.js';
 import path from 'path';
 import fs from 'fs-extra';
 
+// Used when the network sets no gateway
+const DEFAULT_GATEWAY_URL = 'https://arweave.net';
+
 export class DeployCommand extends BaseCommand {
   name = 'deploy';
   description = 'Deploy the project to Arweave';
@@ -28,7 +34,7 @@ export class DeployCommand extends BaseCommand {
     },
     {
       flag: '--process <name>',
-      description: 'Deploy specific AO process',
+      description: 'Deploy one AO process from ao.config.yml instead of all of them',
       required: false
     },
     {
@@ -64,10 +70,16 @@ export class DeployCommand extends BaseCommand {
       // Load configuration
       const configManager = new ConfigManager(projectPath);
       const config = await configManager.loadConfig();
+      const network = resolveNetwork(config);
+      const deployProcesses = Boolean(config.runWithAO || options.process || hasProcessDefinitions(config));
+      const definitions = deployProcesses ? selectProcessDefinitions(config, options.process) : [];
+      // Checked before anything is uploaded
+      for (const definition of definitions) {
+        getSpawnTarget(network, definition.name, definition);
+      }
       
-      // Create managers
+      // Create project manager
       const projectManager = new ProjectManager(projectPath);
-      const processManager = new ProcessManager();
       
       // Build project if not skipped
       if (!options.noBuild) {
@@ -78,17 +90,15 @@ export class DeployCommand extends BaseCommand {
       await this.validateDeploymentArtifacts(options.buildDir);
       
       // Deploy to Arweave
-      const deploymentResult = await this.deployToArweave(config, options);
+      const deploymentResult = await this.deployToArweave(config, network, options);
       
-      // Deploy AO process if configured
-      if (config.runWithAO || options.process) {
-        await this.deployAOProcess(processManager, config, options);
-      }
+      // Deploy AO processes if configured
+      const processes = await this.deployAOProcesses(projectPath, config, definitions, network, options);
       
       this.logSuccess('Deployment completed successfully');
       
       // Show deployment summary
-      this.showDeploymentSummary(deploymentResult, options);
+      this.showDeploymentSummary(deploymentResult, processes, network, options);
       
     } catch (error) {
       this.logError('Deployment failed', error as Error);
@@ -149,8 +159,9 @@ export class DeployCommand extends BaseCommand {
     }
   }
 
-  private async deployToArweave(config: any, options: any): Promise<any> {
-    this.logInfo('Deploying to Arweave...');
+  private async deployToArweave(config: any, network: ResolvedNetwork | undefined, options: any): Promise<any> {
+    const gatewayUrl = (network?.gatewayUrl || DEFAULT_GATEWAY_URL).replace(/\/+$/, '');
+    this.logInfo(`Deploying to Arweave through ${gatewayUrl}...`);
     
     try {
       // Parse additional tags
@@ -170,7 +181,7 @@ export class DeployCommand extends BaseCommand {
       
       const deploymentResult = {
         transactionId: 'mock-transaction-id',
-        url: `https://arweave.net/mock-transaction-id`,
+        url: `${gatewayUrl}/mock-transaction-id`,
         timestamp: new Date().toISOString(),
         environment: options.environment,
         tags: allTags
@@ -185,20 +196,32 @@ export class DeployCommand extends BaseCommand {
     }
   }
 
-  private async deployAOProcess(processManager: ProcessManager, config: any, options: any): Promise<void> {
-    this.logInfo('Deploying AO process...');
+  private async deployAOProcesses(
+    projectPath: string,
+    config: AOConfig,
+    definitions: NamedProcessDefinition[],
+    network: ResolvedNetwork | undefined,
+    options: any
+  ): Promise<DeployResult[]> {
+    if (definitions.length === 0) {
+      return [];
+    }
+    this.logInfo(`Deploying ${definitions.length} AO process(es)${network?.name ? ` to ${network.name}` : ''}...`);
     
     try {
-      // Check AOS installation
-      const aosInstalled = await processManager.checkAOSInstallation();
-      if (!aosInstalled) {
-        throw new Error('AOS is not installed. Please install AOS first: npm i -g https://get_ao.g8way.io');
+      const processManager = new ProcessManager();
+      const deployed: DeployResult[] = [];
+      for (const definition of definitions) {
+        if (options.dryRun) {
+          const { module, scheduler } = getSpawnTarget(network, definition.name, definition);
+          this.logInfo(`  ${definition.name} would be spawned from module ${module} on scheduler ${scheduler}`);
+          continue;
+        }
+        const result = await processManager.deployProcess(projectPath, config, definition, { wallet: options.wallet });
+        this.logInfo(`  ${definition.name}: ${result.processId}`);
+        deployed.push(result);
       }
-      
-      // TODO: Implement AO process deployment logic
-      // This should deploy the AO process using AOS CLI
-      
-      this.logSuccess('AO process deployed successfully');
+      return deployed;
       
     } catch (error) {
       this.logError('AO process deployment failed', error as Error);
@@ -224,13 +247,23 @@ export class DeployCommand extends BaseCommand {
     return tags;
   }
 
-  private showDeploymentSummary(deploymentResult: any, options: any): void {
+  private showDeploymentSummary(deploymentResult: any, processes: DeployResult[], network: ResolvedNetwork | undefined, options: any): void {
     this.logInfo('\n🚀 Deployment Summary:');
     this.logInfo(`Environment: ${options.environment}`);
+    if (network?.name) {
+      this.logInfo(`Network: ${network.name}`);
+    }
     this.logInfo(`Transaction ID: ${deploymentResult.transactionId}`);
     this.logInfo(`URL: ${deploymentResult.url}`);
     this.logInfo(`Timestamp: ${deploymentResult.timestamp}`);
     
+    if (processes.length > 0) {
+      this.logInfo('\nAO processes:');
+      for (const deployed of processes) {
+        this.logInfo(`  ${deployed.name}: ${deployed.processId}`);
+      }
+    }
+    
     if (Object.keys(deploymentResult.tags).length > 0) {
       this.logInfo('\nTags:');
       for (const [key, value] of Object.entries(deploymentResult.tags)) {
@@ -247,7 +280,9 @@ The deployment process will:
 - Build the project (unless --no-build is specified)
 - Validate deployment artifacts
 - Upload files to Arweave
-- Deploy AO processes (if configured)
+- Deploy AO processes (each one in ao.config.yml, or the one given by --process):
+  spawn it from its module on the network's scheduler, then load its Lua
+  files, bundled with the modules they require, with Eval messages
 - Generate deployment metadata
 
 Examples:
@@ -259,6 +294,7 @@ Examples:
   ao-forge deploy --build-dir ./build # Use custom build directory
   ao-forge deploy --tags "env=prod,version=1.0" # Add custom tags
   ao-forge deploy --no-build        # Skip building before deployment
+  ao-forge --network mainnet deploy # Deploy AO processes with a network profile
 
 Environments:
   testnet    - Arweave testnet (default)
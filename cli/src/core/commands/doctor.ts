@@ -0,0 +1,63 @@
+import { BaseCommand } from './base-command.js';
+import { CommandOption } from '../../types/cli.js';
+import { DoctorManager, renderDoctorReport } from '../managers/doctor-manager.js';
+import { ForgeError } from '../utils/error-handling.js';
+import { Command } from 'commander';
+
+export class DoctorCommand extends BaseCommand {
+  name = 'doctor';
+  description = 'Check the environment, tools and project configuration';
+  options: CommandOption[] = [
+    {
+      flag: '--json',
+      description: 'Output machine-readable JSON',
+      required: false
+    }
+  ];
+
+  register(program: Command): void {
+    const cmd = program.command(this.name)
+      .description(this.description)
+      .option('--json', 'Output machine-readable JSON')
+      .action(async (options: any) => {
+        try {
+          await this.execute(options);
+        } catch (error) {
+          this.logError('Doctor command failed', error as Error);
+          process.exit(1);
+        }
+      });
+
+    this.addHelpText(cmd);
+  }
+
+  async execute(options: any): Promise<void> {
+    const report = await new DoctorManager().diagnose(process.cwd());
+    const failed = report.checks.filter(check => check.status === 'fail');
+
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      console.log(renderDoctorReport(report));
+    }
+
+    if (failed.length > 0) {
+      this.logError(`${failed.length} check(s) failed: ${failed.map(check => check.name).join(', ')}`);
+      throw new ForgeError('Doctor found problems', 'DOCTOR_FAILED', { failed: failed.map(check => check.name) });
+    }
+  }
+
+  protected getHelpText(): string {
+    return `
+Checks that ao-forge can work here: Node.js, git, the package manager,
+aos and its version against aos.version, AI keys, the wallet in use, the
+dev port and ao.config.yml. Exits 1 when a check fails; warnings do not
+change the exit code.
+
+Examples:
+  ao-forge doctor
+  ao-forge doctor --json
+  AO_FORGE_WALLET_PASSPHRASE=... ao-forge doctor   # Also unlock the wallet
+    `;
+  }
+}
@@ -0,0 +1,154 @@
+import { BaseCommand } from './base-command.js';
+import { CommandOption } from '../../types/cli.js';
+import { ConfigManager } from '../managers/config-manager.js';
+import { FuzzManager, renderFuzzReport } from '../managers/fuzz-manager.js';
+import { ForgeError, ValidationError } from '../utils/error-handling.js';
+import { parseSeed } from '../utils/random.js';
+import { Command } from 'commander';
+
+function parseCount(value: string, flag: string): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new ValidationError(`Invalid ${flag}: ${value}. Use a whole number of at least 1`);
+  }
+  return count;
+}
+
+function parseInvariant(value: string): [string, string] {
+  const index = value.indexOf('=');
+  if (index <= 0) {
+    throw new ValidationError(`Invalid invariant: ${value}. Use name=code`);
+  }
+  return [value.slice(0, index).trim(), value.slice(index + 1)];
+}
+
+export class FuzzCommand extends BaseCommand {
+  name = 'fuzz';
+  description = 'Send random messages to an emulated process and check its invariants';
+  options: CommandOption[] = [
+    {
+      flag: '--runs <n>',
+      description: 'Runs, each from a fresh process (default: 50)',
+      required: false
+    },
+    {
+      flag: '--length <n>',
+      description: 'Messages sent in each run (default: 20)',
+      required: false
+    },
+    {
+      flag: '--seed <n>',
+      description: 'Seed, to repeat a fuzzing session',
+      required: false
+    },
+    {
+      flag: '--invariant <name=code>',
+      description: 'Lua that must return true (repeatable)',
+      required: false
+    },
+    {
+      flag: '--action <name>',
+      description: 'Only send this action (repeatable)',
+      required: false
+    },
+    {
+      flag: '--out <dir>',
+      description: 'Directory for scenarios of failures (default: scenarios/fuzz)',
+      required: false
+    },
+    {
+      flag: '--json',
+      description: 'Output machine-readable JSON',
+      required: false
+    }
+  ];
+
+  register(program: Command): void {
+    const repeat = (value: string, previous: string[]) => [...previous, value];
+    const cmd = program.command(`${this.name} <process>`)
+      .description(this.description)
+      .option('--runs <n>', 'Runs, each from a fresh process', '50')
+      .option('--length <n>', 'Messages sent in each run', '20')
+      .option('--seed <n>', 'Seed, to repeat a fuzzing session')
+      .option('--invariant <name=code>', 'Lua that must return true (repeatable)', repeat, [])
+      .option('--action <name>', 'Only send this action (repeatable)', repeat, [])
+      .option('--out <dir>', 'Directory for scenarios of failures', 'scenarios/fuzz')
+      .option('--json', 'Output machine-readable JSON')
+      .action(async (name: string, options: any) => {
+        try {
+          await this.execute({ ...options, process: name });
+        } catch (error) {
+          this.logError('Fuzz command failed', error as Error);
+          process.exit(1);
+        }
+      });
+
+    this.addHelpText(cmd);
+  }
+
+  async execute(options: any): Promise<void> {
+    const projectPath = process.cwd();
+    const config = await new ConfigManager(projectPath).loadConfig();
+    const report = await new FuzzManager().run(projectPath, config, options.process, {
+      runs: parseCount(options.runs ?? '50', '--runs'),
+      length: parseCount(options.length ?? '20', '--length'),
+      seed: options.seed === undefined ? undefined : parseSeed(options.seed),
+      invariants: Object.fromEntries((options.invariant || []).map(parseInvariant)),
+      actions: options.action,
+      out: options.out
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      console.log(renderFuzzReport(report));
+    }
+
+    if (report.failure) {
+      throw new ForgeError('Invariant failed', 'INVARIANT_FAILED', {
+        invariant: report.failure.invariant,
+        file: report.failure.file
+      });
+    }
+  }
+
+  protected getHelpText(): string {
+    return `
+Each run spawns the process in the local emulator, owned by alice, and
+sends it random messages from alice, bob and carol (made-up addresses, the
+name padded to 43 characters with _, never a wallet): actions its handlers
+match, with the tags they match and the tags its Lua files read, given
+random quantities, edge values such as -1 or 1e18, and addresses (the
+senders, or $process for the process itself). After the spawn and each
+message, every invariant must return true.
+
+Invariants are Lua expressions, or chunks that return a value, declared
+per process in ao.config.yml or with --invariant:
+
+  fuzz:
+    token:
+      invariants:
+        supply: |
+          local sum = 0
+          for _, balance in pairs(Balances) do sum = sum + balance end
+          return sum == TotalSupply
+        positive: |
+          for _, balance in pairs(Balances) do
+            if balance < 0 then return false end
+          end
+          return true
+      actions: [Transfer, Mint]   # only send these
+
+The first failure stops fuzzing. Its messages are shrunk to the fewest
+that still break the invariant and saved as a scenario with the run's
+seed, which fails until the bug is fixed. Exits 1 when an invariant fails.
+
+Examples:
+  ao-forge fuzz token
+  ao-forge fuzz token --runs 200 --length 50
+  ao-forge fuzz token --invariant "positive=(Balances[Owner] or 0) >= 0"
+  ao-forge fuzz token --seed 42 --json
+  ao-forge scenario run scenarios/fuzz/token-supply-123.yml
+    `;
+  }
+}
@@ -1,10 +1,31 @@
 import { BaseCommand } from './base-command.js';
 import { CommandOption } from '../../types/cli.js';
-import { ProcessManager } from '../managers/process-manager.js';
+import { DEFAULT_CRON_TICK, ProcessManager } from '../managers/process-manager.js';
 import { ConfigManager } from '../managers/config-manager.js';
+import { ProcessError, ValidationError } from '../utils/error-handling.js';
+import { runProcessHost } from '../process/host.js';
+import { runLocalProcess } from '../process/local.js';
+import { RestartOptions, parseRestartPolicy } from '../process/supervisor.js';
+import {
+  NamedProcessDefinition,
+  getDefaultProcessDefinition,
+  getProcessDefinition,
+  getProcessDefinitions,
+  hasProcessDefinitions
+} from '../process/definitions.js';
+import { parseDuration } from '../utils/time.js';
+import { LogEntry, followLog, getLogFile, parseSince, readLogEntries } from '../process/logs.js';
+import { renderInspection, toInspectJSON } from '../process/monitor.js';
+import { parseTag, renderMessageResult } from '../process/message.js';
+import { formatJournalEntry, toJournalCSV } from '../process/journal.js';
+import { renderHealthReport } from '../process/health.js';
+import { renderProfileReport } from '../process/profile.js';
+import { DEFAULT_TRANSPORT, getTransportNames } from '../process/transport.js';
+import { DEFAULT_SNAPSHOT_DEPTH, diffState, formatStatePath, loadSnapshot, renderStateDiff } from '../process/snapshot.js';
 import path from 'path';
 import fs from 'fs-extra';
 import { Command } from 'commander';
+import chalk from 'chalk';
 
 export class ProcessCommand extends BaseCommand {
   name = 'process';
@@ -31,8 +52,8 @@ export class ProcessCommand extends BaseCommand {
       required: false
     },
     {
-      flag: '--wallet <path>',
-      description: 'Path to wallet file',
+      flag: '--wallet <wallet>',
+      description: 'Wallet name or path to a JWK file',
       required: false
     },
     {
@@ -51,26 +72,65 @@ export class ProcessCommand extends BaseCommand {
     const cmd = program.command(this.name).description(this.description);
     
     // Add subcommands
-    cmd.command('start')
+    cmd.command('start [name]')
       .description('Start an AO process')
       .option('-n, --name <name>', 'Process name')
-      .option('--wallet <path>', 'Path to wallet file')
+      .option('-a, --all', 'Start every process defined in ao.config.yml')
+      .option('--wallet <wallet>', 'Wallet name or path to a JWK file')
       .option('--data <data>', 'Process data')
       .option('--module <module>', 'Process module')
-      .action(async (options: any) => {
+      .option('--gateway-url <url>', 'Gateway for aos to use (default: from the network profile)')
+      .option('--cu-url <url>', 'Compute unit for aos to use (default: from the network profile)')
+      .option('--mu-url <url>', 'Messenger unit for aos to use (default: from the network profile)')
+      .option('-d, --detach', 'Run the process in the background')
+      .option('--local', 'Run the process in the local emulator instead of aos, with no network')
+      .option('--restart <policy>', 'Restart policy when aos exits: no, on-failure or always', 'no')
+      .option('--max-restarts <count>', 'Give up after this many consecutive restarts')
+      .option('--backoff [delay]', 'Double the restart delay after each consecutive crash, starting at delay (default 1s)')
+      .action(async (name: string | undefined, options: any) => {
         try {
-          await this.execute({ start: true, ...options });
+          await this.execute({ start: true, ...options, name: name || options.name });
         } catch (error) {
           this.logError('Process command failed', error as Error);
           process.exit(1);
         }
       });
 
-    cmd.command('stop')
+    cmd.command('stop [name]')
       .description('Stop a running AO process')
-      .action(async (options: any) => {
+      .option('-a, --all', 'Stop every running process in this project')
+      .option('--timeout <ms>', 'Time to wait after SIGTERM before sending SIGKILL', '10000')
+      .action(async (name: string | undefined, options: any) => {
+        try {
+          await this.execute({ stop: true, ...options, name });
+        } catch (error) {
+          this.logError('Process command failed', error as Error);
+          process.exit(1);
+        }
+      });
+
+    cmd.command('up [names...]')
+      .description('Start defined processes and their dependencies in dependency order')
+      .option('--timeout <duration>', 'Time to wait for each process to become ready', '60s')
+      .option('--local', 'Run the processes in the local emulator instead of aos, with no network')
+      .option('--restart <policy>', 'Restart policy when aos exits: no, on-failure or always', 'no')
+      .option('--max-restarts <count>', 'Give up after this many consecutive restarts')
+      .option('--backoff [delay]', 'Double the restart delay after each consecutive crash, starting at delay (default 1s)')
+      .action(async (names: string[], options: any) => {
         try {
-          await this.execute({ stop: true, ...options });
+          await this.execute({ up: true, ...options, names });
+        } catch (error) {
+          this.logError('Process command failed', error as Error);
+          process.exit(1);
+        }
+      });
+
+    cmd.command('down [names...]')
+      .description('Stop defined processes, dependents before their dependencies')
+      .option('--timeout <ms>', 'Time to wait after SIGTERM before sending SIGKILL', '10000')
+      .action(async (names: string[], options: any) => {
+        try {
+          await this.execute({ down: true, ...options, names });
         } catch (error) {
           this.logError('Process command failed', error as Error);
           process.exit(1);
@@ -79,6 +139,7 @@ export class ProcessCommand extends BaseCommand {
 
     cmd.command('list')
       .description('List all processes')
+      .option('-a, --all', 'List processes from every project')
       .action(async (options: any) => {
         try {
           await this.execute({ list: true, ...options });
@@ -88,41 +149,292 @@ export class ProcessCommand extends BaseCommand {
         }
       });
 
+    cmd.command('eval <name>')
+      .description('Evaluate Lua code in a running background process')
+      .option('-c, --code <code>', 'Lua code to evaluate')
+      .option('-f, --file <path>', 'Lua file to evaluate')
+      .option('--timeout <duration>', 'Time to wait for output (e.g. 5000, 30s)', '30s')
+      .option('--no-await', 'Send the code without waiting for output')
+      .action(async (name: string, options: any) => {
+        try {
+          await this.execute({ eval: true, ...options, name });
+        } catch (error) {
+          this.logError('Process command failed', error as Error);
+          process.exit(1);
+        }
+      });
+
+    cmd.command('send <target>')
+      .description('Send an AO message to a process')
+      .option('-a, --action <action>', 'Action tag of the message')
+      .option('-t, --tag <name=value>', 'Add a tag (repeatable)', (value: string, previous: string[]) => [...previous, value], [])
+      .option('-d, --data <data>', 'Message data; @path reads a file')
+      .option('-w, --wallet <wallet>', 'Wallet name or path to sign with (default: the wallet in use, then ~/.aos.json)')
+      .option('--await', 'Wait for the result from the compute unit and print it')
+      .option('--timeout <duration>', 'Time to wait for the result (default: 60s)')
+      .option('--transport <name>', `How to deliver the message (${getTransportNames().join(', ')}; default: ${DEFAULT_TRANSPORT})`)
+      .option('--local', 'Hand the message to a fresh local emulator of the process instead of sending it')
+      .option('--profile', 'With --local, report instructions and heap growth by handler')
+      .option('--json', 'Output machine-readable JSON')
+      .action(async (target: string, options: any) => {
+        try {
+          await this.execute({ send: true, ...options, target });
+        } catch (error) {
+          this.logError('Process command failed', error as Error);
+          process.exit(1);
+        }
+      });
+
+    cmd.command('messages <name>')
+      .description('Query the message journal of a process')
+      .option('--direction <direction>', 'Only sent, received or log entries')
+      .option('-a, --action <action>', 'Only messages with this Action')
+      .option('--from <sender>', 'Only messages from this process or wallet')
+      .option('-t, --tag <name=value>', 'Only messages with this tag; * matches anything (repeatable)', (value: string, previous: string[]) => [...previous, value], [])
+      .option('--since <time>', 'Only messages newer than a duration (10m, 2h) or date')
+      .option('--until <time>', 'Only messages older than a duration (10m, 2h) or date')
+      .option('-n, --limit <count>', 'Only the most recent messages')
+      .option('--json', 'Output JSON')
+      .option('--csv', 'Output CSV')
+      .option('-o, --output <file>', 'Write to a file; the format follows --json/--csv or the file extension')
+      .action(async (name: string, options: any) => {
+        try {
+          await this.execute({ messages: true, ...options, name });
+        } catch (error) {
+          this.logError('Process command failed', error as Error);
+          process.exit(1);
+        }
+      });
+
+    cmd.command('health [names...]')
+      .description('Check that processes are alive and responsive; exits non-zero when one is not')
+      .option('--timeout <duration>', 'Time limit per check (default: health.timeout in ao.config.yml, or 10s)')
+      .option('--transport <name>', `How to dry-run info checks (${getTransportNames().join(', ')})`, DEFAULT_TRANSPORT)
+      .option('--json', 'Output a machine-readable report')
+      .action(async (names: string[], options: any) => {
+        try {
+          await this.execute({ health: true, ...options, names });
+        } catch (error) {
+          this.logError('Process command failed', error as Error);
+          process.exit(1);
+        }
+      });
+
+    cmd.command('logs <name>')
+      .description('Show the output of a background process')
+      .option('-f, --follow', 'Keep printing new output as it is written')
+      .option('--since <time>', 'Only show output newer than a duration (10m, 2h) or date')
+      .option('--grep <pattern>', 'Only show lines matching a regular expression')
+      .option('-n, --lines <count>', 'Number of existing lines to show', '100')
+      .action(async (name: string, options: any) => {
+        try {
+          await this.execute({ logs: true, ...options, name });
+        } catch (error) {
+          this.logError('Process command failed', error as Error);
+          process.exit(1);
+        }
+      });
+
+    cmd.command('monitor [name]')
+      .description('Show a live dashboard of background processes')
+      .option('--once', 'Print a single snapshot and exit')
+      .option('--json', 'Output machine-readable JSON')
+      .option('--interval <duration>', 'Refresh interval (e.g. 1000, 2s)', '1s')
+      .action(async (name: string | undefined, options: any) => {
+        try {
+          await this.execute({ monitor: true, ...options, name });
+        } catch (error) {
+          this.logError('Process command failed', error as Error);
+          process.exit(1);
+        }
+      });
+
+    cmd.command('inspect <name>')
+      .description('Show the registry entry, config and live state of a process')
+      .option('--json', 'Output machine-readable JSON')
+      .action(async (name: string, options: any) => {
+        try {
+          await this.execute({ inspect: true, ...options, name });
+        } catch (error) {
+          this.logError('Process command failed', error as Error);
+          process.exit(1);
+        }
+      });
+
+    cmd.command('snapshot <name>')
+      .description('Save the Lua global state of a background process to a snapshot file')
+      .option('--globals <names>', 'Comma-separated globals to capture (default: all but Lua and aos built-ins)')
+      .option('--depth <count>', 'Maximum table nesting to capture', String(DEFAULT_SNAPSHOT_DEPTH))
+      .option('-o, --output <file>', 'Write the snapshot to this file')
+      .option('--timeout <duration>', 'Time to wait for the process (e.g. 30s)', '30s')
+      .action(async (name: string, options: any) => {
+        try {
+          await this.execute({ snapshot: true, ...options, name });
+        } catch (error) {
+          this.logError('Process command failed', error as Error);
+          process.exit(1);
+        }
+      });
+
+    cmd.command('diff <snapA> <snapB>')
+      .description('Show how the state changed between two snapshots')
+      .option('--json', 'Output machine-readable JSON')
+      .action(async (snapA: string, snapB: string, options: any) => {
+        try {
+          await this.execute({ diff: true, ...options, snapA, snapB });
+        } catch (error) {
+          this.logError('Process command failed', error as Error);
+          process.exit(1);
+        }
+      });
+
+    cmd.command('watch [name]')
+      .description('Reload Lua files into a running background process when they change')
+      .option('--debounce <duration>', 'Quiet period before reloading (e.g. 300, 1s)', '300ms')
+      .action(async (name: string | undefined, options: any) => {
+        try {
+          await this.execute({ watch: true, ...options, name });
+        } catch (error) {
+          this.logError('Process command failed', error as Error);
+          process.exit(1);
+        }
+      });
+
+    const cron = cmd.command('cron')
+      .description('Manage scheduled ticks of a process');
+
+    cron.command('add <name> <schedule>')
+      .description('Schedule Lua to run in a process (AO interval like 5-minutes, or a quoted cron expression)')
+      .option('--id <id>', 'Name of the cron job (default: cron-<n>)')
+      .option('--tick <lua>', 'Lua to evaluate on each run', DEFAULT_CRON_TICK)
+      .option('--on-error <lua>', 'Lua to evaluate once retries are exhausted')
+      .option('--max-retries <count>', 'Consecutive failures before the job stops', '3')
+      .option('--preview <count>', 'Number of upcoming run times to show', '5')
+      .option('--dry-run', 'Only preview the run times')
+      .action(async (name: string, schedule: string, options: any) => {
+        try {
+          await this.execute({ cron: 'add', ...options, name, schedule });
+        } catch (error) {
+          this.logError('Process command failed', error as Error);
+          process.exit(1);
+        }
+      });
+
+    cron.command('list [name]')
+      .description('List cron jobs with their next run times')
+      .option('--next <count>', 'Number of upcoming run times to show per job', '3')
+      .option('--json', 'Output machine-readable JSON')
+      .action(async (name: string | undefined, options: any) => {
+        try {
+          await this.execute({ cron: 'list', ...options, name });
+        } catch (error) {
+          this.logError('Process command failed', error as Error);
+          process.exit(1);
+        }
+      });
+
+    for (const [action, description] of [
+      ['remove', 'Delete a cron job'],
+      ['pause', 'Pause a cron job without deleting it'],
+      ['resume', 'Resume a paused cron job']
+    ]) {
+      cron.command(`${action} <name> <id>`)
+        .description(description)
+        .action(async (name: string, id: string) => {
+          try {
+            await this.execute({ cron: action, name, id });
+          } catch (error) {
+            this.logError('Process command failed', error as Error);
+            process.exit(1);
+          }
+        });
+    }
+
+    // Internal: long-lived owner of a detached aos process
+    cmd.command('__host', { hidden: true })
+      .action(async () => {
+        try {
+          await runProcessHost();
+        } catch (error) {
+          this.logError('Process host failed', error as Error);
+          process.exit(1);
+        }
+      });
+
+    // Internal: a process run by the local emulator
+    cmd.command('__local', { hidden: true })
+      .action(async () => {
+        try {
+          await runLocalProcess();
+        } catch (error) {
+          this.logError('Local process failed', error as Error);
+          process.exit(1);
+        }
+      });
+
     // Add help text
     this.addHelpText(cmd);
   }
 
   async execute(options: any): Promise<void> {
-    try {
-      // Determine project path
-      const projectPath = this.determineProjectPath();
-      
-      // Check if project exists
-      if (!(await this.projectExists(projectPath))) {
-        throw new Error('No AO project found. Run "ao-forge init" to create a new project.');
-      }
-      
-      // Load configuration
-      const configManager = new ConfigManager(projectPath);
-      const config = await configManager.loadConfig();
-      
-      // Create process manager
-      const processManager = new ProcessManager();
-      
-      // Execute subcommand
-      if (options.start) {
-        await this.startProcess(processManager, config, options);
-      } else if (options.stop) {
-        await this.stopProcess(processManager, options);
-      } else if (options.list) {
-        await this.listProcesses(processManager);
-      } else {
-        this.showHelp();
-      }
-      
-    } catch (error) {
-      this.logError('Process command failed', error as Error);
-      throw error;
+    // Determine project path
+    const projectPath = this.determineProjectPath();
+    
+    // Check if project exists
+    if (!(await this.projectExists(projectPath))) {
+      throw new Error('No AO project found. Run "ao-forge init" to create a new project.');
+    }
+    
+    // Load configuration
+    const configManager = new ConfigManager(projectPath);
+    const config = await configManager.loadConfig();
+    
+    // Create process manager
+    const processManager = new ProcessManager();
+    
+    // Execute subcommand
+    if (options.start) {
+      await this.startProcess(processManager, config, options);
+    } else if (options.stop) {
+      await this.stopProcess(processManager, projectPath, config, options);
+    } else if (options.eval) {
+      await this.evaluateProcess(processManager, projectPath, options);
+    } else if (options.send) {
+      await this.sendMessage(processManager, projectPath, config, options);
+    } else if (options.messages) {
+      await this.showMessages(processManager, projectPath, options);
+    } else if (options.health) {
+      await this.checkHealth(processManager, projectPath, config, options);
+    } else if (options.logs) {
+      await this.showLogs(projectPath, options);
+    } else if (options.monitor) {
+      await processManager.monitorProcess(options.name, {
+        projectPath,
+        once: options.once,
+        json: options.json,
+        interval: parseDuration(options.interval)
+      });
+    } else if (options.watch) {
+      await processManager.watchProcess(options.name || config.processName || 'my-process', {
+        projectPath,
+        debounce: parseDuration(options.debounce)
+      });
+    } else if (options.cron) {
+      await this.manageCron(processManager, projectPath, options);
+    } else if (options.inspect) {
+      await this.inspectProcess(processManager, projectPath, options);
+    } else if (options.snapshot) {
+      await this.snapshotProcess(processManager, projectPath, options);
+    } else if (options.diff) {
+      await this.diffSnapshots(projectPath, options);
+    } else if (options.up) {
+      await this.upProcesses(processManager, projectPath, config, options);
+    } else if (options.down) {
+      await this.downProcesses(processManager, projectPath, config, options);
+    } else if (options.list) {
+      await this.listProcesses(processManager, projectPath, options);
+    } else {
+      this.showHelp();
     }
   }
 
@@ -142,95 +454,529 @@ export class ProcessCommand extends BaseCommand {
   }
 
   private async startProcess(processManager: ProcessManager, config: any, options: any): Promise<void> {
+    const restart = this.parseRestartOptions(options);
+    const defined = hasProcessDefinitions(config);
+    let definitions: NamedProcessDefinition[] = [];
+    if (defined) {
+      definitions = options.all ? getProcessDefinitions(config)
+        : [options.name ? getProcessDefinition(config, options.name) : getDefaultProcessDefinition(config)];
+      if (definitions.length > 1 && !options.detach) {
+        throw new ValidationError('Starting several processes requires --detach');
+      }
+    }
+    const fallbackName = definitions[0]?.name || options.name || config.processName || 'my-process';
     this.logStart('Starting AO process...');
     
     try {
-      // Check AOS installation
-      const aosInstalled = await processManager.checkAOSInstallation();
+      // Check AOS installation; local processes do not need it
+      const aosInstalled = options.local || await processManager.checkAOSInstallation();
       if (!aosInstalled) {
         this.logError('AOS is not installed');
         this.logInfo('To install AOS, run: npm i -g https://get_ao.g8way.io');
         this.logInfo('Or visit: https://cookbook_ao.arweave.net/guides/aos/');
         this.logInfo('');
         this.logInfo('Once AOS is installed, you can run:');
-        this.logInfo(`  aos ${options.name || config.processName || 'my-process'}`);
+        this.logInfo(`  aos ${fallbackName}`);
         return;
       }
       
-      // Find Lua files
-      const luaFiles = await processManager.findLuaFiles(process.cwd());
-      if (luaFiles.length > 0) {
-        config.luaFiles = luaFiles;
-        this.logInfo(`Found ${luaFiles.length} Lua files: ${luaFiles.join(', ')}`);
+      if (!defined) {
+        // Find Lua files
+        const luaFiles = await processManager.findLuaFiles(process.cwd());
+        if (luaFiles.length > 0) {
+          config.luaFiles = luaFiles;
+          this.logInfo(`Found ${luaFiles.length} Lua files: ${luaFiles.join(', ')}`);
+        }
+        definitions = [{ name: fallbackName, luaFiles: config.luaFiles }];
       }
-      
-      // Process options
-      const processOptions = {
-        name: options.name || config.processName || 'my-process',
-        wallet: options.wallet,
-        data: options.data,
-        module: options.module
-      };
-      
-      await processManager.startAOProcess(process.cwd(), config, processOptions);
-      
-      this.logSuccess('AO process started successfully');
+
+      const failed: string[] = [];
+      for (const definition of definitions) {
+        try {
+          await this.startDefinition(
+            definitions.length > 1 ? new ProcessManager(processManager.getRegistry()) : processManager,
+            defined ? { ...config, luaFiles: definition.luaFiles || [] } : config,
+            definition,
+            options,
+            restart
+          );
+        } catch (error) {
+          // Keep starting the rest; the failures are reported together below
+          if (definitions.length === 1) {
+            throw error;
+          }
+          this.logError(`Failed to start ${definition.name}: ${(error as Error).message}`);
+          failed.push(definition.name);
+        }
+      }
+
+      if (failed.length > 0) {
+        throw new ProcessError(`Failed to start ${failed.length} process(es): ${failed.join(', ')}`);
+      }
+      this.logSuccess(definitions.length > 1 ? `Started ${definitions.length} AO processes` : 'AO process started successfully');
       
     } catch (error) {
-      this.logError('Failed to start AO process', error as Error);
-      this.logInfo('');
       this.logInfo('You can also start AO processes manually:');
-      this.logInfo(`  aos ${options.name || config.processName || 'my-process'}`);
-      if (config.luaFiles && config.luaFiles.length > 0) {
-        this.logInfo(`  aos ${options.name || config.processName || 'my-process'} --load ${config.luaFiles[0]}`);
+      this.logInfo(`  aos ${fallbackName}`);
+      const luaFiles = definitions[0]?.luaFiles || config.luaFiles || [];
+      if (luaFiles.length > 0) {
+        this.logInfo(`  aos ${fallbackName} --load ${luaFiles[0]}`);
       }
       throw error;
     }
   }
 
-  private async stopProcess(processManager: ProcessManager, options: any): Promise<void> {
+  private async startDefinition(
+    processManager: ProcessManager,
+    config: any,
+    definition: NamedProcessDefinition,
+    options: any,
+    restart: RestartOptions | undefined
+  ): Promise<void> {
+    // Flags given on the command line win over the definition
+    const processOptions = {
+      name: definition.name,
+      wallet: options.wallet || definition.wallet,
+      data: options.data,
+      module: options.module || definition.module,
+      gatewayUrl: options.gatewayUrl,
+      cuUrl: options.cuUrl,
+      muUrl: options.muUrl,
+      cron: definition.cron,
+      tags: definition.tags,
+      monitor: definition.monitor,
+      sqlite: definition.sqlite,
+      restart,
+      local: options.local
+    };
+    
+    if (options.detach) {
+      await processManager.startAOProcessBackground(process.cwd(), config, processOptions);
+      this.logInfo(`Stop it with: ao-forge process stop ${processOptions.name}`);
+    } else {
+      await processManager.startAOProcess(process.cwd(), config, processOptions);
+    }
+  }
+
+  private async stopProcess(processManager: ProcessManager, projectPath: string, config: any, options: any): Promise<void> {
     this.logStart('Stopping AO process...');
     
-    try {
-      await processManager.stopProcess();
+    const timeout = parseInt(options.timeout, 10);
+    if (isNaN(timeout) || timeout < 0) {
+      throw new ValidationError(`Invalid timeout: ${options.timeout}`);
+    }
+
+    if (options.all) {
+      const stopped = await processManager.stopAllProcesses(projectPath, { timeout });
+      this.logSuccess(`Stopped ${stopped.length} process(es)`);
+      return;
+    }
+
+    const name = options.name || config.processName || 'my-process';
+    if (await processManager.stopProcessByName(projectPath, name, { timeout })) {
       this.logSuccess('AO process stopped successfully');
-      
-    } catch (error) {
-      this.logError('Failed to stop AO process', error as Error);
-      throw error;
     }
   }
 
-  private async listProcesses(processManager: ProcessManager): Promise<void> {
-    this.logStart('Listing processes...');
-    
-    try {
-      await processManager.listProcesses();
-      
-    } catch (error) {
-      this.logError('Failed to list processes', error as Error);
-      throw error;
+  private async inspectProcess(processManager: ProcessManager, projectPath: string, options: any): Promise<void> {
+    const entry = await processManager.inspectProcess(projectPath, options.name);
+    console.log(options.json ? JSON.stringify(toInspectJSON(entry), null, 2) : renderInspection(entry));
+  }
+
+  private async snapshotProcess(processManager: ProcessManager, projectPath: string, options: any): Promise<void> {
+    const globals = options.globals ? String(options.globals).split(',').map((name: string) => name.trim()).filter(Boolean) : undefined;
+    const depth = this.parseCount(options.depth, 'depth');
+    this.logStart(`Capturing state of ${options.name}...`);
+
+    const { snapshot, filePath } = await processManager.snapshotProcess(projectPath, options.name, {
+      globals,
+      depth,
+      timeout: parseDuration(options.timeout),
+      output: options.output
+    });
+    this.logSuccess(`Saved ${Object.keys(snapshot.globals).length} global(s) to ${path.relative(projectPath, filePath)}`);
+  }
+
+  private async diffSnapshots(projectPath: string, options: any): Promise<void> {
+    const before = await loadSnapshot(projectPath, options.snapA);
+    const after = await loadSnapshot(projectPath, options.snapB);
+    const changes = diffState(before.globals, after.globals);
+
+    if (options.json) {
+      console.log(JSON.stringify(changes.map(change => ({ ...change, path: formatStatePath(change.path) })), null, 2));
+      return;
+    }
+
+    console.log(chalk.gray(`--- ${before.process} at ${before.createdAt}`));
+    console.log(chalk.gray(`+++ ${after.process} at ${after.createdAt}`));
+    console.log(renderStateDiff(changes));
+  }
+
+  private async upProcesses(processManager: ProcessManager, projectPath: string, config: any, options: any): Promise<void> {
+    const restart = this.parseRestartOptions(options);
+    const timeout = parseDuration(options.timeout);
+    this.logStart('Bringing up AO processes...');
+
+    if (!options.local && !(await processManager.checkAOSInstallation())) {
+      throw new ProcessError('AOS is not installed. Install it with: npm i -g https://get_ao.g8way.io');
+    }
+
+    const results = await processManager.upProcesses(projectPath, config, {
+      names: options.names,
+      timeout,
+      restart,
+      local: options.local
+    });
+    for (const result of results) {
+      const state = result.started ? chalk.green('started') : chalk.gray('already running');
+      console.log(`${result.name}  ${result.processId}  ${state}`);
+    }
+    this.logSuccess(`${results.length} AO process(es) up`);
+  }
+
+  private async downProcesses(processManager: ProcessManager, projectPath: string, config: any, options: any): Promise<void> {
+    const timeout = this.parseCount(options.timeout, 'timeout');
+    this.logStart('Stopping AO processes...');
+
+    const stopped = await processManager.downProcesses(projectPath, config, { names: options.names, timeout });
+    this.logSuccess(`Stopped ${stopped.length} process(es)`);
+  }
+
+  private async sendMessage(processManager: ProcessManager, projectPath: string, config: any, options: any): Promise<void> {
+    if (options.local) {
+      const ignored = ['await', 'timeout', 'transport'].filter(flag => options[flag] !== undefined);
+      if (ignored.length > 0) {
+        throw new ValidationError(`--local handles the message right away, without ${ignored.map(flag => `--${flag}`).join(' or ')}`);
+      }
+    } else if (options.profile) {
+      throw new ValidationError('--profile needs --local');
+    }
+    if (!options.json && !options.local) {
+      this.logStart(`Sending message to ${options.target}...`);
+    }
+
+    const message = {
+      target: options.target,
+      action: options.action,
+      tags: options.tag,
+      data: options.data,
+      wallet: options.wallet
+    };
+    const { messageId, target, result, profile } = options.local
+      ? await processManager.sendLocalMessage(projectPath, config, { ...message, profile: options.profile })
+      : {
+        ...await processManager.sendMessage(projectPath, config, {
+          ...message,
+          await: options.await,
+          timeout: options.timeout === undefined ? undefined : parseDuration(options.timeout),
+          transport: options.transport
+        }),
+        profile: undefined
+      };
+
+    if (options.json) {
+      console.log(JSON.stringify({ id: messageId, target, result, profile }, null, 2));
+    } else {
+      this.logSuccess(options.local ? `Message handled locally: ${messageId}` : `Message sent: ${messageId}`);
+      if (result) {
+        console.log(renderMessageResult(result));
+      }
+      if (profile) {
+        console.log('\n' + renderProfileReport(profile));
+      }
+    }
+
+    if (result?.Error) {
+      throw new ProcessError(`The message failed in the ${options.local ? 'local' : 'target'} process`, { messageId, target });
+    }
+    if (profile && !profile.ok) {
+      throw new ProcessError('Handlers went over their budget or baseline', { messageId, target });
     }
   }
 
+  private async evaluateProcess(processManager: ProcessManager, projectPath: string, options: any): Promise<void> {
+    if (!options.code === !options.file) {
+      throw new ValidationError('Provide exactly one of --code or --file');
+    }
+
+    let code = options.code;
+    if (options.file) {
+      const filePath = path.resolve(projectPath, options.file);
+      if (!(await fs.pathExists(filePath))) {
+        throw new ValidationError(`File not found: ${options.file}`);
+      }
+      code = await fs.readFile(filePath, 'utf8');
+    }
+
+    const output = await processManager.evaluateProcess(code, {
+      name: options.name,
+      projectPath,
+      await: options.await,
+      timeout: options.timeout
+    });
+
+    if (output) {
+      console.log(output);
+    }
+  }
+
+  private async manageCron(processManager: ProcessManager, projectPath: string, options: any): Promise<void> {
+    switch (options.cron) {
+      case 'add': {
+        const runs = processManager.previewCron(options.schedule, this.parseCount(options.preview, 'preview count'));
+
+        if (!options.dryRun) {
+          const job = await processManager.setupCron(options.name, options.schedule, {
+            projectPath,
+            id: options.id,
+            tick: options.tick,
+            onError: options.onError,
+            maxRetries: this.parseCount(options.maxRetries, 'retry count')
+          });
+          this.logSuccess(`Added cron job ${job.id} to ${options.name}`);
+        }
+
+        this.logInfo(`Next ${runs.length} run(s) of "${options.schedule}":`);
+        for (const run of runs) {
+          console.log(`  ${run.toLocaleString()}`);
+        }
+        break;
+      }
+      case 'list': {
+        const count = this.parseCount(options.next, 'run count');
+        const jobs = await processManager.listCronJobs(projectPath, options.name);
+        const withRuns = jobs.map(job => ({
+          ...job,
+          nextRuns: job.paused ? [] : processManager.previewCron(job.expression, count).map(run => run.toISOString())
+        }));
+
+        if (options.json) {
+          console.log(JSON.stringify(withRuns, null, 2));
+          break;
+        }
+        if (jobs.length === 0) {
+          this.logInfo('No cron jobs found');
+          break;
+        }
+
+        for (const job of withRuns) {
+          const state = job.paused ? chalk.yellow('paused') : chalk.green('active');
+          console.log(`${job.process}/${job.id}  ${job.expression}  ${state}`);
+          console.log(chalk.gray(`  tick: ${job.tick}`));
+          for (const run of job.nextRuns) {
+            console.log(`  next: ${new Date(run).toLocaleString()}`);
+          }
+        }
+        break;
+      }
+      case 'remove':
+        await processManager.removeCronJob(projectPath, options.name, options.id);
+        this.logSuccess(`Removed cron job ${options.id} from ${options.name}`);
+        break;
+      case 'pause':
+      case 'resume':
+        await processManager.pauseCronJob(projectPath, options.name, options.id, options.cron === 'pause');
+        this.logSuccess(`${options.cron === 'pause' ? 'Paused' : 'Resumed'} cron job ${options.id} of ${options.name}`);
+        break;
+    }
+  }
+
+  private parseRestartOptions(options: any): RestartOptions | undefined {
+    const policy = parseRestartPolicy(options.restart || 'no');
+    if (policy === 'no') {
+      if (options.maxRestarts !== undefined || options.backoff !== undefined) {
+        throw new ValidationError('--max-restarts and --backoff require --restart on-failure or --restart always');
+      }
+      return undefined;
+    }
+
+    return {
+      policy,
+      maxRestarts: options.maxRestarts !== undefined ? this.parseCount(options.maxRestarts, 'restart count') : undefined,
+      // A bare --backoff uses the default base delay
+      backoff: options.backoff === undefined ? undefined : parseDuration(options.backoff === true ? '1s' : options.backoff)
+    };
+  }
+
+  private parseCount(value: string, label: string): number {
+    const count = parseInt(value, 10);
+    if (isNaN(count) || count < 0) {
+      throw new ValidationError(`Invalid ${label}: ${value}`);
+    }
+    return count;
+  }
+
+  private async showMessages(processManager: ProcessManager, projectPath: string, options: any): Promise<void> {
+    if (options.direction && !['sent', 'received', 'log'].includes(options.direction)) {
+      throw new ValidationError(`Invalid direction: ${options.direction}. Use sent, received or log`);
+    }
+    if (options.json && options.csv) {
+      throw new ValidationError('Use either --json or --csv');
+    }
+
+    const entries = await processManager.readMessages(projectPath, options.name, {
+      direction: options.direction,
+      action: options.action,
+      from: options.from,
+      tags: (options.tag || []).map(parseTag),
+      since: options.since ? parseSince(options.since) : undefined,
+      until: options.until ? parseSince(options.until, Date.now(), '--until') : undefined,
+      limit: options.limit !== undefined ? this.parseCount(options.limit, 'limit') : undefined
+    });
+
+    const extension = options.output ? path.extname(options.output).toLowerCase() : '';
+    const format = options.csv || (!options.json && extension === '.csv') ? 'csv'
+      : options.json || options.output ? 'json'
+        : 'text';
+    const text = format === 'csv' ? toJournalCSV(entries)
+      : format === 'json' ? JSON.stringify(entries, null, 2)
+        : entries.map(formatJournalEntry).join('\n');
+
+    if (options.output) {
+      const filePath = path.resolve(projectPath, options.output);
+      await fs.outputFile(filePath, format === 'json' ? `${text}\n` : text);
+      this.logSuccess(`Exported ${entries.length} message(s) to ${path.relative(projectPath, filePath)}`);
+    } else if (format === 'text' && entries.length === 0) {
+      this.logInfo(`No messages found for ${options.name}`);
+    } else {
+      console.log(format === 'csv' ? text.trimEnd() : text);
+    }
+  }
+
+  private async checkHealth(processManager: ProcessManager, projectPath: string, config: any, options: any): Promise<void> {
+    const reports = await processManager.checkHealth(projectPath, config, {
+      names: options.names,
+      timeout: options.timeout ? parseDuration(options.timeout) : undefined,
+      transport: options.transport
+    });
+    const unhealthy = reports.filter(report => !report.healthy);
+
+    if (options.json) {
+      console.log(JSON.stringify({ healthy: unhealthy.length === 0, processes: reports }, null, 2));
+    } else {
+      console.log(reports.map(renderHealthReport).join('\n\n'));
+    }
+
+    if (unhealthy.length > 0) {
+      throw new ProcessError(
+        `${unhealthy.length} of ${reports.length} process(es) unhealthy: ${unhealthy.map(report => report.process).join(', ')}`,
+        { unhealthy: unhealthy.map(report => report.process) }
+      );
+    }
+    if (!options.json) {
+      this.logSuccess(`${reports.length} process(es) healthy`);
+    }
+  }
+
+  private async showLogs(projectPath: string, options: any): Promise<void> {
+    const lines = parseInt(options.lines, 10);
+    if (isNaN(lines) || lines < 0) {
+      throw new ValidationError(`Invalid line count: ${options.lines}`);
+    }
+
+    let grep: RegExp | undefined;
+    if (options.grep) {
+      try {
+        grep = new RegExp(options.grep);
+      } catch {
+        throw new ValidationError(`Invalid --grep pattern: ${options.grep}`);
+      }
+    }
+
+    const query = { since: options.since ? parseSince(options.since) : undefined, grep };
+    const logFile = getLogFile(projectPath, options.name);
+    const entries = await readLogEntries(logFile, query);
+
+    if (entries.length === 0 && !options.follow) {
+      this.logInfo(`No output recorded for process: ${options.name}`);
+      return;
+    }
+
+    for (const entry of lines > 0 ? entries.slice(-lines) : []) {
+      this.printLogEntry(entry);
+    }
+
+    if (options.follow) {
+      let stopped = false;
+      process.once('SIGINT', () => {
+        stopped = true;
+      });
+      await followLog(logFile, query, entry => this.printLogEntry(entry), () => stopped);
+    }
+  }
+
+  private printLogEntry(entry: LogEntry): void {
+    const prefix = chalk.gray(entry.timestamp.toISOString());
+    const message = entry.stream === 'stderr' ? chalk.red(entry.message)
+      : entry.stream === 'host' ? chalk.cyan(entry.message)
+      : entry.message;
+    console.log(`${prefix} ${message}`);
+  }
+
+  private async listProcesses(processManager: ProcessManager, projectPath: string, options: any): Promise<void> {
+    this.logStart('Listing processes...');
+    await processManager.listProcesses(options.all ? undefined : projectPath);
+  }
+
 
   private showHelp(): void {
     this.logInfo('AO Process Management Commands:');
     this.logInfo('');
-    this.logInfo('  ao-forge process start [options]     # Start an AO process');
-    this.logInfo('  ao-forge process stop                # Stop a running process');
-    this.logInfo('  ao-forge process list                # List all processes');
+    this.logInfo('  ao-forge process start [name] [--all] # Start an AO process (or every defined one)');
+    this.logInfo('  ao-forge process stop [name] [--all] # Stop a running process');
+    this.logInfo('  ao-forge process up [names...]       # Start defined processes in dependency order');
+    this.logInfo('  ao-forge process down [names...]     # Stop defined processes in reverse order');
+    this.logInfo('  ao-forge process list [--all]        # List processes for this project (or all projects)');
+    this.logInfo('  ao-forge process eval <name>         # Evaluate Lua in a background process');
+    this.logInfo('  ao-forge process send <target>       # Send an AO message to a process');
+    this.logInfo('  ao-forge process messages <name>     # Query the message journal of a process');
+    this.logInfo('  ao-forge process health [names...]   # Check that processes are alive and responsive');
+    this.logInfo('  ao-forge process logs <name>         # Show output of a background process');
+    this.logInfo('  ao-forge process monitor [name]      # Live dashboard of background processes');
+    this.logInfo('  ao-forge process inspect <name>      # Show config and live state of a process');
+    this.logInfo('  ao-forge process snapshot <name>     # Save the Lua global state to a file');
+    this.logInfo('  ao-forge process diff <snapA> <snapB> # Compare two state snapshots');
+    this.logInfo('  ao-forge process watch [name]        # Hot-reload Lua files on save');
+    this.logInfo('  ao-forge process cron add|list|remove|pause|resume  # Scheduled ticks');
     this.logInfo('');
     this.logInfo('Options:');
     this.logInfo('  -n, --name <name>       Process name');
-    this.logInfo('  --wallet <path>         Path to wallet file');
+    this.logInfo('  -a, --all               Start every process defined under processes: in ao.config.yml');
+    this.logInfo('  --wallet <wallet>       Wallet name or path to a JWK file');
     this.logInfo('  --data <data>           Process data');
     this.logInfo('  --module <module>       Process module');
+    this.logInfo('  --gateway-url <url>     Gateway for aos (also --cu-url, --mu-url)');
+    this.logInfo('  -d, --detach            Run the process in the background');
+    this.logInfo('  --local                 Run in the local emulator instead of aos, with no network');
+    this.logInfo('  --restart <policy>      Restart when aos exits: no, on-failure or always');
+    this.logInfo('  --max-restarts <count>  Give up after this many consecutive restarts');
+    this.logInfo('  --backoff [delay]       Exponential restart delay starting at delay (default 1s)');
     this.logInfo('');
     this.logInfo('Examples:');
     this.logInfo('  ao-forge process start -n my-process');
     this.logInfo('  ao-forge process start --wallet ./keyon');
+    this.logInfo('  ao-forge process start -n token --detach');
+    this.logInfo('  ao-forge process start -n token --local --detach');
+    this.logInfo('  ao-forge process start --all --detach');
+    this.logInfo('  ao-forge process start -n token --detach --restart on-failure --max-restarts 5 --backoff');
+    this.logInfo('  ao-forge process stop token');
+    this.logInfo('  ao-forge process stop --all');
+    this.logInfo('  ao-forge process up');
+    this.logInfo('  ao-forge process down');
     this.logInfo('  ao-forge process list');
+    this.logInfo('  ao-forge process eval token --code "return #Handlers.list"');
+    this.logInfo('  ao-forge process eval token --file ./scripts/seed.lua');
+    this.logInfo('  ao-forge process send token --action Balance --await');
+    this.logInfo('  ao-forge process send token --local --profile --action Transfer');
+    this.logInfo('  ao-forge --network local process up');
+    this.logInfo('  ao-forge process messages token --action Transfer --since 1h');
+    this.logInfo('  ao-forge process health --json');
+    this.logInfo('  ao-forge process logs token --follow --grep Transfer');
+    this.logInfo('  ao-forge process monitor --once --json');
+    this.logInfo('  ao-forge process inspect token --json');
+    this.logInfo('  ao-forge process snapshot token --globals Balances,TotalSupply');
+    this.logInfo('  ao-forge process watch token');
+    this.logInfo('  ao-forge process cron add token "*/5 * * * *"');
     this.logInfo('');
     this.logInfo('Note: For advanced AO process management, use the AOS CLI directly:');
     this.logInfo('  npm i -g https://get_ao.g8way.io');
@@ -242,14 +988,61 @@ export class ProcessCommand extends BaseCommand {
 Manage AO processes including starting, stopping, and listing.
 
 Subcommands:
-  start     Start an AO process
-  stop      Stop a running AO process
-  list      List all processes
+  start     Start an AO process, by name or --all of those defined under processes: in ao.config.yml
+  stop      Stop a running AO process by name (--all for every process)
+  up        Start defined processes in dependsOn order, injecting earlier process IDs
+  down      Stop defined processes, dependents first
+  list      List processes for this project (--all for every project)
+  eval      Evaluate Lua code (--code or --file) in a background process
+  send      Sign and send an AO message (--action, --tag, --data) and optionally --await its result;
+            --local runs it in a fresh emulator of the process instead, --profile reports handler costs
+  messages  Query the journal of sent, received and logged messages; export with --json or --csv
+  health    Run the health checks from ao.config.yml; exits 1 when a process is unhealthy
+  logs      Show output of a background process (--follow, --since, --grep)
+  monitor   Live dashboard of background processes (--once --json for scripts)
+  inspect   Show the registry entry, config and live state of a process (--json)
+  snapshot  Save the Lua global state of a background process to .ao-forge/snapshots
+  diff      Show added, removed and changed state between two snapshots
+  watch     Reload changed Lua files (and files requiring them) into a background process
+  cron      Add, list, remove, pause or resume scheduled ticks (AO intervals or cron expressions)
 
 Examples:
   ao-forge process start -n my-process
   ao-forge process start --wallet ./keyon --data "initial data"
+  ao-forge process start -n token --detach
+  ao-forge process start token --detach
+  ao-forge process start token --local --detach
+  ao-forge process start --all --detach
+  ao-forge process start -n token --detach --restart always --backoff 2s
+  ao-forge process stop token
+  ao-forge process stop --all --timeout 5000
+  ao-forge process up
+  ao-forge process up dex --timeout 2m
+  ao-forge process down
   ao-forge process list
+  ao-forge process list --all
+  ao-forge process eval token --code "return Balances"
+  ao-forge process eval token --file ./scripts/seed.lua --timeout 60s
+  ao-forge process send token --action Transfer --tag Recipient=<address> --tag Quantity=100 --await
+  ao-forge process send <process-id> --action Eval --data @scripts/seed.lua
+  ao-forge --network testnet process send token --action Info --await
+  ao-forge process send token --local --profile --action Transfer --tag Recipient=bob --tag Quantity=10
+  ao-forge process messages token --direction received --tag Recipient=abc*
+  ao-forge process messages token --since 2h --until 1h --csv -o transfers.csv
+  ao-forge process health token --timeout 5s --json
+  ao-forge process logs token --since 10m --grep "Error"
+  ao-forge process logs token --follow
+  ao-forge process monitor
+  ao-forge process monitor token --once --json
+  ao-forge process inspect token
+  ao-forge process snapshot token
+  ao-forge process snapshot token --globals Balances -o before.json
+  ao-forge process diff before.json token/2026-01-01T10-00-00-000Z.json
+  ao-forge process watch token
+  ao-forge process cron add token 5-minutes
+  ao-forge process cron add token "0 9 * * mon-fri" --tick 'Send({ Target = ao.id, Action = "Report" })'
+  ao-forge process cron list token --next 5
+  ao-forge process cron pause token cron-1
 
 Note: For advanced AO process management, use the AOS CLI directly:
   npm i -g https://get_ao.g8way.io
@@ -0,0 +1,102 @@
+import { BaseCommand } from './base-command.js';
+import { CommandOption } from '../../types/cli.js';
+import { ConfigManager } from '../managers/config-manager.js';
+import { ScenarioManager, renderScenarioReport } from '../managers/scenario-manager.js';
+import { ForgeError } from '../utils/error-handling.js';
+import { parseSeed } from '../utils/random.js';
+import { Command } from 'commander';
+
+export class ScenarioCommand extends BaseCommand {
+  name = 'scenario';
+  description = 'Run message scenarios written as YAML';
+  options: CommandOption[] = [
+    {
+      flag: 'run',
+      description: 'Run scenario files and report each step',
+      required: false
+    }
+  ];
+
+  register(program: Command): void {
+    const cmd = program.command(this.name).description(this.description);
+
+    cmd.command('run <files...>')
+      .description('Run scenarios against local emulated processes, or a network with --live')
+      .option('--live', 'Run against the selected network profile (see --network)')
+      .option('--seed <n>', 'Seed for local runs, to repeat one exactly')
+      .option('--json', 'Output machine-readable JSON')
+      .action(async (files: string[], options: any) => {
+        try {
+          await this.execute({ ...options, files });
+        } catch (error) {
+          this.logError('Scenario command failed', error as Error);
+          process.exit(1);
+        }
+      });
+
+    this.addHelpText(cmd);
+  }
+
+  async execute(options: any): Promise<void> {
+    const projectPath = process.cwd();
+    const config = await new ConfigManager(projectPath).loadConfig();
+    const reports = await new ScenarioManager().run(projectPath, config, options.files, {
+      live: options.live,
+      seed: options.seed === undefined ? undefined : parseSeed(options.seed)
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify(reports, null, 2));
+    } else {
+      console.log(renderScenarioReport(reports));
+    }
+
+    const failed = reports.filter(report => !report.ok).length;
+    if (failed > 0) {
+      throw new ForgeError('Scenarios failed', 'SCENARIOS_FAILED', { failed });
+    }
+  }
+
+  protected getHelpText(): string {
+    return `
+A scenario lists steps run in order. Each spawns a process (by its name in
+ao.config.yml, or with luaFiles of its own), sends it a message or
+evaluates Lua in it, and may state what it expects:
+
+  name: transfer
+  steps:
+    - spawn: token
+    - send: token
+      from: alice            # a wallet name or path, else an address
+      action: Transfer
+      tags: { Recipient: bob, Quantity: 10 }
+      expect:
+        messages:
+          - { target: alice, action: Debit-Notice, tags: { Quantity: 10 } }
+        state:
+          Balances.bob: 10
+    - send: token
+      from: bob
+      action: Transfer
+      tags: { Recipient: $token, Quantity: 99 }   # $name is a spawned process's ID
+      expect:
+        error: Insufficient balance
+
+Expectations: error (true, false or text it contains; false by default),
+output (text it contains), messages (each matched by a different outgoing
+message, from any process) and state (Lua expressions and their values).
+Exits 1 when a step fails.
+
+Locally, messages processes send each other are delivered in order before
+the next step, with virtual timestamps. Runs are seeded, so IDs, times and
+math.random repeat with the seed shown in the report (or given by seed:
+in the file, or --seed).
+
+Examples:
+  ao-forge scenario run scenarios/transfer.yml
+  ao-forge scenario run scenarios/*.yml --json
+  ao-forge scenario run scenarios/buy.yml --seed 42
+  ao-forge --network testnet scenario run scenarios/transfer.yml --live
+    `;
+  }
+}
@@ -0,0 +1,163 @@
+import { BaseCommand } from './base-command.js';
+import { CommandOption } from '../../types/cli.js';
+import { ConfigManager } from '../managers/config-manager.js';
+import { LCOV_FILE, TestManager, renderCoverage, renderTestReport } from '../managers/test-manager.js';
+import { renderProfileReport } from '../process/profile.js';
+import { ForgeError, ValidationError } from '../utils/error-handling.js';
+import { logger } from '../utils/logging.js';
+import { Command } from 'commander';
+
+export class TestCommand extends BaseCommand {
+  name = 'test';
+  description = 'Run Lua specs against local emulated processes';
+  options: CommandOption[] = [
+    {
+      flag: '--process <name>',
+      description: 'Process whose Lua files every spec runs against',
+      required: false
+    },
+    {
+      flag: '--grep <text>',
+      description: 'Only run tests whose name contains text',
+      required: false
+    },
+    {
+      flag: '--junit <file>',
+      description: 'Write a JUnit XML report to file',
+      required: false
+    },
+    {
+      flag: '--coverage',
+      description: 'Measure line, branch and handler coverage and write coverage/lcov.info',
+      required: false
+    },
+    {
+      flag: '--coverage-threshold <percent>',
+      description: 'Fail when line or branch coverage is below percent',
+      required: false
+    },
+    {
+      flag: '--profile',
+      description: 'Report instructions and heap growth by handler, checked against budgets and the baseline',
+      required: false
+    },
+    {
+      flag: '--update-baseline',
+      description: 'Profile and save the handler costs as the new baseline',
+      required: false
+    },
+    {
+      flag: '--json',
+      description: 'Output machine-readable JSON',
+      required: false
+    }
+  ];
+
+  register(program: Command): void {
+    const cmd = program.command(`${this.name} [paths...]`)
+      .description(this.description)
+      .option('--process <name>', 'Process whose Lua files every spec runs against')
+      .option('--grep <text>', 'Only run tests whose name contains text')
+      .option('--junit <file>', 'Write a JUnit XML report to file')
+      .option('--coverage', 'Measure line, branch and handler coverage and write coverage/lcov.info')
+      .option('--coverage-threshold <percent>', 'Fail when line or branch coverage is below percent')
+      .option('--profile', 'Report instructions and heap growth by handler, checked against budgets and the baseline')
+      .option('--update-baseline', 'Profile and save the handler costs as the new baseline')
+      .option('--json', 'Output machine-readable JSON')
+      .action(async (paths: string[], options: any) => {
+        try {
+          await this.execute({ ...options, paths });
+        } catch (error) {
+          this.logError('Test command failed', error as Error);
+          process.exit(1);
+        }
+      });
+
+    this.addHelpText(cmd);
+  }
+
+  async execute(options: any): Promise<void> {
+    const coverageThreshold = options.coverageThreshold === undefined ? undefined : Number(options.coverageThreshold);
+    if (coverageThreshold !== undefined && (options.coverageThreshold === '' || !(coverageThreshold >= 0 && coverageThreshold <= 100))) {
+      throw new ValidationError(`Invalid coverage threshold: ${options.coverageThreshold}. Use a percentage from 0 to 100`);
+    }
+    const projectPath = process.cwd();
+    const config = await new ConfigManager(projectPath).loadConfig();
+    const report = await new TestManager().run(projectPath, config, {
+      paths: options.paths,
+      process: options.process,
+      grep: options.grep,
+      junit: options.junit,
+      coverage: options.coverage,
+      coverageThreshold,
+      profile: options.profile,
+      updateBaseline: options.updateBaseline
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else if (report.files.length === 0) {
+      logger.warn('No spec files found (*_spec.lua, *.test.lua)');
+    } else {
+      console.log(renderTestReport(report));
+    }
+    if (report.coverage && !options.json) {
+      console.log('\n' + renderCoverage(report.coverage));
+      logger.info(`LCOV report: ${LCOV_FILE}`);
+    }
+    if (report.profile && !options.json) {
+      console.log('\n' + renderProfileReport(report.profile));
+    }
+
+    if (!report.ok) {
+      throw new ForgeError('Tests failed', 'TESTS_FAILED', { failed: report.failed });
+    }
+    if (report.coverage && !report.coverage.ok) {
+      throw new ForgeError('Coverage below threshold', 'COVERAGE_THRESHOLD', {
+        threshold: coverageThreshold,
+        lines: report.coverage.lines.percent,
+        branches: report.coverage.branches.percent
+      });
+    }
+    if (report.profile && !report.profile.ok) {
+      throw new ForgeError('Handlers went over their budget or baseline', 'PROFILE_BUDGET', {
+        handlers: report.profile.handlers.filter(profile => profile.violations.length > 0).map(profile => profile.handler)
+      });
+    }
+  }
+
+  protected getHelpText(): string {
+    return `
+Runs every *_spec.lua and *.test.lua file in the project, or under the
+given paths, each in a fresh local emulated process with the Lua files of
+the process it is named after (token_spec.lua runs against token) loaded.
+No aos or network is needed. Exits 1 when a test fails.
+
+Specs use describe/it/pending, before_each/after_each, send(msg) and the
+expect helpers: expect.reply(result, tags), expect.ok(result),
+expect.error(result, text), expect.output(result, text),
+expect.state('Balances.bob', 10) and expect.equal(actual, expected).
+
+--coverage counts which lines, if/else arms and Handlers.add handlers of
+the processes' Lua files the specs ran, prints what was missed and writes
+coverage/lcov.info. --coverage-threshold also exits 1 when line or branch
+coverage is below the percentage.
+
+--profile counts the Lua instructions each handler runs per message and
+how much it grows the heap. Handlers over a budget set under profile in
+ao.config.yml, or more than profile.tolerance percent over the baseline,
+fail the run. --update-baseline saves the costs of this run as the
+baseline (profile-baseline.json by default) when every spec passes;
+commit it.
+
+Examples:
+  ao-forge test
+  ao-forge test spec/token_spec.lua --grep Transfer
+  ao-forge test --process token
+  ao-forge test --junit reports/junit.xml
+  ao-forge test --coverage-threshold 80
+  ao-forge test --profile
+  ao-forge test --update-baseline
+    `;
+  }
+}
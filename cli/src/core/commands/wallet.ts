@@ -0,0 +1,210 @@
+import { BaseCommand } from './base-command.js';
+import { CommandOption } from '../../types/cli.js';
+import { ConfigManager } from '../managers/config-manager.js';
+import { WalletInfo, WalletManager } from '../managers/wallet-manager.js';
+import { ValidationError } from '../utils/error-handling.js';
+import { NETWORK_ENV, resolveNetwork } from '../process/network.js';
+import path from 'path';
+import fs from 'fs-extra';
+import { Command } from 'commander';
+import chalk from 'chalk';
+
+export class WalletCommand extends BaseCommand {
+  name = 'wallet';
+  description = 'Manage Arweave wallets';
+  options: CommandOption[] = [
+    {
+      flag: 'create',
+      description: 'Generate a new wallet',
+      required: false
+    },
+    {
+      flag: 'import',
+      description: 'Import a wallet from a JWK file',
+      required: false
+    },
+    {
+      flag: 'list',
+      description: 'List wallets',
+      required: false
+    },
+    {
+      flag: 'use',
+      description: 'Select the wallet of the project or network',
+      required: false
+    },
+    {
+      flag: 'address',
+      description: 'Show the address of a wallet',
+      required: false
+    }
+  ];
+
+  register(program: Command): void {
+    const cmd = program.command(this.name).description(this.description);
+
+    cmd.command('create <name>')
+      .description('Generate a new Arweave wallet (RSA 4096 JWK)')
+      .option('-f, --force', 'Replace a wallet of the same name')
+      .action(async (name: string, options: any) => {
+        await this.run({ create: true, ...options, name });
+      });
+
+    cmd.command('import <name> <file>')
+      .description('Import a wallet from a JWK file, such as ~/.aos.json')
+      .option('-f, --force', 'Replace a wallet of the same name')
+      .action(async (name: string, file: string, options: any) => {
+        await this.run({ import: true, ...options, name, file });
+      });
+
+    cmd.command('list')
+      .description('List wallets with their addresses')
+      .option('--json', 'Output machine-readable JSON')
+      .action(async (options: any) => {
+        await this.run({ list: true, ...options });
+      });
+
+    cmd.command('use <name>')
+      .description('Use a wallet for this project, or for the network given with --network')
+      .action(async (name: string, options: any) => {
+        await this.run({ use: true, ...options, name });
+      });
+
+    cmd.command('address [name]')
+      .description('Show the address of a wallet (default: the one in use)')
+      .action(async (name: string | undefined, options: any) => {
+        await this.run({ address: true, ...options, name });
+      });
+
+    this.addHelpText(cmd);
+  }
+
+  private async run(options: any): Promise<void> {
+    try {
+      await this.execute(options);
+    } catch (error) {
+      this.logError('Wallet command failed', error as Error);
+      process.exit(1);
+    }
+  }
+
+  async execute(options: any): Promise<void> {
+    const projectPath = process.cwd();
+    const walletManager = new WalletManager();
+
+    if (options.create) {
+      const wallet = await walletManager.createWallet(options.name, { force: options.force });
+      this.showWallet(wallet);
+    } else if (options.import) {
+      const wallet = await walletManager.importWallet(options.name, options.file, { force: options.force });
+      this.showWallet(wallet);
+    } else if (options.list) {
+      await this.listWallets(walletManager, projectPath, options);
+    } else if (options.use) {
+      await this.useWallet(walletManager, projectPath, options);
+    } else if (options.address) {
+      await this.showAddress(walletManager, projectPath, options);
+    } else {
+      this.showHelp();
+    }
+  }
+
+  private showWallet(wallet: WalletInfo): void {
+    this.logInfo(`Wallet file: ${wallet.path}`);
+  }
+
+  private async listWallets(walletManager: WalletManager, projectPath: string, options: any): Promise<void> {
+    const wallets = await walletManager.listWallets();
+    const config = await new ConfigManager(projectPath).loadConfig();
+    const selected = await walletManager.getSelectedWallet(projectPath, config);
+    const inUse = (wallet: WalletInfo) => selected?.path === wallet.path;
+
+    if (options.json) {
+      console.log(JSON.stringify(wallets.map(wallet => ({ ...wallet, inUse: inUse(wallet) })), null, 2));
+      return;
+    }
+    if (wallets.length === 0) {
+      this.logInfo('No wallets found. Create one with: ao-forge wallet create <name>');
+      return;
+    }
+
+    const width = Math.max(4, ...wallets.map(wallet => wallet.name.length));
+    console.log(chalk.bold(`  ${'NAME'.padEnd(width)}  ADDRESS`));
+    for (const wallet of wallets) {
+      const marker = inUse(wallet) ? chalk.green('*') : ' ';
+      const warning = wallet.encrypted ? '' : chalk.yellow('  (not encrypted)');
+      console.log(`${marker} ${wallet.name.padEnd(width)}  ${wallet.address}${warning}`);
+    }
+  }
+
+  /**
+   * Record the wallet in ao.config.yml: under the profile named by
+   * --network, otherwise for the whole project.
+   */
+  private async useWallet(walletManager: WalletManager, projectPath: string, options: any): Promise<void> {
+    if (!(await fs.pathExists(path.join(projectPath, 'ao.config.yml')))) {
+      throw new ValidationError('No ao.config.yml found. Run "ao-forge init" or "ao-forge config init" first.');
+    }
+
+    const wallet = await walletManager.getWallet(options.name);
+    const configManager = new ConfigManager(projectPath);
+    const config = await configManager.loadConfig();
+    const networkName = process.env[NETWORK_ENV];
+
+    if (networkName) {
+      resolveNetwork(config, networkName);
+      await configManager.setConfigValue(`networks.${networkName}.wallet`, wallet.name);
+      this.logSuccess(`Using wallet ${wallet.name} (${wallet.address}) on network ${networkName}`);
+    } else {
+      await configManager.setConfigValue('wallet', wallet.name);
+      this.logSuccess(`Using wallet ${wallet.name} (${wallet.address}) for this project`);
+    }
+  }
+
+  private async showAddress(walletManager: WalletManager, projectPath: string, options: any): Promise<void> {
+    if (options.name) {
+      const walletPath = await walletManager.resolveWalletPath(options.name, projectPath);
+      if (!(await fs.pathExists(walletPath))) {
+        throw new ValidationError(`Unknown wallet: ${options.name}. Run "ao-forge wallet list" to see your wallets`);
+      }
+      console.log(await walletManager.getAddress(options.name, projectPath));
+      return;
+    }
+
+    const config = await new ConfigManager(projectPath).loadConfig();
+    const selected = await walletManager.getSelectedWallet(projectPath, config);
+    if (!selected) {
+      throw new ValidationError('No wallet in use. Select one with "ao-forge wallet use <name>"');
+    }
+    console.log(await walletManager.getAddress(selected.wallet, projectPath));
+  }
+
+  private showHelp(): void {
+    this.logInfo('Wallet Commands:');
+    this.logInfo('');
+    this.logInfo('  ao-forge wallet create <name>         # Generate a new wallet');
+    this.logInfo('  ao-forge wallet import <name> <file>  # Import a JWK file');
+    this.logInfo('  ao-forge wallet list                  # List wallets with their addresses');
+    this.logInfo('  ao-forge wallet use <name>            # Use a wallet for this project (or --network)');
+    this.logInfo('  ao-forge wallet address [name]        # Show the address of a wallet');
+  }
+
+  protected getHelpText(): string {
+    return `
+Manage the Arweave wallets that sign AO processes and messages.
+
+Wallets are kept in ~/.ao-forge/wallets. Commands that take --wallet accept
+a wallet name as well as a path to a JWK file. Without --wallet, the wallet
+selected with "wallet use" is used, then the aos wallet in ~/.aos.json.
+
+Examples:
+  ao-forge wallet create dev
+  ao-forge wallet import main ~/.aos.json
+  ao-forge wallet list
+  ao-forge wallet use dev
+  ao-forge --network mainnet wallet use main
+  ao-forge wallet address
+  ao-forge process send token --action Balance --wallet main --await
+    `;
+  }
+}
@@ -0,0 +1,263 @@
+import net from 'net';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs-extra';
+import yaml from 'js-yaml';
+import chalk from 'chalk';
+import { Validator } from '../utils/validation.js';
+import { ValidationError } from '../utils/error-handling.js';
+import { DEFAULT_CONFIG } from './config-manager.js';
+import { WALLET_PASSPHRASE_ENV, WalletManager } from './wallet-manager.js';
+import { getWalletAddress } from '../process/message.js';
+import { APIKeyManager } from '../../ai/api-config.js';
+import { AOConfig } from '../../types/aos.js';
+import { DoctorCheckResult, DoctorReport, DoctorStatus } from '../../types/cli.js';
+
+const MIN_NODE_MAJOR = 18;
+const COMMAND_TIMEOUT = 10000;
+// Arweave only accepts 4096-bit keys
+const WALLET_MODULUS_BYTES = 512;
+const AOS_INSTALL = 'npm i -g https://get_ao.g8way.io';
+
+/** Runs `command args` and resolves with its output, rejecting when it cannot run */
+export type CommandRunner = (command: string, args: string[]) => Promise<string>;
+
+const execFileAsync = promisify(execFile);
+
+export const runCommand: CommandRunner = async (command, args) => {
+  const { stdout, stderr } = await execFileAsync(command, args, {
+    timeout: COMMAND_TIMEOUT,
+    // Package managers are .cmd scripts on Windows
+    shell: process.platform === 'win32'
+  });
+  return `${stdout}${stderr}`.trim();
+};
+
+/**
+ * First version number in a command's output, e.g. "2.0.4" from
+ * "aos 2.0.4" or "v22.1.0".
+ */
+export function parseVersion(output: string): { major: number; version: string } | null {
+  const match = /(\d+)\.(\d+)(?:\.(\d+))?/.exec(output);
+  return match ? { major: parseInt(match[1], 10), version: match[0] } : null;
+}
+
+export function isPortAvailable(port: number): Promise<boolean> {
+  return new Promise(resolve => {
+    const server = net.createServer();
+    server.once('error', () => resolve(false));
+    server.listen(port, () => server.close(() => resolve(true)));
+  });
+}
+
+function pass(name: string, message: string): DoctorCheckResult {
+  return { name, status: 'pass', message };
+}
+
+function warn(name: string, message: string, fix?: string): DoctorCheckResult {
+  return { name, status: 'warn', message, fix };
+}
+
+function fail(name: string, message: string, fix?: string): DoctorCheckResult {
+  return { name, status: 'fail', message, fix };
+}
+
+/**
+ * Diagnoses the environment ao-forge runs in: the tools it calls, the
+ * project's config and what that config refers to. Checks report rather
+ * than throw; a failure means a command will not work, a warning that one
+ * might not.
+ */
+export class DoctorManager {
+  private run: CommandRunner;
+  private wallets: WalletManager;
+  private apiKeys: APIKeyManager;
+
+  constructor(
+    run: CommandRunner = runCommand,
+    wallets: WalletManager = new WalletManager(),
+    apiKeys: APIKeyManager = new APIKeyManager()
+  ) {
+    this.run = run;
+    this.wallets = wallets;
+    this.apiKeys = apiKeys;
+  }
+
+  async diagnose(projectPath: string): Promise<DoctorReport> {
+    const { config, result: configResult } = await this.checkConfig(projectPath);
+    const aos = await this.checkAOS(config);
+
+    const checks = [
+      this.checkNode(),
+      await this.checkCommand('git', 'git', 'Install git from https://git-scm.com'),
+      await this.checkCommand(
+        `Package manager`,
+        config.packageManager,
+        `Install ${config.packageManager}, or set packageManager in ao.config.yml`
+      ),
+      ...aos,
+      configResult,
+      await this.checkAIKey(config),
+      await this.checkWallet(projectPath, config),
+      await this.checkDevPort(config)
+    ];
+
+    return { ok: checks.every(check => check.status !== 'fail'), checks };
+  }
+
+  checkNode(version: string = process.versions.node): DoctorCheckResult {
+    const major = parseVersion(version)?.major ?? 0;
+    return major >= MIN_NODE_MAJOR
+      ? pass('Node.js', `v${version}`)
+      : fail('Node.js', `v${version} is older than ${MIN_NODE_MAJOR}`, `Install Node.js ${MIN_NODE_MAJOR} or later from https://nodejs.org`);
+  }
+
+  private async checkCommand(name: string, command: string, fix: string): Promise<DoctorCheckResult> {
+    try {
+      const version = parseVersion(await this.run(command, ['--version']));
+      return pass(name, `${command} ${version?.version ?? '(unknown version)'}`);
+    } catch {
+      return name === 'git' ? warn(name, 'git not found', fix) : fail(name, `${command} not found`, fix);
+    }
+  }
+
+  /**
+   * aos must be installed, and its major version must be the one the
+   * project's Lua targets.
+   */
+  async checkAOS(config: AOConfig): Promise<DoctorCheckResult[]> {
+    let output: string;
+    try {
+      output = await this.run('aos', ['--version']);
+    } catch {
+      return [
+        fail('aos', 'aos not found', `Install aos: ${AOS_INSTALL}`),
+        warn('aos version', 'Skipped, aos is not installed')
+      ];
+    }
+
+    const version = parseVersion(output);
+    const expected = config.aos?.version || '2.x';
+    const installed = pass('aos', `aos ${version?.version ?? '(unknown version)'}`);
+    if (!version) {
+      return [installed, warn('aos version', `Could not read the aos version from "${output}"`)];
+    }
+    if (`${version.major}.x` !== expected) {
+      return [installed, fail(
+        'aos version',
+        `aos ${version.version} does not match aos.version ${expected}`,
+        `Install aos ${expected} or set aos.version: '${version.major}.x' in ao.config.yml`
+      )];
+    }
+    return [installed, pass('aos version', `Matches aos.version ${expected}`)];
+  }
+
+  /**
+   * Validate ao.config.yml as it is on disk; loading it through
+   * ConfigManager would fall back to the defaults.
+   */
+  async checkConfig(projectPath: string): Promise<{ config: AOConfig; result: DoctorCheckResult }> {
+    const configPath = path.join(projectPath, 'ao.config.yml');
+    if (!(await fs.pathExists(configPath))) {
+      return {
+        config: DEFAULT_CONFIG,
+        result: warn('Config', 'No ao.config.yml in this directory', 'Run "ao-forge init" or "ao-forge config init"')
+      };
+    }
+
+    try {
+      const config = Validator.validateConfig(yaml.load(await fs.readFile(configPath, 'utf8')) || {});
+      return { config: { ...DEFAULT_CONFIG, ...config }, result: pass('Config', 'ao.config.yml is valid') };
+    } catch (error) {
+      const details = error instanceof ValidationError && Array.isArray(error.details) ? error.details.join('; ') : (error as Error).message;
+      return {
+        config: DEFAULT_CONFIG,
+        result: fail('Config', `ao.config.yml is invalid: ${details}`, 'Fix the file, or check it with "ao-forge config validate"')
+      };
+    }
+  }
+
+  async checkAIKey(config: AOConfig): Promise<DoctorCheckResult> {
+    const provider = config.ai?.provider || 'openai';
+    const variable = provider === 'anthropic' ? 'ANTHROPIC_API_KEY' : 'OPENAI_API_KEY';
+    if (process.env[variable] || config.ai?.apiKey) {
+      return pass('AI key', `${provider} key found`);
+    }
+    // Keys the ai commands prompted for and saved
+    if ((await this.apiKeys.loadConfig())[provider]) {
+      return pass('AI key', `${provider} key saved in ~/.ao-config`);
+    }
+
+    const other = provider === 'anthropic' ? 'OPENAI_API_KEY' : 'ANTHROPIC_API_KEY';
+    if (process.env[other]) {
+      return warn('AI key', `No ${provider} key, but ${other} is set`, `Set ${variable}, or set ai.provider in ao.config.yml`);
+    }
+    return warn('AI key', `No ${provider} key; ao-forge ai commands will not work`, `Set ${variable}`);
+  }
+
+  async checkWallet(projectPath: string, config: AOConfig): Promise<DoctorCheckResult> {
+    const name = 'Wallet';
+    let selected;
+    try {
+      selected = await this.wallets.getSelectedWallet(projectPath, config);
+    } catch (error) {
+      return fail(name, (error as Error).message, 'Fix network or wallet in ao.config.yml');
+    }
+    if (!selected) {
+      return warn(name, 'No wallet configured; aos will create ~/.aos.json', 'Run "ao-forge wallet create <name>" and "ao-forge wallet use <name>"');
+    }
+
+    try {
+      if (await this.wallets.hasWallet(selected.wallet)) {
+        const wallet = await this.wallets.getWallet(selected.wallet);
+        if (!wallet.encrypted) {
+          return warn(name, `${wallet.name} (${wallet.address}) is not encrypted`,
+            `Run "ao-forge wallet import ${wallet.name} ${wallet.path} --force"`);
+        }
+        if (process.env[WALLET_PASSPHRASE_ENV] !== undefined) {
+          // Proves the passphrase CI will use
+          await this.wallets.loadWallet(wallet.name, projectPath);
+          return pass(name, `${wallet.name} (${wallet.address}) unlocks with ${WALLET_PASSPHRASE_ENV}`);
+        }
+        return pass(name, `${wallet.name} (${wallet.address}), encrypted`);
+      }
+
+      const jwk = await this.wallets.loadWallet(selected.path, projectPath);
+      if (Buffer.from(jwk.n, 'base64url').length !== WALLET_MODULUS_BYTES) {
+        return fail(name, `${selected.wallet} is not a 4096-bit key, which Arweave requires`, 'Run "ao-forge wallet create <name>"');
+      }
+      return pass(name, `${selected.wallet} (${getWalletAddress(jwk)})`);
+    } catch (error) {
+      return fail(name, (error as Error).message, 'Check the wallet with "ao-forge wallet list"');
+    }
+  }
+
+  async checkDevPort(config: AOConfig): Promise<DoctorCheckResult> {
+    const port = config.ports?.dev ?? 3000;
+    return (await isPortAvailable(port))
+      ? pass('Dev port', `${port} is free`)
+      : warn('Dev port', `${port} is in use`, 'Stop what is using it, or set ports.dev in ao.config.yml');
+  }
+}
+
+const STATUS_SYMBOLS: Record<DoctorStatus, string> = {
+  pass: chalk.green('✓'),
+  warn: chalk.yellow('!'),
+  fail: chalk.red('✗')
+};
+
+export function renderDoctorReport(report: DoctorReport): string {
+  const width = Math.max(...report.checks.map(check => check.name.length));
+  const lines: string[] = [];
+  for (const check of report.checks) {
+    lines.push(`  ${STATUS_SYMBOLS[check.status]} ${check.name.padEnd(width)}  ${check.message}`);
+    if (check.fix && check.status !== 'pass') {
+      lines.push(chalk.gray(`    ${' '.repeat(width)}  Fix: ${check.fix}`));
+    }
+  }
+
+  const count = (status: DoctorStatus) => report.checks.filter(check => check.status === status).length;
+  lines.push('', `${count('pass')} passed, ${count('warn')} warning(s), ${count('fail')} failed`);
+  return lines.join('\n');
+}
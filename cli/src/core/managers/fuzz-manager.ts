@@ -0,0 +1,287 @@
+import path from 'path';
+import fs from 'fs-extra';
+import chalk from 'chalk';
+import yaml from 'js-yaml';
+import { logger } from '../utils/logging.js';
+import { ProcessError, ValidationError } from '../utils/error-handling.js';
+import { createRandom, createSeed } from '../utils/random.js';
+import { AOEmulator } from '../process/emulator.js';
+import { getProcessDefinition } from '../process/definitions.js';
+import {
+  FUZZ_SENDERS,
+  FuzzModel,
+  createMessage,
+  discoverHandlers,
+  findTagNames,
+  shrinkMessages,
+  toInvariantExpression
+} from '../process/fuzz.js';
+import { LocalScenarioBackend } from './scenario-manager.js';
+import { AOConfig } from '../../types/aos.js';
+import { FuzzMessage, FuzzReport, InvariantFailure } from '../../types/fuzz.js';
+import { ScenarioStep } from '../../types/scenario.js';
+
+export interface FuzzOptions {
+  /** Runs, each from a fresh process */
+  runs?: number;
+  /** Messages sent in each run */
+  length?: number;
+  seed?: number;
+  /** Added to those in ao.config.yml, by name */
+  invariants?: Record<string, string>;
+  /** Only send these actions, instead of those the handlers take */
+  actions?: string[];
+  /** Directory for scenarios of failures, relative to the project */
+  out?: string;
+}
+
+/** What a replay of messages did, up to the first broken invariant */
+interface Replay {
+  /** Messages sent, up to the failure */
+  messages: FuzzMessage[];
+  /** Whether each message raised an error */
+  errors: boolean[];
+  failure?: InvariantFailure;
+}
+
+const DEFAULT_RUNS = 50;
+const DEFAULT_LENGTH = 20;
+const DEFAULT_OUT = 'scenarios/fuzz';
+
+/**
+ * Sends random messages to an emulated process and checks its invariants,
+ * Lua expressions that must return true, after spawning it and after each
+ * message. The first failure is shrunk to the fewest messages that still
+ * break the invariant and saved as a scenario replaying it.
+ */
+export class FuzzManager {
+  async run(projectPath: string, config: AOConfig, name: string, options: FuzzOptions = {}): Promise<FuzzReport> {
+    const startTime = Date.now();
+    const definition = getProcessDefinition(config, name);
+    const fuzzConfig = config.fuzz?.[name];
+    const invariants = Object.fromEntries(
+      Object.entries({ ...fuzzConfig?.invariants, ...options.invariants }).map(([invariant, code]) => [invariant, code.trim()])
+    );
+    if (Object.keys(invariants).length === 0) {
+      throw new ValidationError(`No invariants to check for ${name}. Add them under fuzz.${name}.invariants in ao.config.yml, or pass --invariant name=code`);
+    }
+
+    const { model, skippedHandlers, expressions } = await this.createModel(
+      projectPath,
+      name,
+      definition.luaFiles || [],
+      invariants,
+      options.actions?.length ? options.actions : fuzzConfig?.actions || []
+    );
+    if (model.actions.length === 0) {
+      throw new ValidationError(`No handler of ${name} matches messages by Action. Name actions to send with --action`);
+    }
+
+    const seed = options.seed ?? createSeed();
+    const random = createRandom(seed);
+    const runs = options.runs ?? DEFAULT_RUNS;
+    const length = options.length ?? DEFAULT_LENGTH;
+    const report: FuzzReport = {
+      process: name,
+      seed,
+      runs: 0,
+      messages: 0,
+      actions: model.actions.map(entry => entry.action),
+      skippedHandlers,
+      invariants: Object.keys(invariants),
+      ok: true,
+      duration: 0
+    };
+
+    for (let run = 0; run < runs && report.ok; run++) {
+      const runSeed = Math.floor(random() * 0x100000000);
+      const messages = Array.from({ length }, () => createMessage(random, model));
+      logger.debug(`Fuzz run ${run + 1} with seed ${runSeed}`);
+      const replay = await this.replay(projectPath, config, name, runSeed, messages, expressions);
+      report.runs++;
+      report.messages += replay.messages.length;
+      if (!replay.failure) {
+        continue;
+      }
+
+      const { invariant } = replay.failure;
+      const shrunk = await shrinkMessages(replay.messages, async candidate => {
+        const attempt = await this.replay(projectPath, config, name, runSeed, candidate, expressions);
+        return attempt.failure?.invariant === invariant ? attempt.messages : null;
+      });
+      const final = await this.replay(projectPath, config, name, runSeed, shrunk, expressions);
+      const failure = final.failure?.invariant === invariant ? final : replay;
+      const file = await this.saveScenario(projectPath, options.out ?? DEFAULT_OUT, name, runSeed, failure, invariants[invariant], expressions[invariant]);
+
+      report.ok = false;
+      report.failure = {
+        ...failure.failure!,
+        seed: runSeed,
+        sent: replay.messages.length,
+        messages: failure.messages,
+        file
+      };
+    }
+
+    report.duration = Date.now() - startTime;
+    return report;
+  }
+
+  // Learn the actions and tags of the process from its handlers and source
+  private async createModel(
+    projectPath: string,
+    name: string,
+    luaFiles: string[],
+    invariants: Record<string, string>,
+    actions: string[]
+  ): Promise<{ model: FuzzModel; skippedHandlers: string[]; expressions: Record<string, string> }> {
+    const emulator = await AOEmulator.create({ projectPath, name, owner: FUZZ_SENDERS[0] });
+    try {
+      for (const file of luaFiles) {
+        const result = emulator.load(file);
+        if (result.Error) {
+          throw new ProcessError(`Could not load ${file} into ${name}: ${result.Error}`);
+        }
+      }
+      const handlers = discoverHandlers(emulator);
+      const discovered = handlers.filter(handler => handler.action);
+      const expressions = Object.fromEntries(
+        Object.entries(invariants).map(([invariant, code]) => [invariant, toInvariantExpression(emulator, code)])
+      );
+
+      const sources = await Promise.all(luaFiles.map(file => fs.readFile(path.resolve(projectPath, file), 'utf8')));
+      return {
+        model: {
+          actions: actions.length > 0
+            ? actions.map(action => ({ action, tags: discovered.find(handler => handler.action === action)?.tags || {} }))
+            : discovered.map(handler => ({ action: handler.action!, tags: handler.tags })),
+          tagNames: [...new Set(sources.flatMap(findTagNames))].sort(),
+          addresses: [...FUZZ_SENDERS, `$${name}`]
+        },
+        skippedHandlers: handlers.filter(handler => !handler.action).map(handler => handler.name),
+        expressions
+      };
+    } finally {
+      emulator.close();
+    }
+  }
+
+  // Send messages to a fresh process until an invariant fails
+  private async replay(
+    projectPath: string,
+    config: AOConfig,
+    name: string,
+    seed: number,
+    messages: FuzzMessage[],
+    expressions: Record<string, string>
+  ): Promise<Replay> {
+    const backend = new LocalScenarioBackend(projectPath, config, seed);
+    const replay: Replay = { messages: [], errors: [] };
+    try {
+      const { processId, result } = await backend.spawn(name, { owner: FUZZ_SENDERS[0] });
+      if (result.Error) {
+        throw new ProcessError(`Could not load ${name}: ${result.Error}`);
+      }
+      const resolve = (value: string) => value === `$${name}` ? processId : value;
+
+      replay.failure = await this.checkInvariants(backend, name, expressions);
+      for (const message of messages) {
+        if (replay.failure) {
+          break;
+        }
+        const sent = await backend.send(name, {
+          from: message.from,
+          tags: [
+            { name: 'Action', value: message.action },
+            ...Object.entries(message.tags).map(([tag, value]) => ({ name: tag, value: resolve(value) }))
+          ]
+        });
+        replay.messages.push(message);
+        replay.errors.push(Boolean(sent.Error));
+        replay.failure = await this.checkInvariants(backend, name, expressions);
+      }
+      return replay;
+    } finally {
+      await backend.close();
+    }
+  }
+
+  private async checkInvariants(backend: LocalScenarioBackend, name: string, expressions: Record<string, string>): Promise<InvariantFailure | undefined> {
+    for (const [invariant, expression] of Object.entries(expressions)) {
+      try {
+        const value = await backend.readState(name, expression);
+        if (value !== true) {
+          return { invariant, reason: `returned ${value === null ? 'nil' : JSON.stringify(value)}` };
+        }
+      } catch (error) {
+        return { invariant, reason: `raised: ${(error as Error).message}` };
+      }
+    }
+    return undefined;
+  }
+
+  // Write a scenario that sends the messages, then asserts the invariant
+  private async saveScenario(
+    projectPath: string,
+    out: string,
+    name: string,
+    seed: number,
+    replay: Replay,
+    code: string,
+    expression: string
+  ): Promise<string> {
+    const { invariant, reason } = replay.failure!;
+    const steps: ScenarioStep[] = [
+      { spawn: name, owner: FUZZ_SENDERS[0] },
+      ...replay.messages.map((message, index): ScenarioStep => ({
+        send: name,
+        from: message.from,
+        action: message.action,
+        tags: message.tags,
+        ...(replay.errors[index] && { expect: { error: true } })
+      })),
+      { eval: name, code: `assert(${expression} == true, ${JSON.stringify(`Invariant ${invariant} does not hold`)})` }
+    ];
+    const file = path.join(out, `${name}-${invariant.replace(/[^A-Za-z0-9_-]/g, '-')}-${seed}.yml`);
+    const header = [
+      `# Found by ao-forge fuzz ${name}: invariant ${invariant} ${reason.split('\n')[0]}`,
+      ...code.split('\n').map(line => `#   ${line}`),
+      `# Replay with: ao-forge scenario run ${file}`
+    ].join('\n');
+
+    await fs.outputFile(
+      path.resolve(projectPath, file),
+      `${header}\n${yaml.dump({ name: `fuzz ${name} ${invariant}`, seed, steps }, { lineWidth: -1 })}`
+    );
+    logger.debug(`Saved the failing messages to ${file}`);
+    return file;
+  }
+}
+
+function formatMessage(message: FuzzMessage): string {
+  const tags = Object.entries(message.tags).map(([tag, value]) => `${tag}=${JSON.stringify(value)}`);
+  return `${message.action} from ${message.from}${tags.length > 0 ? ` ${tags.join(' ')}` : ''}`;
+}
+
+export function renderFuzzReport(report: FuzzReport): string {
+  const lines = [
+    `${chalk.bold(`Fuzzed ${report.process}`)} ${chalk.gray(`(seed ${report.seed})`)}`,
+    `  Actions: ${report.actions.join(', ')}`,
+    `  Invariants: ${report.invariants.join(', ')}`
+  ];
+  if (report.skippedHandlers.length > 0) {
+    lines.push(chalk.gray(`  Not fuzzed (no Action in their pattern): ${report.skippedHandlers.join(', ')}`));
+  }
+  lines.push(`  ${report.runs} run(s), ${report.messages} message(s) in ${report.duration}ms`, '');
+
+  const failure = report.failure;
+  if (!failure) {
+    lines.push(chalk.green('  ✓ All invariants held'));
+    return lines.join('\n');
+  }
+  lines.push(chalk.red(`  ✗ Invariant ${failure.invariant} ${failure.reason}`));
+  lines.push(chalk.gray(`    after ${failure.sent} message(s), shrunk to ${failure.messages.length}:`));
+  failure.messages.forEach((message, index) => lines.push(`    ${index + 1}. ${formatMessage(message)}`));
+  lines.push('', `  Saved to ${failure.file}`, chalk.gray(`  Replay with: ao-forge scenario run ${failure.file}`));
+  return lines.join('\n');
+}
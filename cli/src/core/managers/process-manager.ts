@@ -1,11 +1,49 @@
 import { spawn, ChildProcess } from 'child_process';
+import os from 'os';
 import path from 'path';
 import fs from 'fs-extra';
-import os from 'os';
+import chalk from 'chalk';
 import { logger } from '../utils/logging.js';
-import { ErrorHandler } from '../utils/error-handling.js';
+import { ErrorHandler, ProcessError, ValidationError } from '../utils/error-handling.js';
 import { Validator } from '../utils/validation.js';
-import { AOConfig, ProcessInfo, ProcessState } from '../../types/aos.js';
+import { ProcessRegistry } from '../process/registry.js';
+import { DEFAULT_STOP_TIMEOUT, signalProcessGroup, terminateProcess } from '../process/signals.js';
+import { ProcessBridge, getSocketPath } from '../process/bridge.js';
+import { HOST_SPEC_ENV, HostSpec, getCLIEntry } from '../process/host.js';
+import { getLogFile } from '../process/logs.js';
+import { LuaWatcher } from '../process/watcher.js';
+import { Schedule } from '../process/schedule.js';
+import { formatRestartDelay, RestartDecision, RestartOptions, RestartTracker } from '../process/supervisor.js';
+import { CronStore } from '../process/cron.js';
+import { NamedProcessDefinition, getProcessDefinition, getProcessDefinitions } from '../process/definitions.js';
+import {
+  PROCESS_ID_PROBE,
+  getInjectedTags,
+  orderProcessDefinitions,
+  parseProcessId,
+  withDependencies,
+  withDependents,
+  writeInjectedGlobals
+} from '../process/group.js';
+import { MonitorEntry, collectMonitorEntries, renderDashboard, toMonitorJSON } from '../process/monitor.js';
+import { SNAPSHOT_VERSION, buildSnapshotScript, parseSnapshotOutput, saveSnapshot } from '../process/snapshot.js';
+import { buildMessage, getWalletAddress, isProcessId, readMessageData } from '../process/message.js';
+import { DEFAULT_TRANSPORT, MessageTransport, createTransport } from '../process/transport.js';
+import { getHealthConfig, runHealthChecks } from '../process/health.js';
+import { JournalQuery, MessageJournal, createOutputEntry, getJournalFile, readJournal } from '../process/journal.js';
+import { getSpawnTarget, resolveNetwork } from '../process/network.js';
+import { LOCAL_SPEC_ENV, LocalProcessSpec, LocalProcessTransport } from '../process/local.js';
+import { AOEmulator, createLocalId } from '../process/emulator.js';
+import { Profiler, createProfileReport } from '../process/profile.js';
+import { bundleLua } from '../process/lua.js';
+import { WalletManager, getConfiguredWallet, removeStaleWalletFiles } from './wallet-manager.js';
+import { parseDuration, sleep } from '../utils/time.js';
+import { getNextRuns } from '../utils/cron.js';
+import { AOConfig, CronJob, HealthReport, JWK, JournalEntry, MessageResult, ProcessInfo, ProcessState, StateSnapshot } from '../../types/aos.js';
+import { ProfileReport } from '../../types/cli.js';
+
+export { Schedule } from '../process/schedule.js';
+export type { ScheduleOptions } from '../process/schedule.js';
 
 export interface ProcessOptions {
   name?: string;
@@ -13,6 +51,7 @@ export interface ProcessOptions {
   data?: string;
   tagName?: string;
   tagValue?: string;
+  tags?: Record<string, string>;
   module?: string;
   cron?: string;
   monitor?: boolean;
@@ -20,103 +59,188 @@ export interface ProcessOptions {
   gatewayUrl?: string;
   cuUrl?: string;
   muUrl?: string;
+  /** Scheduler new processes are assigned to */
+  scheduler?: string;
+  restart?: RestartOptions;
+  /** Lua files loaded before the project's own, e.g. injected globals */
+  preload?: string[];
+  /** Run in the local emulator instead of aos, with no network */
+  local?: boolean;
+}
+
+/** What runs a process: aos, or the CLI itself for a local process */
+interface ProcessCommand {
+  command: string;
+  args: string[];
+  env: Record<string, string>;
+  local?: LocalProcessSpec;
+}
+
+const HOST_START_TIMEOUT = 15000;
+const DEFAULT_READY_TIMEOUT = 60000;
+const DEFAULT_MONITOR_INTERVAL = 1000;
+const DEFAULT_RESULT_TIMEOUT = 60000;
+// A process just spawned may not be known to the messenger unit yet
+const DEPLOY_SEND_RETRIES = 5;
+const DEPLOY_RETRY_DELAY = 2000;
+// What AO's own cron does: deliver a Cron message to the process's handlers
+export const DEFAULT_CRON_TICK = 'Send({ Target = ao.id, Action = "Cron" })';
+
+export interface EvaluateProcessOptions {
+  await?: boolean;
+  timeout?: string;
+  name?: string;
+  projectPath?: string;
 }
 
-export interface ScheduleOptions {
+export interface MonitorOptions {
+  projectPath?: string;
+  once?: boolean;
+  json?: boolean;
   interval?: number;
+}
+
+export interface WatchOptions {
+  projectPath?: string;
+  luaFiles?: string[];
+  debounce?: number;
+}
+
+export interface CronOptions {
+  projectPath?: string;
+  id?: string;
   tick?: string;
-  maxRetries?: number;
   onError?: string;
+  maxRetries?: number;
 }
 
-export class Schedule {
-  private processName: string;
-  private options: Required<ScheduleOptions>;
-  private timer: ReturnType<typeof setInterval> | null = null;
-  private retryCount: number = 0;
-  private processManager: ProcessManager;
-
-  constructor(processName: string, options: ScheduleOptions = {}, processManager: ProcessManager) {
-    this.processName = processName;
-    this.processManager = processManager;
-    this.options = {
-      interval: options.interval || 1000,
-      tick: options.tick || 'tick',
-      maxRetries: options.maxRetries || 3,
-      onError: options.onError || 'handleError'
-    };
-  }
+export interface StopOptions {
+  timeout?: number;
+}
 
-  async start(): Promise<void> {
-    if (this.timer) {
-      throw new Error('Scheduler already running');
-    }
+export interface SnapshotOptions {
+  /** Only capture these globals */
+  globals?: string[];
+  depth?: number;
+  timeout?: number;
+  /** File to write instead of the project's snapshot directory */
+  output?: string;
+}
 
-    logger.info(`Starting scheduler for process: ${this.processName}`);
+export interface UpOptions {
+  /** Defined processes to start along with their dependencies; all when empty */
+  names?: string[];
+  /** Time to wait for each process to report its ID */
+  timeout?: number;
+  restart?: RestartOptions;
+  /** Start processes in the local emulator */
+  local?: boolean;
+}
 
-    this.timer = setInterval(async () => {
-      try {
-        await this.processManager.evaluateProcess(
-          this.options.tick,
-          { await: true, timeout: this.options.interval.toString() }
-        );
-        this.retryCount = 0;
-      } catch (error) {
-        logger.error(`Error in scheduler for ${this.processName}:`, error as Error);
-        this.retryCount++;
-
-        if (this.retryCount >= this.options.maxRetries) {
-          logger.error(`Max retries (${this.options.maxRetries}) reached, stopping scheduler`);
-          await this.stop();
-          
-          try {
-            await this.processManager.evaluateProcess(this.options.onError);
-          } catch (errorHandlerError) {
-            logger.error('Error handler failed:', errorHandlerError as Error);
-          }
-        }
-      }
-    }, this.options.interval);
-  }
+export interface DownOptions extends StopOptions {
+  /** Defined processes to stop along with their dependents; all when empty */
+  names?: string[];
+}
 
-  async stop(): Promise<void> {
-    if (this.timer) {
-      clearInterval(this.timer);
-      this.timer = null;
-      this.retryCount = 0;
-      logger.info(`Scheduler stopped for process: ${this.processName}`);
-    }
-  }
+export interface SendOptions {
+  /** Process ID, or the name of a process in this project that reported its ID */
+  target: string;
+  action?: string;
+  /** `Name=Value` pairs */
+  tags?: string[];
+  /** Message data; `@path` reads a file */
+  data?: string;
+  /** Wallet name or JWK path to sign with instead of the configured wallet */
+  wallet?: string;
+  /** Wait for the result from the compute unit */
+  await?: boolean;
+  timeout?: number;
+  /** Registered transport name or instance; aoconnect by default */
+  transport?: string | MessageTransport;
+}
 
-  isRunning(): boolean {
-    return this.timer !== null;
-  }
+export interface SendResult {
+  messageId: string;
+  target: string;
+  result?: MessageResult;
+}
+
+export interface LocalSendOptions {
+  /** Name of a process defined in this project */
+  target: string;
+  action?: string;
+  /** `Name=Value` pairs */
+  tags?: string[];
+  /** Message data; `@path` reads a file */
+  data?: string;
+  /** Wallet name or path whose address sends the message; the process owner by default */
+  wallet?: string;
+  /** Measure what each handler run costs */
+  profile?: boolean;
+}
+
+export interface LocalSendResult extends SendResult {
+  result: MessageResult;
+  profile?: ProfileReport;
+}
+
+export interface DeployOptions {
+  /** Wallet name or JWK path to sign with, before the process's own */
+  wallet?: string;
+  /** Time to wait for each Lua file to load */
+  timeout?: number;
+  /** Transport instance to spawn and load through; aoconnect by default */
+  transport?: MessageTransport;
+}
+
+export interface DeployResult {
+  name: string;
+  processId: string;
+}
+
+export interface HealthOptions {
+  /** Processes to check; every defined process when empty */
+  names?: string[];
+  /** Per check, overriding the configured timeout */
+  timeout?: number;
+  /** Transport for info checks; aoconnect by default */
+  transport?: string | MessageTransport;
+}
+
+export interface UpResult {
+  name: string;
+  processId: string;
+  started: boolean;
 }
 
 export class ProcessManager {
-  private processFilePath: string;
+  private registry: ProcessRegistry;
+  private wallets: WalletManager = new WalletManager();
+  /** Decrypted copy of the wallet aos was started with */
+  private walletTempDir: string | undefined;
   private process: ChildProcess | null = null;
   private processName: string | null = null;
+  private projectPath: string | null = null;
   private processState: ProcessState | null = null;
+  private journal: MessageJournal | null = null;
   private schedules: Map<string, Schedule> = new Map();
+  private supervisor: {
+    tracker: RestartTracker;
+    command: ProcessCommand;
+    options: RestartOptions;
+    startedAt: number;
+  } | null = null;
 
-  constructor() {
-    this.processFilePath = path.join(os.homedir(), '.ao-forge-processeson');
+  constructor(registry: ProcessRegistry = new ProcessRegistry()) {
+    this.registry = registry;
   }
 
   private async saveProcessInfo(info: ProcessInfo): Promise<void> {
-    await fs.writeJSON(this.processFilePath, info);
+    await this.registry.register(info);
   }
 
-  private async getProcessInfo(): Promise<ProcessInfo | null> {
-    try {
-      if (await fs.pathExists(this.processFilePath)) {
-        return await fs.readJSON(this.processFilePath);
-      }
-      return null;
-    } catch {
-      return null;
-    }
+  getRegistry(): ProcessRegistry {
+    return this.registry;
   }
 
   async checkAOSInstallation(): Promise<boolean> {
@@ -171,65 +295,152 @@ export class ProcessManager {
     }
   }
 
-  async startAOProcess(projectPath: string, config: AOConfig, options: ProcessOptions = {}): Promise<ChildProcess> {
-    return this.startAOProcessForeground(projectPath, config, options);
+  private buildAOSArgs(config: AOConfig, options: ProcessOptions): string[] {
+    const args: string[] = [];
+
+    // Process name (defaults to "default" if not specified)
+    if (options.name || config.processName) {
+      const processName = options.name || config.processName || 'default';
+      args.push(processName);
+      this.processName = processName;
+    }
+
+    // Add wallet if specified
+    if (options.wallet) {
+      args.push('--wallet', options.wallet);
+    }
+
+    // Add Lua files to load
+    for (const file of [...(options.preload || []), ...(config.luaFiles || [])]) {
+      args.push('--load', file);
+    }
+
+    // Add other options
+    if (options.data) args.push('--data', options.data);
+    if (options.tagName && options.tagValue) {
+      args.push('--tag-name', options.tagName, '--tag-value', options.tagValue);
+    }
+    for (const [name, value] of Object.entries(options.tags || {})) {
+      args.push('--tag-name', name, '--tag-value', value);
+    }
+    if (options.module) args.push('--module', options.module);
+    if (options.cron) args.push('--cron', options.cron);
+    if (options.monitor) args.push('--monitor');
+    if (options.sqlite) args.push('--sqlite');
+    if (options.gatewayUrl) args.push('--gateway-url', options.gatewayUrl);
+    if (options.cuUrl) args.push('--cu-url', options.cuUrl);
+    if (options.muUrl) args.push('--mu-url', options.muUrl);
+
+    return args;
   }
 
-  async startAOProcessBackground(projectPath: string, config: AOConfig, options: ProcessOptions = {}): Promise<ChildProcess> {
-    logger.info('Starting AO process in background...');
-    try {
-      const args: string[] = [];
+  /**
+   * Environment for aos: it reads the scheduler of new processes from
+   * SCHEDULER rather than a flag.
+   */
+  private buildAOSEnv(options: ProcessOptions): Record<string, string> {
+    return options.scheduler ? { SCHEDULER: options.scheduler } : {};
+  }
 
-      // Process name (defaults to "default" if not specified)
-      if (options.name || config.processName) {
-        const processName = options.name || config.processName || 'default';
-        args.push(processName);
-        this.processName = processName;
-      }
+  /**
+   * Fill in what the command left out from the selected network profile:
+   * its endpoints, module and scheduler, and the configured wallet. Wallet
+   * names become JWK files for aos, decrypted to a temporary directory.
+   */
+  private async resolveProcessOptions(projectPath: string, config: AOConfig, options: ProcessOptions): Promise<ProcessOptions> {
+    if (options.local) {
+      // Local processes sign nothing and reach no network
+      return options;
+    }
+    const wallet = options.wallet || getConfiguredWallet(config)?.wallet;
+    const network = resolveNetwork(config) || {};
+    if (network.name) {
+      logger.debug(`Using network ${network.name}`);
+    }
+    if (wallet) {
+      await this.removeStaleWalletFiles();
+    }
+    const walletFile = wallet ? await this.wallets.getWalletFile(wallet, projectPath) : undefined;
+    this.walletTempDir = walletFile?.tempDir;
+    return {
+      ...options,
+      wallet: walletFile?.path,
+      module: options.module || network.module,
+      scheduler: options.scheduler || network.scheduler,
+      gatewayUrl: options.gatewayUrl || network.gatewayUrl,
+      cuUrl: options.cuUrl || network.cuUrl,
+      muUrl: options.muUrl || network.muUrl
+    };
+  }
 
-      // Add wallet if specified
-      if (options.wallet) {
-        args.push('--wallet', options.wallet);
-      }
+  /**
+   * The command that starts a process: aos, or for a local process the
+   * emulator behind `process __local`. A local process is owned by the
+   * address of the wallet aos would use, or by a made-up one.
+   */
+  private async buildProcessCommand(projectPath: string, config: AOConfig, options: ProcessOptions): Promise<ProcessCommand> {
+    const args = this.buildAOSArgs(config, options);
+    if (!options.local) {
+      return { command: 'aos', args, env: this.buildAOSEnv(options) };
+    }
 
-      // Add Lua files to load
-      if (config.luaFiles && config.luaFiles.length > 0) {
-        for (const file of config.luaFiles) {
-          args.push('--load', file);
-        }
-      }
+    // aos flags the emulator has nothing for
+    if (options.data) {
+      throw new ValidationError('--data is not supported for local processes');
+    }
+    if (options.cron) {
+      throw new ValidationError('cron is not supported for local processes; use "ao-forge process cron" jobs instead');
+    }
+    const wallet = options.wallet || getConfiguredWallet(config)?.wallet;
+    const tags = Object.entries(options.tags || {}).map(([name, value]) => ({ name, value }));
+    if (options.tagName && options.tagValue) {
+      tags.push({ name: options.tagName, value: options.tagValue });
+    }
+    const spec: LocalProcessSpec = {
+      name: this.processName || 'default',
+      projectPath: path.resolve(projectPath),
+      processId: createLocalId(),
+      owner: wallet ? await this.wallets.getAddress(wallet, projectPath) : createLocalId(),
+      module: options.module,
+      tags,
+      luaFiles: [...(options.preload || []), ...(config.luaFiles || [])]
+    };
+    return {
+      command: process.execPath,
+      args: [...process.execArgv, getCLIEntry(), 'process', '__local'],
+      env: { [LOCAL_SPEC_ENV]: JSON.stringify(spec) },
+      local: spec
+    };
+  }
 
-      // Add other options
-      if (options.data) args.push('--data', options.data);
-      if (options.tagName && options.tagValue) {
-        args.push('--tag-name', options.tagName, '--tag-value', options.tagValue);
-      }
-      if (options.module) args.push('--module', options.module);
-      if (options.cron) args.push('--cron', options.cron);
-      if (options.monitor) args.push('--monitor');
-      if (options.sqlite) args.push('--sqlite');
-      if (options.gatewayUrl) args.push('--gateway-url', options.gatewayUrl);
-      if (options.cuUrl) args.push('--cu-url', options.cuUrl);
-      if (options.muUrl) args.push('--mu-url', options.muUrl);
+  // Decrypted wallets of processes that are gone, which a crash or SIGKILL left behind
+  private async removeStaleWalletFiles(): Promise<void> {
+    try {
+      const active = (await this.registry.list()).filter(info => ProcessRegistry.isActive(info));
+      await removeStaleWalletFiles(active.flatMap(info => info.walletDir ? [info.walletDir] : []));
+    } catch (error) {
+      logger.debug('Failed to remove stale decrypted wallets', error as Error);
+    }
+  }
 
-      // Start the process in background (detached)
-      this.process = spawn('aos', args, {
-        cwd: projectPath,
-        stdio: 'ignore', // Ignore all stdio to run truly in background
-        detached: true   // Detach from parent process
-      });
+  private removeWalletFile(): void {
+    if (this.walletTempDir) {
+      fs.removeSync(this.walletTempDir);
+      this.walletTempDir = undefined;
+    }
+  }
 
-      // Handle spawn errors (like ENOENT when aos is not found)
-      this.process.on('error', (error: any) => {
-        if (error.code === 'ENOENT') {
-          logger.error('AOS command not found. Please install AOS first:');
-          logger.info('npm i -g https://get_ao.g8way.io');
-          logger.info('Or visit: https://cookbook_ao.arweave.net/guides/aos/');
-        } else {
-          logger.error('Failed to start AO process:', error.message);
-        }
-        throw error;
-      });
+  async startAOProcess(projectPath: string, config: AOConfig, options: ProcessOptions = {}): Promise<ChildProcess> {
+    return this.startAOProcessForeground(projectPath, config, options);
+  }
+
+  async startAOProcessBackground(projectPath: string, config: AOConfig, options: ProcessOptions = {}): Promise<ChildProcess> {
+    logger.info('Starting AO process in background...');
+    try {
+      options = await this.resolveProcessOptions(projectPath, config, options);
+      const command = await this.buildProcessCommand(projectPath, config, options);
+
+      await this.ensureNotRunning(projectPath, this.processName || 'default');
 
       // Set up process state
       this.processState = {
@@ -250,25 +461,68 @@ export class ProcessManager {
           name: this.processName || 'default',
           monitor: options.monitor || false,
           sqlite: options.sqlite || false,
-          tags: {},
+          tags: options.tags || {},
           luaFiles: config.luaFiles || []
         }
       };
 
-      // Save process info
+      // Start a detached host that owns the aos REPL and serves later CLI runs
+      const socketPath = getSocketPath(projectPath, this.processName || 'default');
+      const spec: HostSpec = {
+        name: this.processName || 'default',
+        projectPath: path.resolve(projectPath),
+        socketPath,
+        command: command.command,
+        args: command.args,
+        env: command.env,
+        logFile: getLogFile(path.resolve(projectPath), this.processName || 'default'),
+        journalFile: getJournalFile(path.resolve(projectPath), this.processName || 'default'),
+        features: this.processState.features,
+        config: this.processState.config,
+        restart: options.restart,
+        // The host outlives this command, so it removes the decrypted wallet
+        cleanup: this.walletTempDir ? [this.walletTempDir] : undefined,
+        local: options.local
+      };
+      this.process = spawn(process.execPath, [...process.execArgv, getCLIEntry(), 'process', '__host'], {
+        cwd: projectPath,
+        stdio: 'ignore', // Ignore all stdio to run truly in background
+        detached: true,  // Detach from parent process
+        env: { ...process.env, [HOST_SPEC_ENV]: JSON.stringify(spec) }
+      });
+
+      // Registered before the host is up, so a child that crashes right away
+      // is recorded by the host rather than overwritten here
+      this.projectPath = path.resolve(projectPath);
       await this.saveProcessInfo({
         name: this.processName || 'default',
+        projectPath: this.projectPath,
         pid: this.process.pid || 0,
         startTime: new Date().toISOString(),
-        config
+        status: 'running',
+        config,
+        socketPath,
+        restartPolicy: options.restart?.policy,
+        restartCount: 0,
+        walletDir: this.walletTempDir,
+        ...this.getLocalInfo(command)
       });
 
+      try {
+        await this.waitForHost(socketPath, this.process.pid || 0);
+      } catch (error) {
+        signalProcessGroup(this.process.pid || 0, 'SIGKILL');
+        await this.registry.remove(this.projectPath, this.processName || 'default');
+        throw error;
+      }
+
       // Unref the process so it doesn't keep the parent process alive
       this.process.unref();
 
       logger.success(`AO process started in background (PID: ${this.process.pid})`);
       return this.process;
     } catch (error) {
+      this.removeWalletFile();
       logger.error('Failed to start AO process in background', error as Error);
       throw error;
     }
@@ -277,57 +531,28 @@ export class ProcessManager {
   async startAOProcessForeground(projectPath: string, config: AOConfig, options: ProcessOptions = {}): Promise<ChildProcess> {
     logger.info('Starting AO process...');
     try {
-      const args: string[] = [];
+      options = await this.resolveProcessOptions(projectPath, config, options);
+      const command = await this.buildProcessCommand(projectPath, config, options);
 
-      // Process name (defaults to "default" if not specified)
-      if (options.name || config.processName) {
-        const processName = options.name || config.processName || 'default';
-        args.push(processName);
-        this.processName = processName;
-      }
-
-      // Add wallet if specified
-      if (options.wallet) {
-        args.push('--wallet', options.wallet);
-      }
+      await this.ensureNotRunning(projectPath, this.processName || 'default');
 
-      // Add Lua files to load
-      if (config.luaFiles && config.luaFiles.length > 0) {
-        for (const file of config.luaFiles) {
-          args.push('--load', file);
+      // aos, and restarts of it, may read the wallet until this command exits
+      if (this.walletTempDir) {
+        process.once('exit', () => this.removeWalletFile());
+        // A signal ends the CLI without 'exit', so remove it first
+        for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+          process.once(signal, () => {
+            this.removeWalletFile();
+            process.exit(128 + os.constants.signals[signal]);
+          });
         }
       }
 
-      // Add other options
-      if (options.data) args.push('--data', options.data);
-      if (options.tagName && options.tagValue) {
-        args.push('--tag-name', options.tagName, '--tag-value', options.tagValue);
-      }
-      if (options.module) args.push('--module', options.module);
-      if (options.cron) args.push('--cron', options.cron);
-      if (options.monitor) args.push('--monitor');
-      if (options.sqlite) args.push('--sqlite');
-      if (options.gatewayUrl) args.push('--gateway-url', options.gatewayUrl);
-      if (options.cuUrl) args.push('--cu-url', options.cuUrl);
-      if (options.muUrl) args.push('--mu-url', options.muUrl);
-
       // Start the process
-      this.process = spawn('aos', args, {
-        cwd: projectPath,
-        stdio: 'inherit'
-      });
-
-      // Handle spawn errors (like ENOENT when aos is not found)
-      this.process.on('error', (error: any) => {
-        if (error.code === 'ENOENT') {
-          logger.error('AOS command not found. Please install AOS first:');
-          logger.info('npm i -g https://get_ao.g8way.io');
-          logger.info('Or visit: https://cookbook_ao.arweave.net/guides/aos/');
-        } else {
-          logger.error('Failed to start AO process:', error.message);
-        }
-        throw error;
-      });
+      this.process = await this.spawnForeground(projectPath, command);
+      this.supervisor = options.restart && options.restart.policy !== 'no'
+        ? { tracker: new RestartTracker(options.restart), command, options: options.restart, startedAt: Date.now() }
+        : null;
 
       // Set up process state
       this.processState = {
@@ -348,30 +573,112 @@ export class ProcessManager {
           name: this.processName || 'default',
           monitor: options.monitor || false,
           sqlite: options.sqlite || false,
-          tags: {},
+          tags: options.tags || {},
           luaFiles: config.luaFiles || []
         }
       };
 
       // Save process info
+      this.projectPath = path.resolve(projectPath);
       await this.saveProcessInfo({
         name: this.processName || 'default',
+        projectPath: this.projectPath,
         pid: this.process.pid || 0,
         startTime: new Date().toISOString(),
-        config
+        status: 'running',
+        config,
+        restartPolicy: options.restart?.policy,
+        restartCount: 0,
+        walletDir: this.walletTempDir,
+        ...this.getLocalInfo(command)
       });
 
       // Set up process event handlers
+      this.journal = MessageJournal.forProcess(this.projectPath, this.processName || 'default');
       this.setupProcessHandlers();
 
       logger.success('AO process started successfully');
       return this.process;
     } catch (error) {
+      this.removeWalletFile();
       logger.error('Failed to start AO process', error as Error);
       throw error;
     }
   }
 
+  /**
+   * Registry fields of a local process, which knows its ID from the start.
+   */
+  private getLocalInfo(command: ProcessCommand): Partial<ProcessInfo> {
+    return command.local ? { processId: command.local.processId, local: true, owner: command.local.owner } : {};
+  }
+
+  /**
+   * Start aos attached to the terminal. Rejects when it cannot be started,
+   * like ENOENT when aos is not installed.
+   */
+  private spawnForeground(projectPath: string, { command, args, env }: ProcessCommand): Promise<ChildProcess> {
+    const child = spawn(command, args, {
+      cwd: projectPath,
+      stdio: 'inherit',
+      ...(Object.keys(env).length > 0 && { env: { ...process.env, ...env } })
+    });
+
+    return new Promise((resolve, reject) => {
+      const onError = (error: any) => {
+        if (error.code === 'ENOENT') {
+          logger.error('AOS command not found. Please install AOS first:');
+          logger.info('npm i -g https://get_ao.g8way.io');
+          logger.info('Or visit: https://cookbook_ao.arweave.net/guides/aos/');
+        }
+        reject(error);
+      };
+      child.once('error', onError);
+      child.once('spawn', () => {
+        child.removeListener('error', onError);
+        resolve(child);
+      });
+    });
+  }
+
+  /**
+   * Supervisor loop of a foreground process: wait out the backoff, then
+   * start aos again unless `process stop` ran in the meantime.
+   */
+  private async restartForeground(decision: RestartDecision, code: number | null): Promise<void> {
+    const supervisor = this.supervisor!;
+    const projectPath = this.projectPath!;
+    const name = this.processName!;
+    const max = supervisor.options.maxRestarts;
+
+    logger.warn(`AO process exited with code ${code}, restarting in ${formatRestartDelay(decision.delay)} ` +
+      `(attempt ${decision.attempt}${max !== undefined ? `/${max}` : ''})`);
+
+    try {
+      await this.registry.update(projectPath, name, {
+        status: 'restarting',
+        exitCode: code,
+        lastExitCode: code,
+        restartCount: supervisor.tracker.restarts
+      });
+      await sleep(decision.delay);
+
+      const info = await this.registry.get(projectPath, name);
+      if (info && info.status !== 'restarting') {
+        logger.info(`Restart of ${name} cancelled, process was marked ${info.status}`);
+        return;
+      }
+
+      this.process = await this.spawnForeground(projectPath, supervisor.command);
+      supervisor.startedAt = Date.now();
+      this.processState!.status = 'running';
+      this.setupProcessHandlers();
+      await this.registry.update(projectPath, name, { status: 'running', pid: this.process.pid || 0 });
+    } catch (error) {
+      logger.error('Failed to restart AO process', error as Error);
+    }
+  }
+
   private setupProcessHandlers(): void {
     if (!this.process) return;
 
@@ -387,6 +694,13 @@ export class ProcessManager {
           sender: 'process',
           recipient: 'stdout'
         });
+        try {
+          for (const line of message.split(/\r?\n/).filter(Boolean)) {
+            this.journal?.append(createOutputEntry(this.processName || 'default', line, `${Date.now()}`));
+          }
+        } catch (error) {
+          logger.debug('Failed to write message journal', error as Error);
+        }
         logger.debug(`Process output: ${message}`);
       }
     });
@@ -399,9 +713,31 @@ export class ProcessManager {
       }
     });
 
-    this.process.on('close', (code: number) => {
+    this.process.on('close', async (code: number) => {
       this.processState!.status = 'stopped';
       logger.info(`AO process stopped with code: ${code}`);
+
+      const decision = this.supervisor?.tracker.onExit(code, Date.now() - this.supervisor.startedAt);
+      if (decision?.restart) {
+        await this.restartForeground(decision, code);
+        return;
+      }
+      if (decision) {
+        logger.warn(`Not restarting AO process: ${decision.reason}`);
+      }
+
+      if (this.projectPath && this.processName) {
+        try {
+          await this.registry.update(this.projectPath, this.processName, {
+            status: 'exited',
+            stopTime: new Date().toISOString(),
+            exitCode: code,
+            lastExitCode: code
+          });
+        } catch (error) {
+          logger.debug('Failed to update process registry', error as Error);
+        }
+      }
     });
 
     this.process.on('error', (error: Error) => {
@@ -411,70 +747,456 @@ export class ProcessManager {
     });
   }
 
-  async monitorProcess(processName?: string): Promise<void> {
-    logger.info('Starting process monitoring...');
+  /**
+   * Render a refreshing dashboard of background processes until interrupted,
+   * or print a single snapshot with `once`.
+   */
+  async monitorProcess(processName?: string, options: MonitorOptions = {}): Promise<void> {
+    const projectPath = options.projectPath || this.projectPath || process.cwd();
+    const interval = options.interval ?? DEFAULT_MONITOR_INTERVAL;
+
+    let stopped = false;
+    const onInterrupt = () => {
+      stopped = true;
+    };
     try {
-      // TODO: Implement process monitoring
-      // This should provide real-time monitoring of the AO process
-      logger.success('Process monitoring started');
+      if (!options.once) {
+        process.once('SIGINT', onInterrupt);
+      }
+
+      while (!stopped) {
+        const entries = await collectMonitorEntries(this.registry, projectPath, processName);
+        if (processName && entries.length === 0) {
+          throw new ProcessError(`No process named "${processName}" found for this project`);
+        }
+
+        if (options.json) {
+          const data = toMonitorJSON(entries);
+          console.log(options.once ? JSON.stringify(data, null, 2) : JSON.stringify(data));
+        } else {
+          if (!options.once && process.stdout.isTTY) {
+            process.stdout.write('\x1b[2J\x1b[H');
+          }
+          console.log(renderDashboard(entries));
+          if (!options.once) {
+            logger.info(chalk.gray('Press Ctrl+C to exit'));
+          }
+        }
+
+        if (options.once) {
+          break;
+        }
+        await sleep(interval);
+      }
     } catch (error) {
-      logger.error('Failed to start process monitoring', error as Error);
+      logger.error('Failed to monitor processes', error as Error);
       throw error;
+    } finally {
+      process.removeListener('SIGINT', onInterrupt);
     }
   }
 
-  async watchProcess(processName: string): Promise<void> {
+  /**
+   * Reload a background process's Lua files through the eval bridge whenever
+   * they or their `require` dependencies change, until interrupted.
+   */
+  async watchProcess(processName: string, options: WatchOptions = {}): Promise<void> {
     logger.info(`Watching process: ${processName}`);
     try {
-      // TODO: Implement process watching
-      // This should watch for changes and restart the process
-      logger.success(`Process watching started for: ${processName}`);
+      const projectPath = options.projectPath || this.projectPath || process.cwd();
+      const { info, bridge } = await this.connect(projectPath, processName);
+
+      const luaFiles = options.luaFiles || info.config.luaFiles || [];
+      if (luaFiles.length === 0) {
+        throw new ValidationError(`Process "${processName}" has no Lua files to watch`);
+      }
+
+      const watcher = new LuaWatcher(projectPath, luaFiles, file => bridge.load(file), {
+        debounce: options.debounce,
+        onReload: result => {
+          if (result.ok) {
+            logger.success(`Reloaded ${result.file}${result.changed.includes(result.file) ? '' : ` (changed: ${result.changed.join(', ')})`}`);
+            if (result.output) {
+              logger.info(result.output);
+            }
+          } else if (result.skipped) {
+            // The host only logs reloads it performed, so record the skip there too
+            logger.error(`Reload of ${result.file} skipped: ${result.error}`);
+            bridge.log(`Reload of ${result.file} skipped: ${result.error}`).catch(() => undefined);
+          } else {
+            logger.error(`Reload of ${result.file} failed: ${result.error}`);
+          }
+        }
+      });
+      await watcher.start();
+      logger.success(`Process watching started for: ${processName} (${watcher.getWatchedFiles().length} file(s))`);
+
+      await new Promise<void>(resolve => {
+        const stop = () => {
+          clearInterval(check);
+          process.removeListener('SIGINT', stop);
+          resolve();
+        };
+        // Stop watching once the process goes away
+        const check = setInterval(() => {
+          if (!ProcessRegistry.isAlive(info.pid, info.pidIdentity)) {
+            logger.warn(`Process "${processName}" exited, stopping watcher`);
+            stop();
+          }
+        }, 1000);
+        process.once('SIGINT', stop);
+      });
+
+      watcher.stop();
+      await watcher.idle();
     } catch (error) {
       logger.error('Failed to start process watching', error as Error);
       throw error;
     }
   }
 
-  async listProcesses(): Promise<void> {
+  async listProcesses(projectPath?: string): Promise<ProcessInfo[]> {
     logger.info('Listing processes...');
     try {
-      const processInfo = await this.getProcessInfo();
-      if (processInfo) {
-        logger.info(`Process: ${processInfo.name} (PID: ${processInfo.pid})`);
-        logger.info(`Started: ${processInfo.startTime}`);
-      } else {
+      const processes = await this.registry.list(projectPath);
+      if (processes.length === 0) {
         logger.info('No processes found');
+        return processes;
       }
+
+      for (const info of processes) {
+        logger.info(`Process: ${info.name} (PID: ${info.pid}) [${info.status}]`);
+        logger.info(`  Started: ${info.startTime}`);
+        if (info.processId) {
+          logger.info(`  Process ID: ${info.processId}`);
+        }
+        if (info.restartPolicy || info.restartCount) {
+          const lastExit = info.lastExitCode !== undefined ? `, last exit code: ${info.lastExitCode ?? 'signal'}` : '';
+          logger.info(`  Restarts: ${info.restartCount ?? 0} (policy: ${info.restartPolicy ?? 'no'}${lastExit})`);
+        } else if (info.exitCode !== undefined && (info.status === 'exited' || info.status === 'error')) {
+          logger.info(`  Exit code: ${info.exitCode ?? 'signal'}`);
+        }
+        if (!projectPath) {
+          logger.info(`  Project: ${info.projectPath}`);
+        }
+      }
+      return processes;
     } catch (error) {
       logger.error('Failed to list processes', error as Error);
       throw error;
     }
   }
 
-  async setupCron(processName: string, frequency: string): Promise<void> {
+  /**
+   * Persist a cron job for a process. A running background process picks it
+   * up immediately; otherwise it starts with the process.
+   */
+  async setupCron(processName: string, frequency: string, options: CronOptions = {}): Promise<CronJob> {
     logger.info(`Setting up cron for process: ${processName} with frequency: ${frequency}`);
     try {
-      // TODO: Implement cron setup
-      // This should set up scheduled tasks for the process
-      logger.success(`Cron setup completed for: ${processName}`);
+      const projectPath = options.projectPath || this.projectPath || process.cwd();
+      const job = await new CronStore(projectPath).add({
+        id: options.id,
+        process: processName,
+        expression: frequency,
+        tick: options.tick || DEFAULT_CRON_TICK,
+        onError: options.onError,
+        maxRetries: options.maxRetries ?? 3
+      });
+
+      await this.reloadCron(projectPath, processName);
+      logger.success(`Cron setup completed for: ${processName} (${job.id})`);
+      return job;
     } catch (error) {
       logger.error('Failed to setup cron', error as Error);
       throw error;
     }
   }
 
-  async evaluateProcess(input: string, options?: { await?: boolean; timeout?: string }): Promise<void> {
+  /**
+   * Upcoming run times of an AO interval or cron expression.
+   */
+  previewCron(frequency: string, count: number, from: Date = new Date()): Date[] {
+    if (!Validator.validateCronExpression(frequency)) {
+      throw new ValidationError(
+        `Invalid schedule: ${frequency}. Use an AO interval like "5-minutes" or a cron expression like "*/5 * * * *".`
+      );
+    }
+    return getNextRuns(frequency, count, from);
+  }
+
+  async listCronJobs(projectPath: string, processName?: string): Promise<CronJob[]> {
+    return new CronStore(projectPath).list(processName);
+  }
+
+  async removeCronJob(projectPath: string, processName: string, id: string): Promise<void> {
+    if (!(await new CronStore(projectPath).remove(processName, id))) {
+      throw new ValidationError(`No cron job "${id}" for process ${processName}`);
+    }
+    await this.reloadCron(projectPath, processName);
+  }
+
+  async pauseCronJob(projectPath: string, processName: string, id: string, paused: boolean = true): Promise<CronJob> {
+    const job = await new CronStore(projectPath).setPaused(processName, id, paused);
+    if (!job) {
+      throw new ValidationError(`No cron job "${id}" for process ${processName}`);
+    }
+    await this.reloadCron(projectPath, processName);
+    return job;
+  }
+
+  /**
+   * Send Lua input to a running background process and return its output.
+   */
+  async evaluateProcess(input: string, options: EvaluateProcessOptions = {}): Promise<string> {
     logger.debug(`Evaluating process with input: ${input}`);
     try {
-      // TODO: Implement process evaluation
-      // This should send input to the AO process and handle the response
+      const name = options.name || this.processName;
+      if (!name) {
+        throw new ProcessError('No process specified for evaluation');
+      }
+
+      const projectPath = options.projectPath || this.projectPath || process.cwd();
+      const { bridge } = await this.connect(projectPath, name);
+      const output = await bridge.evaluate(input, {
+        await: options.await,
+        timeout: options.timeout ? parseDuration(options.timeout) : undefined
+      });
+
       logger.debug('Process evaluation completed');
+      return output;
     } catch (error) {
       logger.error('Failed to evaluate process', error as Error);
       throw error;
     }
   }
 
+  /**
+   * The registry entry of a process with the live state reported by its
+   * host, which is null unless the process runs in the background.
+   */
+  async inspectProcess(projectPath: string, name: string): Promise<MonitorEntry> {
+    try {
+      const [entry] = await collectMonitorEntries(this.registry, projectPath, name);
+      if (!entry) {
+        throw new ProcessError(`No process named "${name}" found for this project`, { projectPath, name });
+      }
+      return entry;
+    } catch (error) {
+      logger.error(`Failed to inspect process: ${name}`, error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Capture the Lua global state of a background process through the eval
+   * bridge and save it as a versioned snapshot file.
+   */
+  async snapshotProcess(
+    projectPath: string,
+    name: string,
+    options: SnapshotOptions = {}
+  ): Promise<{ snapshot: StateSnapshot; filePath: string }> {
+    try {
+      const { info, bridge } = await this.connect(projectPath, name);
+      const output = await bridge.evaluate(buildSnapshotScript(options), { timeout: options.timeout });
+      const snapshot: StateSnapshot = {
+        version: SNAPSHOT_VERSION,
+        process: name,
+        processId: info.processId,
+        createdAt: new Date().toISOString(),
+        globals: parseSnapshotOutput(output)
+      };
+
+      const filePath = await saveSnapshot(projectPath, snapshot, options.output);
+      logger.debug(`Saved snapshot of ${name} to ${filePath}`);
+      return { snapshot, filePath };
+    } catch (error) {
+      logger.error(`Failed to snapshot process: ${name}`, error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build an AO message, submit it through a transport and optionally wait
+   * for its result.
+   */
+  async sendMessage(projectPath: string, config: AOConfig, options: SendOptions): Promise<SendResult> {
+    const { processId: target, name, info } = await this.resolveTarget(projectPath, options.target);
+    const message = buildMessage({
+      target,
+      action: options.action,
+      tags: options.tags,
+      data: await readMessageData(projectPath, options.data)
+    });
+
+    let transport: MessageTransport;
+    let sender: string;
+    if (typeof options.transport === 'object') {
+      transport = options.transport;
+      sender = transport.name;
+    } else if (info?.local) {
+      if (options.transport) {
+        throw new ValidationError(`${name} runs in the local emulator; --transport does not apply to it`);
+      }
+      sender = options.wallet ? await this.wallets.getAddress(options.wallet, projectPath) : info.owner || createLocalId();
+      transport = this.getLocalTransport(info, sender);
+    } else {
+      const wallet = await this.loadSigningWallet(projectPath, config, options.wallet);
+      transport = createTransport(options.transport || DEFAULT_TRANSPORT, { wallet, network: resolveNetwork(config) });
+      sender = wallet ? getWalletAddress(wallet) : transport.name;
+    }
+
+    try {
+      const journal = MessageJournal.forProcess(path.resolve(projectPath), name);
+      const messageId = await transport.send(message);
+      journal.recordSent(messageId, message, sender);
+      logger.debug(`Sent message ${messageId} to ${target} via ${transport.name}`);
+      if (!options.await) {
+        return { messageId, target };
+      }
+
+      const result = await ErrorHandler.withTimeout(
+        () => transport.result(target, messageId),
+        options.timeout ?? DEFAULT_RESULT_TIMEOUT
+      );
+      journal.recordResult(messageId, target, result);
+      return { messageId, target, result };
+    } catch (error) {
+      logger.error(`Failed to send message to ${target}`, error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Hand a message to a fresh emulated copy of a defined process, with its
+   * Lua files loaded, instead of sending it. Nothing is sent or kept.
+   */
+  async sendLocalMessage(projectPath: string, config: AOConfig, options: LocalSendOptions): Promise<LocalSendResult> {
+    const definition = getProcessDefinition(config, options.target);
+    const wallet = definition.wallet || getConfiguredWallet(config)?.wallet;
+    const emulator = await AOEmulator.create({
+      projectPath,
+      name: definition.name,
+      owner: wallet ? await this.wallets.getAddress(wallet, projectPath) : undefined,
+      module: definition.module,
+      tags: Object.entries(definition.tags || {}).map(([name, value]) => ({ name, value }))
+    });
+
+    try {
+      for (const file of definition.luaFiles || []) {
+        const loaded = emulator.load(file);
+        if (loaded.Error) {
+          throw new ProcessError(`${file}: ${loaded.Error}`);
+        }
+      }
+      const profiler = options.profile ? new Profiler() : undefined;
+      profiler?.attach(emulator);
+
+      const message = buildMessage({
+        target: emulator.id,
+        action: options.action,
+        tags: options.tags,
+        data: await readMessageData(projectPath, options.data)
+      });
+      const messageId = createLocalId();
+      const result = emulator.deliver({
+        Id: messageId,
+        From: options.wallet ? await this.wallets.getAddress(options.wallet, projectPath) : undefined,
+        Tags: message.tags,
+        Data: message.data
+      });
+      logger.debug(`Handled message ${messageId} in a local copy of ${definition.name}`);
+
+      const profile = profiler && await createProfileReport(projectPath, config, profiler.collect(emulator, definition.name));
+      return { messageId, target: emulator.id, result, ...(profile && { profile }) };
+    } finally {
+      emulator.close();
+    }
+  }
+
+  /**
+   * Spawn a defined process on the network from its module, on the
+   * network's scheduler, then load each of its Lua files, bundled with the
+   * project modules it requires, with an Eval message.
+   */
+  async deployProcess(projectPath: string, config: AOConfig, definition: NamedProcessDefinition, options: DeployOptions = {}): Promise<DeployResult> {
+    const network = resolveNetwork(config);
+    const { module, scheduler } = getSpawnTarget(network, definition.name, definition);
+    let transport = options.transport;
+    if (!transport) {
+      const wallet = await this.loadSigningWallet(projectPath, config, options.wallet || definition.wallet);
+      if (!wallet) {
+        throw new ValidationError(`A wallet is required to deploy ${definition.name}. Set wallet in ao.config.yml or pass --wallet`);
+      }
+      transport = createTransport(DEFAULT_TRANSPORT, { wallet, network });
+    }
+
+    const processId = await transport.spawn({
+      module,
+      scheduler,
+      tags: [
+        { name: 'Name', value: definition.name },
+        ...Object.entries(definition.tags || {}).map(([name, value]) => ({ name, value }))
+      ]
+    });
+    logger.debug(`Spawned ${definition.name} as ${processId}`);
+
+    for (const file of definition.luaFiles || []) {
+      const message = buildMessage({ target: processId, action: 'Eval', data: await bundleLua(file, projectPath) });
+      const sender = transport;
+      const messageId = await ErrorHandler.withRetry(() => sender.send(message), DEPLOY_SEND_RETRIES, DEPLOY_RETRY_DELAY);
+      const result = await ErrorHandler.withTimeout(
+        () => sender.result(processId, messageId),
+        options.timeout ?? DEFAULT_RESULT_TIMEOUT
+      );
+      if (result.Error) {
+        throw new ProcessError(`Could not load ${file} into ${definition.name}: ${result.Error}`, { processId, messageId });
+      }
+      logger.debug(`Loaded ${file} into ${definition.name} with message ${messageId}`);
+    }
+    return { name: definition.name, processId };
+  }
+
+  /**
+   * Journal entries of a process, oldest first.
+   */
+  async readMessages(projectPath: string, name: string, query: JournalQuery = {}): Promise<JournalEntry[]> {
+    return readJournal(getJournalFile(path.resolve(projectPath), name), query);
+  }
+
+  /**
+   * Run the configured health checks against each process and report the
+   * outcome. Failing checks do not throw; callers decide from the reports.
+   */
+  async checkHealth(projectPath: string, config: AOConfig, options: HealthOptions = {}): Promise<HealthReport[]> {
+    const definitions = getProcessDefinitions(config);
+    const targets = options.names?.length
+      ? options.names.map(name => definitions.find(definition => definition.name === name) || { name })
+      : definitions;
+
+    let transport: MessageTransport | null = typeof options.transport === 'object' ? options.transport : null;
+    const getTransport = () => {
+      // Dry runs are not signed, so no wallet is needed
+      transport ??= createTransport(String(options.transport || DEFAULT_TRANSPORT), { network: resolveNetwork(config) });
+      return transport;
+    };
+
+    const reports: HealthReport[] = [];
+    for (const definition of targets) {
+      const health = getHealthConfig(config, definition);
+      const info = await this.registry.get(projectPath, definition.name);
+      reports.push(await runHealthChecks(definition.name, health.checks, {
+        info,
+        timeout: options.timeout ?? parseDuration(health.timeout),
+        transport: info?.local && typeof options.transport !== 'object'
+          ? () => this.getLocalTransport(info, info.owner || createLocalId())
+          : getTransport
+      }));
+    }
+    return reports;
+  }
+
   async stopProcess(): Promise<void> {
     logger.info('Stopping AO process...');
     try {
@@ -494,6 +1216,298 @@ export class ProcessManager {
     }
   }
 
+  /**
+   * Stop a process recorded in the registry, even one started by an earlier
+   * CLI invocation. Returns false when the process was not running.
+   */
+  async stopProcessByName(projectPath: string, name: string, options: StopOptions = {}): Promise<boolean> {
+    logger.info(`Stopping AO process: ${name}...`);
+    try {
+      const info = await this.registry.get(projectPath, name);
+      if (!info) {
+        throw new ProcessError(`No process named "${name}" found for this project`, { projectPath, name });
+      }
+
+      if (!ProcessRegistry.isActive(info)) {
+        logger.warn(`Process ${name} is not running`);
+        await this.registry.update(projectPath, name, { status: 'stopped' });
+        return false;
+      }
+
+      const signal = await terminateProcess(info.pid, options.timeout ?? DEFAULT_STOP_TIMEOUT, info.pidIdentity);
+      // A host that was killed could not remove the decrypted wallet itself
+      if (info.walletDir) {
+        await fs.remove(info.walletDir);
+      }
+      await this.registry.update(projectPath, name, {
+        status: 'stopped',
+        stopTime: new Date().toISOString(),
+        exitCode: null
+      });
+
+      logger.success(`AO process stopped: ${name} (${signal})`);
+      return true;
+    } catch (error) {
+      logger.error(`Failed to stop AO process: ${name}`, error as Error);
+      throw error;
+    }
+  }
+
+  async stopAllProcesses(projectPath: string, options: StopOptions = {}): Promise<string[]> {
+    const running = (await this.registry.list(projectPath)).filter(info => info.status === 'running' || info.status === 'restarting');
+    if (running.length === 0) {
+      logger.warn('No running processes to stop');
+      return [];
+    }
+
+    const stopped: string[] = [];
+    for (const info of running) {
+      if (await this.stopProcessByName(projectPath, info.name, options)) {
+        stopped.push(info.name);
+      }
+    }
+    return stopped;
+  }
+
+  /**
+   * Start defined processes in the background, in dependency order: the
+   * named ones and their dependencies, or all of them. Each one must report
+   * its AO process ID before the next starts, and receives the IDs of its
+   * dependencies as Lua globals or tags. Running processes are reused,
+   * unless they were given other IDs than their dependencies have now.
+   */
+  async upProcesses(projectPath: string, config: AOConfig, options: UpOptions = {}): Promise<UpResult[]> {
+    const defined = getProcessDefinitions(config);
+    const ordered = orderProcessDefinitions(options.names?.length ? withDependencies(defined, options.names) : defined);
+    const timeout = options.timeout ?? DEFAULT_READY_TIMEOUT;
+    const ids: Record<string, string> = {};
+    const results: UpResult[] = [];
+
+    try {
+      for (const definition of ordered) {
+        const existing = await this.registry.get(projectPath, definition.name);
+        const dependencies: Record<string, string> = {};
+        for (const dependency of definition.dependsOn || []) {
+          dependencies[dependency] = ids[dependency];
+        }
+        const active = Boolean(existing && ProcessRegistry.isActive(existing));
+        // A dependency restarted with a new ID, which the running process does not know
+        const stale = active && Object.entries(dependencies).some(([name, id]) => existing!.dependencies?.[name] !== id);
+        if (stale) {
+          logger.info(`Restarting ${definition.name}, as the IDs of its dependencies changed...`);
+          await this.stopProcessByName(projectPath, definition.name);
+        }
+        const started = !active || stale;
+
+        if (started) {
+          const inject = Object.keys(dependencies).length > 0 ? definition.inject || 'globals' : null;
+
+          logger.info(`Starting ${definition.name}${inject ? ` with ${Object.keys(dependencies).join(', ')} as ${inject}` : ''}...`);
+          await new ProcessManager(this.registry).startAOProcessBackground(
+            projectPath,
+            { ...config, luaFiles: definition.luaFiles || [] },
+            {
+              name: definition.name,
+              wallet: definition.wallet,
+              module: definition.module,
+              cron: definition.cron,
+              monitor: definition.monitor,
+              sqlite: definition.sqlite,
+              tags: inject === 'tags' ? { ...definition.tags, ...getInjectedTags(dependencies) } : definition.tags,
+              preload: inject === 'globals' ? [await writeInjectedGlobals(projectPath, definition.name, dependencies)] : undefined,
+              restart: options.restart,
+              local: options.local
+            }
+          );
+          if (inject) {
+            await this.registry.update(projectPath, definition.name, { dependencies });
+          }
+        } else {
+          logger.info(`${definition.name} is already running`);
+        }
+
+        ids[definition.name] = await this.waitForProcessId(projectPath, definition.name, timeout);
+        logger.success(`${definition.name} is ready: ${ids[definition.name]}`);
+        results.push({ name: definition.name, processId: ids[definition.name], started });
+      }
+    } catch (error) {
+      logger.error('Failed to bring up processes', error as Error);
+      throw error;
+    }
+
+    return results;
+  }
+
+  /**
+   * Stop defined processes, dependents before their dependencies: the named
+   * ones and everything depending on them, or all of them. Returns the
+   * names of the processes that were running.
+   */
+  async downProcesses(projectPath: string, config: AOConfig, options: DownOptions = {}): Promise<string[]> {
+    const defined = orderProcessDefinitions(getProcessDefinitions(config));
+    for (const name of options.names || []) {
+      getProcessDefinition(config, name);
+    }
+    const selected = options.names?.length ? withDependents(defined, options.names) : defined;
+
+    const stopped: string[] = [];
+    for (const definition of selected.reverse()) {
+      const info = await this.registry.get(projectPath, definition.name);
+      if (!info || !ProcessRegistry.isActive(info)) {
+        logger.debug(`${definition.name} is not running`);
+        continue;
+      }
+      if (await this.stopProcessByName(projectPath, definition.name, options)) {
+        stopped.push(definition.name);
+      }
+    }
+    return stopped;
+  }
+
+  /**
+   * Poll a background process for its AO process ID and record it in the
+   * registry. aos prints the ID once the process is loaded.
+   */
+  private async waitForProcessId(projectPath: string, name: string, timeout: number): Promise<string> {
+    const deadline = Date.now() + timeout;
+
+    while (Date.now() < deadline) {
+      const info = await this.registry.get(projectPath, name);
+      if (!info || !ProcessRegistry.isActive(info)) {
+        throw new ProcessError(`Process ${name} exited before becoming ready. See: ao-forge process logs ${name}`);
+      }
+      if (info.processId) {
+        return info.processId;
+      }
+      if (!info.socketPath) {
+        throw new ProcessError(`Process ${name} was started in the foreground, so its process ID cannot be read`);
+      }
+
+      if (info.status === 'running') {
+        try {
+          const output = await new ProcessBridge(info.socketPath).evaluate(PROCESS_ID_PROBE, {
+            timeout: Math.max(1000, Math.min(10000, deadline - Date.now()))
+          });
+          const processId = parseProcessId(output);
+          if (processId) {
+            await this.registry.update(projectPath, name, { processId });
+            return processId;
+          }
+        } catch (error) {
+          logger.debug(`${name} is not ready yet: ${(error as Error).message}`);
+        }
+      }
+      await sleep(500);
+    }
+
+    throw new ProcessError(`Process ${name} did not report its process ID within ${timeout}ms`);
+  }
+
+  /**
+   * The process ID to send to, and the name its messages are journaled
+   * under: the process's name when it is known to this project, along
+   * with its registry entry.
+   */
+  private async resolveTarget(
+    projectPath: string,
+    target: string
+  ): Promise<{ processId: string; name: string; info?: ProcessInfo }> {
+    if (isProcessId(target)) {
+      const known = (await this.registry.list(projectPath)).find(info => info.processId === target);
+      return { processId: target, name: known?.name || target, info: known };
+    }
+
+    const info = await this.registry.get(projectPath, target);
+    if (!info?.processId) {
+      throw new ValidationError(
+        `Unknown target: ${target}. Pass a process ID or the name of a process started with "ao-forge process up"`
+      );
+    }
+    return { processId: info.processId, name: target, info };
+  }
+
+  /**
+   * The wallet named by the command or the config, falling back to the aos
+   * wallet when it exists. Sending fails later if a transport needs one.
+   */
+  private async loadSigningWallet(projectPath: string, config: AOConfig, walletName?: string): Promise<JWK | undefined> {
+    const selected = walletName || (await this.wallets.getSelectedWallet(projectPath, config))?.wallet;
+    if (!selected) {
+      return undefined;
+    }
+
+    const wallet = await this.wallets.loadWallet(selected, projectPath);
+    logger.debug(`Signing with wallet ${getWalletAddress(wallet)}`);
+    return wallet;
+  }
+
+  /**
+   * Local processes are reached through their host, whatever the transport.
+   */
+  private getLocalTransport(info: ProcessInfo, sender: string): MessageTransport {
+    if (!info.socketPath) {
+      throw new ProcessError(`Process "${info.name}" was started in the foreground and cannot be reached remotely`);
+    }
+    return new LocalProcessTransport(new ProcessBridge(info.socketPath), sender);
+  }
+
+  private async waitForHost(socketPath: string, pid: number): Promise<void> {
+    const bridge = new ProcessBridge(socketPath);
+    const deadline = Date.now() + HOST_START_TIMEOUT;
+
+    while (Date.now() < deadline) {
+      if (!ProcessRegistry.isAlive(pid)) {
+        throw new ProcessError('AO process exited during startup. Is AOS installed? Run: npm i -g https://get_ao.g8way.io');
+      }
+      if (await bridge.ping()) {
+        return;
+      }
+      await sleep(200);
+    }
+
+    throw new ProcessError(`AO process did not become ready within ${HOST_START_TIMEOUT}ms`, { pid });
+  }
+
+  /**
+   * Tell a running process host to re-read the cron file. Returns false
+   * when the process is not running in the background.
+   */
+  private async reloadCron(projectPath: string, processName: string): Promise<boolean> {
+    const info = await this.registry.get(projectPath, processName);
+    if (!info?.socketPath || info.status !== 'running' || !ProcessRegistry.isAlive(info.pid, info.pidIdentity)) {
+      logger.info(`Process "${processName}" is not running in the background; cron jobs take effect when it starts with --detach`);
+      return false;
+    }
+
+    await new ProcessBridge(info.socketPath).request('cron-reload');
+    logger.debug(`Reloaded cron jobs of ${processName}`);
+    return true;
+  }
+
+  /**
+   * Look up a running background process and open a bridge to its host.
+   */
+  private async connect(projectPath: string, name: string): Promise<{ info: ProcessInfo; bridge: ProcessBridge }> {
+    const info = await this.registry.get(projectPath, name);
+    if (!info || info.status !== 'running' || !ProcessRegistry.isAlive(info.pid, info.pidIdentity)) {
+      throw new ProcessError(`Process "${name}" is not running. Start it with "ao-forge process start -n ${name} --detach".`);
+    }
+    if (!info.socketPath) {
+      throw new ProcessError(`Process "${name}" was started in the foreground and cannot be reached remotely`);
+    }
+    return { info, bridge: new ProcessBridge(info.socketPath) };
+  }
+
+  private async ensureNotRunning(projectPath: string, name: string): Promise<void> {
+    const existing = await this.registry.get(projectPath, name);
+    if (existing && ProcessRegistry.isActive(existing)) {
+      throw new ProcessError(
+        `Process "${name}" is already running (PID: ${existing.pid}). Stop it first with "ao-forge process stop ${name}".`,
+        { pid: existing.pid }
+      );
+    }
+  }
+
   isProcessRunning(): boolean {
     return this.process !== null && !this.process.killed;
   }
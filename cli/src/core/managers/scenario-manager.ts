@@ -0,0 +1,274 @@
+import path from 'path';
+import fs from 'fs-extra';
+import chalk from 'chalk';
+import { logger } from '../utils/logging.js';
+import { ProcessError, ValidationError } from '../utils/error-handling.js';
+import { AOEmulator, getOutputText } from '../process/emulator.js';
+import { LocalScheduler, getRunResult } from '../process/scheduler.js';
+import { ScenarioBackend, loadScenario, runScenario } from '../process/scenario.js';
+import { EvalOutput } from '../process/bridge.js';
+import { getProcessDefinition, getProcessDefinitions } from '../process/definitions.js';
+import { resolveNetwork } from '../process/network.js';
+import { ProcessManager } from './process-manager.js';
+import { WalletManager, getConfiguredWallet } from './wallet-manager.js';
+import { AOConfig, MessageResult, MessageTag } from '../../types/aos.js';
+import { Scenario, ScenarioReport, ScenarioStepStatus } from '../../types/scenario.js';
+
+export interface ScenarioOptions {
+  /** Run against the selected network profile instead of the local emulator */
+  live?: boolean;
+  /** Seed for local runs, overriding the scenario's own */
+  seed?: number;
+}
+
+const STATUS_SYMBOLS: Record<ScenarioStepStatus, string> = {
+  passed: chalk.green('✓'),
+  failed: chalk.red('✗'),
+  skipped: chalk.yellow('-')
+};
+
+function emptyResult(output: string = ''): MessageResult {
+  return { Messages: [], Spawns: [], Output: output };
+}
+
+// Loading several files gives one result with all of their messages
+function mergeResults(results: MessageResult[]): MessageResult {
+  return {
+    Messages: results.flatMap(result => result.Messages),
+    Spawns: results.flatMap(result => result.Spawns),
+    Output: results.map(getOutputText).filter(Boolean).join('\n'),
+    Error: results.find(result => result.Error)?.Error
+  };
+}
+
+/**
+ * Runs scenarios in local emulated processes, one per spawn step, whose
+ * messages to each other are delivered by a seeded scheduler. Senders and
+ * owners are wallets when a wallet of that name or path exists, else taken
+ * as addresses.
+ */
+export class LocalScenarioBackend implements ScenarioBackend {
+  readonly target = 'local';
+  readonly seed: number;
+  private projectPath: string;
+  private config: AOConfig;
+  private wallets: WalletManager;
+  private scheduler: LocalScheduler;
+  private processes = new Map<string, AOEmulator>();
+
+  constructor(projectPath: string, config: AOConfig, seed?: number, wallets: WalletManager = new WalletManager()) {
+    this.projectPath = projectPath;
+    this.config = config;
+    this.wallets = wallets;
+    this.scheduler = new LocalScheduler({ projectPath, seed });
+    this.seed = this.scheduler.seed;
+  }
+
+  async spawn(name: string, options: { luaFiles?: string[]; owner?: string }): Promise<{ processId: string; result: MessageResult }> {
+    if (this.processes.has(name)) {
+      throw new ValidationError(`Process ${name} was already spawned`);
+    }
+    const luaFiles = options.luaFiles ?? getProcessDefinition(this.config, name).luaFiles ?? [];
+    const owner = options.owner ?? getConfiguredWallet(this.config)?.wallet;
+    const emulator = await this.scheduler.spawn(name, { owner: owner ? await this.resolveAddress(owner) : undefined });
+    this.processes.set(name, emulator);
+    const results = luaFiles.map(file => getRunResult(this.scheduler.load(emulator, file)));
+    return { processId: emulator.id, result: mergeResults(results) };
+  }
+
+  async send(name: string, message: { from?: string; tags: MessageTag[]; data?: string }): Promise<MessageResult> {
+    return getRunResult(this.scheduler.deliver(this.getProcess(name), {
+      From: message.from ? await this.resolveAddress(message.from) : undefined,
+      Tags: message.tags,
+      Data: message.data
+    }));
+  }
+
+  async evaluate(name: string, code: string): Promise<MessageResult> {
+    return getRunResult(this.scheduler.evaluate(this.getProcess(name), code));
+  }
+
+  async readState(name: string, expression: string): Promise<unknown> {
+    return JSON.parse(String(this.getProcess(name).run(`return require('json').encode(${expression})`, '=state')));
+  }
+
+  async resolveAddress(label: string): Promise<string> {
+    const process = this.processes.get(label);
+    if (process) {
+      return process.id;
+    }
+    if (await this.wallets.hasWallet(label) || await fs.pathExists(path.resolve(this.projectPath, label))) {
+      return this.wallets.getAddress(label, this.projectPath);
+    }
+    return label;
+  }
+
+  async close(): Promise<void> {
+    this.scheduler.close();
+    this.processes.clear();
+  }
+
+  private getProcess(name: string): AOEmulator {
+    const emulator = this.processes.get(name);
+    if (!emulator) {
+      throw new ValidationError(`Process ${name} has not been spawned in this scenario`);
+    }
+    return emulator;
+  }
+}
+
+/**
+ * Runs scenarios against the selected network: spawn steps start defined
+ * processes with aos, or reuse running ones, and messages are signed with
+ * the sender's wallet. Processes the run started are stopped afterwards.
+ */
+export class NetworkScenarioBackend implements ScenarioBackend {
+  readonly target: string;
+  private projectPath: string;
+  private config: AOConfig;
+  private processManager: ProcessManager;
+  private wallets: WalletManager;
+  private processIds = new Map<string, string>();
+  private started: string[] = [];
+
+  constructor(projectPath: string, config: AOConfig, processManager: ProcessManager = new ProcessManager(), wallets: WalletManager = new WalletManager()) {
+    this.projectPath = projectPath;
+    this.config = config;
+    this.processManager = processManager;
+    this.wallets = wallets;
+    this.target = resolveNetwork(config)?.name || 'network';
+  }
+
+  async spawn(name: string, options: { luaFiles?: string[]; owner?: string }): Promise<{ processId: string; result: MessageResult }> {
+    const processes = Object.fromEntries(getProcessDefinitions(this.config).map(({ name: defined, ...definition }) => [defined, definition]));
+    processes[name] = {
+      ...(processes[name] || getProcessDefinition(this.config, name)),
+      ...(options.luaFiles && { luaFiles: options.luaFiles }),
+      ...(options.owner && { wallet: options.owner })
+    };
+
+    const results = await this.processManager.upProcesses(this.projectPath, { ...this.config, processes }, { names: [name] });
+    const result = results.find(entry => entry.name === name);
+    if (!result?.processId) {
+      throw new ProcessError(`Process ${name} did not report its ID`);
+    }
+    this.started.push(...results.filter(entry => entry.started).map(entry => entry.name));
+    this.processIds.set(name, result.processId);
+    return { processId: result.processId, result: emptyResult() };
+  }
+
+  async send(name: string, message: { from?: string; tags: MessageTag[]; data?: string }): Promise<MessageResult> {
+    const { result } = await this.processManager.sendMessage(this.projectPath, this.config, {
+      target: this.getProcessId(name),
+      tags: message.tags.map(tag => `${tag.name}=${tag.value}`),
+      data: message.data,
+      wallet: message.from,
+      await: true
+    });
+    return result || emptyResult();
+  }
+
+  async evaluate(name: string, code: string): Promise<MessageResult> {
+    try {
+      return emptyResult(await this.processManager.evaluateProcess(code, { name, projectPath: this.projectPath }));
+    } catch (error) {
+      // A Lua error is the step's result; anything else means it could not run
+      const details: EvalOutput | undefined = error instanceof ProcessError ? error.details : undefined;
+      if (!details?.error) {
+        throw error;
+      }
+      return { ...emptyResult(details.output), Error: details.error };
+    }
+  }
+
+  async readState(name: string, expression: string): Promise<unknown> {
+    const output = await this.processManager.evaluateProcess(`require('json').encode(${expression})`, { name, projectPath: this.projectPath });
+    try {
+      return JSON.parse(output.trim());
+    } catch {
+      throw new ProcessError(`Could not read ${expression} from ${name}: ${output.trim()}`);
+    }
+  }
+
+  async resolveAddress(label: string): Promise<string> {
+    const processId = this.processIds.get(label);
+    if (processId) {
+      return processId;
+    }
+    if (await this.wallets.hasWallet(label) || await fs.pathExists(path.resolve(this.projectPath, label))) {
+      return this.wallets.getAddress(label, this.projectPath);
+    }
+    return label;
+  }
+
+  async close(): Promise<void> {
+    for (const name of this.started.reverse()) {
+      await this.processManager.stopProcessByName(this.projectPath, name);
+    }
+  }
+
+  private getProcessId(name: string): string {
+    const processId = this.processIds.get(name);
+    if (!processId) {
+      throw new ValidationError(`Process ${name} has not been spawned in this scenario`);
+    }
+    return processId;
+  }
+}
+
+export class ScenarioManager {
+  /**
+   * Run scenario files one after another, each with processes of its own.
+   */
+  async run(projectPath: string, config: AOConfig, files: string[], options: ScenarioOptions = {}): Promise<ScenarioReport[]> {
+    const reports: ScenarioReport[] = [];
+    for (const file of files) {
+      const relative = path.relative(projectPath, path.resolve(projectPath, file));
+      let scenario: Scenario;
+      try {
+        scenario = await loadScenario(path.resolve(projectPath, file), { live: options.live });
+      } catch (error) {
+        reports.push({
+          name: path.basename(file).replace(/\.ya?ml$/, ''),
+          file: relative,
+          target: options.live ? resolveNetwork(config)?.name || 'network' : 'local',
+          ok: false,
+          steps: [],
+          duration: 0,
+          error: (error as Error).message
+        });
+        continue;
+      }
+
+      const backend: ScenarioBackend = options.live
+        ? new NetworkScenarioBackend(projectPath, config)
+        : new LocalScenarioBackend(projectPath, config, options.seed ?? scenario.seed);
+      logger.debug(`Running scenario ${relative} against ${backend.target}${backend.seed === undefined ? '' : ` with seed ${backend.seed}`}`);
+      reports.push(await runScenario(scenario, backend, relative));
+    }
+    return reports;
+  }
+}
+
+export function renderScenarioReport(reports: ScenarioReport[]): string {
+  const lines: string[] = [];
+
+  for (const report of reports) {
+    const seed = report.seed === undefined ? '' : `, seed ${report.seed}`;
+    lines.push(`${chalk.bold(report.name)} ${chalk.gray(`(${report.file}, ${report.target}${seed})`)}`);
+    for (const step of report.steps) {
+      lines.push(`  ${STATUS_SYMBOLS[step.status]} ${step.description}${step.status === 'skipped' ? '' : chalk.gray(` (${step.duration}ms)`)}`);
+      for (const failure of step.failures) {
+        lines.push(...failure.split('\n').map(line => `      ${chalk.red(line)}`));
+      }
+    }
+    if (report.error) {
+      lines.push(`  ${STATUS_SYMBOLS.failed} ${chalk.red(`Could not run the scenario: ${report.error}`)}`);
+    }
+    lines.push('');
+  }
+
+  const passed = reports.filter(report => report.ok).length;
+  lines.push(`${passed} passed, ${reports.length - passed} failed`);
+  return lines.join('\n');
+}
@@ -0,0 +1,252 @@
+import path from 'path';
+import fs from 'fs-extra';
+import chalk from 'chalk';
+import { logger } from '../utils/logging.js';
+import { ValidationError } from '../utils/error-handling.js';
+import { toJUnitXML } from '../utils/junit.js';
+import { toLCOV } from '../utils/lcov.js';
+import { findSpecFiles, runSpecFile } from '../process/spec.js';
+import { CoverageCollector, getCoverageTotals } from '../process/coverage.js';
+import { resolveLuaDependencies } from '../process/lua.js';
+import { Profiler, createProfileReport } from '../process/profile.js';
+import { NamedProcessDefinition, getProcessDefinition, getProcessDefinitions } from '../process/definitions.js';
+import { AOConfig } from '../../types/aos.js';
+import { CoverageSummary, CoverageTotals, SpecFileResult, SpecStatus, TestReport } from '../../types/cli.js';
+
+export interface TestOptions {
+  /** Spec files or directories to search; the whole project when empty */
+  paths?: string[];
+  /** Process whose Lua files every spec runs against */
+  process?: string;
+  /** Only run tests whose full name contains this */
+  grep?: string;
+  /** Write a JUnit XML report to this file */
+  junit?: string;
+  /** Measure coverage of the project's Lua files and write an LCOV report */
+  coverage?: boolean;
+  /** Percentage that line and branch coverage must each reach; implies coverage */
+  coverageThreshold?: number;
+  /** Measure what each handler run costs and check it against budgets and the baseline */
+  profile?: boolean;
+  /** Save handler costs as the new baseline; implies profile */
+  updateBaseline?: boolean;
+}
+
+/** Where the LCOV report is written, relative to the project */
+export const LCOV_FILE = path.join('coverage', 'lcov.info');
+
+const STATUS_SYMBOLS: Record<SpecStatus, string> = {
+  passed: chalk.green('✓'),
+  failed: chalk.red('✗'),
+  skipped: chalk.yellow('-')
+};
+
+/**
+ * Name of the process a spec file is named after: `token` for
+ * `token_spec.lua` and `token.test.lua`.
+ */
+export function getSpecSubject(file: string): string {
+  return path.basename(file).replace(/(_spec|\.test)\.lua$/, '');
+}
+
+export class TestManager {
+  /**
+   * Run every spec file found, each in a fresh emulated process.
+   */
+  async run(projectPath: string, config: AOConfig, options: TestOptions = {}): Promise<TestReport> {
+    const startTime = Date.now();
+    const files = await findSpecFiles(projectPath, options.paths?.length ? options.paths : undefined);
+    if (options.paths?.length && files.length === 0) {
+      throw new ValidationError(`No spec files (*_spec.lua, *.test.lua) in ${options.paths.join(', ')}`);
+    }
+    if (options.process) {
+      getProcessDefinition(config, options.process);
+    }
+    logger.debug(`Found ${files.length} spec file(s)`);
+    const profile = options.profile || options.updateBaseline;
+    if (profile && (options.coverage || options.coverageThreshold !== undefined)) {
+      throw new ValidationError('Measure coverage and profile in separate runs: coverage probes add to instruction counts');
+    }
+    const coverage = options.coverage || options.coverageThreshold !== undefined
+      ? await CoverageCollector.create(projectPath, await this.getCoveredFiles(projectPath, config))
+      : undefined;
+    const profiler = profile ? new Profiler() : undefined;
+
+    const results: SpecFileResult[] = [];
+    for (const file of files) {
+      let definition: NamedProcessDefinition;
+      try {
+        definition = this.getSpecProcess(config, file, options.process);
+      } catch (error) {
+        results.push({ file, duration: 0, tests: [], error: (error as Error).message });
+        continue;
+      }
+      results.push(await runSpecFile(file, {
+        projectPath,
+        process: definition.name,
+        luaFiles: definition.luaFiles || [],
+        grep: options.grep,
+        coverage,
+        profiler
+      }));
+    }
+
+    const count = (status: SpecStatus) => results.reduce((sum, file) => sum + file.tests.filter(test => test.status === status).length, 0);
+    const report: TestReport = {
+      ok: count('failed') === 0 && results.every(file => !file.error),
+      files: results,
+      passed: count('passed'),
+      failed: count('failed'),
+      skipped: count('skipped'),
+      duration: Date.now() - startTime
+    };
+
+    if (options.junit) {
+      const junitPath = path.resolve(projectPath, options.junit);
+      await fs.outputFile(junitPath, toJUnitXML(report));
+      logger.debug(`Wrote JUnit report to ${junitPath}`);
+    }
+    if (coverage) {
+      report.coverage = coverage.summarize(options.coverageThreshold);
+      await fs.outputFile(path.join(projectPath, LCOV_FILE), toLCOV(report.coverage));
+      logger.debug(`Wrote LCOV report to ${LCOV_FILE}`);
+    }
+    if (profiler) {
+      // A baseline only means something for code whose specs pass
+      const updateBaseline = options.updateBaseline && report.ok;
+      if (options.updateBaseline && !report.ok) {
+        logger.warn('Specs failed, so the profile baseline was not updated');
+      }
+      report.profile = await createProfileReport(projectPath, config, profiler.runs, { updateBaseline });
+    }
+    return report;
+  }
+
+  /**
+   * The Lua files of every defined process and the project modules they
+   * require, relative to the project.
+   */
+  async getCoveredFiles(projectPath: string, config: AOConfig): Promise<string[]> {
+    const files = new Set<string>();
+    for (const entry of getProcessDefinitions(config).flatMap(definition => definition.luaFiles || [])) {
+      files.add(path.relative(projectPath, path.resolve(projectPath, entry)));
+      for (const dependency of await resolveLuaDependencies(entry, projectPath)) {
+        files.add(path.relative(projectPath, dependency));
+      }
+    }
+    return [...files];
+  }
+
+  /**
+   * Process a spec runs against: the given one, else the one the spec is
+   * named after, else `processName` or the only one.
+   */
+  getSpecProcess(config: AOConfig, file: string, processName?: string): NamedProcessDefinition {
+    if (processName) {
+      return getProcessDefinition(config, processName);
+    }
+
+    const definitions = getProcessDefinitions(config);
+    const definition = definitions.find(entry => entry.name === getSpecSubject(file))
+      || definitions.find(entry => entry.name === config.processName)
+      || (definitions.length === 1 ? definitions[0] : undefined);
+    if (!definition) {
+      throw new ValidationError(
+        `Several processes are defined (${definitions.map(entry => entry.name).join(', ')}). ` +
+        `Name the spec after one, e.g. ${definitions[0].name}_spec.lua, or pass --process.`
+      );
+    }
+    return definition;
+  }
+}
+
+export function renderTestReport(report: TestReport): string {
+  const lines: string[] = [];
+  const failures: string[] = [];
+
+  for (const file of report.files) {
+    lines.push(chalk.bold(file.file));
+    for (const test of file.tests) {
+      lines.push(`  ${STATUS_SYMBOLS[test.status]} ${test.name}${test.status === 'skipped' ? '' : chalk.gray(` (${test.duration}ms)`)}`);
+      if (test.status === 'failed') {
+        failures.push(`${file.file}: ${test.name}\n${indent(test.error || 'Test failed')}`);
+      }
+    }
+    if (file.error) {
+      lines.push(`  ${STATUS_SYMBOLS.failed} ${chalk.red('Could not run the file')}`);
+      failures.push(`${file.file}\n${indent(file.error)}`);
+    }
+    lines.push('');
+  }
+
+  if (failures.length > 0) {
+    lines.push(chalk.red('Failures:'), '');
+    failures.forEach((failure, index) => lines.push(`  ${index + 1}) ${failure}`, ''));
+  }
+
+  const errors = report.files.filter(file => file.error).length;
+  lines.push(`${report.passed} passed, ${report.failed} failed, ${report.skipped} skipped` +
+    `${errors > 0 ? `, ${errors} file(s) with errors` : ''} (${report.duration}ms)`);
+  return lines.join('\n');
+}
+
+function indent(text: string): string {
+  return text.split('\n').map(line => `     ${line}`).join('\n');
+}
+
+function formatTotals(totals: CoverageTotals): string {
+  const text = `${totals.percent.toFixed(1)}% (${totals.covered}/${totals.total})`;
+  return totals.percent === 100 ? chalk.green(text) : totals.percent >= 50 ? chalk.yellow(text) : chalk.red(text);
+}
+
+// 3, 5-8, 12
+function formatLineRanges(lines: number[]): string {
+  const ranges: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    let end = i;
+    while (end + 1 < lines.length && lines[end + 1] === lines[end] + 1) {
+      end++;
+    }
+    ranges.push(end === i ? `${lines[i]}` : `${lines[i]}-${lines[end]}`);
+    i = end;
+  }
+  return ranges.join(', ');
+}
+
+/**
+ * Coverage by file, then what no test ran: lines, arms of `if`s and
+ * handlers.
+ */
+export function renderCoverage(summary: CoverageSummary): string {
+  const lines: string[] = [chalk.bold('Coverage'), ''];
+
+  for (const file of summary.files) {
+    const handlers = getCoverageTotals(file.handlers.map(handler => handler.hits));
+    lines.push(`  ${chalk.bold(file.file)}  lines ${formatTotals(getCoverageTotals(Object.values(file.lines)))}` +
+      `  branches ${formatTotals(getCoverageTotals(file.branches.map(branch => branch.hits)))}` +
+      `  handlers ${handlers.covered}/${handlers.total}`);
+
+    if (file.error) {
+      lines.push(`    ${chalk.red(`Could not analyse the file: ${file.error}`)}`);
+    }
+    const missedLines = Object.entries(file.lines).filter(([, hits]) => hits === 0).map(([line]) => Number(line));
+    if (missedLines.length > 0) {
+      lines.push(`    ${chalk.gray('Lines not run:')} ${formatLineRanges(missedLines)}`);
+    }
+    const missedBranches = file.branches.filter(branch => branch.hits === 0);
+    if (missedBranches.length > 0) {
+      lines.push(`    ${chalk.gray('Branches not taken:')} ${missedBranches.map(branch => `${branch.line} ${branch.label}`).join(', ')}`);
+    }
+    const missedHandlers = file.handlers.filter(handler => handler.hits === 0);
+    if (missedHandlers.length > 0) {
+      lines.push(`    ${chalk.gray('Handlers not run:')} ${missedHandlers.map(handler => `${handler.name} (line ${handler.line})`).join(', ')}`);
+    }
+  }
+
+  lines.push('', `  All files  lines ${formatTotals(summary.lines)}  branches ${formatTotals(summary.branches)}` +
+    `  handlers ${summary.handlers.covered}/${summary.handlers.total}`);
+  if (summary.threshold !== undefined && !summary.ok) {
+    lines.push(chalk.red(`  Coverage is below the threshold of ${summary.threshold}%`));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,332 @@
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { promisify } from 'util';
+import fs from 'fs-extra';
+import { logger } from '../utils/logging.js';
+import { ValidationError } from '../utils/error-handling.js';
+import { EncryptedEnvelope, decryptSecret, encryptSecret, isEncryptedEnvelope } from '../utils/keystore.js';
+import { ProcessRegistry, getForgeHome } from '../process/registry.js';
+import { resolveNetwork } from '../process/network.js';
+import { DEFAULT_WALLET_PATH, getWalletAddress, readWallet } from '../process/message.js';
+import { AOConfig, JWK } from '../../types/aos.js';
+
+// Arweave only accepts 4096-bit RSA keys with the standard exponent
+const KEY_SIZE = 4096;
+const PUBLIC_EXPONENT = 0x10001;
+const WALLET_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+// Unlocks wallets without a prompt, e.g. in CI
+export const WALLET_PASSPHRASE_ENV = 'AO_FORGE_WALLET_PASSPHRASE';
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const generateKeyPair = promisify(crypto.generateKeyPair);
+// Decrypted copies for aos: ao-forge-wallet-<PID of the CLI that made it>-<random>
+const WALLET_TEMP_PREFIX = 'ao-forge-wallet-';
+
+export interface WalletInfo {
+  name: string;
+  address: string;
+  path: string;
+  /** False for wallets stored before the keystore was encrypted */
+  encrypted: boolean;
+}
+
+export type EncryptedWallet = EncryptedEnvelope<{ address: string }>;
+
+/** A wallet as a JWK file, for aos */
+export interface WalletFile {
+  path: string;
+  /** Temporary directory holding a decrypted copy, to remove once aos is done */
+  tempDir?: string;
+}
+
+export interface SaveWalletOptions {
+  /** Replace a wallet of the same name */
+  force?: boolean;
+}
+
+/** Where the wallet in use comes from, most specific first */
+export type WalletSource = 'network' | 'project' | 'aos';
+
+export interface SelectedWallet {
+  /** Wallet name or path as configured */
+  wallet: string;
+  source: WalletSource;
+  path: string;
+}
+
+export function getWalletDir(): string {
+  return path.join(getForgeHome(), 'wallets');
+}
+
+/**
+ * Generate an Arweave wallet: an RSA private key in JWK form.
+ */
+export async function generateWallet(): Promise<JWK> {
+  const { privateKey } = await generateKeyPair('rsa', { modulusLength: KEY_SIZE, publicExponent: PUBLIC_EXPONENT });
+  return privateKey.export({ format: 'jwk' }) as JWK;
+}
+
+/**
+ * Wallet configured for the project: the selected network's, else the
+ * project's own. Either may be a wallet name or a path.
+ */
+export function getConfiguredWallet(config: AOConfig): { wallet: string; source: WalletSource } | undefined {
+  const network = resolveNetwork(config);
+  if (network?.wallet) {
+    return { wallet: network.wallet, source: 'network' };
+  }
+  return config.wallet ? { wallet: config.wallet, source: 'project' } : undefined;
+}
+
+/**
+ * Remove decrypted wallets left behind by CLI runs and hosts that died
+ * without cleaning up: those whose CLI is gone and that no process still
+ * uses, given as `inUse`.
+ */
+export async function removeStaleWalletFiles(inUse: string[]): Promise<void> {
+  const tempRoot = os.tmpdir();
+  const used = new Set(inUse.map(dir => path.resolve(dir)));
+  const entries: string[] = (await fs.readdir(tempRoot).catch(() => null)) || [];
+
+  for (const entry of entries) {
+    const dir = path.join(tempRoot, entry);
+    if (!entry.startsWith(WALLET_TEMP_PREFIX) || used.has(dir)
+      || ProcessRegistry.isAlive(parseInt(entry.slice(WALLET_TEMP_PREFIX.length), 10))) {
+      continue;
+    }
+    try {
+      // Other users' wallets are not ours to remove
+      if (process.getuid && (await fs.stat(dir)).uid !== process.getuid()) {
+        continue;
+      }
+      await fs.remove(dir);
+      logger.debug(`Removed stale decrypted wallet: ${dir}`);
+    } catch (error) {
+      logger.debug(`Could not remove stale decrypted wallet ${dir}: ${(error as Error).message}`);
+    }
+  }
+}
+
+// Wallets unlocked so far by this command, by file
+const unlocked = new Map<string, JWK>();
+
+async function promptPassphrase(message: string): Promise<string> {
+  // Loaded on first use, like other interactive prompts
+  const { default: inquirer } = await import('inquirer');
+  const { passphrase } = await inquirer.prompt([{
+    type: 'password',
+    name: 'passphrase',
+    mask: '*',
+    message
+  }]);
+  return passphrase;
+}
+
+/**
+ * Named wallets kept in `~/.ao-forge/wallets`, encrypted with a passphrase
+ * (scrypt and AES-256-GCM) and readable only by their owner. Commands that
+ * take a wallet accept one of these names or a path to a JWK.
+ */
+export class WalletManager {
+  private walletDir: string;
+
+  constructor(walletDir: string = getWalletDir()) {
+    this.walletDir = walletDir;
+  }
+
+  getWalletPath(name: string): string {
+    return path.join(this.walletDir, `${name}.json`);
+  }
+
+  async createWallet(name: string, options: SaveWalletOptions = {}): Promise<WalletInfo> {
+    await this.ensureAvailable(name, options);
+    const passphrase = await this.getNewPassphrase(name);
+    logger.info(`Generating wallet ${name}...`);
+    try {
+      return await this.saveWallet(name, await generateWallet(), passphrase);
+    } catch (error) {
+      logger.error(`Failed to create wallet: ${name}`, error as Error);
+      throw error;
+    }
+  }
+
+  async importWallet(name: string, sourcePath: string, options: SaveWalletOptions = {}): Promise<WalletInfo> {
+    await this.ensureAvailable(name, options);
+    const jwk = await readWallet(path.resolve(sourcePath));
+    const wallet = await this.saveWallet(name, jwk, await this.getNewPassphrase(name));
+    logger.info(`The original file is unchanged; delete ${sourcePath} if it is no longer needed`);
+    return wallet;
+  }
+
+  async listWallets(): Promise<WalletInfo[]> {
+    if (!(await fs.pathExists(this.walletDir))) {
+      return [];
+    }
+
+    const wallets: WalletInfo[] = [];
+    for (const file of (await fs.readdir(this.walletDir)).sort()) {
+      if (!file.endsWith('.json')) {
+        continue;
+      }
+      const name = file.slice(0, -'.json'.length);
+      try {
+        wallets.push(await this.getWallet(name));
+      } catch (error) {
+        logger.warn(`Skipping wallet ${name}: ${(error as Error).message}`);
+      }
+    }
+    return wallets;
+  }
+
+  /**
+   * A stored wallet's details, read without unlocking it.
+   */
+  async getWallet(name: string): Promise<WalletInfo> {
+    const walletPath = this.getWalletPath(name);
+    if (!WALLET_NAME_PATTERN.test(name) || !(await fs.pathExists(walletPath))) {
+      throw new ValidationError(`Unknown wallet: ${name}. Create it with "ao-forge wallet create ${name}"`);
+    }
+
+    const stored = await fs.readJSON(walletPath);
+    if (isEncryptedEnvelope(stored)) {
+      return { name, address: (stored as EncryptedWallet).meta.address, path: walletPath, encrypted: true };
+    }
+    return { name, address: getWalletAddress(await readWallet(walletPath)), path: walletPath, encrypted: false };
+  }
+
+  /**
+   * The JWK of a wallet given by name or by path. Stored wallets are
+   * unlocked once per command, with the passphrase from the environment or
+   * a prompt.
+   */
+  async loadWallet(wallet: string, projectPath: string): Promise<JWK> {
+    if (!(await this.hasWallet(wallet))) {
+      return readWallet(path.resolve(projectPath, wallet));
+    }
+
+    const walletPath = this.getWalletPath(wallet);
+    const cached = unlocked.get(walletPath);
+    if (cached) {
+      return cached;
+    }
+
+    const stored = await fs.readJSON(walletPath);
+    if (!isEncryptedEnvelope(stored)) {
+      logger.warn(`Wallet ${wallet} is not encrypted. Encrypt it with: ao-forge wallet import ${wallet} ${walletPath} --force`);
+      return readWallet(walletPath);
+    }
+
+    const passphrase = process.env[WALLET_PASSPHRASE_ENV] ?? await this.promptForPassphrase(wallet, `Passphrase for wallet ${wallet}:`);
+    let jwk: JWK;
+    try {
+      jwk = JSON.parse(await decryptSecret(stored, passphrase));
+    } catch (error) {
+      throw new ValidationError(`Could not unlock wallet ${wallet}: ${(error as Error).message}`);
+    }
+    unlocked.set(walletPath, jwk);
+    return jwk;
+  }
+
+  /**
+   * A JWK file of the wallet for aos to read. Stored wallets are decrypted to
+   * a temporary file readable only by the owner; remove its `tempDir` once
+   * aos no longer needs it.
+   */
+  async getWalletFile(wallet: string, projectPath: string): Promise<WalletFile> {
+    if (!(await this.hasWallet(wallet)) || !(await this.getWallet(wallet)).encrypted) {
+      return { path: await this.resolveWalletPath(wallet, projectPath) };
+    }
+
+    const jwk = await this.loadWallet(wallet, projectPath);
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), `${WALLET_TEMP_PREFIX}${process.pid}-`));
+    const walletPath = path.join(tempDir, `${wallet}.json`);
+    try {
+      await fs.chmod(tempDir, 0o700);
+      await fs.writeFile(walletPath, JSON.stringify(jwk), { mode: 0o600 });
+    } catch (error) {
+      await fs.remove(tempDir);
+      throw error;
+    }
+    return { path: walletPath, tempDir };
+  }
+
+  async getAddress(wallet: string, projectPath: string): Promise<string> {
+    if (await this.hasWallet(wallet)) {
+      return (await this.getWallet(wallet)).address;
+    }
+    return getWalletAddress(await readWallet(path.resolve(projectPath, wallet)));
+  }
+
+  async hasWallet(name: string): Promise<boolean> {
+    return WALLET_NAME_PATTERN.test(name) && fs.pathExists(this.getWalletPath(name));
+  }
+
+  /**
+   * Path of a wallet given by name or by path, the latter relative to the
+   * project. A name wins over a file of the same name.
+   */
+  async resolveWalletPath(wallet: string, projectPath: string): Promise<string> {
+    return (await this.hasWallet(wallet)) ? this.getWalletPath(wallet) : path.resolve(projectPath, wallet);
+  }
+
+  /**
+   * The wallet the project uses: its network's or its own, falling back to
+   * the aos wallet when it exists.
+   */
+  async getSelectedWallet(projectPath: string, config: AOConfig): Promise<SelectedWallet | undefined> {
+    const configured = getConfiguredWallet(config);
+    if (configured) {
+      return { ...configured, path: await this.resolveWalletPath(configured.wallet, projectPath) };
+    }
+    if (await fs.pathExists(DEFAULT_WALLET_PATH)) {
+      return { wallet: DEFAULT_WALLET_PATH, source: 'aos', path: DEFAULT_WALLET_PATH };
+    }
+    return undefined;
+  }
+
+  private async ensureAvailable(name: string, options: SaveWalletOptions): Promise<void> {
+    if (!WALLET_NAME_PATTERN.test(name)) {
+      throw new ValidationError(`Invalid wallet name: ${name}. Use letters, numbers, hyphens and underscores`);
+    }
+    if (!options.force && (await fs.pathExists(this.getWalletPath(name)))) {
+      throw new ValidationError(`Wallet ${name} already exists. Pass --force to replace it`);
+    }
+  }
+
+  private async promptForPassphrase(name: string, message: string): Promise<string> {
+    if (!process.stdin.isTTY) {
+      throw new ValidationError(`Wallet ${name} is encrypted. Set ${WALLET_PASSPHRASE_ENV} to unlock it without a terminal`);
+    }
+    return promptPassphrase(message);
+  }
+
+  private async getNewPassphrase(name: string): Promise<string> {
+    let passphrase = process.env[WALLET_PASSPHRASE_ENV];
+    if (passphrase === undefined) {
+      passphrase = await this.promptForPassphrase(name, `New passphrase for wallet ${name}:`);
+      if (passphrase !== await promptPassphrase('Repeat the passphrase:')) {
+        throw new ValidationError('Passphrases do not match');
+      }
+    }
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new ValidationError(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+    return passphrase;
+  }
+
+  private async saveWallet(name: string, jwk: JWK, passphrase: string): Promise<WalletInfo> {
+    const walletPath = this.getWalletPath(name);
+    const address = getWalletAddress(jwk);
+    const encrypted: EncryptedWallet = await encryptSecret(JSON.stringify(jwk), passphrase, { address });
+
+    await fs.ensureDir(this.walletDir, { mode: 0o700 });
+    await fs.writeFile(walletPath, JSON.stringify(encrypted, null, 2), { mode: 0o600 });
+    // The mode above only applies to new files
+    await fs.chmod(walletPath, 0o600);
+    unlocked.set(walletPath, jwk);
+
+    logger.success(`Saved wallet ${name} (${address})`);
+    return { name, address, path: walletPath, encrypted: true };
+  }
+}
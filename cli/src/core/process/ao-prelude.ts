@@ -0,0 +1,762 @@
+/**
+ * Lua run by the local emulator before any project code: the subset of the
+ * aos 2.x runtime that processes use directly. It defines the `ao`,
+ * `Handlers` and `Inbox` globals, `Send`, `Spawn`, `print` captured into
+ * the message's Output, and the `json` and `utils` modules for `require`.
+ *
+ * The emulator talks to it through `__aoforge`: `init` once, then `handle`
+ * per message and `eval` per REPL input, each returning the result as JSON.
+ */
+export const AO_PRELUDE = String.raw`
+local json = {}
+
+do
+  local escapes = { ['"'] = '\\"', ['\\'] = '\\\\', ['\b'] = '\\b', ['\f'] = '\\f', ['\n'] = '\\n', ['\r'] = '\\r', ['\t'] = '\\t' }
+  local unescapes = { b = '\b', f = '\f', n = '\n', r = '\r', t = '\t', ['"'] = '"', ['\\'] = '\\', ['/'] = '/' }
+
+  local function escape(char)
+    return escapes[char] or string.format('\\u%04x', char:byte())
+  end
+
+  local function isArray(value)
+    local count = 0
+    for key in pairs(value) do
+      if math.type(key) ~= 'integer' or key < 1 then
+        return false
+      end
+      count = count + 1
+    end
+    return count == #value
+  end
+
+  local encode
+
+  local function encodeTable(value, stack)
+    if stack[value] then
+      error('circular reference')
+    end
+    stack[value] = true
+
+    local parts = {}
+    if next(value) == nil or isArray(value) then
+      for i = 1, #value do
+        parts[i] = encode(value[i], stack)
+      end
+      stack[value] = nil
+      return '[' .. table.concat(parts, ',') .. ']'
+    end
+
+    for key, item in pairs(value) do
+      if type(key) ~= 'string' then
+        error('invalid table: mixed or invalid key types')
+      end
+      parts[#parts + 1] = encode(key, stack) .. ':' .. encode(item, stack)
+    end
+    -- Key order is random in Lua; sorted output keeps results comparable
+    table.sort(parts)
+    stack[value] = nil
+    return '{' .. table.concat(parts, ',') .. '}'
+  end
+
+  encode = function(value, stack)
+    local kind = type(value)
+    if value == nil then
+      return 'null'
+    elseif kind == 'boolean' then
+      return tostring(value)
+    elseif kind == 'number' then
+      if value ~= value or value == math.huge or value == -math.huge then
+        error("unexpected number value '" .. tostring(value) .. "'")
+      end
+      return math.type(value) == 'integer' and tostring(value) or string.format('%.14g', value)
+    elseif kind == 'string' then
+      return '"' .. (value:gsub('[%c"\\]', escape)) .. '"'
+    elseif kind == 'table' then
+      return encodeTable(value, stack or {})
+    end
+    error("unexpected type '" .. kind .. "'")
+  end
+
+  local function fail(position, message)
+    error(string.format('%s at position %d', message, position), 0)
+  end
+
+  local function skip(source, position)
+    return source:find('[^ \t\r\n]', position) or #source + 1
+  end
+
+  local function parseString(source, start)
+    local parts = {}
+    local position = start + 1
+    while true do
+      local char = source:sub(position, position)
+      if char == '' then
+        fail(start, 'unterminated string')
+      elseif char == '"' then
+        return table.concat(parts), position + 1
+      elseif char == '\\' then
+        local kind = source:sub(position + 1, position + 1)
+        if kind == 'u' then
+          local code = tonumber(source:sub(position + 2, position + 5), 16) or fail(position, 'invalid unicode escape')
+          position = position + 6
+          -- A surrogate pair encodes one character outside the BMP
+          local low = source:sub(position, position + 1) == '\\u' and tonumber(source:sub(position + 2, position + 5), 16)
+          if code >= 0xD800 and code <= 0xDBFF and low and low >= 0xDC00 and low <= 0xDFFF then
+            code = 0x10000 + (code - 0xD800) * 0x400 + (low - 0xDC00)
+            position = position + 6
+          end
+          parts[#parts + 1] = utf8.char(code)
+        else
+          parts[#parts + 1] = unescapes[kind] or fail(position, 'invalid escape')
+          position = position + 2
+        end
+      else
+        local stop = source:find('["\\]', position) or #source + 1
+        parts[#parts + 1] = source:sub(position, stop - 1)
+        position = stop
+      end
+    end
+  end
+
+  local parse
+
+  parse = function(source, position)
+    position = skip(source, position)
+    local char = source:sub(position, position)
+
+    if char == '{' then
+      local object = {}
+      position = skip(source, position + 1)
+      if source:sub(position, position) == '}' then
+        return object, position + 1
+      end
+      while true do
+        if source:sub(position, position) ~= '"' then
+          fail(position, 'expected string key')
+        end
+        local key, value
+        key, position = parseString(source, position)
+        position = skip(source, position)
+        if source:sub(position, position) ~= ':' then
+          fail(position, "expected ':'")
+        end
+        value, position = parse(source, position + 1)
+        object[key] = value
+        position = skip(source, position)
+        char = source:sub(position, position)
+        if char == '}' then
+          return object, position + 1
+        elseif char ~= ',' then
+          fail(position, "expected ',' or '}'")
+        end
+        position = skip(source, position + 1)
+      end
+    elseif char == '[' then
+      local array, count = {}, 0
+      position = skip(source, position + 1)
+      if source:sub(position, position) == ']' then
+        return array, position + 1
+      end
+      while true do
+        local value
+        value, position = parse(source, position)
+        count = count + 1
+        array[count] = value
+        position = skip(source, position)
+        char = source:sub(position, position)
+        if char == ']' then
+          return array, position + 1
+        elseif char ~= ',' then
+          fail(position, "expected ',' or ']'")
+        end
+        position = position + 1
+      end
+    elseif char == '"' then
+      return parseString(source, position)
+    elseif source:sub(position, position + 3) == 'true' then
+      return true, position + 4
+    elseif source:sub(position, position + 4) == 'false' then
+      return false, position + 5
+    elseif source:sub(position, position + 3) == 'null' then
+      return nil, position + 4
+    end
+
+    local number = source:match('^-?%d+%.?%d*[eE]?[-+]?%d*', position)
+    local value = number and tonumber(number)
+    if value == nil then
+      fail(position, "unexpected character '" .. char .. "'")
+    end
+    return value, position + #number
+  end
+
+  function json.encode(value)
+    return encode(value)
+  end
+
+  function json.decode(source)
+    if type(source) ~= 'string' then
+      error('expected argument of type string, got ' .. type(source))
+    end
+    local value, position = parse(source, 1)
+    position = skip(source, position)
+    if position <= #source then
+      fail(position, 'trailing garbage')
+    end
+    return value
+  end
+end
+
+local utils = {}
+
+function utils.curry(fn, arity)
+  arity = arity or debug.getinfo(fn, 'u').nparams
+  if arity < 2 then
+    return fn
+  end
+  return function(...)
+    local args = table.pack(...)
+    if args.n >= arity then
+      return fn(...)
+    end
+    return utils.curry(function(...)
+      local rest = table.pack(...)
+      local all = table.move(args, 1, args.n, 1, {})
+      table.move(rest, 1, rest.n, args.n + 1, all)
+      return fn(table.unpack(all, 1, args.n + rest.n))
+    end, arity - args.n)
+  end
+end
+
+utils.map = utils.curry(function(fn, data)
+  local result = {}
+  for i, value in ipairs(data) do
+    result[i] = fn(value, i)
+  end
+  return result
+end, 2)
+
+utils.filter = utils.curry(function(fn, data)
+  local result = {}
+  for _, value in ipairs(data) do
+    if fn(value) then
+      result[#result + 1] = value
+    end
+  end
+  return result
+end, 2)
+
+utils.reduce = utils.curry(function(fn, initial, data)
+  local result = initial
+  for _, value in ipairs(data) do
+    result = fn(result, value)
+  end
+  return result
+end, 3)
+
+utils.find = utils.curry(function(fn, data)
+  for _, value in ipairs(data) do
+    if fn(value) then
+      return value
+    end
+  end
+end, 2)
+
+utils.includes = utils.curry(function(value, data)
+  for _, item in ipairs(data) do
+    if item == value then
+      return true
+    end
+  end
+  return false
+end, 2)
+
+utils.propEq = utils.curry(function(property, value, object)
+  return object[property] == value
+end, 3)
+
+utils.concat = utils.curry(function(a, b)
+  return table.move(b, 1, #b, #a + 1, table.move(a, 1, #a, 1, {}))
+end, 2)
+
+function utils.reverse(data)
+  local result = {}
+  for i = #data, 1, -1 do
+    result[#result + 1] = data[i]
+  end
+  return result
+end
+
+function utils.keys(object)
+  local result = {}
+  for key in pairs(object) do
+    result[#result + 1] = key
+  end
+  return result
+end
+
+function utils.values(object)
+  local result = {}
+  for _, value in pairs(object) do
+    result[#result + 1] = value
+  end
+  return result
+end
+
+function utils.matchesPattern(pattern, value, msg)
+  if pattern == nil then
+    return false
+  elseif pattern == '_' then
+    return true
+  elseif type(pattern) == 'function' then
+    return pattern(value, msg) and true or false
+  elseif type(pattern) == 'table' then
+    for _, alternative in ipairs(pattern) do
+      if utils.matchesPattern(alternative, value, msg) then
+        return true
+      end
+    end
+    return false
+  elseif value == pattern then
+    return true
+  elseif type(pattern) == 'string' and type(value) == 'string' and pattern:find('[%^%$%(%)%%%.%[%]%*%+%?]') then
+    return value:match('^' .. pattern .. '$') ~= nil
+  end
+  return false
+end
+
+function utils.matchesSpec(msg, spec)
+  if type(spec) == 'function' then
+    return spec(msg)
+  elseif type(spec) == 'table' then
+    for key, pattern in pairs(spec) do
+      if msg[key] == nil or not utils.matchesPattern(pattern, msg[key], msg) then
+        return false
+      end
+    end
+    return true
+  elseif type(spec) == 'string' then
+    return msg.Action == spec
+  end
+  return false
+end
+
+-- Lua-like rendering of REPL results and printed tables
+local function stringify(value, indent, seen)
+  if type(value) ~= 'table' then
+    return type(value) == 'string' and indent and string.format('%q', value) or tostring(value)
+  end
+  indent = indent or ''
+  seen = seen or {}
+  if seen[value] then
+    return '<cycle>'
+  end
+  seen[value] = true
+
+  local inner = indent .. '  '
+  local lines = {}
+  for i = 1, #value do
+    lines[#lines + 1] = inner .. stringify(value[i], inner, seen)
+  end
+  local keys = {}
+  for key in pairs(value) do
+    if not (math.type(key) == 'integer' and key >= 1 and key <= #value) then
+      keys[#keys + 1] = key
+    end
+  end
+  table.sort(keys, function(a, b) return tostring(a) < tostring(b) end)
+  for _, key in ipairs(keys) do
+    local name = type(key) == 'string' and key:match('^[%a_][%w_]*$') and key or '[' .. stringify(key, inner, seen) .. ']'
+    lines[#lines + 1] = inner .. name .. ' = ' .. stringify(value[key], inner, seen)
+  end
+  seen[value] = nil
+
+  if #lines == 0 then
+    return '{}'
+  end
+  return '{\n' .. table.concat(lines, ',\n') .. '\n' .. indent .. '}'
+end
+
+local output = {}
+
+function print(...)
+  local parts = {}
+  for i = 1, select('#', ...) do
+    parts[i] = stringify((select(i, ...)))
+  end
+  output[#output + 1] = table.concat(parts, '\t')
+end
+
+ao = {
+  _version = '0.0.6',
+  id = '',
+  _module = '',
+  authorities = {},
+  reference = 0,
+  outbox = { Messages = {}, Spawns = {}, Assignments = {} },
+  env = { Process = { Id = '', Owner = '', Tags = {} }, Module = { Id = '' } }
+}
+
+local RESERVED = { Target = true, Data = true, Anchor = true, Tags = true, From = true }
+
+-- Base tags, then the message's other fields and its Tags, each in name order
+local function buildTags(msg, base)
+  local tags = base
+  local names = {}
+  for name, value in pairs(msg) do
+    if type(name) == 'string' and not RESERVED[name] and type(value) ~= 'function' and type(value) ~= 'table' then
+      names[#names + 1] = name
+    end
+  end
+  table.sort(names)
+  for _, name in ipairs(names) do
+    tags[#tags + 1] = { name = name, value = tostring(msg[name]) }
+  end
+
+  if type(msg.Tags) == 'table' then
+    local extra = {}
+    for key, value in pairs(msg.Tags) do
+      if type(value) == 'table' then
+        extra[#extra + 1] = { name = value.name, value = tostring(value.value) }
+      else
+        extra[#extra + 1] = { name = key, value = tostring(value) }
+      end
+    end
+    table.sort(extra, function(a, b) return a.name < b.name end)
+    table.move(extra, 1, #extra, #tags + 1, tags)
+  end
+  return tags
+end
+
+local function nextReference()
+  ao.reference = ao.reference + 1
+  return ao.reference
+end
+
+function ao.send(msg)
+  assert(type(msg) == 'table', 'msg should be a table')
+  local reference = nextReference()
+  local message = {
+    Target = msg.Target,
+    Data = type(msg.Data) == 'table' and json.encode(msg.Data) or msg.Data,
+    Anchor = string.format('%032d', reference),
+    Tags = buildTags(msg, {
+      { name = 'Data-Protocol', value = 'ao' },
+      { name = 'Variant', value = 'ao.TN.1' },
+      { name = 'Type', value = 'Message' },
+      { name = 'Reference', value = tostring(reference) }
+    })
+  }
+  table.insert(ao.outbox.Messages, message)
+  return message
+end
+
+function ao.spawn(module, msg)
+  assert(type(module) == 'string', 'module source id is required')
+  msg = msg or {}
+  local reference = nextReference()
+  local spawn = {
+    Data = msg.Data or 'NODATA',
+    Anchor = string.format('%032d', reference),
+    Tags = buildTags(msg, {
+      { name = 'Data-Protocol', value = 'ao' },
+      { name = 'Variant', value = 'ao.TN.1' },
+      { name = 'Type', value = 'Process' },
+      { name = 'From-Process', value = ao.id },
+      { name = 'From-Module', value = ao._module },
+      { name = 'Module', value = module },
+      { name = 'Reference', value = tostring(reference) }
+    })
+  }
+  table.insert(ao.outbox.Spawns, spawn)
+  return spawn
+end
+
+function ao.assign(assignment)
+  table.insert(ao.outbox.Assignments, assignment)
+end
+
+function ao.isTrusted(msg)
+  if msg.From == msg.Owner then
+    return true
+  end
+  for _, authority in ipairs(ao.authorities) do
+    if msg.Owner == authority then
+      return true
+    end
+  end
+  return false
+end
+
+function Send(msg)
+  ao.send(msg)
+  return 'message added to outbox'
+end
+
+function Spawn(module, msg)
+  ao.spawn(module, msg)
+  return 'spawn process request'
+end
+
+function Assign(assignment)
+  ao.assign(assignment)
+  return 'assignment added to outbox'
+end
+
+Inbox = Inbox or {}
+
+Handlers = { _version = '0.0.5', list = {}, utils = {} }
+
+function Handlers.utils.hasMatchingTag(name, value)
+  return function(msg) return msg.Tags[name] == value end
+end
+
+function Handlers.utils.hasMatchingTagOf(name, values)
+  return function(msg)
+    return utils.includes(msg.Tags[name], values)
+  end
+end
+
+function Handlers.utils.hasMatchingData(value)
+  return function(msg) return msg.Data == value end
+end
+
+function Handlers.utils.reply(input)
+  return function(msg)
+    msg.reply(type(input) == 'string' and { Data = input } or input)
+  end
+end
+
+function Handlers.utils.continue(pattern)
+  return function(msg)
+    local match = utils.matchesSpec(msg, pattern)
+    if not match or match == 0 or match == 'skip' then
+      return match
+    end
+    return 1
+  end
+end
+
+local function findHandler(name)
+  for i, handler in ipairs(Handlers.list) do
+    if handler.name == name then
+      return i
+    end
+  end
+end
+
+local function addHandler(prepend, name, pattern, handle, maxRuns)
+  assert(type(name) == 'string', 'invalid arguments: name must be a string')
+  -- Handlers.add(name, handle) matches the Action named like the handler
+  if handle == nil then
+    handle, pattern = pattern, name
+  end
+  assert(type(handle) == 'function', 'invalid arguments: handle must be a function')
+
+  local handler = { name = name, pattern = pattern, handle = handle, maxRuns = maxRuns or 'inf' }
+  local index = findHandler(name)
+  if index then
+    Handlers.list[index] = handler
+  elseif prepend then
+    table.insert(Handlers.list, 1, handler)
+  else
+    table.insert(Handlers.list, handler)
+  end
+  return #Handlers.list
+end
+
+function Handlers.add(name, pattern, handle, maxRuns)
+  return addHandler(false, name, pattern, handle, maxRuns)
+end
+
+Handlers.append = Handlers.add
+
+function Handlers.prepend(name, pattern, handle, maxRuns)
+  return addHandler(true, name, pattern, handle, maxRuns)
+end
+
+function Handlers.once(name, pattern, handle)
+  return addHandler(true, name, pattern, handle, 1)
+end
+
+function Handlers.remove(name)
+  local index = findHandler(name)
+  if index then
+    table.remove(Handlers.list, index)
+  end
+end
+
+-- A pattern's result: -1 runs the handler and stops, 1 runs it and goes
+-- on, 0 skips it
+local function toMatch(match)
+  if match == 'break' or match == true then
+    return -1
+  elseif match == 'continue' then
+    return 1
+  elseif math.type(match) then
+    return match
+  end
+  return 0
+end
+
+local function defaultHandler(msg)
+  table.insert(Inbox, msg)
+  print('New Message From ' .. tostring(msg.From) .. ': Action = ' .. tostring(msg.Action))
+end
+
+function Handlers.evaluate(msg, env)
+  local handled = false
+  for _, handler in ipairs(table.move(Handlers.list, 1, #Handlers.list, 1, {})) do
+    local match = toMatch(utils.matchesSpec(msg, handler.pattern))
+    if match ~= 0 then
+      if match < 0 then
+        handled = true
+      end
+      __aoforge.runHandler(handler, msg, env)
+      if handler.maxRuns ~= 'inf' then
+        handler.maxRuns = handler.maxRuns - 1
+        if handler.maxRuns <= 0 then
+          Handlers.remove(handler.name)
+        end
+      end
+      if match < 0 then
+        break
+      end
+    end
+  end
+  if not handled then
+    defaultHandler(msg)
+  end
+  return handled
+end
+
+local function normalize(msg)
+  msg.TagArray = msg.Tags or {}
+  msg.Tags = {}
+  for _, tag in ipairs(msg.TagArray) do
+    msg.Tags[tag.name] = tag.value
+    if msg[tag.name] == nil then
+      msg[tag.name] = tag.value
+    end
+  end
+
+  function msg.reply(reply)
+    reply = type(reply) == 'string' and { Data = reply } or reply or {}
+    reply.Target = msg['Reply-To'] or msg.From
+    reply['X-Reference'] = msg['X-Reference'] or msg.Reference
+    reply['X-Origin'] = msg['X-Origin']
+    return ao.send(reply)
+  end
+
+  function msg.forward(target, forward)
+    forward = forward or {}
+    forward.Target = target
+    forward.Data = forward.Data or msg.Data
+    forward['X-From'] = msg.From
+    forward['X-Reference'] = msg['X-Reference'] or msg.Reference
+    forward['X-Origin'] = msg['X-Origin']
+    return ao.send(forward)
+  end
+  return msg
+end
+
+-- Run REPL input the way aos does: as an expression if it is one, so its
+-- value is printed, else as statements
+local function evaluate(source, chunkname)
+  local fn, err
+  if not chunkname then
+    fn = load('return ' .. source, '=eval')
+  end
+  if not fn then
+    fn, err = load(source, chunkname or '=eval')
+  end
+  if not fn then
+    error(err, 0)
+  end
+  local value = fn()
+  if value ~= nil and not chunkname then
+    print(value)
+  end
+end
+
+Handlers.add('_eval', function(msg)
+  return msg.Action == 'Eval' and msg.From == ao.env.Process.Owner and -1 or 0
+end, function(msg)
+  evaluate(msg.Data)
+end)
+
+local function reset()
+  output = {}
+  ao.outbox = { Messages = {}, Spawns = {}, Assignments = {} }
+end
+
+local function result(ok, err)
+  local outcome = {
+    Messages = ao.outbox.Messages,
+    Spawns = ao.outbox.Spawns,
+    Assignments = ao.outbox.Assignments,
+    Output = #output > 0 and { data = table.concat(output, '\n'), prompt = 'aos> ', print = true } or ''
+  }
+  if not ok then
+    -- As on AO, nothing a failed message queued is sent
+    outcome.Messages = {}
+    outcome.Spawns = {}
+    outcome.Assignments = {}
+    outcome.Error = type(err) == 'string' and err or stringify(err)
+  end
+  reset()
+  return json.encode(outcome)
+end
+
+package.loaded['json'] = json
+package.loaded['.json'] = json
+package.loaded['utils'] = utils
+package.loaded['.utils'] = utils
+package.path = ''
+package.cpath = ''
+
+-- Project modules are read from disk by the emulator
+package.searchers[2] = function(name)
+  local caller = debug.getinfo(3, 'S')
+  local from = caller and caller.source:sub(1, 1) == '@' and caller.source:sub(2) or nil
+  local module = __aoforge_find_module(name, from)
+  if not module then
+    return "\n\tno project file for '" .. name .. "'"
+  end
+  local fn, err = load(module.source, '@' .. module.path)
+  if not fn then
+    error(err, 0)
+  end
+  return fn, module.path
+end
+package.searchers[3] = nil
+package.searchers[4] = nil
+
+__aoforge = {}
+
+-- Runs a handler that matched; the profiler replaces it to measure each run
+function __aoforge.runHandler(handler, msg, env)
+  return handler.handle(msg, env)
+end
+
+function __aoforge.init(raw)
+  local env = json.decode(raw)
+  ao.id = env.Process.Id
+  ao._module = env.Module.Id
+  ao.env = env
+  Owner = env.Process.Owner
+  Name = env.Name
+end
+
+function __aoforge.handle(raw)
+  reset()
+  local msg = normalize(json.decode(raw))
+  local ok, err = pcall(Handlers.evaluate, msg, ao.env)
+  return result(ok, err)
+end
+
+function __aoforge.eval(source, chunkname)
+  reset()
+  local ok, err = pcall(evaluate, source, chunkname)
+  return result(ok, err)
+end
+`;
@@ -0,0 +1,147 @@
+import net from 'net';
+import path from 'path';
+import crypto from 'crypto';
+import { ProcessError } from '../utils/error-handling.js';
+import { getForgeHome, ProcessRegistry } from './registry.js';
+import { MessageResult } from '../../types/aos.js';
+
+export const DEFAULT_EVAL_TIMEOUT = 30000;
+const CONNECT_TIMEOUT = 2000;
+
+export interface EvaluateOptions {
+  await?: boolean;
+  timeout?: number;
+}
+
+/** What an eval printed, and the Lua error it raised */
+export interface EvalOutput {
+  output: string;
+  error?: string;
+}
+
+export interface BridgeRequest {
+  id: string;
+  type: string;
+  [key: string]: any;
+}
+
+export interface BridgeResponse {
+  id: string;
+  ok: boolean;
+  result?: any;
+  error?: string;
+}
+
+/**
+ * Local socket (named pipe on Windows) used to reach the host of a
+ * background process. Hashed so long project paths stay within the
+ * platform's socket path limit.
+ */
+export function getSocketPath(projectPath: string, name: string): string {
+  const hash = crypto.createHash('sha1').update(ProcessRegistry.key(projectPath, name)).digest('hex').slice(0, 16);
+  if (process.platform === 'win32') {
+    return `\\\\.\\pipe\\ao-forge-${hash}`;
+  }
+  return path.join(getForgeHome(), 'run', `${hash}.sock`);
+}
+
+/**
+ * Client side of the process host protocol: newline-delimited JSON requests,
+ * each answered by exactly one response carrying the same id.
+ */
+export class ProcessBridge {
+  private socketPath: string;
+
+  constructor(socketPath: string) {
+    this.socketPath = socketPath;
+  }
+
+  async request(type: string, payload: Record<string, any> = {}, timeout: number = DEFAULT_EVAL_TIMEOUT): Promise<any> {
+    const request: BridgeRequest = { ...payload, id: crypto.randomBytes(6).toString('hex'), type };
+
+    const response = await new Promise<BridgeResponse>((resolve, reject) => {
+      const socket = net.createConnection(this.socketPath);
+      let buffer = '';
+      let connected = false;
+
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new ProcessError(
+          connected ? `Process did not answer within ${timeout}ms` : 'Could not connect to process',
+          { socketPath: this.socketPath }
+        ));
+      }, timeout);
+
+      socket.setEncoding('utf8');
+      socket.on('connect', () => {
+        connected = true;
+        socket.write(JSON.stringify(request) + '\n');
+      });
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        const newline = buffer.indexOf('\n');
+        if (newline === -1) {
+          return;
+        }
+
+        clearTimeout(timer);
+        socket.end();
+        try {
+          resolve(JSON.parse(buffer.slice(0, newline)));
+        } catch (error) {
+          reject(new ProcessError('Received a malformed response from process', { error }));
+        }
+      });
+      socket.on('error', (error: NodeJS.ErrnoException) => {
+        clearTimeout(timer);
+        reject(new ProcessError(`Could not connect to process: ${error.code || error.message}`, {
+          socketPath: this.socketPath
+        }));
+      });
+    });
+
+    if (!response.ok) {
+      throw new ProcessError(response.error || 'Process request failed', { type });
+    }
+    return response.result;
+  }
+
+  async evaluate(code: string, options: EvaluateOptions = {}): Promise<string> {
+    const timeout = options.timeout ?? DEFAULT_EVAL_TIMEOUT;
+    const result: EvalOutput | undefined = await this.request('eval', { code, await: options.await !== false, timeout }, timeout + CONNECT_TIMEOUT);
+    if (result?.error) {
+      throw new ProcessError(`Evaluation failed: ${result.error}`, result);
+    }
+    return result?.output ?? '';
+  }
+
+  async load(filePath: string, options: { timeout?: number } = {}): Promise<string> {
+    const timeout = options.timeout ?? DEFAULT_EVAL_TIMEOUT;
+    const result = await this.request('load', { file: filePath, timeout }, timeout + CONNECT_TIMEOUT);
+    return result?.output ?? '';
+  }
+
+  /**
+   * Hand a message to a local process, which handles it right away.
+   */
+  async deliver(message: Record<string, any>, options: { timeout?: number } = {}): Promise<MessageResult> {
+    const timeout = options.timeout ?? DEFAULT_EVAL_TIMEOUT;
+    return this.request('message', { message, timeout }, timeout + CONNECT_TIMEOUT);
+  }
+
+  /**
+   * Add a line to the process log on behalf of another CLI command.
+   */
+  async log(message: string): Promise<void> {
+    await this.request('log', { message }, CONNECT_TIMEOUT);
+  }
+
+  async ping(): Promise<boolean> {
+    try {
+      await this.request('ping', {}, CONNECT_TIMEOUT);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
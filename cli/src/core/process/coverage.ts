@@ -0,0 +1,380 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { LuaEngine, LuaFactory } from 'wasmoon';
+import { AOEmulator } from './emulator.js';
+import { LuaToken, tokenize } from './lua.js';
+import { BranchCoverage, CoverageSummary, CoverageTotals, FileCoverage, HandlerCoverage } from '../../types/cli.js';
+
+// Lua function the instrumented code calls at each branch and handler
+const PROBE_FUNCTION = '__aoforge_cover';
+const HANDLER_METHODS = ['add', 'append', 'prepend', 'once'];
+const BLOCK_OPENERS = ['function', 'if', 'do', 'repeat', '(', '{', '['];
+const BLOCK_CLOSERS = ['end', 'until', ')', '}', ']'];
+
+type Probed<T> = Omit<T, 'hits'> & { probe: number };
+
+export interface InstrumentedLua {
+  /** The source with probes added; lines are unchanged */
+  source: string;
+  branches: Probed<BranchCoverage>[];
+  handlers: Probed<HandlerCoverage>[];
+}
+
+interface IfState {
+  block: number;
+  line: number;
+  /** Line of the keyword the next arm belongs to */
+  armLine: number;
+  arms: number;
+  hasElse: boolean;
+}
+
+interface Frame {
+  opener: string;
+  if?: IfState;
+  /** A Handlers.add call: where its last argument starts and its inline functions */
+  handler?: { name: string; line: number; lastArg: number; handle?: number };
+}
+
+/**
+ * Add probes to Lua source: one at the start of each arm of every `if`,
+ * including an `else` for those without one, and one at the start of the
+ * handle function of every `Handlers.add` (or append, prepend, once).
+ * Handle functions given by name are found when defined in the same file.
+ * Probes are numbered from `firstProbe`.
+ */
+export function instrumentLua(source: string, firstProbe: number = 1): InstrumentedLua {
+  const tokens = tokenize(source);
+  const insertions: { index: number; text: string }[] = [];
+  const branches: Probed<BranchCoverage>[] = [];
+  const handlers: Probed<HandlerCoverage>[] = [];
+  const stack: Frame[] = [];
+  let nextProbe = firstProbe;
+  let blocks = 0;
+
+  const addProbe = (index: number, text: (call: string) => string = call => ` ${call} `) => {
+    const probe = nextProbe++;
+    insertions.push({ index, text: text(`${PROBE_FUNCTION}(${probe});`) });
+    return probe;
+  };
+  const is = (token: LuaToken | undefined, value: string) => token?.type !== 'string' && token?.value === value;
+
+  // Where the body of the function whose keyword is at tokens[i] starts
+  const getBodyStart = (i: number): number | undefined => {
+    let depth = 0;
+    for (let j = i + 1; j < tokens.length; j++) {
+      if (is(tokens[j], '(')) {
+        depth++;
+      } else if (is(tokens[j], ')') && --depth === 0) {
+        return tokens[j].index + 1;
+      }
+    }
+    return undefined;
+  };
+
+  // Named functions, for handlers that refer to one
+  const functions = new Map<string, number>();
+  tokens.forEach((token, i) => {
+    if (!is(token, 'function')) {
+      return;
+    }
+    if (tokens[i + 1]?.type === 'name') {
+      let name = '';
+      for (let j = i + 1; j < tokens.length && !is(tokens[j], '('); j++) {
+        name += tokens[j].value;
+      }
+      functions.set(name, i);
+    } else if (is(tokens[i - 1], '=') && tokens[i - 2]?.type === 'name') {
+      functions.set(tokens[i - 2].value, i);
+    }
+  });
+
+  tokens.forEach((token, i) => {
+    if (token.type === 'string') {
+      return;
+    }
+    const top = stack[stack.length - 1];
+
+    if (token.value === 'if') {
+      stack.push({ opener: 'if', if: { block: blocks++, line: token.line, armLine: token.line, arms: 0, hasElse: false } });
+    } else if (token.value === 'elseif' && top?.if) {
+      top.if.armLine = token.line;
+    } else if ((token.value === 'then' || token.value === 'else') && top?.if) {
+      const state = top.if;
+      const label = token.value === 'else' ? 'else' : state.arms === 0 ? 'then' : 'elseif';
+      state.hasElse = token.value === 'else';
+      branches.push({
+        line: token.value === 'else' ? token.line : state.armLine,
+        block: state.block,
+        branch: state.arms++,
+        label,
+        probe: addProbe(token.index + token.value.length)
+      });
+    } else if (token.value === 'function') {
+      if (top?.handler) {
+        top.handler.handle = i;
+      }
+      stack.push({ opener: 'function' });
+    } else if (token.value === '(' && is(tokens[i - 3], 'Handlers') && is(tokens[i - 2], '.') && HANDLER_METHODS.includes(tokens[i - 1].value)) {
+      const first = tokens[i + 1];
+      const name = first?.type === 'string' && is(tokens[i + 2], ',') ? first.value : `line ${token.line}`;
+      stack.push({ opener: '(', handler: { name, line: tokens[i - 3].line, lastArg: i + 1 } });
+    } else if (token.value === ',' && top?.handler) {
+      top.handler.lastArg = i + 1;
+    } else if (BLOCK_OPENERS.includes(token.value)) {
+      stack.push({ opener: token.value });
+    } else if (BLOCK_CLOSERS.includes(token.value)) {
+      const frame = stack.pop();
+      if (frame?.if && !frame.if.hasElse) {
+        branches.push({
+          line: frame.if.line,
+          block: frame.if.block,
+          branch: frame.if.arms,
+          label: 'implicit else',
+          probe: addProbe(token.index, call => ` else ${call} `)
+        });
+      }
+      if (frame?.handler) {
+        const { name, line, lastArg, handle } = frame.handler;
+        const reference = tokens.slice(lastArg, i).map(arg => arg.value).join('');
+        // An inline function before the last argument is the pattern
+        const definition = handle !== undefined && handle >= lastArg ? handle : functions.get(reference);
+        const bodyStart = definition === undefined ? undefined : getBodyStart(definition);
+        if (bodyStart !== undefined) {
+          handlers.push({ name, line, probe: addProbe(bodyStart) });
+        }
+      }
+    }
+  });
+
+  let instrumented = source;
+  for (const { index, text } of insertions.sort((a, b) => b.index - a.index)) {
+    instrumented = instrumented.slice(0, index) + text + instrumented.slice(index);
+  }
+  return { source: instrumented, branches: branches.sort((a, b) => a.block - b.block || a.branch - b.branch), handlers };
+}
+
+/**
+ * Lines of every function in a compiled Lua chunk that have code, read
+ * from the debug information of its `string.dump` (Lua 5.4 format). These
+ * are the lines a line hook can report.
+ */
+export function parseActiveLines(dump: Buffer): number[] {
+  let offset = 0;
+  const byte = () => {
+    if (offset >= dump.length) {
+      throw new Error('Unexpected end of compiled chunk');
+    }
+    return dump[offset++];
+  };
+  // Sizes are written 7 bits at a time, the last byte marked by its high bit
+  const size = () => {
+    let value = 0;
+    let current: number;
+    do {
+      current = byte();
+      value = value * 128 + (current & 0x7F);
+    } while ((current & 0x80) === 0);
+    return value;
+  };
+  const skip = (bytes: number) => {
+    offset += bytes;
+  };
+  const skipString = () => {
+    const length = size();
+    skip(length > 0 ? length - 1 : 0);
+  };
+
+  const lines = new Set<number>();
+  const readFunction = () => {
+    skipString();
+    const lineDefined = size();
+    size();
+    skip(1);
+    const isVararg = byte() !== 0;
+    skip(1);
+    skip(size() * 4);
+    for (let count = size(); count > 0; count--) {
+      const type = byte();
+      if (type === 3 || type === 19) {
+        skip(8);
+      } else if (type === 4 || type === 20) {
+        skipString();
+      }
+    }
+    skip(size() * 3);
+    for (let count = size(); count > 0; count--) {
+      readFunction();
+    }
+
+    const lineInfo = Array.from({ length: size() }, () => (byte() << 24) >> 24);
+    const absolute = new Map<number, number>();
+    for (let count = size(); count > 0; count--) {
+      absolute.set(size(), size());
+    }
+    for (let count = size(); count > 0; count--) {
+      skipString();
+      size();
+      size();
+    }
+    for (let count = size(); count > 0; count--) {
+      skipString();
+    }
+
+    let line = lineDefined;
+    lineInfo.forEach((delta, pc) => {
+      line = delta === -128 ? absolute.get(pc) ?? line : line + delta;
+      // The first instruction of a vararg function only prepares arguments
+      if (line > 0 && !(isVararg && pc === 0)) {
+        lines.add(line);
+      }
+    });
+  };
+
+  // Signature, version, format, check data, type sizes, check numbers and
+  // the main function's upvalue count
+  offset = 32;
+  readFunction();
+  return [...lines].sort((a, b) => a - b);
+}
+
+function getActiveLines(engine: LuaEngine, source: string, chunkname: string): number[] {
+  engine.global.set('__aoforge_args', [source, chunkname]);
+  const hex = engine.doStringSync(`
+    local fn = assert(load(__aoforge_args[1], __aoforge_args[2]))
+    return (string.dump(fn):gsub('.', function(c) return string.format('%02x', c:byte()) end))
+  `);
+  return parseActiveLines(Buffer.from(String(hex), 'hex'));
+}
+
+/**
+ * How many of the given hit counts are above zero.
+ */
+export function getCoverageTotals(hits: number[]): CoverageTotals {
+  const covered = hits.filter(count => count > 0).length;
+  return { covered, total: hits.length, percent: hits.length === 0 ? 100 : Math.round(covered / hits.length * 10000) / 100 };
+}
+
+function parseCounts(encoded: string | undefined, into: Map<number, number>): void {
+  for (const entry of (encoded || '').split(',').filter(Boolean)) {
+    const [key, count] = entry.split(':').map(Number);
+    into.set(key, (into.get(key) || 0) + count);
+  }
+}
+
+interface TrackedFile {
+  file: string;
+  instrumented?: InstrumentedLua;
+  activeLines: number[];
+  lineHits: Map<number, number>;
+  error?: string;
+}
+
+/**
+ * Line, branch and handler coverage of project Lua files over any number
+ * of emulators. Files are instrumented as they are loaded and lines are
+ * counted by a Lua line hook; `collect` adds up what an emulator ran.
+ */
+export class CoverageCollector {
+  private files = new Map<string, TrackedFile>();
+  private probeHits = new Map<number, number>();
+
+  /**
+   * Prepare coverage of the given files, relative to the project.
+   */
+  static async create(projectPath: string, files: string[]): Promise<CoverageCollector> {
+    const collector = new CoverageCollector();
+    const engine = await new LuaFactory().createEngine({ injectObjects: false });
+    let nextProbe = 1;
+    try {
+      for (const file of files) {
+        const relative = path.relative(projectPath, path.resolve(projectPath, file));
+        if (collector.files.has(relative)) {
+          continue;
+        }
+        const tracked: TrackedFile = { file: relative, activeLines: [], lineHits: new Map() };
+        collector.files.set(relative, tracked);
+        try {
+          const source = await fs.readFile(path.resolve(projectPath, file), 'utf8');
+          tracked.activeLines = getActiveLines(engine, source, `@${relative}`);
+          tracked.instrumented = instrumentLua(source, nextProbe);
+          nextProbe += tracked.instrumented.branches.length + tracked.instrumented.handlers.length;
+        } catch (error) {
+          tracked.error = (error as Error).message;
+        }
+      }
+    } finally {
+      engine.global.close();
+    }
+    return collector;
+  }
+
+  /** Use as the emulator's `transform` so covered files are instrumented */
+  transform = (file: string, source: string): string => this.files.get(file)?.instrumented?.source ?? source;
+
+  /**
+   * Start counting in an emulator, before any covered file is loaded.
+   */
+  attach(emulator: AOEmulator): void {
+    const sources = [...this.files.keys()].map(file => JSON.stringify(`@${file}`)).join(', ');
+    emulator.run(`
+      local lines, probes = {}, {}
+      for _, source in ipairs({ ${sources} }) do lines[source] = {} end
+      function ${PROBE_FUNCTION}(id) probes[id] = (probes[id] or 0) + 1 end
+      local getinfo = debug.getinfo
+      debug.sethook(function(_, line)
+        local hits = lines[getinfo(2, 'S').source]
+        if hits then hits[line] = (hits[line] or 0) + 1 end
+      end, 'l')
+      local function encode(counts)
+        local parts = {}
+        for key, count in pairs(counts) do parts[#parts + 1] = key .. ':' .. count end
+        return table.concat(parts, ',')
+      end
+      function __aoforge_coverage()
+        local files = {}
+        for source, hits in pairs(lines) do files[source:sub(2)] = encode(hits) end
+        return require('json').encode({ files = files, probes = encode(probes) })
+      end
+    `, '=coverage');
+  }
+
+  /**
+   * Add the counts of an emulator that was attached.
+   */
+  collect(emulator: AOEmulator): void {
+    const counts = JSON.parse(String(emulator.run('return __aoforge_coverage()', '=coverage')));
+    parseCounts(counts.probes, this.probeHits);
+    for (const [file, encoded] of Object.entries<string>(counts.files)) {
+      const tracked = this.files.get(file);
+      if (tracked) {
+        parseCounts(encoded, tracked.lineHits);
+      }
+    }
+  }
+
+  summarize(threshold?: number): CoverageSummary {
+    const files: FileCoverage[] = [...this.files.values()].map(tracked => {
+      const hits = (probe: number) => this.probeHits.get(probe) || 0;
+      return {
+        file: tracked.file,
+        lines: Object.fromEntries(tracked.activeLines.map(line => [line, tracked.lineHits.get(line) || 0])),
+        branches: (tracked.instrumented?.branches || []).map(({ probe, ...branch }) => ({ ...branch, hits: hits(probe) })),
+        handlers: (tracked.instrumented?.handlers || []).map(({ probe, ...handler }) => ({ ...handler, hits: hits(probe) })),
+        ...(tracked.error && { error: tracked.error })
+      };
+    });
+
+    const count = (hits: (file: FileCoverage) => number[]) => getCoverageTotals(files.flatMap(hits));
+    const lines = count(file => Object.values(file.lines));
+    const branches = count(file => file.branches.map(branch => branch.hits));
+    return {
+      files,
+      lines,
+      branches,
+      handlers: count(file => file.handlers.map(handler => handler.hits)),
+      threshold,
+      ok: threshold === undefined || (lines.percent >= threshold && branches.percent >= threshold)
+    };
+  }
+}
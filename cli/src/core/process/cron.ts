@@ -0,0 +1,133 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { logger } from '../utils/logging.js';
+import { ValidationError } from '../utils/error-handling.js';
+import { Validator } from '../utils/validation.js';
+import { FileLock } from './lock.js';
+import { CronJob } from '../../types/aos.js';
+
+const CRON_FILE_VERSION = 1;
+
+interface CronFile {
+  version: number;
+  jobs: CronJob[];
+}
+
+export function getCronFile(projectPath: string): string {
+  return path.join(projectPath, '.ao-forge', 'cron.json');
+}
+
+/**
+ * Cron jobs defined for a project's processes. Edited by `process cron`
+ * and read by process hosts, which run the jobs of their process.
+ */
+export class CronStore {
+  private filePath: string;
+  private lock: FileLock;
+
+  constructor(projectPath: string) {
+    this.filePath = getCronFile(projectPath);
+    this.lock = new FileLock(`${this.filePath}.lock`, 'cron file');
+  }
+
+  async list(processName?: string): Promise<CronJob[]> {
+    const { jobs } = await this.read();
+    return processName ? jobs.filter(job => job.process === processName) : jobs;
+  }
+
+  async get(processName: string, id: string): Promise<CronJob | null> {
+    return (await this.list(processName)).find(job => job.id === id) || null;
+  }
+
+  async add(job: Omit<CronJob, 'id' | 'createdAt' | 'paused'> & { id?: string }): Promise<CronJob> {
+    if (!Validator.validateCronExpression(job.expression)) {
+      throw new ValidationError(
+        `Invalid schedule: ${job.expression}. Use an AO interval like "5-minutes" or a cron expression like "*/5 * * * *".`
+      );
+    }
+
+    return this.update(data => {
+      const existing = data.jobs.filter(entry => entry.process === job.process);
+      const id = job.id || this.nextId(existing);
+      if (!Validator.validateProcessName(id)) {
+        throw new ValidationError(`Invalid cron job name: ${id}`);
+      }
+      if (existing.some(entry => entry.id === id)) {
+        throw new ValidationError(`Cron job "${id}" already exists for process ${job.process}`);
+      }
+
+      const created: CronJob = { ...job, id, paused: false, createdAt: new Date().toISOString() };
+      data.jobs.push(created);
+      return created;
+    });
+  }
+
+  async remove(processName: string, id: string): Promise<boolean> {
+    return this.update(data => {
+      const jobs = data.jobs.filter(job => !(job.process === processName && job.id === id));
+      if (jobs.length === data.jobs.length) {
+        return false;
+      }
+
+      data.jobs = jobs;
+      return true;
+    });
+  }
+
+  async setPaused(processName: string, id: string, paused: boolean): Promise<CronJob | null> {
+    return this.update(data => {
+      const job = data.jobs.find(entry => entry.process === processName && entry.id === id);
+      if (!job) {
+        return null;
+      }
+
+      job.paused = paused;
+      return job;
+    });
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  private nextId(jobs: CronJob[]): string {
+    let n = jobs.length + 1;
+    while (jobs.some(job => job.id === `cron-${n}`)) {
+      n++;
+    }
+    return `cron-${n}`;
+  }
+
+  private async read(): Promise<CronFile> {
+    try {
+      if (await fs.pathExists(this.filePath)) {
+        const data = await fs.readJSON(this.filePath);
+        if (data && Array.isArray(data.jobs)) {
+          return data;
+        }
+      }
+    } catch (error) {
+      logger.warn(`Ignoring unreadable cron file: ${(error as Error).message}`);
+    }
+
+    return { version: CRON_FILE_VERSION, jobs: [] };
+  }
+
+  // Read, change and write the file under its lock, so concurrent CLI runs keep each other's jobs
+  private async update<T>(fn: (data: CronFile) => T): Promise<T> {
+    return this.lock.run(async () => {
+      const data = await this.read();
+      const result = fn(data);
+      await this.write(data);
+      return result;
+    });
+  }
+
+  private async write(data: CronFile): Promise<void> {
+    // Written via rename so a host never reads a half-written file
+    const temp = `${this.filePath}.${process.pid}.tmp`;
+    await fs.ensureDir(path.dirname(this.filePath));
+    await fs.writeJSON(temp, data, { spaces: 2 });
+    await fs.rename(temp, this.filePath);
+  }
+}
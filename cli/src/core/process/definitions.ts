@@ -0,0 +1,56 @@
+import { ValidationError } from '../utils/error-handling.js';
+import { AOConfig, ProcessDefinition } from '../../types/aos.js';
+
+export interface NamedProcessDefinition extends ProcessDefinition {
+  name: string;
+}
+
+export function hasProcessDefinitions(config: AOConfig): boolean {
+  return Object.keys(config.processes || {}).length > 0;
+}
+
+/**
+ * Processes declared under `processes:`. Projects without the map are
+ * treated as a single process built from `processName` and `luaFiles`.
+ */
+export function getProcessDefinitions(config: AOConfig): NamedProcessDefinition[] {
+  if (!hasProcessDefinitions(config)) {
+    return [{ name: config.processName, luaFiles: config.luaFiles || [] }];
+  }
+
+  return Object.entries(config.processes!).map(([name, definition]) => ({ ...definition, name }));
+}
+
+export function getProcessDefinition(config: AOConfig, name: string): NamedProcessDefinition {
+  const definitions = getProcessDefinitions(config);
+  const definition = definitions.find(entry => entry.name === name);
+  if (!definition) {
+    throw new ValidationError(
+      `Unknown process: ${name}. Defined processes: ${definitions.map(entry => entry.name).join(', ')}`
+    );
+  }
+  return definition;
+}
+
+/**
+ * The definitions a command should act on: the named one, or all of them.
+ */
+export function selectProcessDefinitions(config: AOConfig, name?: string): NamedProcessDefinition[] {
+  return name ? [getProcessDefinition(config, name)] : getProcessDefinitions(config);
+}
+
+/**
+ * The definition `process start` uses when no name is given: the one named
+ * by `processName`, or the only one defined.
+ */
+export function getDefaultProcessDefinition(config: AOConfig): NamedProcessDefinition {
+  const definitions = getProcessDefinitions(config);
+  const definition = definitions.find(entry => entry.name === config.processName)
+    || (definitions.length === 1 ? definitions[0] : undefined);
+  if (!definition) {
+    throw new ValidationError(
+      `Several processes are defined (${definitions.map(entry => entry.name).join(', ')}). Pass a process name or --all.`
+    );
+  }
+  return definition;
+}
@@ -0,0 +1,212 @@
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs-extra';
+import { LuaEngine, LuaFactory } from 'wasmoon';
+import { ProcessError, ValidationError } from '../utils/error-handling.js';
+import { AO_PRELUDE } from './ao-prelude.js';
+import { resolveLuaModuleSync } from './lua.js';
+import { MessageResult, MessageTag } from '../../types/aos.js';
+
+// Messages get a made-up block height; nothing local is on a chain
+const LOCAL_BLOCK_HEIGHT = 1000000;
+// A process that keeps messaging itself is stopped after this many in a row
+const MAX_SELF_MESSAGES = 100;
+
+/** A message as a process receives it */
+export interface InboundMessage {
+  Id: string;
+  Target: string;
+  From: string;
+  Owner: string;
+  Tags: MessageTag[];
+  Data: string;
+  Timestamp: number;
+  'Block-Height': number;
+}
+
+export interface EmulatorOptions {
+  /** Root for Lua files and `require` */
+  projectPath: string;
+  name?: string;
+  /** Random when left out */
+  processId?: string;
+  /** Address that owns the process and sends messages that name no sender */
+  owner?: string;
+  module?: string;
+  tags?: MessageTag[];
+  /** Timestamp of delivered messages, in milliseconds */
+  now?: () => number;
+  /** IDs of the process, its owner and delivered messages; random by default */
+  createId?: () => string;
+  /** Seeds Lua's math.random */
+  seed?: number;
+  /**
+   * Leave messages the process sends itself in its results, for a scheduler
+   * to deliver, instead of handling them right away
+   */
+  scheduled?: boolean;
+  /** Rewrites a project Lua file, given relative to the project, before it runs */
+  transform?: (file: string, source: string) => string;
+  /** Called for each message the process sent itself, once it has been handled */
+  onMessage?: (message: InboundMessage, result: MessageResult) => void;
+}
+
+/**
+ * A random ID in the form of an Arweave transaction ID.
+ */
+export function createLocalId(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+/**
+ * What a result printed: its Output's data, which aos gives as a string or
+ * as `{ data }`.
+ */
+export function getOutputText(result: MessageResult): string {
+  const output = result.Output?.data ?? result.Output;
+  return typeof output === 'string' ? output : output == null ? '' : JSON.stringify(output);
+}
+
+/**
+ * One AO process run in memory by a WASM Lua, without aos or the network.
+ * It provides the globals of the aos runtime (`ao`, `Handlers`, `Send`,
+ * `Inbox`, the `json` module) and dispatches messages through Handlers the
+ * way a compute unit would. Messages the process sends itself are handled
+ * right after the input that sent them; others only appear in results.
+ */
+export class AOEmulator {
+  readonly id: string;
+  readonly owner: string;
+  private engine: LuaEngine;
+  private options: EmulatorOptions;
+
+  private constructor(engine: LuaEngine, options: EmulatorOptions, id: string, owner: string) {
+    this.engine = engine;
+    this.options = options;
+    this.id = id;
+    this.owner = owner;
+  }
+
+  static async create(options: EmulatorOptions): Promise<AOEmulator> {
+    const engine = await new LuaFactory().createEngine({ injectObjects: false });
+    const projectPath = path.resolve(options.projectPath);
+    engine.global.set('__aoforge_find_module', (name: string, from?: string) => {
+      const file = resolveLuaModuleSync(name, projectPath, from ? path.resolve(projectPath, from) : undefined);
+      if (!file) {
+        return undefined;
+      }
+      const relative = path.relative(projectPath, file);
+      const source = fs.readFileSync(file, 'utf8');
+      return { path: relative, source: options.transform ? options.transform(relative, source) : source };
+    });
+    engine.doStringSync(AO_PRELUDE);
+    if (options.seed !== undefined) {
+      engine.doStringSync(`math.randomseed(${Math.floor(options.seed)})`);
+    }
+
+    const createId = options.createId || createLocalId;
+    const emulator = new AOEmulator(
+      engine,
+      { ...options, projectPath },
+      options.processId || createId(),
+      options.owner || createId()
+    );
+    emulator.call('init', JSON.stringify({
+      Process: { Id: emulator.id, Owner: emulator.owner, Tags: options.tags || [] },
+      Module: { Id: options.module || '' },
+      Name: options.name || 'default'
+    }));
+    return emulator;
+  }
+
+  /**
+   * Run Lua as typed at the aos prompt: an expression's value is printed.
+   */
+  evaluate(code: string): MessageResult {
+    return this.dispatch(this.call('eval', code));
+  }
+
+  /**
+   * Run a Lua file of the project, as `.load` does in aos.
+   */
+  load(file: string): MessageResult {
+    const filePath = path.resolve(this.options.projectPath, file);
+    if (!fs.existsSync(filePath)) {
+      throw new ValidationError(`Lua file not found: ${file}`);
+    }
+    const relative = path.relative(this.options.projectPath, filePath);
+    const source = fs.readFileSync(filePath, 'utf8');
+    const transform = this.options.transform;
+    return this.dispatch(this.call('eval', transform ? transform(relative, source) : source, `@${relative}`));
+  }
+
+  /**
+   * Hand a message to the process's Handlers. Fields left out are filled in
+   * as if the owner had sent it just now.
+   */
+  deliver(message: Partial<InboundMessage>): MessageResult {
+    return this.dispatch(this.call('handle', JSON.stringify(this.toInbound(message))));
+  }
+
+  /**
+   * Run Lua outside of any message, as test code does, and return the
+   * chunk's first value. Lua errors are thrown.
+   */
+  run(code: string, chunkname: string = '=run'): unknown {
+    this.engine.global.set('__aoforge_args', [code, chunkname]);
+    return this.engine.doStringSync('return assert(load(__aoforge_args[1], __aoforge_args[2]))()');
+  }
+
+  /**
+   * Set a Lua global, such as a JS function for Lua to call.
+   */
+  setGlobal(name: string, value: unknown): void {
+    this.engine.global.set(name, value);
+  }
+
+  close(): void {
+    this.engine.global.close();
+  }
+
+  private toInbound(message: Partial<InboundMessage>): InboundMessage {
+    const from = message.From || this.owner;
+    return {
+      Id: message.Id || (this.options.createId || createLocalId)(),
+      Target: this.id,
+      From: from,
+      Owner: message.Owner || from,
+      Tags: message.Tags || [],
+      Data: message.Data ?? '',
+      Timestamp: message.Timestamp ?? (this.options.now || Date.now)(),
+      'Block-Height': message['Block-Height'] ?? LOCAL_BLOCK_HEIGHT
+    };
+  }
+
+  private dispatch(result: MessageResult): MessageResult {
+    if (this.options.scheduled) {
+      return result;
+    }
+    const queue = result.Messages.filter(message => message.Target === this.id);
+    let delivered = 0;
+
+    while (queue.length > 0) {
+      if (++delivered > MAX_SELF_MESSAGES) {
+        throw new ProcessError(`Process sent itself more than ${MAX_SELF_MESSAGES} messages in a row`);
+      }
+      const outgoing = queue.shift();
+      const message = this.toInbound({ From: this.id, Owner: this.id, Tags: outgoing.Tags, Data: outgoing.Data });
+      const next = this.call('handle', JSON.stringify(message));
+      this.options.onMessage?.(message, next);
+      queue.push(...next.Messages.filter(reply => reply.Target === this.id));
+    }
+    return result;
+  }
+
+  private call(fn: 'init', ...args: string[]): void;
+  private call(fn: 'eval' | 'handle', ...args: string[]): MessageResult;
+  private call(fn: string, ...args: string[]): MessageResult | void {
+    this.engine.global.set('__aoforge_args', args);
+    const raw = this.engine.doStringSync(`return __aoforge.${fn}(table.unpack(__aoforge_args))`);
+    return typeof raw === 'string' ? JSON.parse(raw) : undefined;
+  }
+}
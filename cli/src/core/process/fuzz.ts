@@ -0,0 +1,225 @@
+import { AOEmulator } from './emulator.js';
+import { LuaToken, tokenize } from './lua.js';
+import { FuzzMessage } from '../../types/fuzz.js';
+
+/**
+ * Senders of fuzzed messages; the first owns the process. They are made-up
+ * 43-character addresses, so no wallet or file of the project is taken for
+ * them when messages are sent or replayed.
+ */
+export const FUZZ_SENDERS = ['alice', 'bob', 'carol'].map(name => name.padEnd(43, '_'));
+// Replays stop shrinking after this many
+const MAX_SHRINK_RUNS = 200;
+
+// Message fields that are not tags a sender chooses
+const MESSAGE_FIELDS = new Set([
+  'Action', 'Anchor', 'Block-Height', 'Cron', 'Data', 'Epoch', 'From', 'Hash-Chain', 'Id', 'Module', 'Nonce',
+  'Owner', 'Reference', 'Signature', 'TagArray', 'Tags', 'Target', 'Timestamp'
+]);
+const QUANTITY_TAG = /quantity|amount|price|qty|balance|value|total|supply|count|limit|fee|cost/i;
+const ADDRESS_TAG = /recipient|target|address|owner|sender|account|user|buyer|seller|process|wallet|^to$|^from|id$/i;
+const EDGE_QUANTITIES = ['0', '-1', '-1000', '0.5', '1e18', '99999999999999999999', 'NaN', 'abc', ''];
+
+/** What a handler's pattern says about the messages it takes */
+export interface HandlerShape {
+  name: string;
+  action?: string;
+  /** Tags the pattern requires: a value, or `_` for any */
+  tags: Record<string, string>;
+}
+
+export interface FuzzModel {
+  /** Actions to send, each with the tags its handler requires */
+  actions: { action: string; tags: Record<string, string> }[];
+  /** Tags the process reads from messages */
+  tagNames: string[];
+  /** Values for address tags: senders and `$process` */
+  addresses: string[];
+}
+
+const DISCOVER_HANDLERS = `
+  local shapes = {}
+  for _, handler in ipairs(Handlers.list) do
+    if handler.name ~= '_eval' then
+      local shape = { name = handler.name, tags = {} }
+      local pattern = handler.pattern
+      if type(pattern) == 'string' then
+        shape.action = pattern
+      elseif type(pattern) == 'table' then
+        for key, value in pairs(pattern) do
+          if key == 'Action' and type(value) == 'string' then
+            shape.action = value
+          elseif type(key) == 'string' then
+            shape.tags[key] = type(value) == 'string' and not value:find('[%^%$%(%)%%%.%[%]%*%+%?]') and value or '_'
+          end
+        end
+      elseif type(pattern) == 'function' then
+        -- Handlers.utils.hasMatchingTag('Action', value) keeps both as upvalues
+        local upvalues = {}
+        for i = 1, 8 do
+          local name, value = debug.getupvalue(pattern, i)
+          if not name then break end
+          upvalues[name] = value
+        end
+        if upvalues.name == 'Action' and type(upvalues.value) == 'string' then
+          shape.action = upvalues.value
+        end
+      end
+      shapes[#shapes + 1] = shape
+    end
+  end
+  return require('json').encode(shapes)
+`;
+
+/**
+ * Handlers of an emulated process, with the Action and tags their patterns
+ * match when the pattern is a table, an Action name or `hasMatchingTag`.
+ */
+export function discoverHandlers(emulator: AOEmulator): HandlerShape[] {
+  const shapes: HandlerShape[] = JSON.parse(String(emulator.run(DISCOVER_HANDLERS, '=fuzz')));
+  // An empty Lua table is encoded as an array
+  return shapes.map(shape => ({ ...shape, tags: Array.isArray(shape.tags) ? {} : shape.tags }));
+}
+
+/**
+ * Tags Lua source reads from messages: `msg.Quantity`, `msg.Tags.Quantity`
+ * and `msg['X-Note']`.
+ */
+export function findTagNames(source: string): string[] {
+  let tokens: LuaToken[];
+  try {
+    tokens = tokenize(source);
+  } catch {
+    return [];
+  }
+
+  const names = new Set<string>();
+  const is = (token: LuaToken | undefined, value: string) => token?.type !== 'string' && token?.value === value;
+  tokens.forEach((token, i) => {
+    // A field such as `self.msg`, but not `'a' .. msg`
+    const field = is(tokens[i - 1], '.') && !(is(tokens[i - 2], '.') && tokens[i - 2].index === tokens[i - 1].index - 1);
+    if (token.type !== 'name' || token.value !== 'msg' || field) {
+      return;
+    }
+    let next = i + 1;
+    if (is(tokens[next], '.') && is(tokens[next + 1], 'Tags')) {
+      next += 2;
+    }
+    const name = is(tokens[next], '.') && tokens[next + 1]?.type === 'name' ? tokens[next + 1].value
+      : is(tokens[next], '[') && tokens[next + 1]?.type === 'string' && is(tokens[next + 2], ']') ? tokens[next + 1].value
+        : undefined;
+    if (name && /^[A-Z]/.test(name) && !MESSAGE_FIELDS.has(name)) {
+      names.add(name);
+    }
+  });
+  return [...names].sort();
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function createTagValue(random: () => number, name: string, model: FuzzModel): string {
+  const quantity = () => random() < 0.5 ? String(1 + Math.floor(random() * 1000)) : pick(random, EDGE_QUANTITIES);
+  if (QUANTITY_TAG.test(name)) {
+    return quantity();
+  }
+  if (ADDRESS_TAG.test(name)) {
+    return pick(random, model.addresses);
+  }
+  const kind = random();
+  return kind < 0.4 ? quantity() : kind < 0.7 ? pick(random, model.addresses) : Math.floor(random() * 36 ** 4).toString(36);
+}
+
+/**
+ * A random message: one of the model's actions with the tags its handler
+ * requires, and most other known tags, from a random sender.
+ */
+export function createMessage(random: () => number, model: FuzzModel): FuzzMessage {
+  const { action, tags: required } = pick(random, model.actions);
+  const tags: Record<string, string> = {};
+  for (const [name, value] of Object.entries(required)) {
+    tags[name] = value === '_' ? createTagValue(random, name, model) : value;
+  }
+  for (const name of model.tagNames) {
+    if (!(name in tags) && random() < 0.7) {
+      tags[name] = createTagValue(random, name, model);
+    }
+  }
+  return { from: pick(random, FUZZ_SENDERS), action, tags };
+}
+
+/**
+ * A Lua expression with the value of an invariant, which may be an
+ * expression or a chunk that returns one, as the emulator compiles it.
+ */
+export function toInvariantExpression(emulator: AOEmulator, code: string): string {
+  let level = 0;
+  while (code.includes(`]${'='.repeat(level)}]`)) {
+    level++;
+  }
+  // A long string, whose first newline Lua drops
+  const literal = `[${'='.repeat(level)}[\n${code}]${'='.repeat(level)}]`;
+  const expression = emulator.run(`return load('return ' .. ${literal}) ~= nil`, '=fuzz') === true;
+  return expression ? `(${code})` : `(function()\n${code}\nend)()`;
+}
+
+// Numbers closer to 0 than a value, for shrinking
+function getSimplerValues(value: string): string[] {
+  const number = Number(value);
+  const candidates = Number.isFinite(number) ? ['0', '1', String(Math.trunc(number / 2))] : ['0'];
+  return [...new Set(candidates)].filter(candidate => candidate !== value && candidate.length <= Math.max(value.length, 1));
+}
+
+/**
+ * The smallest messages found that still fail: runs of messages are left
+ * out, halving their length down to single ones, then tags are dropped,
+ * numbers made smaller and senders made the owner. `fails` replays messages
+ * and returns those sent up to the failure, or null when they pass.
+ */
+export async function shrinkMessages(
+  messages: FuzzMessage[],
+  fails: (messages: FuzzMessage[]) => Promise<FuzzMessage[] | null>,
+  limit: number = MAX_SHRINK_RUNS
+): Promise<FuzzMessage[]> {
+  let current = messages;
+  let attempts = 0;
+  const attempt = async (candidate: FuzzMessage[]): Promise<boolean> => {
+    if (attempts >= limit) {
+      return false;
+    }
+    attempts++;
+    const failing = await fails(candidate);
+    if (failing) {
+      current = failing;
+    }
+    return Boolean(failing);
+  };
+  const replace = (index: number, message: FuzzMessage) => current.map((existing, i) => i === index ? message : existing);
+
+  for (let size = Math.ceil(current.length / 2); size >= 1; size = size > 1 ? Math.ceil(size / 2) : 0) {
+    for (let start = 0; start < current.length;) {
+      if (!(await attempt([...current.slice(0, start), ...current.slice(start + size)]))) {
+        start += size;
+      }
+    }
+  }
+
+  for (let i = 0; i < current.length; i++) {
+    for (const name of Object.keys(current[i].tags)) {
+      const { [name]: dropped, ...rest } = current[i].tags;
+      if (i >= current.length || await attempt(replace(i, { ...current[i], tags: rest }))) {
+        continue;
+      }
+      for (const value of getSimplerValues(dropped)) {
+        if (await attempt(replace(i, { ...current[i], tags: { ...current[i].tags, [name]: value } }))) {
+          break;
+        }
+      }
+    }
+    if (i < current.length && current[i].from !== FUZZ_SENDERS[0]) {
+      await attempt(replace(i, { ...current[i], from: FUZZ_SENDERS[0] }));
+    }
+  }
+  return current;
+}
@@ -0,0 +1,131 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { ValidationError } from '../utils/error-handling.js';
+import { NamedProcessDefinition } from './definitions.js';
+
+// AO process IDs are Arweave transaction IDs: 43 base64url characters
+const PROCESS_ID_PATTERN = /(?<![A-Za-z0-9_-])([A-Za-z0-9_-]{43})(?![A-Za-z0-9_-])/;
+// Lua that prints the process ID; used as the readiness check by `process up`
+export const PROCESS_ID_PROBE = 'print(ao.id)';
+export const INJECTED_GLOBAL = 'ProcessIds';
+
+/**
+ * Order definitions so every process comes after the ones it depends on.
+ * Definitions keep their config order where dependencies allow it.
+ */
+export function orderProcessDefinitions(definitions: NamedProcessDefinition[]): NamedProcessDefinition[] {
+  const byName = new Map(definitions.map(definition => [definition.name, definition]));
+  const ordered: NamedProcessDefinition[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (definition: NamedProcessDefinition, chain: string[]) => {
+    const current = state.get(definition.name);
+    if (current === 'done') {
+      return;
+    }
+    if (current === 'visiting') {
+      throw new ValidationError(`Circular dependency: ${[...chain, definition.name].join(' -> ')}`);
+    }
+
+    state.set(definition.name, 'visiting');
+    for (const dependency of definition.dependsOn || []) {
+      const target = byName.get(dependency);
+      if (!target) {
+        throw new ValidationError(`Process ${definition.name} depends on unknown process: ${dependency}`);
+      }
+      visit(target, [...chain, definition.name]);
+    }
+    state.set(definition.name, 'done');
+    ordered.push(definition);
+  };
+
+  for (const definition of definitions) {
+    visit(definition, []);
+  }
+  return ordered;
+}
+
+/**
+ * The named definitions plus everything they depend on, directly or not.
+ */
+export function withDependencies(definitions: NamedProcessDefinition[], names: string[]): NamedProcessDefinition[] {
+  const byName = new Map(definitions.map(definition => [definition.name, definition]));
+  const selected = new Set<string>();
+  const add = (name: string) => {
+    if (selected.has(name)) {
+      return;
+    }
+    const definition = byName.get(name);
+    if (!definition) {
+      throw new ValidationError(`Unknown process: ${name}. Defined processes: ${[...byName.keys()].join(', ')}`);
+    }
+    selected.add(name);
+    (definition.dependsOn || []).forEach(add);
+  };
+
+  names.forEach(add);
+  return definitions.filter(definition => selected.has(definition.name));
+}
+
+/**
+ * The named definitions plus everything that depends on them, directly or not.
+ */
+export function withDependents(definitions: NamedProcessDefinition[], names: string[]): NamedProcessDefinition[] {
+  const selected = new Set<string>(names);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const definition of definitions) {
+      if (!selected.has(definition.name) && (definition.dependsOn || []).some(name => selected.has(name))) {
+        selected.add(definition.name);
+        grew = true;
+      }
+    }
+  }
+  return definitions.filter(definition => selected.has(definition.name));
+}
+
+export function parseProcessId(output: string): string | null {
+  const lines = output.split('\n').map(line => line.trim()).reverse();
+  for (const line of lines) {
+    const match = PROCESS_ID_PATTERN.exec(line);
+    if (match) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+/**
+ * Lua defining the IDs of a process's dependencies, e.g.
+ * `ProcessIds["token"]`, loaded before the process's own files.
+ */
+export function renderInjectedGlobals(ids: Record<string, string>): string {
+  const lines = [
+    '-- Generated by ao-forge process up',
+    `${INJECTED_GLOBAL} = ${INJECTED_GLOBAL} or {}`
+  ];
+  for (const [name, id] of Object.entries(ids)) {
+    lines.push(`${INJECTED_GLOBAL}[${JSON.stringify(name)}] = ${JSON.stringify(id)}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function getInjectedTags(ids: Record<string, string>): Record<string, string> {
+  const tags: Record<string, string> = {};
+  for (const [name, id] of Object.entries(ids)) {
+    tags[`Process-Id-${name}`] = id;
+  }
+  return tags;
+}
+
+/**
+ * Write the injected globals of a process to `.ao-forge/env/<name>.lua`
+ * and return the file path.
+ */
+export async function writeInjectedGlobals(projectPath: string, name: string, ids: Record<string, string>): Promise<string> {
+  const filePath = path.join(projectPath, '.ao-forge', 'env', `${name}.lua`);
+  await fs.ensureDir(path.dirname(filePath));
+  await fs.writeFile(filePath, renderInjectedGlobals(ids));
+  return filePath;
+}
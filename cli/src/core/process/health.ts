@@ -0,0 +1,181 @@
+import chalk from 'chalk';
+import { ErrorHandler, ProcessError } from '../utils/error-handling.js';
+import { formatDuration } from '../utils/time.js';
+import { ProcessBridge } from './bridge.js';
+import { ProcessRegistry } from './registry.js';
+import { MessageTransport } from './transport.js';
+import { buildMessage } from './message.js';
+import {
+  AOConfig,
+  HealthCheckConfig,
+  HealthCheckResult,
+  HealthConfig,
+  HealthReport,
+  MessageResult,
+  ProcessDefinition,
+  ProcessInfo
+} from '../../types/aos.js';
+import { HealthConfigSchema } from '../../types/config.js';
+
+// Used when a project configures no checks: the defaults of health in ao.config.yml
+export const DEFAULT_HEALTH_CONFIG: HealthConfig = HealthConfigSchema.parse({});
+const MAX_OUTPUT_LENGTH = 60;
+
+export interface HealthContext {
+  /** Registry entry of the process, null when it was never started */
+  info: ProcessInfo | null;
+  /** Per check, in milliseconds */
+  timeout: number;
+  /** Transport for `info` checks, created when first needed */
+  transport: () => MessageTransport;
+}
+
+/**
+ * Checks for a process: its definition's own, the project's, or the
+ * defaults (process alive and answering an eval).
+ */
+export function getHealthConfig(config: AOConfig, definition?: ProcessDefinition): HealthConfig {
+  return definition?.health || config.health || DEFAULT_HEALTH_CONFIG;
+}
+
+export function getCheckName(check: HealthCheckConfig): string {
+  if (check.name) {
+    return check.name;
+  }
+  return check.type === 'info' ? `info (${check.action})` : check.type;
+}
+
+/**
+ * Fields a dry-run result lacks: each must be a tag, or a key of JSON data,
+ * on one of the replies.
+ */
+export function findMissingFields(result: MessageResult, fields: string[]): string[] {
+  const found = new Set<string>();
+  for (const message of result.Messages) {
+    for (const tag of message.Tags || []) {
+      found.add(tag.name);
+    }
+    try {
+      const data = typeof message.Data === 'string' ? JSON.parse(message.Data) : message.Data;
+      if (data && typeof data === 'object' && !Array.isArray(data)) {
+        Object.keys(data).forEach(key => found.add(key));
+      }
+    } catch {
+      // Not JSON data
+    }
+  }
+  return fields.filter(field => !found.has(field));
+}
+
+function truncate(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > MAX_OUTPUT_LENGTH ? `${line.slice(0, MAX_OUTPUT_LENGTH - 3)}...` : line;
+}
+
+async function runCheck(check: HealthCheckConfig, context: HealthContext): Promise<string> {
+  const { info, timeout } = context;
+
+  switch (check.type) {
+    case 'pid': {
+      if (!info) {
+        throw new ProcessError('Process is not registered for this project');
+      }
+      if (!ProcessRegistry.isAlive(info.pid, info.pidIdentity)) {
+        throw new ProcessError(`PID ${info.pid} is not running (status: ${info.status})`);
+      }
+      if (info.status !== 'running') {
+        throw new ProcessError(`PID ${info.pid} is ${info.status}`);
+      }
+      return `PID ${info.pid} running for ${formatDuration(Date.now() - new Date(info.startTime).getTime())}`;
+    }
+
+    case 'eval': {
+      if (!info || !ProcessRegistry.isActive(info)) {
+        throw new ProcessError('Process is not running');
+      }
+      if (!info.socketPath) {
+        throw new ProcessError('Process was not started with --detach; it cannot be evaluated');
+      }
+      const output = await new ProcessBridge(info.socketPath).evaluate(check.code, { timeout });
+      if (check.expect !== undefined && !output.includes(check.expect)) {
+        throw new ProcessError(`Expected output containing "${check.expect}", got "${truncate(output)}"`);
+      }
+      return output ? `Responded: ${truncate(output)}` : 'Responded';
+    }
+
+    case 'info': {
+      if (!info?.processId) {
+        throw new ProcessError('Process ID unknown; start the process with "ao-forge process up"');
+      }
+      const result = await context.transport().dryrun(buildMessage({ target: info.processId, action: check.action }));
+      if (result.Error) {
+        throw new ProcessError(`${check.action} failed: ${truncate(String(result.Error))}`);
+      }
+      if (result.Messages.length === 0) {
+        throw new ProcessError(`No reply to ${check.action}`);
+      }
+      const missing = findMissingFields(result, check.fields);
+      if (missing.length > 0) {
+        throw new ProcessError(`Reply is missing ${missing.join(', ')}`);
+      }
+      return check.fields.length > 0 ? `Reply has ${check.fields.join(', ')}` : 'Replied';
+    }
+  }
+}
+
+/**
+ * Run checks in order. An eval check is skipped once a pid check has
+ * failed, since it cannot pass either, and info checks of local processes,
+ * whose state a dry run would change.
+ */
+export async function runHealthChecks(
+  name: string,
+  checks: HealthCheckConfig[],
+  context: HealthContext
+): Promise<HealthReport> {
+  const results: HealthCheckResult[] = [];
+
+  for (const check of checks) {
+    const result = { name: getCheckName(check), type: check.type };
+    const processDown = results.some(previous => previous.type === 'pid' && previous.status === 'fail');
+    if (check.type === 'eval' && processDown) {
+      results.push({ ...result, status: 'skip', message: 'Process is not running', duration: 0 });
+      continue;
+    }
+    if (check.type === 'info' && context.info?.local) {
+      results.push({ ...result, status: 'skip', message: 'Local processes cannot dry-run messages', duration: 0 });
+      continue;
+    }
+
+    const start = Date.now();
+    try {
+      const message = await ErrorHandler.withTimeout(() => runCheck(check, context), context.timeout);
+      results.push({ ...result, status: 'pass', message, duration: Date.now() - start });
+    } catch (error) {
+      results.push({ ...result, status: 'fail', message: (error as Error).message, duration: Date.now() - start });
+    }
+  }
+
+  return {
+    process: name,
+    healthy: results.every(result => result.status !== 'fail'),
+    checkedAt: new Date().toISOString(),
+    checks: results
+  };
+}
+
+const STATUS_SYMBOLS = {
+  pass: chalk.green('✓'),
+  fail: chalk.red('✗'),
+  skip: chalk.gray('-')
+};
+
+export function renderHealthReport(report: HealthReport): string {
+  const width = Math.max(...report.checks.map(check => check.name.length), 4);
+  const lines = [`${chalk.bold(report.process)}  ${report.healthy ? chalk.green('healthy') : chalk.red('unhealthy')}`];
+  for (const check of report.checks) {
+    const duration = check.status === 'skip' ? '' : chalk.gray(` (${check.duration}ms)`);
+    lines.push(`  ${STATUS_SYMBOLS[check.status]} ${check.name.padEnd(width)}  ${check.message}${duration}`);
+  }
+  return lines.join('\n');
+}
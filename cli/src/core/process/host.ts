@@ -0,0 +1,684 @@
+import net from 'net';
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs-extra';
+import { spawn, ChildProcess } from 'child_process';
+import { logger } from '../utils/logging.js';
+import { ProcessError } from '../utils/error-handling.js';
+import { parseDuration, sleep } from '../utils/time.js';
+import { BridgeRequest, BridgeResponse, DEFAULT_EVAL_TIMEOUT, EvalOutput } from './bridge.js';
+import { LogStream, RotatingLogWriter } from './logs.js';
+import { MessageJournal, createOutputEntry } from './journal.js';
+import { CronStore } from './cron.js';
+import { Schedule } from './schedule.js';
+import { ProcessRegistry } from './registry.js';
+import { formatRestartDelay, RestartOptions, RestartTracker } from './supervisor.js';
+import { LOCAL_MESSAGE_COMMAND, LOCAL_RESULT_MARKER, parseLocalResult } from './local.js';
+import { InboundMessage } from './emulator.js';
+import {
+  AOSFeatures,
+  CronJob,
+  JournalEntry,
+  MessageResult,
+  ProcessConfig,
+  ProcessInfo,
+  ProcessState,
+  ProcessStateSnapshot,
+  SchedulerState
+} from '../../types/aos.js';
+
+export const HOST_SPEC_ENV = 'AO_FORGE_HOST_SPEC';
+
+const CHILD_EXIT_TIMEOUT = 5000;
+const MAX_RECENT_ENTRIES = 50;
+const EVAL_MARKER = '__AOFORGE_EVAL_';
+const EVAL_MARKER_PATTERN = /__AOFORGE_EVAL_(BEGIN|END)_([0-9a-f]+)__/;
+const EVAL_ERROR_MARKER = '__AOFORGE_ERROR__ ';
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]/g;
+const PROMPT_PATTERN = /^(\S*\[Inbox:\d+\]>|aos>)\s*/;
+
+export interface HostSpec {
+  name: string;
+  projectPath: string;
+  socketPath: string;
+  command: string;
+  args: string[];
+  /** Added to the host's environment for the child */
+  env?: Record<string, string>;
+  logFile?: string;
+  journalFile?: string;
+  features?: AOSFeatures;
+  config?: ProcessConfig;
+  restart?: RestartOptions;
+  /** Files removed when the host exits, such as a decrypted wallet */
+  cleanup?: string[];
+  /** The child is a local emulator (`process __local`) rather than aos */
+  local?: boolean;
+}
+
+interface PendingEval {
+  id: string;
+  input: string;
+  /** Set once the begin marker is printed; output before it is not ours */
+  started: boolean;
+  lines: string[];
+  resolve: (output: string) => void;
+}
+
+/**
+ * Script path of the running CLI, used to re-launch it as a process host.
+ */
+export function getCLIEntry(): string {
+  return process.env.AO_FORGE_CLI_ENTRY || process.argv[1];
+}
+
+/**
+ * Quote arbitrary text as a single-line Lua string literal.
+ */
+export function toLuaString(value: string): string {
+  let quoted = '"';
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (char === '\\' || char === '"') {
+      quoted += '\\' + char;
+    } else if (char === '\n') {
+      quoted += '\\n';
+    } else if (char === '\r') {
+      quoted += '\\r';
+    } else if (code < 32 || code === 127) {
+      quoted += '\\' + code.toString().padStart(3, '0');
+    } else {
+      quoted += char;
+    }
+  }
+  return quoted + '"';
+}
+
+/**
+ * Wrap Lua source so it can be typed into the aos REPL as one line. Like the
+ * REPL itself, it first tries the source as an expression so its value is
+ * printed. Errors are printed behind a marker so parseEvalOutput can tell
+ * them from output.
+ */
+export function buildEvalInput(code: string): string {
+  return '(function(src) local f, e = load("return " .. src, "=eval"); ' +
+    'if not f then f, e = load(src, "=eval") end; ' +
+    'local r = f and table.pack(pcall(f)) or { false, e }; ' +
+    'if not r[1] then print("__AOFORGE_" .. "ERROR__ " .. tostring(r[2])); return end; ' +
+    'return table.unpack(r, 2, r.n) end)(' + toLuaString(code) + ')';
+}
+
+/**
+ * Split the output of an eval wrapped by buildEvalInput into what it printed
+ * and the error it raised, if any.
+ */
+export function parseEvalOutput(output: string): EvalOutput {
+  const lines = output.split('\n');
+  const index = lines.findIndex(line => line.startsWith(EVAL_ERROR_MARKER));
+  if (index === -1) {
+    return { output };
+  }
+  return {
+    output: lines.slice(0, index).join('\n').trim(),
+    error: [lines[index].slice(EVAL_ERROR_MARKER.length), ...lines.slice(index + 1)].join('\n').trim()
+  };
+}
+
+/**
+ * Long-lived owner of a background aos process. It keeps the aos REPL's
+ * stdio open after the CLI that started it has exited, and serves requests
+ * from later CLI invocations over a local socket.
+ */
+export class ProcessHost {
+  private spec: HostSpec;
+  private child: ChildProcess | null = null;
+  private server: net.Server | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private pending: PendingEval | null = null;
+  private stdoutBuffer = '';
+  private exitCode: number | null = null;
+  private childExited: Promise<void> = Promise.resolve();
+  private onExit: (code: number) => void;
+  private log: RotatingLogWriter | null;
+  private journal: MessageJournal | null;
+  private state: ProcessState;
+  /** Messages the process handled, not lines it printed */
+  private messageCount = 0;
+  private outputCount = 0;
+  private errorCount = 0;
+  private cronJobs: CronJob[] = [];
+  private schedules = new Map<string, { job: CronJob; schedule: Schedule }>();
+  private registry: ProcessRegistry | null;
+  private restarts: RestartTracker | null;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private childStartTime = 0;
+  private stopping = false;
+
+  constructor(spec: HostSpec, onExit: (code: number) => void = () => {}, registry?: ProcessRegistry) {
+    this.spec = spec;
+    this.onExit = onExit;
+    this.registry = registry || null;
+    this.restarts = spec.restart && spec.restart.policy !== 'no' ? new RestartTracker(spec.restart) : null;
+    this.log = spec.logFile ? new RotatingLogWriter(spec.logFile) : null;
+    this.journal = spec.journalFile ? new MessageJournal(spec.journalFile, spec.name) : null;
+    this.state = {
+      id: spec.name,
+      status: 'starting',
+      startTime: new Date(),
+      features: spec.features || {
+        coroutines: false,
+        requestResponse: false,
+        defaultActions: false,
+        bootloader: false,
+        weavedrive: false,
+        version: '2.x'
+      },
+      messages: [],
+      errors: [],
+      config: spec.config || {
+        name: spec.name,
+        monitor: false,
+        sqlite: false,
+        tags: {},
+        luaFiles: []
+      }
+    };
+  }
+
+  getSnapshot(): ProcessStateSnapshot {
+    const now = this.state.endTime || new Date();
+    return {
+      id: this.state.id,
+      pid: process.pid,
+      status: this.state.status,
+      startTime: this.state.startTime.toISOString(),
+      uptime: now.getTime() - this.state.startTime.getTime(),
+      features: this.state.features,
+      config: this.state.config,
+      messageCount: this.messageCount,
+      messages: this.state.messages,
+      errorCount: this.errorCount,
+      errors: this.state.errors.map(error => error.message),
+      schedulers: this.getSchedulerStates()
+    };
+  }
+
+  /**
+   * Bring running schedules in line with the project's cron file: start new
+   * and resumed jobs, stop removed and paused ones, restart edited ones.
+   */
+  async reloadSchedules(): Promise<SchedulerState[]> {
+    const jobs = await new CronStore(this.spec.projectPath).list(this.spec.name);
+    const active = new Map(jobs.filter(job => !job.paused).map(job => [job.id, job]));
+
+    for (const [id, { job, schedule }] of this.schedules) {
+      const next = active.get(id);
+      if (!next || JSON.stringify(next) !== JSON.stringify(job)) {
+        await schedule.stop();
+        this.schedules.delete(id);
+      }
+    }
+
+    for (const job of active.values()) {
+      if (this.schedules.has(job.id)) {
+        continue;
+      }
+      const schedule = new Schedule(this.spec.name, {
+        name: job.id,
+        expression: job.expression,
+        tick: job.tick,
+        onError: job.onError,
+        maxRetries: job.maxRetries
+      }, this.scheduleTarget(job));
+      await schedule.start();
+      this.schedules.set(job.id, { job, schedule });
+    }
+
+    this.cronJobs = jobs;
+    if (jobs.length > 0) {
+      this.writeLog('host', `Cron: ${active.size} active, ${jobs.length - active.size} paused`);
+    }
+    return this.getSchedulerStates();
+  }
+
+  async start(): Promise<void> {
+    this.writeLog('host', `Starting ${this.spec.command} ${this.spec.args.join(' ')}`);
+    await this.spawnChild();
+    await this.listen();
+
+    try {
+      await this.reloadSchedules();
+    } catch (error) {
+      this.writeLog('host', `Failed to load cron jobs: ${(error as Error).message}`);
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    this.stopping = true;
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+
+    for (const { schedule } of this.schedules.values()) {
+      await schedule.stop();
+    }
+    this.schedules.clear();
+
+    if (this.child && this.exitCode === null) {
+      this.child.kill('SIGTERM');
+      await Promise.race([this.childExited, sleep(CHILD_EXIT_TIMEOUT)]);
+    }
+
+    if (this.server) {
+      await new Promise<void>(resolve => this.server!.close(() => resolve()));
+      this.server = null;
+    }
+
+    if (process.platform !== 'win32') {
+      await fs.remove(this.spec.socketPath);
+    }
+    for (const file of this.spec.cleanup || []) {
+      await fs.remove(file);
+    }
+  }
+
+  async evaluate(code: string, options: { await?: boolean; timeout?: number } = {}): Promise<EvalOutput> {
+    return parseEvalOutput(await this.send(buildEvalInput(code), options));
+  }
+
+  /**
+   * Run the aos `.load` command, which also bundles the file's `require`
+   * dependencies. The outcome is written to the process log.
+   */
+  async load(filePath: string, options: { timeout?: number } = {}): Promise<string> {
+    const file = path.resolve(this.spec.projectPath, filePath);
+    this.writeLog('host', `Reloading ${path.relative(this.spec.projectPath, file)}`);
+    try {
+      const output = await this.send(`.load ${file}`, options);
+      this.writeLog('host', `Reloaded ${path.relative(this.spec.projectPath, file)}${output ? `: ${output}` : ''}`);
+      return output;
+    } catch (error) {
+      this.writeLog('host', `Reload of ${path.relative(this.spec.projectPath, file)} failed: ${(error as Error).message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Hand a message to a local process's Handlers and return its result.
+   */
+  async deliver(message: Partial<InboundMessage>, options: { timeout?: number } = {}): Promise<MessageResult> {
+    if (!this.spec.local) {
+      throw new ProcessError(`Process ${this.spec.name} is not local; send messages to it through the network`);
+    }
+    const result = parseLocalResult(await this.send(`${LOCAL_MESSAGE_COMMAND} ${JSON.stringify(message)}`, options));
+    this.messageCount++;
+    return result;
+  }
+
+  private send(input: string, options: { await?: boolean; timeout?: number }): Promise<string> {
+    const timeout = options.timeout ?? DEFAULT_EVAL_TIMEOUT;
+
+    const run = () => new Promise<string>((resolve, reject) => {
+      const stdin = this.child?.stdin;
+      if (!stdin || !stdin.writable || this.exitCode !== null) {
+        reject(new ProcessError(`Process ${this.spec.name} is not running`));
+        return;
+      }
+
+      if (options.await === false) {
+        stdin.write(input + '\n');
+        resolve('');
+        return;
+      }
+
+      // Output is taken from between markers with this request's ID, so late
+      // output of an evaluation that timed out never lands in a later one.
+      // The markers are concatenated in Lua so an echoed input line never matches.
+      const id = crypto.randomBytes(6).toString('hex');
+      stdin.write(`print("${EVAL_MARKER}" .. "BEGIN_${id}__")\n`);
+      stdin.write(input + '\n');
+      stdin.write(`print("${EVAL_MARKER}" .. "END_${id}__")\n`);
+
+      const timer = setTimeout(() => {
+        this.pending = null;
+        reject(new ProcessError(`Evaluation timed out after ${timeout}ms`, { input }));
+      }, timeout);
+
+      this.pending = {
+        id,
+        input,
+        started: false,
+        lines: [],
+        resolve: (output: string) => {
+          clearTimeout(timer);
+          resolve(output);
+        }
+      };
+    });
+
+    // Evaluations share the REPL, so they must not interleave
+    const result = this.queue.then(run, run);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  protected async handleRequest(request: BridgeRequest): Promise<any> {
+    switch (request.type) {
+      case 'ping':
+        return { name: this.spec.name, pid: process.pid, childPid: this.child?.pid ?? null };
+      case 'state':
+        return this.getSnapshot();
+      case 'eval':
+        return this.evaluate(request.code, { await: request.await, timeout: request.timeout });
+      case 'load':
+        return { output: await this.load(request.file, { timeout: request.timeout }) };
+      case 'message':
+        return this.deliver(request.message, { timeout: request.timeout });
+      case 'cron-reload':
+        return { schedulers: await this.reloadSchedules() };
+      case 'log':
+        this.writeLog('host', String(request.message));
+        return {};
+      default:
+        throw new ProcessError(`Unknown request type: ${request.type}`);
+    }
+  }
+
+  protected handleOutputLine(line: string): void {
+    const clean = line.replace(ANSI_PATTERN, '').replace(PROMPT_PATTERN, '').trimEnd();
+    if (!line.includes(EVAL_MARKER) && !line.startsWith(LOCAL_RESULT_MARKER)) {
+      this.writeLog('stdout', line);
+      // The echoed eval wrapper is not process output
+      if (clean !== this.pending?.input) {
+        this.recordMessage(line);
+      }
+    }
+    if (!this.pending) {
+      return;
+    }
+
+    const marker = EVAL_MARKER_PATTERN.exec(clean);
+    if (marker) {
+      if (marker[2] === this.pending.id && marker[1] === 'BEGIN') {
+        this.pending.started = true;
+      } else if (marker[2] === this.pending.id && this.pending.started) {
+        const { lines, resolve } = this.pending;
+        this.pending = null;
+        resolve(lines.join('\n').trim());
+      }
+      return;
+    }
+
+    if (!this.pending.started || clean.includes(EVAL_MARKER) || clean === this.pending.input) {
+      return;
+    }
+    this.pending.lines.push(clean);
+  }
+
+  private spawnChild(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.spec.command, this.spec.args, {
+        cwd: this.spec.projectPath,
+        stdio: ['pipe', 'pipe', 'pipe'],
+        env: { ...process.env, ...this.spec.env }
+      });
+      this.child = child;
+      this.exitCode = null;
+      this.stdoutBuffer = '';
+      this.childStartTime = Date.now();
+      this.childExited = new Promise(resolve => child.once('exit', () => resolve()));
+
+      let spawned = false;
+      child.once('spawn', () => {
+        spawned = true;
+        this.state.status = 'running';
+        resolve();
+      });
+      child.once('error', (error: NodeJS.ErrnoException) => {
+        this.writeLog('host', `Failed to start ${this.spec.command}: ${error.code || error.message}`);
+        reject(new ProcessError(`Failed to start ${this.spec.command}: ${error.code || error.message}`));
+      });
+
+      child.stdout!.setEncoding('utf8');
+      child.stdout!.on('data', (chunk: string) => {
+        this.stdoutBuffer += chunk;
+        let newline: number;
+        while ((newline = this.stdoutBuffer.indexOf('\n')) !== -1) {
+          this.handleOutputLine(this.stdoutBuffer.slice(0, newline));
+          this.stdoutBuffer = this.stdoutBuffer.slice(newline + 1);
+        }
+      });
+      child.stderr!.setEncoding('utf8');
+      child.stderr!.on('data', (chunk: string) => {
+        this.writeLog('stderr', chunk);
+        this.recordError(chunk);
+      });
+
+      child.on('exit', (code, signal) => {
+        this.exitCode = code ?? 1;
+        this.state.status = code === 0 ? 'stopped' : 'error';
+        this.state.endTime = new Date();
+        this.writeLog('host', `Process exited with code ${code}${signal ? ` (${signal})` : ''}`);
+        // When the host itself is stopping, whoever stopped it handles the exit
+        if (!this.stopping && spawned) {
+          this.handleChildExit(code);
+        }
+      });
+    });
+  }
+
+  /**
+   * Restart the child according to the restart policy, or shut the host
+   * down and record the exit in the registry.
+   */
+  private async handleChildExit(code: number | null): Promise<void> {
+    const decision = this.restarts?.onExit(code, Date.now() - this.childStartTime);
+
+    if (decision?.restart) {
+      const max = this.spec.restart?.maxRestarts;
+      this.state.status = 'starting';
+      this.writeLog('host', `Restarting in ${formatRestartDelay(decision.delay)} ` +
+        `(attempt ${decision.attempt}${max !== undefined ? `/${max}` : ''}, policy ${decision.reason})`);
+      await this.updateRegistry({ status: 'restarting', restartCount: this.restarts!.restarts, lastExitCode: code });
+      this.restartTimer = setTimeout(() => this.restart(), decision.delay);
+      return;
+    }
+
+    if (decision) {
+      this.writeLog('host', `Not restarting: ${decision.reason}`);
+    }
+    await this.updateRegistry({ status: 'exited', stopTime: new Date().toISOString(), exitCode: code, lastExitCode: code });
+    this.shutdown().finally(() => this.onExit(code ?? 1));
+  }
+
+  private async restart(): Promise<void> {
+    this.restartTimer = null;
+    if (this.stopping) {
+      return;
+    }
+
+    // `process stop` during the backoff marks the entry stopped instead of killing us
+    const info = await this.getRegistry().get(this.spec.projectPath, this.spec.name);
+    if (info && info.status !== 'restarting') {
+      this.writeLog('host', `Restart cancelled, process was marked ${info.status}`);
+      this.shutdown().finally(() => this.onExit(0));
+      return;
+    }
+
+    // Recorded before spawning so a child that crashes again is not reported as running
+    await this.updateRegistry({ status: 'running' });
+    this.writeLog('host', `Restarting ${this.spec.command} (restart ${this.restarts!.restarts})`);
+    try {
+      await this.spawnChild();
+    } catch {
+      await this.handleChildExit(null);
+    }
+  }
+
+  private getRegistry(): ProcessRegistry {
+    if (!this.registry) {
+      this.registry = new ProcessRegistry();
+    }
+    return this.registry;
+  }
+
+  private async updateRegistry(patch: Partial<ProcessInfo>): Promise<void> {
+    try {
+      await this.getRegistry().update(this.spec.projectPath, this.spec.name, patch);
+    } catch (error) {
+      this.writeLog('host', `Failed to update process registry: ${(error as Error).message}`);
+    }
+  }
+
+  private getSchedulerStates(): SchedulerState[] {
+    return this.cronJobs.map(job => this.schedules.get(job.id)?.schedule.getState() ?? {
+      name: job.id,
+      expression: job.expression,
+      running: false,
+      retryCount: 0
+    });
+  }
+
+  /**
+   * Ticks run straight against this host's REPL; failures go to the process
+   * log since a detached host has no terminal.
+   */
+  private scheduleTarget(job: CronJob) {
+    return {
+      evaluateProcess: async (input: string, options: { await?: boolean; timeout?: string }) => {
+        try {
+          const { output, error } = await this.evaluate(input, {
+            await: options.await,
+            timeout: options.timeout ? parseDuration(options.timeout) : undefined
+          });
+          if (error) {
+            throw new ProcessError(error);
+          }
+          return output;
+        } catch (error) {
+          this.writeLog('host', `Cron job ${job.id} failed: ${(error as Error).message}`);
+          throw error;
+        }
+      }
+    };
+  }
+
+  private recordMessage(line: string): void {
+    const data = line.replace(ANSI_PATTERN, '').trim();
+    if (!data) {
+      return;
+    }
+
+    this.outputCount++;
+    const entry = createOutputEntry(this.spec.name, data, `${Date.now()}-${this.outputCount}`);
+    if (entry.direction === 'received') {
+      this.messageCount++;
+    }
+    this.writeJournal(entry);
+    this.state.messages.push({
+      id: entry.id,
+      action: entry.action,
+      data: entry.data,
+      tags: entry.tags,
+      timestamp: new Date(entry.timestamp),
+      sender: entry.sender,
+      recipient: entry.recipient
+    });
+    if (this.state.messages.length > MAX_RECENT_ENTRIES) {
+      this.state.messages.shift();
+    }
+  }
+
+  private recordError(chunk: string): void {
+    const message = chunk.replace(ANSI_PATTERN, '').trim();
+    if (!message) {
+      return;
+    }
+
+    this.errorCount++;
+    this.state.errors.push(new Error(message));
+    if (this.state.errors.length > MAX_RECENT_ENTRIES) {
+      this.state.errors.shift();
+    }
+  }
+
+  private writeLog(stream: LogStream, message: string): void {
+    try {
+      this.log?.write(stream, message);
+    } catch (error) {
+      logger.debug('Failed to write process log', error as Error);
+    }
+  }
+
+  private writeJournal(entry: JournalEntry): void {
+    try {
+      this.journal?.append(entry);
+    } catch (error) {
+      logger.debug('Failed to write message journal', error as Error);
+    }
+  }
+
+  private async listen(): Promise<void> {
+    if (process.platform !== 'win32') {
+      await fs.ensureDir(path.dirname(this.spec.socketPath));
+      await fs.remove(this.spec.socketPath);
+    }
+
+    this.server = net.createServer(socket => {
+      let buffer = '';
+      socket.setEncoding('utf8');
+      socket.on('error', () => socket.destroy());
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        let newline: number;
+        while ((newline = buffer.indexOf('\n')) !== -1) {
+          const line = buffer.slice(0, newline);
+          buffer = buffer.slice(newline + 1);
+          this.respond(socket, line);
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.spec.socketPath, () => resolve());
+    });
+  }
+
+  private async respond(socket: net.Socket, line: string): Promise<void> {
+    let response: BridgeResponse;
+    let request: BridgeRequest | null = null;
+
+    try {
+      request = JSON.parse(line);
+      response = { id: request!.id, ok: true, result: await this.handleRequest(request!) };
+    } catch (error) {
+      response = { id: request?.id ?? '', ok: false, error: (error as Error).message };
+    }
+
+    if (!socket.destroyed) {
+      socket.write(JSON.stringify(response) + '\n');
+    }
+  }
+}
+
+/**
+ * Entry point of the detached host process, spawned by ProcessManager with
+ * the host spec in the environment.
+ */
+export async function runProcessHost(): Promise<void> {
+  const raw = process.env[HOST_SPEC_ENV];
+  if (!raw) {
+    throw new ProcessError(`Missing ${HOST_SPEC_ENV}; the process host is started by "ao-forge process start --detach"`);
+  }
+
+  const host = new ProcessHost(JSON.parse(raw), code => process.exit(code));
+  const stop = () => {
+    host.shutdown().finally(() => process.exit(0));
+  };
+  process.on('SIGTERM', stop);
+  process.on('SIGINT', stop);
+
+  await host.start();
+}
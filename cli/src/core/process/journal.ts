@@ -0,0 +1,223 @@
+import path from 'path';
+import fs from 'fs-extra';
+import chalk from 'chalk';
+import { RotatingLogWriter, getRotatedFiles } from './logs.js';
+import { JournalDirection, JournalEntry, MessageResult, MessageTag, OutgoingMessage } from '../../types/aos.js';
+
+export const DEFAULT_MAX_JOURNAL_SIZE = 10 * 1024 * 1024;
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]/g;
+// The notice aos prints for every message a process receives
+const INCOMING_PATTERN = /New Message From (\S+?):.*?Action = (\S+)/;
+const MAX_DATA_LENGTH = 80;
+
+export const JOURNAL_COLUMNS = ['timestamp', 'direction', 'process', 'id', 'action', 'sender', 'recipient', 'tags', 'data'] as const;
+
+export interface JournalQuery {
+  direction?: JournalDirection;
+  action?: string;
+  from?: string;
+  /** Every tag must be present; `*` in a value matches anything */
+  tags?: MessageTag[];
+  since?: Date;
+  until?: Date;
+  /** Only the most recent entries */
+  limit?: number;
+}
+
+export function getJournalDir(projectPath: string): string {
+  return path.join(projectPath, '.ao-forge', 'messages');
+}
+
+export function getJournalFile(projectPath: string, name: string): string {
+  return path.join(getJournalDir(projectPath), `${name}.ndjson`);
+}
+
+function toTagMap(tags: { name: string; value: string }[] = []): Record<string, string> {
+  return Object.fromEntries(tags.map(tag => [tag.name, String(tag.value)]));
+}
+
+/**
+ * Journal entry for a line of process output: a received message when it
+ * is aos's notice for one, a log entry otherwise.
+ */
+export function createOutputEntry(processName: string, line: string, id: string): JournalEntry {
+  const data = line.replace(ANSI_PATTERN, '').trim();
+  const incoming = INCOMING_PATTERN.exec(data);
+  return {
+    id,
+    process: processName,
+    direction: incoming ? 'received' : 'log',
+    timestamp: new Date().toISOString(),
+    action: incoming ? incoming[2] : 'log',
+    sender: incoming ? incoming[1] : 'process',
+    recipient: incoming ? processName : 'stdout',
+    tags: {},
+    data
+  };
+}
+
+/**
+ * Append-only NDJSON record of the messages of one process, written to
+ * `.ao-forge/messages/<name>.ndjson` and rotated like the process log.
+ */
+export class MessageJournal {
+  private writer: RotatingLogWriter;
+  private processName: string;
+
+  constructor(filePath: string, processName: string) {
+    this.writer = new RotatingLogWriter(filePath, { maxSize: DEFAULT_MAX_JOURNAL_SIZE });
+    this.processName = processName;
+  }
+
+  static forProcess(projectPath: string, name: string): MessageJournal {
+    return new MessageJournal(getJournalFile(projectPath, name), name);
+  }
+
+  append(entry: JournalEntry): void {
+    this.writer.append(`${JSON.stringify(entry)}\n`);
+  }
+
+  recordSent(messageId: string, message: OutgoingMessage, sender: string): JournalEntry {
+    const tags = toTagMap(message.tags);
+    const entry: JournalEntry = {
+      id: messageId,
+      process: this.processName,
+      direction: 'sent',
+      timestamp: new Date().toISOString(),
+      action: tags.Action || '',
+      sender,
+      recipient: message.target,
+      tags,
+      data: message.data
+    };
+    this.append(entry);
+    return entry;
+  }
+
+  /**
+   * Record what a process produced while handling a message: its output and
+   * the messages it sent in reply.
+   */
+  recordResult(messageId: string, target: string, result: MessageResult): JournalEntry[] {
+    const timestamp = new Date().toISOString();
+    const entries: JournalEntry[] = result.Messages.map((message, index) => {
+      const tags = toTagMap(message.Tags);
+      return {
+        id: `${messageId}/${index + 1}`,
+        process: this.processName,
+        direction: 'received',
+        timestamp,
+        action: tags.Action || '',
+        sender: target,
+        recipient: message.Target || '',
+        tags,
+        data: message.Data ?? ''
+      };
+    });
+
+    const output = result.Error ?? result.Output?.data ?? result.Output;
+    if (output !== undefined && output !== null && output !== '') {
+      entries.unshift({
+        id: `${messageId}/output`,
+        process: this.processName,
+        direction: 'log',
+        timestamp,
+        action: result.Error ? 'error' : 'log',
+        sender: target,
+        recipient: 'stdout',
+        tags: {},
+        data: typeof output === 'string' ? output : JSON.stringify(output)
+      });
+    }
+
+    entries.forEach(entry => this.append(entry));
+    return entries;
+  }
+}
+
+function matchesPattern(value: string | undefined, pattern: string): boolean {
+  if (value === undefined) {
+    return false;
+  }
+  if (!pattern.includes('*')) {
+    return value === pattern;
+  }
+  const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`).test(value);
+}
+
+export function matchesJournalQuery(entry: JournalEntry, query: JournalQuery): boolean {
+  const timestamp = new Date(entry.timestamp);
+  return (!query.direction || entry.direction === query.direction)
+    && (!query.action || entry.action === query.action)
+    && (!query.from || entry.sender === query.from)
+    && (query.tags || []).every(tag => matchesPattern(entry.tags[tag.name], tag.value))
+    && (!query.since || timestamp >= query.since)
+    && (!query.until || timestamp <= query.until);
+}
+
+/**
+ * Read every rotated file of a journal, oldest first. Lines that are not
+ * JSON, such as one cut short by a crash, are skipped.
+ */
+export async function readJournal(filePath: string, query: JournalQuery = {}): Promise<JournalEntry[]> {
+  const entries: JournalEntry[] = [];
+  for (const file of await getRotatedFiles(filePath)) {
+    const content = await fs.readFile(file, 'utf8');
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const entry = JSON.parse(line) as JournalEntry;
+        if (matchesJournalQuery(entry, query)) {
+          entries.push(entry);
+        }
+      } catch {
+        // Partial line
+      }
+    }
+  }
+  return query.limit !== undefined ? entries.slice(Math.max(0, entries.length - query.limit)) : entries;
+}
+
+function formatData(data: unknown): string {
+  const text = (typeof data === 'string' ? data : JSON.stringify(data) ?? '').replace(/\s+/g, ' ');
+  return text.length > MAX_DATA_LENGTH ? `${text.slice(0, MAX_DATA_LENGTH - 3)}...` : text;
+}
+
+const DIRECTION_COLORS: Record<JournalDirection, (text: string) => string> = {
+  sent: chalk.cyan,
+  received: chalk.green,
+  log: chalk.gray
+};
+
+export function formatJournalEntry(entry: JournalEntry): string {
+  const direction = DIRECTION_COLORS[entry.direction](entry.direction.padEnd(8));
+  const tags = Object.entries(entry.tags)
+    .filter(([name]) => name !== 'Action')
+    .map(([name, value]) => `${name}=${value}`)
+    .join(' ');
+  const route = entry.direction === 'log' ? '' : ` ${entry.sender} -> ${entry.recipient}`;
+  const action = entry.direction === 'log' ? '' : ` [${entry.action || '-'}]`;
+  return [
+    `${chalk.gray(entry.timestamp)} ${direction}${action}${route}`,
+    tags ? chalk.gray(tags) : '',
+    formatData(entry.data)
+  ].filter(Boolean).join('  ');
+}
+
+function toCSVField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toJournalCSV(entries: JournalEntry[]): string {
+  const rows = entries.map(entry => JOURNAL_COLUMNS.map(column => {
+    const value = entry[column];
+    if (column === 'tags') {
+      return toCSVField(JSON.stringify(value));
+    }
+    return toCSVField(typeof value === 'string' ? value : JSON.stringify(value) ?? '');
+  }).join(','));
+  return [JOURNAL_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
@@ -0,0 +1,157 @@
+import readline from 'readline';
+import chalk from 'chalk';
+import { logger } from '../utils/logging.js';
+import { ProcessError } from '../utils/error-handling.js';
+import { AOEmulator, InboundMessage, createLocalId, getOutputText } from './emulator.js';
+import { ProcessBridge } from './bridge.js';
+import { MessageTransport } from './transport.js';
+import { MessageResult, MessageTag, OutgoingMessage, SpawnRequest } from '../../types/aos.js';
+
+export const LOCAL_SPEC_ENV = 'AO_FORGE_LOCAL_SPEC';
+// REPL command that hands a message to the process, followed by its JSON
+export const LOCAL_MESSAGE_COMMAND = '.message';
+// Prefix of the line that answers it with the result
+export const LOCAL_RESULT_MARKER = '__AOFORGE_RESULT__';
+
+/** What `process __local` runs, passed in its environment */
+export interface LocalProcessSpec {
+  name: string;
+  projectPath: string;
+  processId: string;
+  owner: string;
+  module?: string;
+  tags?: MessageTag[];
+  /** Loaded in order when the process starts */
+  luaFiles: string[];
+}
+
+/**
+ * The result printed after a `.message` command, from the output of the
+ * REPL in between.
+ */
+export function parseLocalResult(output: string): MessageResult {
+  const line = output.split('\n').reverse().find(candidate => candidate.startsWith(LOCAL_RESULT_MARKER));
+  if (!line) {
+    throw new ProcessError(`The local process did not return a result${output ? `: ${output}` : ''}`);
+  }
+  return JSON.parse(line.slice(LOCAL_RESULT_MARKER.length));
+}
+
+function printResult(result: MessageResult): void {
+  if (result.Error) {
+    console.log(chalk.red(String(result.Error)));
+  }
+  const output = getOutputText(result);
+  if (output) {
+    console.log(output);
+  }
+}
+
+/**
+ * Entry point of a local process: an emulator behind a prompt that reads
+ * what the aos REPL reads, so the process host and foreground starts run
+ * it in place of aos. `.message` is its own addition, used by `process send`.
+ */
+export async function runLocalProcess(): Promise<void> {
+  const raw = process.env[LOCAL_SPEC_ENV];
+  if (!raw) {
+    throw new ProcessError(`Missing ${LOCAL_SPEC_ENV}; local processes are started by "ao-forge process start --local"`);
+  }
+
+  const spec: LocalProcessSpec = JSON.parse(raw);
+  const emulator = await AOEmulator.create({
+    projectPath: spec.projectPath,
+    name: spec.name,
+    processId: spec.processId,
+    owner: spec.owner,
+    module: spec.module,
+    tags: spec.tags,
+    onMessage: (_message, result) => printResult(result)
+  });
+
+  const interactive = Boolean(process.stdin.isTTY);
+  if (interactive) {
+    logger.info(chalk.gray(`Local process ${spec.name}: ${emulator.id} (no network; .exit to quit)`));
+  }
+  for (const file of spec.luaFiles) {
+    try {
+      printResult(emulator.load(file));
+    } catch (error) {
+      console.log(chalk.red((error as Error).message));
+    }
+  }
+
+  const repl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: interactive, prompt: 'aos> ' });
+  repl.on('line', (line: string) => {
+    const input = line.trim();
+    try {
+      if (input === '.exit') {
+        repl.close();
+        return;
+      } else if (input.startsWith('.load ')) {
+        printResult(emulator.load(input.slice('.load '.length).trim()));
+      } else if (input.startsWith(`${LOCAL_MESSAGE_COMMAND} `)) {
+        const message: Partial<InboundMessage> = JSON.parse(input.slice(LOCAL_MESSAGE_COMMAND.length + 1));
+        console.log(LOCAL_RESULT_MARKER + JSON.stringify(emulator.deliver(message)));
+      } else if (input) {
+        printResult(emulator.evaluate(input));
+      }
+    } catch (error) {
+      console.log(chalk.red((error as Error).message));
+    }
+    if (interactive) {
+      repl.prompt();
+    }
+  });
+  repl.on('close', () => {
+    emulator.close();
+    process.exit(0);
+  });
+
+  if (interactive) {
+    repl.prompt();
+  }
+}
+
+/**
+ * Delivers messages to a local process through its host. They are handled
+ * at once, so results are ready as soon as `send` returns. Dry runs are
+ * refused, as the process has no copy of its state to run them against.
+ */
+export class LocalProcessTransport implements MessageTransport {
+  readonly name = 'emulator';
+  private bridge: ProcessBridge;
+  private from: string;
+  private results: Map<string, MessageResult> = new Map();
+
+  constructor(bridge: ProcessBridge, from: string) {
+    this.bridge = bridge;
+    this.from = from;
+  }
+
+  async send(message: OutgoingMessage): Promise<string> {
+    const id = createLocalId();
+    this.results.set(id, await this.deliver(message, id));
+    return id;
+  }
+
+  async result(_target: string, messageId: string): Promise<MessageResult> {
+    const result = this.results.get(messageId);
+    if (!result) {
+      throw new ProcessError(`No result for message: ${messageId}`);
+    }
+    return result;
+  }
+
+  async dryrun(_message: OutgoingMessage): Promise<MessageResult> {
+    throw new ProcessError('Local processes cannot dry-run messages');
+  }
+
+  async spawn(_request: SpawnRequest): Promise<string> {
+    throw new ProcessError('Local processes cannot spawn processes');
+  }
+
+  private deliver(message: OutgoingMessage, id: string): Promise<MessageResult> {
+    return this.bridge.deliver({ Id: id, From: this.from, Owner: this.from, Tags: message.tags, Data: message.data });
+  }
+}
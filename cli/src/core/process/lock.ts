@@ -0,0 +1,94 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { logger } from '../utils/logging.js';
+import { ProcessError } from '../utils/error-handling.js';
+
+const LOCK_RETRY_DELAY = 50;
+const LOCK_TIMEOUT = 5000;
+const LOCK_STALE_AFTER = 10000;
+
+interface LockOwner {
+  owner: string;
+  mtimeMs: number;
+}
+
+/**
+ * An exclusive lock file holding the PID of its owner, for read-modify-write
+ * of files several CLI runs share. A lock whose owner died, or that is older
+ * than 10s, is broken.
+ */
+export class FileLock {
+  constructor(private lockPath: string, private label: string) {}
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await fn();
+    } finally {
+      await fs.remove(this.lockPath);
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    await fs.ensureDir(path.dirname(this.lockPath));
+    const deadline = Date.now() + LOCK_TIMEOUT;
+
+    while (true) {
+      try {
+        const fd = await fs.open(this.lockPath, 'wx');
+        await fs.write(fd, String(process.pid));
+        await fs.close(fd);
+        return;
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const lock = await this.read();
+      if (lock && this.isStale(lock)) {
+        // Another CLI may have broken the stale lock and taken a new one since
+        const current = await this.read();
+        if (current && current.owner === lock.owner && current.mtimeMs === lock.mtimeMs) {
+          logger.debug(`Removing stale ${this.label} lock`);
+          await fs.remove(this.lockPath);
+        }
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new ProcessError(`Timed out waiting for the ${this.label} lock`, { lockPath: this.lockPath });
+      }
+
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_DELAY));
+    }
+  }
+
+  private async read(): Promise<LockOwner | null> {
+    try {
+      const stats = await fs.stat(this.lockPath);
+      return { owner: await fs.readFile(this.lockPath, 'utf8'), mtimeMs: stats.mtimeMs };
+    } catch {
+      // The lock disappeared between our attempts
+      return null;
+    }
+  }
+
+  private isStale(lock: LockOwner): boolean {
+    if (Date.now() - lock.mtimeMs > LOCK_STALE_AFTER) {
+      return true;
+    }
+
+    const owner = parseInt(lock.owner, 10);
+    if (isNaN(owner) || owner <= 0) {
+      return false;
+    }
+    try {
+      process.kill(owner, 0);
+      return false;
+    } catch (error: any) {
+      // EPERM means the owner exists but belongs to someone else
+      return error.code !== 'EPERM';
+    }
+  }
+}
@@ -0,0 +1,219 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { ValidationError } from '../utils/error-handling.js';
+import { parseDuration, sleep } from '../utils/time.js';
+
+export const DEFAULT_MAX_LOG_SIZE = 5 * 1024 * 1024;
+export const DEFAULT_MAX_LOG_FILES = 5;
+const FOLLOW_INTERVAL = 500;
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]/g;
+const LINE_PATTERN = /^(\S+) (stdout|stderr|host) (.*)$/;
+
+export type LogStream = 'stdout' | 'stderr' | 'host';
+
+export interface LogEntry {
+  timestamp: Date;
+  stream: LogStream;
+  message: string;
+}
+
+export interface LogQuery {
+  since?: Date;
+  grep?: RegExp;
+}
+
+export interface LogRotationOptions {
+  maxSize?: number;
+  maxFiles?: number;
+}
+
+export function getLogDir(projectPath: string): string {
+  return path.join(projectPath, '.ao-forge', 'logs');
+}
+
+export function getLogFile(projectPath: string, name: string): string {
+  return path.join(getLogDir(projectPath), `${name}.log`);
+}
+
+/**
+ * Accept either a relative duration with a unit ("10m", "2h") or an absolute
+ * date. A bare number is taken as a year ("2024"), never as milliseconds.
+ */
+export function parseSince(value: string, now: number = Date.now(), flag: string = '--since'): Date {
+  if (/^\s*\d+(?:\.\d+)?\s*(ms|s|m|h|d)\s*$/.test(value)) {
+    return new Date(now - parseDuration(value));
+  }
+
+  const timestamp = /^\s*\d+\s*$/.test(value) && !/^\s*\d{4}\s*$/.test(value) ? NaN : Date.parse(value);
+  if (isNaN(timestamp)) {
+    throw new ValidationError(`Invalid ${flag} value: ${value}. Use a duration with a unit like 10m, or a date.`);
+  }
+  return new Date(timestamp);
+}
+
+export function parseLogLine(line: string): LogEntry | null {
+  const match = LINE_PATTERN.exec(line);
+  if (!match) {
+    return null;
+  }
+
+  const timestamp = new Date(match[1]);
+  if (isNaN(timestamp.getTime())) {
+    return null;
+  }
+  return { timestamp, stream: match[2] as LogStream, message: match[3] };
+}
+
+function matches(entry: LogEntry, query: LogQuery): boolean {
+  if (query.since && entry.timestamp < query.since) {
+    return false;
+  }
+  return !query.grep || query.grep.test(entry.message);
+}
+
+/**
+ * Append-only process log, rotated by size: name.log is the newest file,
+ * name.log.1 the one before it, up to name.log.<maxFiles - 1>.
+ */
+export class RotatingLogWriter {
+  private filePath: string;
+  private maxSize: number;
+  private maxFiles: number;
+  private size: number;
+
+  constructor(filePath: string, options: LogRotationOptions = {}) {
+    this.filePath = filePath;
+    this.maxSize = options.maxSize ?? DEFAULT_MAX_LOG_SIZE;
+    this.maxFiles = options.maxFiles ?? DEFAULT_MAX_LOG_FILES;
+
+    fs.ensureDirSync(path.dirname(filePath));
+    this.size = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+  }
+
+  write(stream: LogStream, message: string): void {
+    const clean = message.replace(ANSI_PATTERN, '');
+    const lines = clean.split(/\r?\n/).filter(line => line.length > 0);
+    if (lines.length === 0) {
+      return;
+    }
+
+    const timestamp = new Date().toISOString();
+    this.append(lines.map(line => `${timestamp} ${stream} ${line}\n`).join(''));
+  }
+
+  /**
+   * Append preformatted text, rotating first if it would overflow the file.
+   */
+  append(text: string): void {
+    const bytes = Buffer.byteLength(text);
+
+    if (this.size > 0 && this.size + bytes > this.maxSize) {
+      this.rotate();
+    }
+
+    // Synchronous so lines from both streams stay in order and survive a crash
+    fs.appendFileSync(this.filePath, text);
+    this.size += bytes;
+  }
+
+  private rotate(): void {
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      const source = i === 1 ? this.filePath : `${this.filePath}.${i - 1}`;
+      const target = `${this.filePath}.${i}`;
+      if (fs.existsSync(source)) {
+        fs.renameSync(source, target);
+      }
+    }
+
+    if (this.maxFiles <= 1) {
+      fs.removeSync(this.filePath);
+    }
+    this.size = 0;
+  }
+}
+
+/**
+ * Every existing file of a rotated log, oldest first.
+ */
+export async function getRotatedFiles(filePath: string): Promise<string[]> {
+  const dir = path.dirname(filePath);
+  if (!(await fs.pathExists(dir))) {
+    return [];
+  }
+
+  const base = path.basename(filePath);
+  const rotated = (await fs.readdir(dir))
+    .map(file => ({ file, index: file.startsWith(`${base}.`) ? parseInt(file.slice(base.length + 1), 10) : NaN }))
+    .filter(({ index }) => !isNaN(index))
+    .sort((a, b) => b.index - a.index)
+    .map(({ file }) => path.join(dir, file));
+
+  return (await fs.pathExists(filePath)) ? [...rotated, filePath] : rotated;
+}
+
+/**
+ * Read every rotated file of a log, oldest first.
+ */
+export async function readLogEntries(filePath: string, query: LogQuery = {}): Promise<LogEntry[]> {
+  const files = await getRotatedFiles(filePath);
+
+  const entries: LogEntry[] = [];
+  for (const file of files) {
+    const content = await fs.readFile(file, 'utf8');
+    for (const line of content.split('\n')) {
+      const entry = parseLogLine(line);
+      if (entry && matches(entry, query)) {
+        entries.push(entry);
+      }
+    }
+  }
+  return entries;
+}
+
+/**
+ * Poll the active log file for appended lines until `shouldStop` returns
+ * true. A shrinking file means it was rotated, so reading restarts at 0.
+ */
+export async function followLog(
+  filePath: string,
+  query: LogQuery,
+  onEntry: (entry: LogEntry) => void,
+  shouldStop: () => boolean = () => false
+): Promise<void> {
+  let offset = (await fs.pathExists(filePath)) ? (await fs.stat(filePath)).size : 0;
+  let partial = '';
+
+  while (!shouldStop()) {
+    await sleep(FOLLOW_INTERVAL);
+    if (!(await fs.pathExists(filePath))) {
+      continue;
+    }
+
+    const size = (await fs.stat(filePath)).size;
+    if (size < offset) {
+      offset = 0;
+      partial = '';
+    }
+    if (size === offset) {
+      continue;
+    }
+
+    const buffer = Buffer.alloc(size - offset);
+    const fd = await fs.open(filePath, 'r');
+    try {
+      await fs.read(fd, buffer, 0, buffer.length, offset);
+    } finally {
+      await fs.close(fd);
+    }
+    offset = size;
+
+    const lines = (partial + buffer.toString('utf8')).split('\n');
+    partial = lines.pop() || '';
+    for (const line of lines) {
+      const entry = parseLogLine(line);
+      if (entry && matches(entry, query)) {
+        onEntry(entry);
+      }
+    }
+  }
+}
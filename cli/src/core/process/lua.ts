@@ -0,0 +1,309 @@
+import path from 'path';
+import fs from 'fs-extra';
+
+export interface LuaSyntaxError {
+  line: number;
+  message: string;
+}
+
+export interface LuaToken {
+  type: 'name' | 'string' | 'symbol';
+  value: string;
+  line: number;
+  /** Offset of the token's first character in the source */
+  index: number;
+}
+
+class LuaScanError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(message);
+    this.line = line;
+  }
+}
+
+const BLOCK_CLOSERS: Record<string, string> = {
+  function: 'end',
+  if: 'end',
+  do: 'end',
+  repeat: 'until',
+  '(': ')',
+  '{': '}',
+  '[': ']'
+};
+
+/**
+ * Length of the `=` run of a long bracket ([[, [==[) starting at `index`,
+ * or -1 when there is none.
+ */
+function longBracketLevel(source: string, index: number): number {
+  if (source[index] !== '[') {
+    return -1;
+  }
+  let level = 0;
+  while (source[index + 1 + level] === '=') {
+    level++;
+  }
+  return source[index + 1 + level] === '[' ? level : -1;
+}
+
+/**
+ * Names, strings and one-character symbols of Lua source, without comments
+ * or numbers. Throws on an unfinished string or comment.
+ */
+export function tokenize(source: string): LuaToken[] {
+  const tokens: LuaToken[] = [];
+  let line = 1;
+  let i = source.startsWith('#') ? source.indexOf('\n') : 0;
+  if (i < 0) {
+    return tokens;
+  }
+
+  const skipLong = (level: number, what: string) => {
+    const start = line;
+    const close = `]${'='.repeat(level)}]`;
+    const end = source.indexOf(close, i);
+    if (end < 0) {
+      throw new LuaScanError(`unfinished long ${what} (starting at line ${start}) near '<eof>'`, start);
+    }
+    const body = source.slice(i, end);
+    line += body.split('\n').length - 1;
+    i = end + close.length;
+    return body;
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (source.startsWith('--', i)) {
+      i += 2;
+      const level = longBracketLevel(source, i);
+      if (level >= 0) {
+        i += level + 2;
+        skipLong(level, 'comment');
+      } else {
+        while (i < source.length && source[i] !== '\n') {
+          i++;
+        }
+      }
+    } else if (char === '"' || char === '\'') {
+      const start = line;
+      const index = i;
+      let value = '';
+      i++;
+      while (source[i] !== char) {
+        if (i >= source.length || source[i] === '\n') {
+          throw new LuaScanError(`unfinished string near '${char}${value}'`, start);
+        }
+        if (source[i] === '\\') {
+          if (source[i + 1] === '\n') {
+            line++;
+          }
+          value += source.slice(i, i + 2);
+          i += 2;
+        } else {
+          value += source[i++];
+        }
+      }
+      i++;
+      tokens.push({ type: 'string', value, line: start, index });
+    } else if (longBracketLevel(source, i) >= 0) {
+      const start = line;
+      const index = i;
+      const level = longBracketLevel(source, i);
+      i += level + 2;
+      tokens.push({ type: 'string', value: skipLong(level, 'string'), line: start, index });
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i, i + 256))!;
+      tokens.push({ type: 'name', value: match[0], line, index: i });
+      i += match[0].length;
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] || ''))) {
+      const match = /^(0[xX][0-9A-Fa-f.]*([pP][+-]?[0-9]+)?|[0-9.]+([eE][+-]?[0-9]+)?)/.exec(source.slice(i, i + 256))!;
+      i += match[0].length;
+    } else {
+      tokens.push({ type: 'symbol', value: char, line, index: i });
+      i++;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Structural syntax check of Lua source: unterminated strings and comments
+ * and unbalanced blocks or brackets. It cannot catch every error `luac`
+ * would, but catches the usual half-saved edits before they reach a process.
+ */
+export function checkLuaSyntax(source: string): LuaSyntaxError | null {
+  let tokens: LuaToken[];
+  try {
+    tokens = tokenize(source);
+  } catch (error) {
+    if (error instanceof LuaScanError) {
+      return { line: error.line, message: error.message };
+    }
+    throw error;
+  }
+
+  const stack: LuaToken[] = [];
+  const closers = new Set(Object.values(BLOCK_CLOSERS));
+
+  for (const token of tokens) {
+    if (token.type === 'string') {
+      continue;
+    }
+
+    if (BLOCK_CLOSERS[token.value]) {
+      stack.push(token);
+    } else if (closers.has(token.value)) {
+      const open = stack.pop();
+      if (!open) {
+        return { line: token.line, message: `'<eof>' expected near '${token.value}'` };
+      }
+      const expected = BLOCK_CLOSERS[open.value];
+      if (expected !== token.value) {
+        const where = open.line === token.line ? '' : ` (to close '${open.value}' at line ${open.line})`;
+        return { line: token.line, message: `'${expected}' expected${where} near '${token.value}'` };
+      }
+    }
+  }
+
+  const open = stack.pop();
+  if (open) {
+    const line = tokens.length > 0 ? tokens[tokens.length - 1].line : open.line;
+    return {
+      line,
+      message: `'${BLOCK_CLOSERS[open.value]}' expected (to close '${open.value}' at line ${open.line}) near '<eof>'`
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Module names passed to `require` with a literal argument, in source order.
+ */
+export function findRequires(source: string): string[] {
+  let tokens: LuaToken[];
+  try {
+    tokens = tokenize(source);
+  } catch {
+    return [];
+  }
+
+  const modules: string[] = [];
+  for (let i = 0; i < tokens.length - 1; i++) {
+    if (tokens[i].type !== 'name' || tokens[i].value !== 'require') {
+      continue;
+    }
+
+    const next = tokens[i + 1];
+    if (next.type === 'string') {
+      modules.push(next.value);
+    } else if (next.value === '(' && tokens[i + 2]?.type === 'string' && tokens[i + 3]?.value === ')') {
+      modules.push(tokens[i + 2].value);
+    }
+  }
+  return [...new Set(modules)];
+}
+
+/**
+ * Resolve a module name the way aos `.load` does for project files: dots
+ * become directories, looked up from the project root and then from the
+ * requiring file's directory.
+ */
+export async function resolveLuaModule(moduleName: string, projectPath: string, fromFile?: string): Promise<string | null> {
+  for (const file of getLuaModuleCandidates(moduleName, projectPath, fromFile)) {
+    if (await fs.pathExists(file)) {
+      return file;
+    }
+  }
+  return null;
+}
+
+/**
+ * Synchronous resolveLuaModule, for `require` inside the local emulator.
+ */
+export function resolveLuaModuleSync(moduleName: string, projectPath: string, fromFile?: string): string | null {
+  return getLuaModuleCandidates(moduleName, projectPath, fromFile).find(file => fs.existsSync(file)) ?? null;
+}
+
+function getLuaModuleCandidates(moduleName: string, projectPath: string, fromFile?: string): string[] {
+  const relative = moduleName.split('.').join(path.sep);
+  const roots = [projectPath];
+  if (fromFile) {
+    roots.push(path.dirname(fromFile));
+  }
+  return roots.flatMap(root => [`${relative}.lua`, path.join(relative, 'init.lua')].map(candidate => path.resolve(root, candidate)));
+}
+
+/**
+ * One chunk of `entry` and the project modules it requires, transitively,
+ * for a process that has none of the project's files. Modules become
+ * `package.preload` loaders, so `require` runs each on first use as it
+ * would from a file.
+ */
+export async function bundleLua(entry: string, projectPath: string): Promise<string> {
+  const root = path.resolve(projectPath, entry);
+  const source = await fs.readFile(root, 'utf8');
+  const modules = new Map<string, string>();
+  const queue: [string, string][] = [[root, source]];
+
+  while (queue.length > 0) {
+    const [file, fileSource] = queue.shift()!;
+    for (const moduleName of findRequires(fileSource)) {
+      const resolved = modules.has(moduleName) ? null : await resolveLuaModule(moduleName, projectPath, file);
+      if (resolved) {
+        const moduleSource = await fs.readFile(resolved, 'utf8');
+        modules.set(moduleName, moduleSource);
+        queue.push([resolved, moduleSource]);
+      }
+    }
+  }
+
+  const loaders = [...modules].map(([moduleName, moduleSource]) => [
+    `package.loaded[${JSON.stringify(moduleName)}] = nil`,
+    `package.preload[${JSON.stringify(moduleName)}] = function(...)`,
+    moduleSource,
+    'end'
+  ].join('\n'));
+  return [...loaders, source].join('\n');
+}
+
+/**
+ * Every project file `entry` pulls in through `require`, transitively.
+ * Modules that do not resolve to a project file (e.g. `json`, provided by
+ * aos itself) are skipped.
+ */
+export async function resolveLuaDependencies(entry: string, projectPath: string): Promise<string[]> {
+  const root = path.resolve(projectPath, entry);
+  const seen = new Set<string>([root]);
+  const queue = [root];
+
+  while (queue.length > 0) {
+    const file = queue.shift()!;
+    let source: string;
+    try {
+      source = await fs.readFile(file, 'utf8');
+    } catch {
+      continue;
+    }
+
+    for (const moduleName of findRequires(source)) {
+      const resolved = await resolveLuaModule(moduleName, projectPath, file);
+      if (resolved && !seen.has(resolved)) {
+        seen.add(resolved);
+        queue.push(resolved);
+      }
+    }
+  }
+
+  seen.delete(root);
+  return [...seen];
+}
@@ -0,0 +1,125 @@
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import chalk from 'chalk';
+import { ValidationError } from '../utils/error-handling.js';
+import { JWK, MessageResult, MessageTag, OutgoingMessage } from '../../types/aos.js';
+
+// The wallet aos creates on first run
+export const DEFAULT_WALLET_PATH = path.join(os.homedir(), '.aos.json');
+const PROCESS_ID_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+export interface MessageInput {
+  target: string;
+  action?: string;
+  /** `Name=Value` pairs */
+  tags?: string[];
+  data?: string;
+}
+
+export function isProcessId(value: string): boolean {
+  return PROCESS_ID_PATTERN.test(value);
+}
+
+export function parseTag(value: string): MessageTag {
+  const index = value.indexOf('=');
+  if (index <= 0) {
+    throw new ValidationError(`Invalid tag: ${value}. Use Name=Value`);
+  }
+  return { name: value.slice(0, index).trim(), value: value.slice(index + 1) };
+}
+
+/**
+ * Build the message `process send` submits. `--action` becomes the Action
+ * tag, which may not also be given with `--tag`.
+ */
+export function buildMessage(input: MessageInput): OutgoingMessage {
+  if (!isProcessId(input.target)) {
+    throw new ValidationError(`Invalid target process ID: ${input.target}`);
+  }
+
+  const tags = (input.tags || []).map(parseTag);
+  if (input.action) {
+    if (tags.some(tag => tag.name === 'Action')) {
+      throw new ValidationError('Pass the Action tag with --action or --tag, not both');
+    }
+    tags.unshift({ name: 'Action', value: input.action });
+  }
+
+  return { target: input.target, tags, data: input.data ?? '' };
+}
+
+/**
+ * Message data from the command line: `@path` reads a file relative to the
+ * project, anything else is sent as is.
+ */
+export async function readMessageData(projectPath: string, data?: string): Promise<string | undefined> {
+  if (!data?.startsWith('@')) {
+    return data;
+  }
+
+  const filePath = path.resolve(projectPath, data.slice(1));
+  if (!(await fs.pathExists(filePath))) {
+    throw new ValidationError(`Data file not found: ${data.slice(1)}`);
+  }
+  return fs.readFile(filePath, 'utf8');
+}
+
+export async function readWallet(filePath: string): Promise<JWK> {
+  if (!(await fs.pathExists(filePath))) {
+    throw new ValidationError(`Wallet not found: ${filePath}`);
+  }
+
+  let jwk: any;
+  try {
+    jwk = await fs.readJSON(filePath);
+  } catch {
+    throw new ValidationError(`Wallet is not valid JSON: ${filePath}`);
+  }
+  if (jwk?.kty !== 'RSA' || typeof jwk.n !== 'string' || typeof jwk.d !== 'string') {
+    throw new ValidationError(`Wallet is not an RSA private key (JWK): ${filePath}`);
+  }
+  return jwk;
+}
+
+/**
+ * Arweave address of a wallet: the base64url SHA-256 of its public modulus.
+ */
+export function getWalletAddress(jwk: JWK): string {
+  return crypto.createHash('sha256').update(Buffer.from(jwk.n, 'base64url')).digest('base64url');
+}
+
+function formatData(data: unknown): string {
+  return typeof data === 'string' ? data : JSON.stringify(data);
+}
+
+/** Value of a tag of a message as a compute unit returns it */
+export function getTag(message: { Tags?: MessageTag[] }, name: string): string | undefined {
+  return message.Tags?.find(tag => tag.name === name)?.value;
+}
+
+export function renderMessageResult(result: MessageResult): string {
+  const lines: string[] = [];
+
+  if (result.Error) {
+    lines.push(chalk.red(`Error: ${formatData(result.Error)}`));
+  }
+
+  const output = result.Output?.data ?? result.Output;
+  if (output !== undefined && output !== null && output !== '') {
+    lines.push('Output:', `  ${formatData(output).split('\n').join('\n  ')}`);
+  }
+
+  lines.push(`Messages: ${result.Messages.length}`);
+  for (const message of result.Messages) {
+    const action = getTag(message, 'Action');
+    const data = message.Data ? ` ${formatData(message.Data)}` : '';
+    lines.push(`  -> ${message.Target}${action ? ` [${action}]` : ''}${data}`);
+  }
+
+  if (result.Spawns.length > 0) {
+    lines.push(`Spawns: ${result.Spawns.length}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,208 @@
+import chalk from 'chalk';
+import { ProcessBridge } from './bridge.js';
+import { ProcessRegistry } from './registry.js';
+import { formatDuration } from '../utils/time.js';
+import { ProcessInfo, ProcessStateSnapshot } from '../../types/aos.js';
+
+const RECENT_LINES = 5;
+
+export interface MonitorEntry {
+  info: ProcessInfo;
+  snapshot: ProcessStateSnapshot | null;
+}
+
+/**
+ * Gather registry entries for a project (optionally one process) together
+ * with the live state reported by each process host.
+ */
+export async function collectMonitorEntries(
+  registry: ProcessRegistry,
+  projectPath: string,
+  name?: string
+): Promise<MonitorEntry[]> {
+  const processes = (await registry.list(projectPath)).filter(info => !name || info.name === name);
+
+  return Promise.all(processes.map(async (info) => {
+    let snapshot: ProcessStateSnapshot | null = null;
+    if (info.status === 'running' && info.socketPath) {
+      try {
+        snapshot = await new ProcessBridge(info.socketPath).request('state', {}, 2000);
+      } catch {
+        snapshot = null;
+      }
+    }
+    return { info, snapshot };
+  }));
+}
+
+function formatTime(value: Date | string, now?: Date): string {
+  const iso = new Date(value).toISOString();
+  // Scheduled runs can be days away, so keep the date unless it is today
+  return now && iso.slice(0, 10) !== now.toISOString().slice(0, 10)
+    ? iso.slice(0, 16).replace('T', ' ')
+    : iso.slice(11, 19);
+}
+
+function formatStatus(status: string): string {
+  switch (status) {
+    case 'running':
+      return chalk.green(status);
+    case 'starting':
+    case 'restarting':
+      return chalk.yellow(status);
+    case 'error':
+      return chalk.red(status);
+    default:
+      return chalk.gray(status);
+  }
+}
+
+function renderEntry({ info, snapshot }: MonitorEntry, now: Date): string[] {
+  const lines: string[] = [];
+
+  if (!snapshot) {
+    const uptime = info.status === 'running' ? `  uptime ${formatDuration(now.getTime() - Date.parse(info.startTime))}` : '';
+    lines.push(`${chalk.bold(info.name)}  ${formatStatus(info.status)}  PID ${info.pid}${uptime}`);
+    lines.push(chalk.gray(info.socketPath
+      ? '  Process host is not responding'
+      : '  Live state unavailable (process was not started with --detach)'));
+    return lines;
+  }
+
+  const features = Object.entries(snapshot.features)
+    .filter(([key, value]) => key !== 'version' && value === true)
+    .map(([key]) => key);
+
+  lines.push(`${chalk.bold(info.name)}  ${formatStatus(snapshot.status)}  PID ${snapshot.pid}  uptime ${formatDuration(snapshot.uptime)}`);
+  lines.push(`  Messages: ${snapshot.messageCount}   Errors: ${snapshot.errorCount}   AOS: ${snapshot.features.version}   Features: ${features.join(', ') || 'none'}`);
+
+  if (snapshot.schedulers.length === 0) {
+    lines.push('  Schedulers: none');
+  } else {
+    lines.push('  Schedulers:');
+    for (const scheduler of snapshot.schedulers) {
+      const state = scheduler.running ? chalk.green('running') : chalk.yellow('paused');
+      const next = scheduler.nextRun ? `, next ${formatTime(scheduler.nextRun, now)}` : '';
+      const retries = scheduler.retryCount > 0 ? chalk.red(`, ${scheduler.retryCount} failed`) : '';
+      lines.push(`    ${scheduler.name} (${scheduler.expression}) ${state}${next}${retries}`);
+    }
+  }
+
+  const messages = snapshot.messages.slice(-RECENT_LINES);
+  if (messages.length > 0) {
+    lines.push('  Recent messages:');
+    for (const message of messages) {
+      lines.push(`    ${chalk.gray(formatTime(message.timestamp))} ${message.action === 'log' ? '' : `[${message.action}] `}${String(message.data)}`);
+    }
+  }
+
+  const errors = snapshot.errors.slice(-RECENT_LINES);
+  if (errors.length > 0) {
+    lines.push('  Recent errors:');
+    for (const error of errors) {
+      lines.push(`    ${chalk.red(error)}`);
+    }
+  }
+
+  return lines;
+}
+
+export function renderDashboard(entries: MonitorEntry[], now: Date = new Date()): string {
+  const lines = [`${chalk.cyan('AO Process Monitor')}  ${chalk.gray(now.toISOString())}`, ''];
+
+  if (entries.length === 0) {
+    lines.push('No processes found');
+  }
+
+  for (const entry of entries) {
+    lines.push(...renderEntry(entry, now), '');
+  }
+
+  return lines.join('\n');
+}
+
+export function toMonitorJSON(entries: MonitorEntry[]): object[] {
+  return entries.map(({ info, snapshot }) => ({
+    name: info.name,
+    projectPath: info.projectPath,
+    pid: info.pid,
+    status: snapshot?.status ?? info.status,
+    startTime: info.startTime,
+    state: snapshot
+  }));
+}
+
+/**
+ * Everything known about one process: its registry entry, configuration
+ * and, when its host is reachable, live state with all retained messages.
+ */
+export function renderInspection({ info, snapshot }: MonitorEntry, now: Date = new Date()): string {
+  const lines = [`${chalk.bold(info.name)}  ${formatStatus(snapshot?.status ?? info.status)}`];
+  const field = (label: string, value: unknown) => {
+    if (value !== undefined && value !== null && value !== '') {
+      lines.push(`  ${`${label}:`.padEnd(Math.max(14, label.length + 2))}${value}`);
+    }
+  };
+
+  field('Project', info.projectPath);
+  field('PID', info.pid);
+  field('Process ID', info.processId);
+  field('Started', info.startTime);
+  field('Stopped', info.stopTime);
+  field('Uptime', snapshot ? formatDuration(snapshot.uptime) : undefined);
+  field('Exit code', info.status === 'exited' || info.status === 'error' ? info.exitCode ?? 'signal' : undefined);
+  field('Restarts', info.restartPolicy ? `${info.restartCount ?? 0} (policy: ${info.restartPolicy})` : undefined);
+  field('Socket', info.socketPath);
+
+  if (!snapshot) {
+    lines.push('', chalk.gray(info.socketPath
+      ? 'Process host is not responding; live state unavailable'
+      : 'Live state unavailable (process was not started with --detach)'));
+    return lines.join('\n');
+  }
+
+  const { config, features } = snapshot;
+  lines.push('', 'Config:');
+  field('Lua files', config.luaFiles.join(', ') || 'none');
+  field('Wallet', config.wallet);
+  field('Module', config.module);
+  field('Cron', config.cron);
+  field('Monitor', config.monitor);
+  field('SQLite', config.sqlite);
+  for (const [name, value] of Object.entries(config.tags)) {
+    field(`Tag ${name}`, value);
+  }
+
+  lines.push('', 'Features:');
+  field('AOS', features.version);
+  for (const [name, enabled] of Object.entries(features)) {
+    if (name !== 'version') {
+      field(name, enabled ? chalk.green('on') : chalk.gray('off'));
+    }
+  }
+
+  lines.push('', `Schedulers: ${snapshot.schedulers.length === 0 ? 'none' : ''}`.trimEnd());
+  for (const scheduler of snapshot.schedulers) {
+    const next = scheduler.nextRun ? `, next ${formatTime(scheduler.nextRun, now)}` : '';
+    const last = scheduler.lastRun ? `, last ${formatTime(scheduler.lastRun, now)}` : '';
+    lines.push(`  ${scheduler.name} (${scheduler.expression}) ${scheduler.running ? 'running' : 'paused'}${last}${next}`);
+  }
+
+  lines.push('', `Messages: ${snapshot.messageCount}`, `Recent output (${snapshot.messages.length} retained):`);
+  for (const message of snapshot.messages) {
+    lines.push(`  ${chalk.gray(formatTime(message.timestamp, now))} ${message.action === 'log' ? '' : `[${message.action}] `}${String(message.data)}`);
+  }
+
+  lines.push('', `Errors: ${snapshot.errorCount}`);
+  for (const error of snapshot.errors) {
+    lines.push(`  ${chalk.red(error)}`);
+  }
+
+  return lines.join('\n');
+}
+
+export function toInspectJSON({ info, snapshot }: MonitorEntry): object {
+  // The registry keeps the whole project config, which may hold API keys
+  const { config, ...registry } = info;
+  return { ...registry, state: snapshot };
+}
@@ -0,0 +1,54 @@
+import { ValidationError } from '../utils/error-handling.js';
+import { AOConfig, ProcessDefinition, ResolvedNetwork } from '../../types/aos.js';
+
+// Set from the global --network flag so every command sees the same choice
+export const NETWORK_ENV = 'AO_FORGE_NETWORK';
+
+export function getNetworkNames(config: AOConfig): string[] {
+  return Object.keys(config.networks || {});
+}
+
+function getProfile(config: AOConfig, name: string): ResolvedNetwork {
+  const profile = config.networks?.[name];
+  if (!profile) {
+    const names = getNetworkNames(config);
+    throw new ValidationError(names.length > 0
+      ? `Unknown network: ${name}. Networks in ao.config.yml: ${names.join(', ')}`
+      : `Unknown network: ${name}. Define it under networks: in ao.config.yml`);
+  }
+  return { name, ...profile };
+}
+
+/**
+ * The network to use: the profile named by `--network`, else the config's
+ * `network`, which names a profile or gives endpoints inline. Undefined when
+ * neither is set, leaving aos and aoconnect on their defaults.
+ */
+export function resolveNetwork(config: AOConfig, name: string | undefined = process.env[NETWORK_ENV]): ResolvedNetwork | undefined {
+  if (name) {
+    return getProfile(config, name);
+  }
+  if (typeof config.network === 'string') {
+    return getProfile(config, config.network);
+  }
+  return config.network;
+}
+
+/**
+ * Module and scheduler a process is spawned with on the network: its own
+ * module or the network's, and the network's scheduler.
+ */
+export function getSpawnTarget(
+  network: ResolvedNetwork | undefined,
+  name: string,
+  definition: Pick<ProcessDefinition, 'module'>
+): { module: string; scheduler: string } {
+  const module = definition.module || network?.module;
+  if (!module) {
+    throw new ValidationError(`No module to spawn ${name} from. Set module on the process or the network in ao.config.yml`);
+  }
+  if (!network?.scheduler) {
+    throw new ValidationError(`No scheduler to spawn ${name} on. Set scheduler on the network in ao.config.yml`);
+  }
+  return { module, scheduler: network.scheduler };
+}
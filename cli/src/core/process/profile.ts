@@ -0,0 +1,223 @@
+import path from 'path';
+import fs from 'fs-extra';
+import chalk from 'chalk';
+import { ValidationError } from '../utils/error-handling.js';
+import { AOEmulator } from './emulator.js';
+import { AOConfig, CostBudget, ProfileConfig } from '../../types/aos.js';
+import { HandlerCost, HandlerProfile, HandlerRun, ProfileReport } from '../../types/cli.js';
+import { ProfileConfigSchema } from '../../types/config.js';
+
+const BASELINE_VERSION = 1;
+
+export const DEFAULT_PROFILE_CONFIG: ProfileConfig = ProfileConfigSchema.parse({});
+
+/** Costs of each handler, by process then handler name */
+interface BaselineFile {
+  version: number;
+  updatedAt: string;
+  processes: Record<string, Record<string, HandlerCost>>;
+}
+
+export function getProfileConfig(config: AOConfig): ProfileConfig {
+  return { ...DEFAULT_PROFILE_CONFIG, ...config.profile };
+}
+
+/**
+ * Measures what each handler run costs in emulated processes: the Lua VM
+ * instructions it runs, counted by a debug hook, and how much the Lua heap
+ * grew, compared after a full garbage collection before and after it.
+ */
+export class Profiler {
+  readonly runs: HandlerRun[] = [];
+
+  /**
+   * Start measuring the handlers of an emulator.
+   */
+  attach(emulator: AOEmulator): void {
+    emulator.run(`
+      local runs = {}
+      local sethook = debug.sethook
+      function __aoforge.runHandler(handler, msg, env)
+        local instructions = 0
+        collectgarbage('collect')
+        local before = collectgarbage('count')
+        sethook(function() instructions = instructions + 1 end, '', 1)
+        local ok, err = pcall(handler.handle, msg, env)
+        sethook()
+        collectgarbage('collect')
+        runs[#runs + 1] = {
+          handler = handler.name,
+          action = msg.Action,
+          instructions = instructions,
+          memory = math.floor((collectgarbage('count') - before) * 1024),
+          failed = not ok
+        }
+        if not ok then
+          error(err, 0)
+        end
+      end
+      function __aoforge_profile()
+        local encoded = require('json').encode(runs)
+        runs = {}
+        return encoded
+      end
+    `, '=profile');
+  }
+
+  /**
+   * Take the runs an attached emulator measured since the last call.
+   */
+  collect(emulator: AOEmulator, processName: string): HandlerRun[] {
+    const runs: Omit<HandlerRun, 'process'>[] = JSON.parse(String(emulator.run('return __aoforge_profile()', '=profile')));
+    const collected = runs.map(run => ({ process: processName, ...run }));
+    this.runs.push(...collected);
+    return collected;
+  }
+}
+
+/**
+ * Runs added up by process and handler, in the order each was first run.
+ */
+export function summarizeRuns(runs: HandlerRun[]): HandlerProfile[] {
+  const profiles = new Map<string, HandlerProfile & { total: HandlerCost }>();
+  for (const run of runs) {
+    const key = `${run.process}/${run.handler}`;
+    const profile = profiles.get(key) || {
+      process: run.process,
+      handler: run.handler,
+      calls: 0,
+      total: { instructions: 0, memory: 0 },
+      mean: { instructions: 0, memory: 0 },
+      max: { instructions: 0, memory: -Infinity },
+      violations: []
+    };
+    profile.calls++;
+    profile.total.instructions += run.instructions;
+    profile.total.memory += run.memory;
+    profile.max.instructions = Math.max(profile.max.instructions, run.instructions);
+    profile.max.memory = Math.max(profile.max.memory, run.memory);
+    profiles.set(key, profile);
+  }
+
+  return [...profiles.values()].map(({ total, ...profile }) => ({
+    ...profile,
+    mean: {
+      instructions: Math.round(total.instructions / profile.calls),
+      memory: Math.round(total.memory / profile.calls)
+    }
+  }));
+}
+
+async function readBaseline(filePath: string): Promise<BaselineFile | null> {
+  if (!(await fs.pathExists(filePath))) {
+    return null;
+  }
+  const baseline = await fs.readJson(filePath).catch(() => null);
+  if (baseline?.version !== BASELINE_VERSION || typeof baseline.processes !== 'object') {
+    throw new ValidationError(`Invalid profile baseline: ${filePath}. Save a new one with: ao-forge test --update-baseline`);
+  }
+  return baseline;
+}
+
+function checkCost(label: string, cost: number, budget: number | undefined, baseline: number | undefined, tolerance: number): string[] {
+  const violations: string[] = [];
+  if (budget !== undefined && cost > budget) {
+    violations.push(`${formatCost(label, cost)}, over the budget of ${formatCost(label, budget)}`);
+  }
+  if (baseline !== undefined && cost > Math.max(baseline, 0) * (1 + tolerance / 100)) {
+    const increase = baseline > 0 ? ` (+${Math.round((cost - baseline) / baseline * 100)}%)` : '';
+    violations.push(`${formatCost(label, cost)}${increase}, over the baseline of ${formatCost(label, baseline)}`);
+  }
+  return violations;
+}
+
+/**
+ * Check handler costs against their budgets and the stored baseline, or
+ * save them as the baseline. Handlers that were not run keep their entry.
+ */
+export async function createProfileReport(
+  projectPath: string,
+  config: AOConfig,
+  runs: HandlerRun[],
+  options: { updateBaseline?: boolean } = {}
+): Promise<ProfileReport> {
+  const profileConfig = getProfileConfig(config);
+  const baselinePath = path.resolve(projectPath, profileConfig.baseline);
+  const baseline = await readBaseline(baselinePath);
+  const handlers = summarizeRuns(runs);
+
+  for (const profile of handlers) {
+    const budget: CostBudget = profileConfig.handlers[profile.handler] || profileConfig.budget;
+    profile.baseline = options.updateBaseline ? undefined : baseline?.processes[profile.process]?.[profile.handler];
+    profile.violations = [
+      ...checkCost('instructions', profile.max.instructions, budget.instructions, profile.baseline?.instructions, profileConfig.tolerance),
+      ...checkCost('memory', profile.max.memory, budget.memory, profile.baseline?.memory, profileConfig.tolerance)
+    ];
+  }
+
+  if (options.updateBaseline) {
+    const processes = baseline?.processes || {};
+    for (const profile of handlers) {
+      processes[profile.process] = { ...processes[profile.process], [profile.handler]: profile.max };
+    }
+    const updated: BaselineFile = { version: BASELINE_VERSION, updatedAt: new Date().toISOString(), processes };
+    await fs.outputJson(baselinePath, updated, { spaces: 2 });
+  }
+
+  return {
+    ok: handlers.every(profile => profile.violations.length === 0),
+    handlers,
+    baselineFile: path.relative(projectPath, baselinePath),
+    updated: Boolean(options.updateBaseline)
+  };
+}
+
+function formatBytes(bytes: number): string {
+  const size = Math.abs(bytes);
+  const text = size < 1024 ? `${size} B` : `${(size / 1024).toFixed(1)} KB`;
+  return bytes < 0 ? `-${text}` : text;
+}
+
+function formatCost(label: string, value: number): string {
+  return label === 'memory' ? formatBytes(value) : `${value.toLocaleString('en-US')} instructions`;
+}
+
+/**
+ * A table of handler costs, then what went over a budget or the baseline.
+ */
+export function renderProfileReport(report: ProfileReport): string {
+  const rows = report.handlers.map(profile => [
+    `${profile.process}/${profile.handler}`,
+    String(profile.calls),
+    profile.mean.instructions.toLocaleString('en-US'),
+    profile.max.instructions.toLocaleString('en-US'),
+    profile.baseline ? profile.baseline.instructions.toLocaleString('en-US') : '-',
+    formatBytes(profile.max.memory)
+  ]);
+  const header = ['Handler', 'Calls', 'Instructions', 'Max', 'Baseline', 'Heap growth'];
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+  const format = (row: string[]) => row.map((cell, column) => column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])).join('  ');
+
+  const lines = [chalk.bold('Profile'), '', `  ${chalk.gray(format(header))}`];
+  for (const [index, row] of rows.entries()) {
+    const profile = report.handlers[index];
+    lines.push(`  ${profile.violations.length > 0 ? chalk.red(format(row)) : format(row)}`);
+  }
+  if (report.handlers.length === 0) {
+    lines.push(chalk.gray('  No handler ran'));
+  }
+
+  const flagged = report.handlers.filter(profile => profile.violations.length > 0);
+  if (flagged.length > 0) {
+    lines.push('');
+    for (const profile of flagged) {
+      for (const violation of profile.violations) {
+        lines.push(chalk.red(`  ✗ ${profile.process}/${profile.handler}: ${violation}`));
+      }
+    }
+  }
+  if (report.updated) {
+    lines.push('', chalk.green(`  Saved the baseline to ${report.baselineFile}`));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,194 @@
+import path from 'path';
+import fs from 'fs-extra';
+import os from 'os';
+import { execFileSync } from 'child_process';
+import { logger } from '../utils/logging.js';
+import { FileLock } from './lock.js';
+import { ProcessInfo } from '../../types/aos.js';
+
+const REGISTRY_VERSION = 1;
+
+interface RegistryFile {
+  version: number;
+  processes: Record<string, ProcessInfo>;
+}
+
+export function getForgeHome(): string {
+  return process.env.AO_FORGE_HOME || path.join(os.homedir(), '.ao-forge');
+}
+
+/**
+ * What tells a process apart from a later one given the same PID: its start
+ * time, from /proc on Linux or ps elsewhere. Null when it is gone.
+ */
+export function getProcessIdentity(pid: number): string | null {
+  try {
+    if (process.platform === 'linux') {
+      // Field 22 of stat, counted after the command name, which may hold spaces
+      const stat = fs.readFileSync(`/proc/${pid}/stat`, 'utf8');
+      return stat.slice(stat.lastIndexOf(')') + 2).split(' ')[19] ?? null;
+    }
+    const started = execFileSync('ps', ['-o', 'lstart=', '-p', String(pid)], { encoding: 'utf8' }).trim();
+    return started || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Persistent registry of AO processes started by ao-forge, keyed by
+ * project path and process name. Every read-modify-write goes through
+ * an exclusive lock file so concurrent CLI runs cannot clobber each other.
+ */
+export class ProcessRegistry {
+  private registryPath: string;
+  private lock: FileLock;
+
+  constructor(registryPath: string = path.join(getForgeHome(), 'processes.json')) {
+    this.registryPath = registryPath;
+    this.lock = new FileLock(`${registryPath}.lock`, 'process registry');
+  }
+
+  static key(projectPath: string, name: string): string {
+    return `${path.resolve(projectPath)}::${name}`;
+  }
+
+  /**
+   * Whether a PID exists and, given the identity it had when registered, is
+   * still that process rather than a later one given the same PID.
+   */
+  static isAlive(pid: number, identity?: string | null): boolean {
+    if (!pid || pid <= 0) {
+      return false;
+    }
+
+    try {
+      process.kill(pid, 0);
+    } catch (error: any) {
+      // EPERM means the process exists but belongs to someone else
+      if (error.code !== 'EPERM') {
+        return false;
+      }
+    }
+    const current = identity ? getProcessIdentity(pid) : null;
+    return !current || current === identity;
+  }
+
+  /**
+   * Whether an entry's process is up or being restarted by its supervisor.
+   */
+  static isActive(info: ProcessInfo): boolean {
+    return (info.status === 'running' || info.status === 'restarting') && ProcessRegistry.isAlive(info.pid, info.pidIdentity);
+  }
+
+  async register(info: ProcessInfo): Promise<void> {
+    await this.withLock(async (data) => {
+      const projectPath = path.resolve(info.projectPath);
+      data.processes[ProcessRegistry.key(projectPath, info.name)] = {
+        ...info,
+        projectPath,
+        pidIdentity: info.pidIdentity ?? getProcessIdentity(info.pid) ?? undefined
+      };
+    });
+    logger.debug(`Registered process ${info.name} (PID: ${info.pid})`);
+  }
+
+  async update(projectPath: string, name: string, patch: Partial<ProcessInfo>): Promise<ProcessInfo | null> {
+    return this.withLock(async (data) => {
+      const key = ProcessRegistry.key(projectPath, name);
+      const current = data.processes[key];
+      if (!current) {
+        return null;
+      }
+
+      data.processes[key] = { ...current, ...patch };
+      if (patch.pid !== undefined && patch.pidIdentity === undefined) {
+        data.processes[key].pidIdentity = getProcessIdentity(patch.pid) ?? undefined;
+      }
+      return data.processes[key];
+    });
+  }
+
+  async get(projectPath: string, name: string): Promise<ProcessInfo | null> {
+    const data = await this.read();
+    return data.processes[ProcessRegistry.key(projectPath, name)] || null;
+  }
+
+  async list(projectPath?: string): Promise<ProcessInfo[]> {
+    await this.reap();
+
+    const data = await this.read();
+    const processes = Object.values(data.processes);
+    if (!projectPath) {
+      return processes;
+    }
+
+    const resolved = path.resolve(projectPath);
+    return processes.filter(info => info.projectPath === resolved);
+  }
+
+  async remove(projectPath: string, name: string): Promise<boolean> {
+    return this.withLock(async (data) => {
+      const key = ProcessRegistry.key(projectPath, name);
+      if (!data.processes[key]) {
+        return false;
+      }
+
+      delete data.processes[key];
+      return true;
+    });
+  }
+
+  /**
+   * Drop entries that claim to be running, or being restarted by a
+   * supervisor, but whose process no longer exists.
+   */
+  async reap(): Promise<ProcessInfo[]> {
+    return this.withLock(async (data) => {
+      const reaped: ProcessInfo[] = [];
+
+      for (const [key, info] of Object.entries(data.processes)) {
+        if ((info.status === 'running' || info.status === 'restarting') && !ProcessRegistry.isActive(info)) {
+          reaped.push(info);
+          delete data.processes[key];
+        }
+      }
+
+      if (reaped.length > 0) {
+        logger.debug(`Reaped ${reaped.length} dead process(es): ${reaped.map(info => info.name).join(', ')}`);
+      }
+      return reaped;
+    });
+  }
+
+  getRegistryPath(): string {
+    return this.registryPath;
+  }
+
+  private async read(): Promise<RegistryFile> {
+    try {
+      if (await fs.pathExists(this.registryPath)) {
+        const data = await fs.readJSON(this.registryPath);
+        if (data && data.processes) {
+          return data;
+        }
+      }
+    } catch (error) {
+      logger.warn(`Ignoring unreadable process registry: ${(error as Error).message}`);
+    }
+
+    return { version: REGISTRY_VERSION, processes: {} };
+  }
+
+  private async withLock<T>(fn: (data: RegistryFile) => Promise<T>): Promise<T> {
+    return this.lock.run(async () => {
+      const data = await this.read();
+      const result = await fn(data);
+      // Written via rename so get() never reads a half-written file
+      const temp = `${this.registryPath}.${process.pid}.tmp`;
+      await fs.writeJSON(temp, data, { spaces: 2 });
+      await fs.rename(temp, this.registryPath);
+      return result;
+    });
+  }
+}
@@ -0,0 +1,295 @@
+import path from 'path';
+import fs from 'fs-extra';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import { ValidationError } from '../utils/error-handling.js';
+import { getOutputText } from './emulator.js';
+import { getTag } from './message.js';
+import { diffState, formatStatePath } from './snapshot.js';
+import { MessageResult, MessageTag } from '../../types/aos.js';
+import {
+  EvalStepSchema,
+  Expectation,
+  MessageExpectation,
+  Scenario,
+  ScenarioReport,
+  ScenarioSchema,
+  ScenarioStep,
+  ScenarioStepResult,
+  SendStepSchema,
+  SpawnStepSchema
+} from '../../types/scenario.js';
+
+const STEP_SCHEMAS = { spawn: SpawnStepSchema, send: SendStepSchema, eval: EvalStepSchema };
+const STEP_KINDS = Object.keys(STEP_SCHEMAS) as (keyof typeof STEP_SCHEMAS)[];
+
+// Tags ao adds to every message, left out when showing messages
+const PROTOCOL_TAGS = ['Data-Protocol', 'Variant', 'Type', 'Reference'];
+
+// `$token` in tags, data and addresses stands for the ID of the process spawned as token
+const PROCESS_REFERENCE = /\$([A-Za-z0-9_-]+)/g;
+
+/** What a scenario runs against: local emulated processes or a network */
+export interface ScenarioBackend {
+  /** `local`, or the network profile */
+  readonly target: string;
+  /** Seed a local run can be repeated with */
+  readonly seed?: number;
+  /** Start a process under a name the scenario refers to it by */
+  spawn(name: string, options: { luaFiles?: string[]; owner?: string }): Promise<{ processId: string; result: MessageResult }>;
+  /** `from` is a label for resolveAddress, or a wallet to sign with */
+  send(name: string, message: { from?: string; tags: MessageTag[]; data?: string }): Promise<MessageResult>;
+  evaluate(name: string, code: string): Promise<MessageResult>;
+  /** Value of a Lua expression in the process, decoded from JSON */
+  readState(name: string, expression: string): Promise<unknown>;
+  /** Address a sender or owner label stands for, such as a wallet's */
+  resolveAddress(label: string): Promise<string>;
+  close(): Promise<void>;
+}
+
+function formatIssues(error: z.ZodError, prefix?: string): string {
+  return error.errors.map(issue => `${(prefix ? [prefix, ...issue.path] : issue.path).join('.')}: ${issue.message}`).join('; ');
+}
+
+/**
+ * Read and validate a scenario file. Each step is a spawn, send or eval
+ * step, told apart by which of those keys it has. aos does not report the
+ * load errors of a process it starts, so a `live` run cannot expect them.
+ */
+export async function loadScenario(file: string, options: { live?: boolean } = {}): Promise<Scenario> {
+  const parsed = ScenarioSchema.safeParse(yaml.load(await fs.readFile(file, 'utf8')));
+  if (!parsed.success) {
+    throw new ValidationError(`Invalid scenario: ${formatIssues(parsed.error)}`);
+  }
+
+  const steps = parsed.data.steps.map((step, index) => {
+    const kinds = STEP_KINDS.filter(kind => kind in step);
+    if (kinds.length !== 1) {
+      throw new ValidationError(`Invalid scenario: steps.${index} needs exactly one of ${STEP_KINDS.join(', ')}`);
+    }
+    const result = STEP_SCHEMAS[kinds[0]].safeParse(step);
+    if (!result.success) {
+      throw new ValidationError(`Invalid scenario: ${formatIssues(result.error, `steps.${index}`)}`);
+    }
+    if (options.live && kinds[0] === 'spawn' && (result.data.expect?.error ?? false) !== false) {
+      throw new ValidationError(`Invalid scenario: steps.${index}.expect.error: load errors of a spawn are not reported on a network`);
+    }
+    return result.data as ScenarioStep;
+  });
+
+  return { name: parsed.data.name, seed: parsed.data.seed, steps };
+}
+
+// Apply a substitution to every string and key of a value
+function substituteAll<T>(value: T, substitute: (text: string) => string): T {
+  if (typeof value === 'string') {
+    return substitute(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => substituteAll(item, substitute)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [substitute(key), substituteAll(item, substitute)])) as T;
+  }
+  return value;
+}
+
+export function describeStep(step: ScenarioStep): string {
+  if ('spawn' in step) {
+    return `spawn ${step.spawn}`;
+  }
+  if ('send' in step) {
+    return `send ${step.action ? `${step.action} ` : ''}to ${step.send}${step.from ? ` from ${step.from}` : ''}`;
+  }
+  return `eval in ${step.eval}`;
+}
+
+/**
+ * Run a scenario's steps in order. A step fails when an expectation is not
+ * met, including an error nobody expected, and the run carries on; a step
+ * that cannot run at all fails and skips the rest.
+ */
+export async function runScenario(scenario: Scenario, backend: ScenarioBackend, file: string): Promise<ScenarioReport> {
+  const startTime = Date.now();
+  const processIds = new Map<string, string>();
+  const results: ScenarioStepResult[] = [];
+  let aborted = false;
+
+  const substitute = (value: string) => value.replace(PROCESS_REFERENCE, (match, name) => processIds.get(name) ?? match);
+  const resolveAddress = async (label: string) => processIds.get(label) ?? backend.resolveAddress(substitute(label));
+
+  for (const step of scenario.steps) {
+    const description = describeStep(step);
+    if (aborted) {
+      results.push({ description, status: 'skipped', failures: [], duration: 0 });
+      continue;
+    }
+
+    const stepStart = Date.now();
+    let failures: string[];
+    try {
+      let name: string;
+      let result: MessageResult;
+      if ('spawn' in step) {
+        name = step.spawn;
+        const spawned = await backend.spawn(name, { luaFiles: step.luaFiles, owner: step.owner && substitute(step.owner) });
+        processIds.set(name, spawned.processId);
+        result = spawned.result;
+      } else if ('send' in step) {
+        name = step.send;
+        const tags = Object.entries(step.tags).map(([tag, value]) => ({ name: tag, value: substitute(value) }));
+        result = await backend.send(name, {
+          from: step.from && substitute(step.from),
+          tags: step.action ? [{ name: 'Action', value: step.action }, ...tags] : tags,
+          data: step.data === undefined ? undefined : substitute(step.data)
+        });
+      } else {
+        name = step.eval;
+        result = await backend.evaluate(name, step.code ?? '');
+      }
+      failures = await checkExpectation(substituteAll(step.expect || {}, substitute), result, {
+        readState: expression => backend.readState(name, expression),
+        resolveAddress
+      });
+    } catch (error) {
+      failures = [(error as Error).message];
+      aborted = true;
+    }
+    results.push({ description, status: failures.length ? 'failed' : 'passed', failures, duration: Date.now() - stepStart });
+  }
+
+  await backend.close();
+  return {
+    name: scenario.name || path.basename(file).replace(/\.ya?ml$/, ''),
+    file,
+    target: backend.target,
+    seed: backend.seed,
+    ok: results.every(result => result.status === 'passed'),
+    steps: results,
+    duration: Date.now() - startTime
+  };
+}
+
+interface ExpectationContext {
+  readState: (expression: string) => Promise<unknown>;
+  resolveAddress: (label: string) => Promise<string>;
+}
+
+/**
+ * Unmet expectations of a step's result, each with the differences found.
+ * An error is a failure unless `error` says one is expected.
+ */
+export async function checkExpectation(expectation: Expectation, result: MessageResult, context: ExpectationContext): Promise<string[]> {
+  const failures: string[] = [];
+  const error = result.Error == null ? '' : typeof result.Error === 'string' ? result.Error : JSON.stringify(result.Error);
+  const expectedError = expectation.error ?? false;
+
+  if (expectedError === false && error) {
+    failures.push(`Unexpected error: ${error}`);
+  } else if (expectedError !== false && !error) {
+    failures.push(`Expected an error${typeof expectedError === 'string' ? ` containing "${expectedError}"` : ''}, but the step succeeded`);
+  } else if (typeof expectedError === 'string' && !error.includes(expectedError)) {
+    failures.push(`Expected an error containing "${expectedError}", got: ${error}`);
+  }
+
+  const output = getOutputText(result);
+  if (expectation.output !== undefined && !output.includes(expectation.output)) {
+    failures.push(`Expected output containing "${expectation.output}", got: ${output ? JSON.stringify(output) : '(none)'}`);
+  }
+
+  if (expectation.messages?.length) {
+    failures.push(...await checkMessages(expectation.messages, result.Messages || [], context));
+  }
+
+  for (const [expression, expected] of Object.entries(expectation.state || {})) {
+    const actual = alignEmptyTables(expected, await context.readState(expression));
+    const changes = diffState(expected, actual);
+    if (changes.length > 0) {
+      failures.push([`State ${expression} differs:`, ...changes.map(change => {
+        const where = change.path.length ? `${expression}${formatStatePath(['_', ...change.path]).slice(1)}` : expression;
+        switch (change.type) {
+          case 'added':
+            return `  + ${where}: ${JSON.stringify(change.after)} (not expected)`;
+          case 'removed':
+            return `  - ${where}: missing, expected ${JSON.stringify(change.before)}`;
+          default:
+            return `  ~ ${where}: expected ${JSON.stringify(change.before)}, got ${JSON.stringify(change.after)}`;
+        }
+      })].join('\n'));
+    }
+  }
+  return failures;
+}
+
+// An empty Lua table encodes as [], which should still match an expected {}
+function alignEmptyTables(expected: unknown, actual: unknown): unknown {
+  if (!expected || typeof expected !== 'object' || !actual || typeof actual !== 'object') {
+    return actual;
+  }
+  if (Array.isArray(actual) && actual.length === 0 && !Array.isArray(expected)) {
+    return {};
+  }
+  const expectedFields = expected as Record<string, unknown>;
+  if (Array.isArray(actual)) {
+    return actual.map((value: unknown, index) => alignEmptyTables(expectedFields[index], value));
+  }
+  return Object.fromEntries(
+    Object.entries(actual).map(([key, value]) => [key, alignEmptyTables(expectedFields[key], value)])
+  );
+}
+
+interface SentMessage {
+  From?: string;
+  Target?: string;
+  Data?: unknown;
+  Tags?: MessageTag[];
+}
+
+function formatMessage(message: SentMessage): string {
+  const tags = (message.Tags || []).filter(tag => !PROTOCOL_TAGS.includes(tag.name)).map(tag => `${tag.name}=${tag.value}`).join(', ');
+  const data = message.Data === undefined || message.Data === '' ? '' : ` data ${JSON.stringify(message.Data)}`;
+  return `${message.From ? `from ${message.From} ` : ''}to ${message.Target} {${tags}}${data}`;
+}
+
+// Differences between one expected message and one that was sent
+function compareMessage(expected: MessageExpectation, addresses: { target?: string; from?: string }, message: SentMessage): string[] {
+  const fields: [string, string | undefined, unknown][] = [
+    ['Target', addresses.target, message.Target],
+    ['From', addresses.from, message.From],
+    ['Action', expected.action, getTag(message, 'Action')],
+    ['Data', expected.data, typeof message.Data === 'string' ? message.Data : JSON.stringify(message.Data)],
+    ...Object.entries(expected.tags).map(([name, value]): [string, string, unknown] => [name, value, getTag(message, name)])
+  ];
+  return fields
+    .filter(([, want, got]) => want !== undefined && want !== got)
+    .map(([name, want, got]) => `~ ${name}: expected ${JSON.stringify(want)}, got ${got === undefined ? '(none)' : JSON.stringify(got)}`);
+}
+
+async function checkMessages(expected: MessageExpectation[], sent: SentMessage[], context: ExpectationContext): Promise<string[]> {
+  const failures: string[] = [];
+  const unmatched = [...sent];
+
+  for (const expectation of expected) {
+    const addresses = {
+      target: expectation.target === undefined ? undefined : await context.resolveAddress(expectation.target),
+      from: expectation.from === undefined ? undefined : await context.resolveAddress(expectation.from)
+    };
+    const candidates = unmatched.map(message => ({ message, differences: compareMessage(expectation, addresses, message) }));
+    const match = candidates.find(candidate => candidate.differences.length === 0);
+    if (match) {
+      unmatched.splice(unmatched.indexOf(match.message), 1);
+      continue;
+    }
+
+    const lines = [`No message matching ${JSON.stringify(expectation)}`];
+    if (candidates.length === 0) {
+      lines.push(sent.length ? '  Every message sent matched an earlier expectation' : '  No messages were sent');
+    } else {
+      const closest = candidates.reduce((best, candidate) => candidate.differences.length < best.differences.length ? candidate : best);
+      lines.push(`  Closest: ${formatMessage(closest.message)}`, ...closest.differences.map(difference => `    ${difference}`));
+      lines.push('  Sent:', ...sent.map(message => `    ${formatMessage(message)}`));
+    }
+    failures.push(lines.join('\n'));
+  }
+  return failures;
+}
@@ -0,0 +1,141 @@
+import { logger } from '../utils/logging.js';
+import { getNextRun, parseInterval } from '../utils/cron.js';
+import { SchedulerState } from '../../types/aos.js';
+
+// setTimeout fires immediately for delays above this, so longer waits are split
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+const CRON_TICK_TIMEOUT = 60000;
+
+export interface ScheduleOptions {
+  interval?: number;
+  /** AO interval ("5-minutes") or 5-field cron expression; takes precedence over `interval` */
+  expression?: string;
+  name?: string;
+  tick?: string;
+  maxRetries?: number;
+  onError?: string;
+}
+
+/**
+ * What a schedule evaluates its tick against: a ProcessManager from the
+ * CLI, or the process host itself.
+ */
+export interface ScheduleTarget {
+  evaluateProcess(input: string, options: { await?: boolean; timeout?: string; name?: string }): Promise<string>;
+}
+
+export class Schedule {
+  private processName: string;
+  private options: Required<ScheduleOptions>;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private retryCount: number = 0;
+  private processManager: ScheduleTarget;
+  private lastRun: Date | null = null;
+  private nextRun: Date | null = null;
+
+  constructor(processName: string, options: ScheduleOptions = {}, processManager: ScheduleTarget) {
+    this.processName = processName;
+    this.processManager = processManager;
+    const interval = options.expression ? parseInterval(options.expression) : null;
+    this.options = {
+      interval: interval || options.interval || 1000,
+      expression: options.expression || '',
+      name: options.name || options.tick || 'tick',
+      tick: options.tick || 'tick',
+      maxRetries: options.maxRetries || 3,
+      onError: options.onError || 'handleError'
+    };
+  }
+
+  async start(): Promise<void> {
+    if (this.timer) {
+      throw new Error('Scheduler already running');
+    }
+
+    logger.info(`Starting scheduler for process: ${this.processName}`);
+    this.plan(new Date());
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+      this.nextRun = null;
+      this.retryCount = 0;
+      logger.info(`Scheduler stopped for process: ${this.processName}`);
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  getState(): SchedulerState {
+    return {
+      name: this.options.name,
+      expression: this.options.expression || `${this.options.interval}ms`,
+      running: this.isRunning(),
+      retryCount: this.retryCount,
+      lastRun: this.lastRun?.toISOString(),
+      nextRun: this.nextRun?.toISOString()
+    };
+  }
+
+  private isCron(): boolean {
+    return this.options.expression !== '' && parseInterval(this.options.expression) === null;
+  }
+
+  private nextAfter(after: Date): Date {
+    return this.isCron()
+      ? getNextRun(this.options.expression, after)
+      : new Date(after.getTime() + this.options.interval);
+  }
+
+  private plan(after: Date): void {
+    const next = this.nextAfter(after);
+    // Runs missed while the host was suspended are skipped, not replayed
+    this.nextRun = next.getTime() <= Date.now() ? this.nextAfter(new Date()) : next;
+    this.arm();
+  }
+
+  private arm(): void {
+    const delay = this.nextRun!.getTime() - Date.now();
+    if (delay > MAX_TIMER_DELAY) {
+      this.timer = setTimeout(() => this.arm(), MAX_TIMER_DELAY);
+      return;
+    }
+    this.timer = setTimeout(() => this.run(), Math.max(0, delay));
+  }
+
+  private async run(): Promise<void> {
+    const scheduled = this.nextRun!;
+    this.lastRun = new Date();
+    // Plan the next tick up front so a slow tick does not shift the schedule
+    this.plan(scheduled);
+
+    // Cron schedules tick at most once a minute, so the interval cannot bound them
+    const timeout = this.isCron() ? CRON_TICK_TIMEOUT : this.options.interval;
+
+    try {
+      await this.processManager.evaluateProcess(
+        this.options.tick,
+        { await: true, timeout: timeout.toString(), name: this.processName }
+      );
+      this.retryCount = 0;
+    } catch (error) {
+      logger.error(`Error in scheduler for ${this.processName}:`, error as Error);
+      this.retryCount++;
+
+      if (this.retryCount >= this.options.maxRetries) {
+        logger.error(`Max retries (${this.options.maxRetries}) reached, stopping scheduler`);
+        await this.stop();
+
+        try {
+          await this.processManager.evaluateProcess(this.options.onError, { name: this.processName });
+        } catch (errorHandlerError) {
+          logger.error('Error handler failed:', errorHandlerError as Error);
+        }
+      }
+    }
+  }
+}
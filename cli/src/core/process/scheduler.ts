@@ -0,0 +1,189 @@
+import { ProcessError } from '../utils/error-handling.js';
+import { createRandom, createSeed } from '../utils/random.js';
+import { AOEmulator, InboundMessage, getOutputText } from './emulator.js';
+import { MessageResult, MessageTag } from '../../types/aos.js';
+
+// Virtual time starts here unless told otherwise, so timestamps repeat between runs
+export const VIRTUAL_EPOCH = Date.UTC(2024, 0, 1);
+const DEFAULT_TICK = 1;
+const DEFAULT_MAX_DELIVERIES = 1000;
+
+export interface SchedulerOptions {
+  /** Root for Lua files and `require` */
+  projectPath: string;
+  /** Seeds process and message IDs and each process's math.random; random when left out */
+  seed?: number;
+  /** Virtual time of the first message, in milliseconds */
+  startTime?: number;
+  /** Virtual milliseconds between one delivery and the next */
+  tick?: number;
+  /** Deliveries one input may lead to before the run is stopped */
+  maxDeliveries?: number;
+}
+
+/** A message as a process sent it, with its sender */
+export interface SentMessage {
+  From: string;
+  Target: string;
+  Tags: MessageTag[];
+  Data?: string;
+}
+
+export interface Delivery {
+  /** Name of the process that handled the message */
+  process: string;
+  message: Partial<InboundMessage>;
+  result: MessageResult;
+}
+
+export interface ScheduledRun {
+  /** Result of the input itself */
+  result: MessageResult;
+  /** Messages the input led processes to send each other, in the order handled */
+  deliveries: Delivery[];
+  /** Every message sent along the way, including those to addresses no process has */
+  messages: SentMessage[];
+}
+
+/**
+ * One result for a whole run: every message sent, the output of every
+ * delivery and the first error, naming the process it came from when that
+ * was not the one given the input.
+ */
+export function getRunResult(run: ScheduledRun): MessageResult {
+  const results = [run.result, ...run.deliveries.map(delivery => delivery.result)];
+  const failed = run.deliveries.find(delivery => delivery.result.Error);
+  return {
+    Messages: run.messages,
+    Spawns: results.flatMap(result => result.Spawns),
+    Output: results.map(getOutputText).filter(Boolean).join('\n'),
+    Error: run.result.Error ?? (failed ? `${failed.process}: ${failed.result.Error}` : undefined)
+  };
+}
+
+/**
+ * Emulated processes that message each other. Messages a process sends to
+ * another one, or to itself, are queued and delivered one at a time in the
+ * order they were sent, each at the next tick of a virtual clock, until
+ * none are left. With the same seed, inputs and Lua files, a run gives the
+ * same IDs, timestamps and results every time.
+ */
+export class LocalScheduler {
+  readonly seed: number;
+  private options: SchedulerOptions;
+  private random: () => number;
+  private time: number;
+  private processes = new Map<string, { name: string; emulator: AOEmulator }>();
+
+  constructor(options: SchedulerOptions) {
+    this.options = options;
+    this.seed = options.seed ?? createSeed();
+    this.random = createRandom(this.seed);
+    this.time = options.startTime ?? VIRTUAL_EPOCH;
+  }
+
+  /** Current virtual time, in milliseconds */
+  get now(): number {
+    return this.time;
+  }
+
+  /**
+   * Move the virtual clock forward, e.g. to reach a deadline.
+   */
+  advance(ms: number): void {
+    this.time += ms;
+  }
+
+  /**
+   * An ID in the form of an Arweave transaction ID, from the seed.
+   */
+  createId(): string {
+    return Buffer.from(Array.from({ length: 32 }, () => Math.floor(this.random() * 256))).toString('base64url');
+  }
+
+  async spawn(name: string, options: { owner?: string; module?: string; tags?: MessageTag[] } = {}): Promise<AOEmulator> {
+    const emulator = await AOEmulator.create({
+      projectPath: this.options.projectPath,
+      name,
+      processId: this.createId(),
+      owner: options.owner || this.createId(),
+      module: options.module,
+      tags: options.tags,
+      seed: Math.floor(this.random() * 0x7FFFFFFF),
+      now: () => this.time,
+      createId: () => this.createId(),
+      scheduled: true
+    });
+    this.processes.set(emulator.id, { name, emulator });
+    return emulator;
+  }
+
+  /**
+   * Hand a process a message, then deliver what it leads processes to send.
+   */
+  deliver(emulator: AOEmulator, message: Partial<InboundMessage>): ScheduledRun {
+    return this.route(emulator, emulator.deliver({ ...message, Timestamp: this.tick() }));
+  }
+
+  evaluate(emulator: AOEmulator, code: string): ScheduledRun {
+    this.tick();
+    return this.route(emulator, emulator.evaluate(code));
+  }
+
+  load(emulator: AOEmulator, file: string): ScheduledRun {
+    this.tick();
+    return this.route(emulator, emulator.load(file));
+  }
+
+  close(): void {
+    this.processes.forEach(({ emulator }) => emulator.close());
+    this.processes.clear();
+  }
+
+  private tick(): number {
+    this.time += this.options.tick ?? DEFAULT_TICK;
+    return this.time;
+  }
+
+  private route(sender: AOEmulator, result: MessageResult): ScheduledRun {
+    const limit = this.options.maxDeliveries ?? DEFAULT_MAX_DELIVERIES;
+    const run: ScheduledRun = { result, deliveries: [], messages: [] };
+    const queue: SentMessage[] = [];
+    const enqueue = (from: AOEmulator, messages: Omit<SentMessage, 'From'>[]) => {
+      for (const message of messages) {
+        const sent: SentMessage = { ...message, From: from.id };
+        run.messages.push(sent);
+        if (this.processes.has(sent.Target)) {
+          queue.push(sent);
+        }
+      }
+    };
+
+    // A failed handler's messages were never sent
+    if (!result.Error) {
+      enqueue(sender, result.Messages);
+    }
+    while (queue.length > 0) {
+      if (run.deliveries.length >= limit) {
+        throw new ProcessError(`Processes sent more than ${limit} messages for one input; they may be messaging each other in a loop`);
+      }
+      const sent = queue.shift()!;
+      const { name, emulator } = this.processes.get(sent.Target)!;
+      const message: Partial<InboundMessage> = {
+        Id: this.createId(),
+        Target: sent.Target,
+        From: sent.From,
+        Owner: sent.From,
+        Tags: sent.Tags,
+        Data: sent.Data,
+        Timestamp: this.tick()
+      };
+      const handled = emulator.deliver(message);
+      run.deliveries.push({ process: name, message, result: handled });
+      if (!handled.Error) {
+        enqueue(emulator, handled.Messages);
+      }
+    }
+    return run;
+  }
+}
@@ -0,0 +1,97 @@
+import { logger } from '../utils/logging.js';
+import { ProcessError } from '../utils/error-handling.js';
+import { sleep } from '../utils/time.js';
+import { ProcessRegistry, getProcessIdentity } from './registry.js';
+
+export const DEFAULT_STOP_TIMEOUT = 10000;
+const KILL_TIMEOUT = 5000;
+const POLL_INTERVAL = 100;
+
+/**
+ * Send a signal to a process and, when it leads a detached process group,
+ * to every process in that group (aos spawns its own children).
+ */
+export function signalProcessGroup(pid: number, signal: NodeJS.Signals): void {
+  // PID 0 would signal our own process group
+  if (!pid || pid <= 0) {
+    return;
+  }
+
+  if (process.platform !== 'win32') {
+    try {
+      process.kill(-pid, signal);
+      return;
+    } catch (error: any) {
+      // Not a group leader (e.g. a foreground process), fall back to the PID itself
+      if (error.code !== 'ESRCH') {
+        throw error;
+      }
+    }
+  }
+
+  try {
+    process.kill(pid, signal);
+  } catch (error: any) {
+    if (error.code !== 'ESRCH') {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Whether anything of a process is left: a member of the group it leads,
+ * or else the PID itself, as long as it is still the process `identity`
+ * was taken from.
+ */
+export function isProcessRunning(pid: number, identity?: string | null): boolean {
+  if (process.platform !== 'win32') {
+    try {
+      process.kill(-pid, 0);
+      return true;
+    } catch (error: any) {
+      if (error.code === 'EPERM') {
+        return true;
+      }
+    }
+  }
+  return ProcessRegistry.isAlive(pid) && (!identity || getProcessIdentity(pid) === identity);
+}
+
+export async function waitForExit(pid: number, timeout: number, identity?: string | null): Promise<boolean> {
+  const deadline = Date.now() + timeout;
+
+  while (isProcessRunning(pid, identity)) {
+    if (Date.now() >= deadline) {
+      return false;
+    }
+    await sleep(POLL_INTERVAL);
+  }
+
+  return true;
+}
+
+/**
+ * SIGTERM the process group, wait up to `timeout` ms for all of it to exit,
+ * then escalate to SIGKILL. `identity` is that of the process to stop, by
+ * default the one holding the PID now.
+ * Resolves with the signal that finally stopped the process.
+ */
+export async function terminateProcess(
+  pid: number,
+  timeout: number = DEFAULT_STOP_TIMEOUT,
+  identity: string | null = getProcessIdentity(pid)
+): Promise<NodeJS.Signals> {
+  // So the wait does not take a later process given the PID for this one
+  signalProcessGroup(pid, 'SIGTERM');
+  if (await waitForExit(pid, timeout, identity)) {
+    return 'SIGTERM';
+  }
+
+  logger.warn(`Process ${pid} did not exit within ${timeout}ms, sending SIGKILL`);
+  signalProcessGroup(pid, 'SIGKILL');
+  if (await waitForExit(pid, KILL_TIMEOUT, identity)) {
+    return 'SIGKILL';
+  }
+
+  throw new ProcessError(`Process ${pid} could not be stopped`, { pid });
+}
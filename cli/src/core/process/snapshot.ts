@@ -0,0 +1,226 @@
+import path from 'path';
+import fs from 'fs-extra';
+import chalk from 'chalk';
+import { ProcessError, ValidationError } from '../utils/error-handling.js';
+import { StateSnapshot } from '../../types/aos.js';
+
+export const SNAPSHOT_VERSION = 1;
+export const DEFAULT_SNAPSHOT_DEPTH = 20;
+const SNAPSHOT_MARKER = '__AO_FORGE_SNAPSHOT__';
+const MAX_VALUE_LENGTH = 80;
+
+// Lua standard library and aos modules; what is left is the process's own state
+export const EXCLUDED_GLOBALS = [
+  '_G', '_VERSION', 'arg', 'bit32', 'coroutine', 'debug', 'io', 'math', 'os', 'package', 'string', 'table', 'utf8',
+  'ao', 'Handlers', 'Inbox', 'Utils', 'utils', 'json', 'bint', 'base64', 'crypto', 'Colors', 'Bell', 'Dump'
+];
+
+export interface SnapshotScriptOptions {
+  /** Only capture these globals; everything but EXCLUDED_GLOBALS otherwise */
+  globals?: string[];
+  depth?: number;
+}
+
+export interface StateChange {
+  path: (string | number)[];
+  type: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+function toLuaList(values: string[]): string {
+  return `{ ${values.map(value => JSON.stringify(value)).join(', ')} }`;
+}
+
+/**
+ * Lua that prints the process's global state as one JSON line. Functions
+ * are left out at the top level; nested ones, userdata and cycles are
+ * recorded as placeholder strings so the result stays valid JSON.
+ */
+export function buildSnapshotScript(options: SnapshotScriptOptions = {}): string {
+  const depth = options.depth ?? DEFAULT_SNAPSHOT_DEPTH;
+  return `
+local only = ${options.globals?.length ? toLuaList(options.globals) : 'nil'}
+local skip = {}
+for _, name in ipairs(${toLuaList(EXCLUDED_GLOBALS)}) do skip[name] = true end
+local escapes = { ['"'] = '\\\\"', ['\\\\'] = '\\\\\\\\', ['\\n'] = '\\\\n', ['\\r'] = '\\\\r', ['\\t'] = '\\\\t' }
+local function quote(s)
+  return '"' .. s:gsub('[%c"\\\\]', function(c) return escapes[c] or string.format('\\\\u%04x', c:byte()) end) .. '"'
+end
+local encode
+local function encodeTable(t, level, seen)
+  local n, count, keys = #t, 0, {}
+  for k in pairs(t) do
+    count = count + 1
+    keys[#keys + 1] = k
+  end
+  local parts = {}
+  if n > 0 and count == n then
+    for i = 1, n do parts[i] = encode(t[i], level + 1, seen) end
+    return '[' .. table.concat(parts, ',') .. ']'
+  end
+  table.sort(keys, function(a, b) return tostring(a) < tostring(b) end)
+  for _, k in ipairs(keys) do
+    parts[#parts + 1] = quote(tostring(k)) .. ':' .. encode(t[k], level + 1, seen)
+  end
+  return '{' .. table.concat(parts, ',') .. '}'
+end
+encode = function(v, level, seen)
+  local kind = type(v)
+  if kind == 'string' then return quote(v) end
+  if kind == 'boolean' then return tostring(v) end
+  if kind == 'nil' then return 'null' end
+  if kind == 'number' then
+    if v ~= v or v == math.huge or v == -math.huge then return quote(tostring(v)) end
+    if math.type and math.type(v) == 'integer' then return string.format('%d', v) end
+    return string.format('%.14g', v)
+  end
+  if kind ~= 'table' then return quote('<' .. kind .. '>') end
+  if seen[v] then return quote('<cycle>') end
+  if level > ${depth} then return quote('<max depth>') end
+  seen[v] = true
+  local result = encodeTable(v, level, seen)
+  seen[v] = nil
+  return result
+end
+local state = {}
+if only then
+  for _, name in ipairs(only) do state[name] = _G[name] end
+else
+  for name, value in pairs(_G) do
+    if type(name) == 'string' and not skip[name] and type(value) ~= 'function' then state[name] = value end
+  end
+end
+print(${JSON.stringify(SNAPSHOT_MARKER)} .. encode(state, 0, {}))
+`.trim();
+}
+
+export function parseSnapshotOutput(output: string): Record<string, unknown> {
+  const line = output.split('\n').find(entry => entry.includes(SNAPSHOT_MARKER));
+  if (!line) {
+    throw new ProcessError('The process did not return its state', { output });
+  }
+
+  const json = line.slice(line.indexOf(SNAPSHOT_MARKER) + SNAPSHOT_MARKER.length);
+  try {
+    // An empty Lua table encodes as [] as well as {}
+    const state = JSON.parse(json);
+    return Array.isArray(state) ? {} : state;
+  } catch (error) {
+    throw new ProcessError(`Could not parse the process state: ${(error as Error).message}`);
+  }
+}
+
+export function getSnapshotDir(projectPath: string, name?: string): string {
+  const dir = path.join(projectPath, '.ao-forge', 'snapshots');
+  return name ? path.join(dir, name) : dir;
+}
+
+/**
+ * Save a snapshot under `.ao-forge/snapshots/<process>/`, named after its
+ * creation time, unless an explicit file is given.
+ */
+export async function saveSnapshot(projectPath: string, snapshot: StateSnapshot, file?: string): Promise<string> {
+  const filePath = file
+    ? path.resolve(projectPath, file)
+    : path.join(getSnapshotDir(projectPath, snapshot.process), `${snapshot.createdAt.replace(/[:.]/g, '-')}.json`);
+  await fs.ensureDir(path.dirname(filePath));
+  await fs.writeJSON(filePath, snapshot, { spaces: 2 });
+  return filePath;
+}
+
+/**
+ * Load a snapshot by path, or by its path relative to the snapshot directory.
+ */
+export async function loadSnapshot(projectPath: string, ref: string): Promise<StateSnapshot> {
+  const candidates = [
+    path.resolve(projectPath, ref),
+    path.join(getSnapshotDir(projectPath), ref),
+    path.join(getSnapshotDir(projectPath), `${ref}.json`)
+  ];
+
+  for (const candidate of candidates) {
+    if (await fs.pathExists(candidate)) {
+      const snapshot = await fs.readJSON(candidate);
+      if (!snapshot || typeof snapshot.version !== 'number' || typeof snapshot.globals !== 'object') {
+        throw new ValidationError(`Not a process snapshot: ${ref}`);
+      }
+      if (snapshot.version > SNAPSHOT_VERSION) {
+        throw new ValidationError(`Snapshot ${ref} has version ${snapshot.version}; this CLI reads up to version ${SNAPSHOT_VERSION}`);
+      }
+      return snapshot;
+    }
+  }
+
+  throw new ValidationError(`Snapshot not found: ${ref}`);
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Structural differences between two state trees. Tables present on both
+ * sides are compared key by key, so a change is reported at the deepest
+ * path where the values differ.
+ */
+export function diffState(before: unknown, after: unknown, prefix: (string | number)[] = []): StateChange[] {
+  if (isContainer(before) && isContainer(after) && Array.isArray(before) === Array.isArray(after)) {
+    const changes: StateChange[] = [];
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+      .sort(Array.isArray(before) ? (a, b) => Number(a) - Number(b) : (a, b) => a.localeCompare(b));
+    for (const key of keys) {
+      const segment = Array.isArray(before) ? Number(key) : key;
+      if (!(key in after)) {
+        changes.push({ path: [...prefix, segment], type: 'removed', before: before[key] });
+      } else if (!(key in before)) {
+        changes.push({ path: [...prefix, segment], type: 'added', after: after[key] });
+      } else {
+        changes.push(...diffState(before[key], after[key], [...prefix, segment]));
+      }
+    }
+    return changes;
+  }
+
+  return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ path: prefix, type: 'changed', before, after }];
+}
+
+export function formatStatePath(segments: (string | number)[]): string {
+  return segments.map((segment, index) => {
+    if (typeof segment === 'number') {
+      // Lua sequences start at 1
+      return `[${segment + 1}]`;
+    }
+    if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(segment)) {
+      return index === 0 ? segment : `.${segment}`;
+    }
+    return `[${JSON.stringify(segment)}]`;
+  }).join('') || '(root)';
+}
+
+function formatValue(value: unknown): string {
+  const text = JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 3)}...` : text;
+}
+
+export function renderStateDiff(changes: StateChange[]): string {
+  if (changes.length === 0) {
+    return 'No differences';
+  }
+
+  const lines = changes.map(change => {
+    const path = formatStatePath(change.path);
+    switch (change.type) {
+      case 'added':
+        return chalk.green(`+ ${path}: ${formatValue(change.after)}`);
+      case 'removed':
+        return chalk.red(`- ${path}: ${formatValue(change.before)}`);
+      default:
+        return chalk.yellow(`~ ${path}: ${formatValue(change.before)} -> ${formatValue(change.after)}`);
+    }
+  });
+
+  const count = (type: StateChange['type']) => changes.filter(change => change.type === type).length;
+  lines.push('', `${changes.length} difference(s): ${count('added')} added, ${count('removed')} removed, ${count('changed')} changed`);
+  return lines.join('\n');
+}
@@ -0,0 +1,256 @@
+/**
+ * Lua run by `ao-forge test` in each emulated process before the spec file:
+ * busted-style `describe`, `it`, `pending`, `before_each` and `after_each`,
+ * `send` to hand the process a message, and `expect` assertions on results
+ * and state.
+ *
+ * Spec files only register tests; the runner then calls `__spec.run` for
+ * each of them, which returns the outcome as JSON.
+ */
+export const SPEC_PRELUDE = String.raw`
+local json = require('json')
+
+local root = { before = {}, after = {} }
+local frames = { root }
+local tests = {}
+
+local function fullName(name)
+  local parts = {}
+  for i = 2, #frames do
+    parts[#parts + 1] = frames[i].name
+  end
+  parts[#parts + 1] = name
+  return table.concat(parts, ' ')
+end
+
+function describe(name, fn)
+  table.insert(frames, { name = tostring(name), before = {}, after = {} })
+  fn()
+  table.remove(frames)
+end
+
+function it(name, fn)
+  table.insert(tests, { name = fullName(tostring(name)), fn = fn, frames = table.move(frames, 1, #frames, 1, {}) })
+end
+
+function pending(name)
+  table.insert(tests, { name = fullName(tostring(name)), skip = true })
+end
+
+function before_each(fn)
+  table.insert(frames[#frames].before, fn)
+end
+
+function after_each(fn)
+  table.insert(frames[#frames].after, fn)
+end
+
+local function format(value)
+  if type(value) == 'string' then
+    return string.format('%q', value)
+  elseif type(value) == 'table' then
+    local ok, encoded = pcall(json.encode, value)
+    if ok then
+      return encoded
+    end
+  end
+  return tostring(value)
+end
+
+local function equals(a, b)
+  if a == b then
+    return true
+  end
+  if type(a) ~= 'table' or type(b) ~= 'table' then
+    return false
+  end
+  for key, value in pairs(a) do
+    if not equals(value, b[key]) then
+      return false
+    end
+  end
+  for key in pairs(b) do
+    if a[key] == nil then
+      return false
+    end
+  end
+  return true
+end
+
+local RESERVED = { Id = true, From = true, Owner = true, Data = true, Tags = true, Timestamp = true }
+
+-- Fields other than the reserved ones become tags, in name order, then Tags
+local function toTags(msg)
+  local tags, names = {}, {}
+  for name in pairs(msg) do
+    if not RESERVED[name] then
+      names[#names + 1] = name
+    end
+  end
+  table.sort(names)
+  for _, name in ipairs(names) do
+    tags[#tags + 1] = { name = name, value = tostring(msg[name]) }
+  end
+  for key, value in pairs(msg.Tags or {}) do
+    if type(value) == 'table' then
+      tags[#tags + 1] = { name = value.name, value = tostring(value.value) }
+    else
+      tags[#tags + 1] = { name = key, value = tostring(value) }
+    end
+  end
+  return tags
+end
+
+-- Hand the process a message, by default from its owner. The result has
+-- the process's outgoing Messages and Spawns, its printed Output as text
+-- and the Error it raised, if any.
+function send(msg)
+  local data = msg.Data
+  local result = json.decode(__aoforge_spec_send(json.encode({
+    Id = msg.Id,
+    From = msg.From,
+    Owner = msg.Owner,
+    Timestamp = msg.Timestamp,
+    Data = type(data) == 'table' and json.encode(data) or data ~= nil and tostring(data) or nil,
+    Tags = toTags(msg)
+  })))
+  result.Output = type(result.Output) == 'table' and result.Output.data or result.Output or ''
+  return result
+end
+
+local function getTag(message, name)
+  for _, tag in ipairs(message.Tags or {}) do
+    if tag.name == name then
+      return tag.value
+    end
+  end
+end
+
+local function summarize(message)
+  local fields = { Target = message.Target, Data = message.Data }
+  for _, tag in ipairs(message.Tags or {}) do
+    fields[tag.name] = tag.value
+  end
+  return format(fields)
+end
+
+local function failure(result)
+  return result.Error and ' (the message failed: ' .. tostring(result.Error) .. ')' or ''
+end
+
+expect = {}
+
+function expect.equal(actual, expected, message)
+  if not equals(actual, expected) then
+    error((message and message .. ': ' or '') .. 'expected ' .. format(expected) .. ', got ' .. format(actual), 2)
+  end
+end
+
+-- The first outgoing message whose Target, Data and tags have the given values
+function expect.reply(result, fields)
+  for _, message in ipairs(result.Messages) do
+    local matched = true
+    for name, value in pairs(fields) do
+      local actual = (name == 'Target' or name == 'Data') and message[name] or getTag(message, name)
+      if actual ~= tostring(value) then
+        matched = false
+        break
+      end
+    end
+    if matched then
+      return message
+    end
+  end
+
+  local sent = {}
+  for _, message in ipairs(result.Messages) do
+    sent[#sent + 1] = '\n  ' .. summarize(message)
+  end
+  error('expected a message matching ' .. format(fields) .. ', got ' ..
+    (#sent > 0 and table.concat(sent) or 'none') .. failure(result), 2)
+end
+
+function expect.ok(result)
+  if result.Error then
+    error('expected the message to succeed, got: ' .. tostring(result.Error), 2)
+  end
+  return result
+end
+
+function expect.error(result, text)
+  if not result.Error then
+    error('expected the message to fail' .. (text and ' with ' .. format(text) or ''), 2)
+  end
+  if text and not tostring(result.Error):find(text, 1, true) then
+    error('expected an error containing ' .. format(text) .. ', got: ' .. tostring(result.Error), 2)
+  end
+  return result.Error
+end
+
+function expect.output(result, text)
+  if not result.Output:find(text, 1, true) then
+    error('expected output containing ' .. format(text) .. ', got ' .. format(result.Output) .. failure(result), 2)
+  end
+end
+
+-- Compare the global at a dotted path, e.g. 'Balances.bob', with a value
+function expect.state(path, expected)
+  local value = _G
+  for key in path:gmatch('[^.]+') do
+    if type(value) ~= 'table' then
+      value = nil
+      break
+    end
+    local found = value[key]
+    if found == nil and tonumber(key) then
+      found = value[tonumber(key)]
+    end
+    value = found
+  end
+  if not equals(value, expected) then
+    error('expected ' .. path .. ' to be ' .. format(expected) .. ', got ' .. format(value), 2)
+  end
+end
+
+local function describeError(err)
+  return type(err) == 'string' and err or format(err)
+end
+
+__spec = {}
+
+function __spec.list()
+  local names = {}
+  for i, test in ipairs(tests) do
+    names[i] = test.name
+  end
+  return json.encode(names)
+end
+
+-- Hooks run outermost first before the test and innermost first after it,
+-- even when it fails
+function __spec.run(index)
+  local test = tests[index]
+  if test.skip then
+    return json.encode({ status = 'skipped' })
+  end
+
+  local ok, err = xpcall(function()
+    for _, frame in ipairs(test.frames) do
+      for _, hook in ipairs(frame.before) do
+        hook()
+      end
+    end
+    test.fn()
+  end, describeError)
+
+  for i = #test.frames, 1, -1 do
+    for _, hook in ipairs(test.frames[i].after) do
+      local hookOk, hookErr = xpcall(hook, describeError)
+      if ok and not hookOk then
+        ok, err = false, hookErr
+      end
+    end
+  end
+  return json.encode({ status = ok and 'passed' or 'failed', error = not ok and err or nil })
+end
+`;
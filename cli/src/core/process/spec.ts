@@ -0,0 +1,114 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { AOEmulator } from './emulator.js';
+import { CoverageCollector } from './coverage.js';
+import { Profiler } from './profile.js';
+import { SPEC_PRELUDE } from './spec-prelude.js';
+import { ValidationError } from '../utils/error-handling.js';
+import { SpecFileResult, SpecStatus } from '../../types/cli.js';
+
+const SPEC_PATTERN = /(_spec|\.test)\.lua$/;
+const IGNORED_DIRECTORIES = new Set(['node_modules', 'dist', 'build']);
+
+export interface SpecRunOptions {
+  projectPath: string;
+  /** Name of the process the spec runs against */
+  process?: string;
+  /** Project Lua files loaded into the process before the spec */
+  luaFiles: string[];
+  /** Only run tests whose full name contains this */
+  grep?: string;
+  /** Counts what the project's Lua files run */
+  coverage?: CoverageCollector;
+  /** Measures what each handler run costs */
+  profiler?: Profiler;
+}
+
+export function isSpecFile(file: string): boolean {
+  return SPEC_PATTERN.test(file);
+}
+
+/**
+ * Spec files (`*_spec.lua`, `*.test.lua`) among the given files and
+ * directories, relative to the project and sorted. A target that does not
+ * exist is an error.
+ */
+export async function findSpecFiles(projectPath: string, targets: string[] = ['.']): Promise<string[]> {
+  const files = new Set<string>();
+
+  const walk = async (dir: string) => {
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory() && !entry.name.startsWith('.') && !IGNORED_DIRECTORIES.has(entry.name)) {
+        await walk(fullPath);
+      } else if (entry.isFile() && isSpecFile(entry.name)) {
+        files.add(path.relative(projectPath, fullPath));
+      }
+    }
+  };
+
+  for (const target of targets) {
+    const fullPath = path.resolve(projectPath, target);
+    const stats = await fs.stat(fullPath).catch(() => null);
+    if (!stats) {
+      throw new ValidationError(`No such file or directory: ${target}`);
+    }
+    if (stats.isDirectory()) {
+      await walk(fullPath);
+    } else if (stats.isFile()) {
+      files.add(path.relative(projectPath, fullPath));
+    }
+  }
+  return [...files].sort();
+}
+
+/**
+ * Run one spec file in a fresh emulated process: load the project's Lua
+ * files, register the spec's tests, then run them one by one. Tests of a
+ * file share the process, so state carries over unless hooks reset it.
+ */
+export async function runSpecFile(file: string, options: SpecRunOptions): Promise<SpecFileResult> {
+  const startTime = Date.now();
+  const relative = path.relative(options.projectPath, path.resolve(options.projectPath, file));
+  const result: SpecFileResult = { file: relative, duration: 0, tests: [] };
+  const emulator = await AOEmulator.create({
+    projectPath: options.projectPath,
+    name: path.basename(file, '.lua'),
+    transform: options.coverage?.transform
+  });
+
+  try {
+    options.coverage?.attach(emulator);
+    options.profiler?.attach(emulator);
+    emulator.setGlobal('__aoforge_spec_send', (raw: string) => JSON.stringify(emulator.deliver(JSON.parse(raw))));
+    emulator.run(SPEC_PRELUDE, '=spec');
+
+    for (const luaFile of options.luaFiles) {
+      const loaded = emulator.load(luaFile);
+      if (loaded.Error) {
+        throw new Error(`${luaFile}: ${loaded.Error}`);
+      }
+    }
+
+    emulator.run(await fs.readFile(path.resolve(options.projectPath, file), 'utf8'), `@${relative}`);
+    const names: string[] = JSON.parse(String(emulator.run('return __spec.list()')));
+
+    for (const [index, name] of names.entries()) {
+      if (options.grep && !name.includes(options.grep)) {
+        continue;
+      }
+      const testStart = Date.now();
+      const outcome: { status: SpecStatus; error?: string } = JSON.parse(String(emulator.run(`return __spec.run(${index + 1})`)));
+      result.tests.push({ name, ...outcome, duration: Date.now() - testStart });
+    }
+  } catch (error) {
+    result.error = (error as Error).message;
+  } finally {
+    options.coverage?.collect(emulator);
+    options.profiler?.collect(emulator, options.process || path.basename(file, '.lua'));
+    emulator.close();
+  }
+
+  result.duration = Date.now() - startTime;
+  return result;
+}
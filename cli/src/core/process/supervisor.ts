@@ -0,0 +1,79 @@
+import { ValidationError } from '../utils/error-handling.js';
+import { formatDuration } from '../utils/time.js';
+import { RestartPolicy } from '../../types/aos.js';
+
+export const RESTART_POLICIES: RestartPolicy[] = ['no', 'on-failure', 'always'];
+export const DEFAULT_RESTART_DELAY = 1000;
+const MAX_RESTART_DELAY = 5 * 60 * 1000;
+// A child that stayed up this long is considered healthy again
+const STABLE_AFTER = 60 * 1000;
+
+export interface RestartOptions {
+  policy: RestartPolicy;
+  /** Consecutive restarts allowed before giving up; unlimited when omitted */
+  maxRestarts?: number;
+  /** Base delay for exponential backoff; restarts use a fixed delay when omitted */
+  backoff?: number;
+}
+
+export interface RestartDecision {
+  restart: boolean;
+  delay: number;
+  /** Consecutive restart number, starting at 1 */
+  attempt: number;
+  reason: string;
+}
+
+export function parseRestartPolicy(value: string): RestartPolicy {
+  if (!RESTART_POLICIES.includes(value as RestartPolicy)) {
+    throw new ValidationError(`Invalid restart policy: ${value}. Use one of: ${RESTART_POLICIES.join(', ')}`);
+  }
+  return value as RestartPolicy;
+}
+
+/**
+ * Restart bookkeeping shared by the process host and foreground starts.
+ * Limits and backoff apply to consecutive crashes; a child that ran for a
+ * minute resets them. `restarts` counts every restart for reporting.
+ */
+export class RestartTracker {
+  private options: RestartOptions;
+  private consecutive = 0;
+  restarts = 0;
+
+  constructor(options: RestartOptions) {
+    this.options = options;
+  }
+
+  onExit(exitCode: number | null, uptime: number): RestartDecision {
+    if (uptime >= STABLE_AFTER) {
+      this.consecutive = 0;
+    }
+
+    const failed = exitCode !== 0;
+    const attempt = this.consecutive + 1;
+
+    if (this.options.policy === 'no' || (this.options.policy === 'on-failure' && !failed)) {
+      return { restart: false, delay: 0, attempt, reason: `restart policy is ${this.options.policy}` };
+    }
+    if (this.options.maxRestarts !== undefined && this.consecutive >= this.options.maxRestarts) {
+      return { restart: false, delay: 0, attempt, reason: `gave up after ${this.consecutive} restart(s)` };
+    }
+
+    this.consecutive++;
+    this.restarts++;
+    return { restart: true, delay: getRestartDelay(attempt, this.options.backoff), attempt, reason: this.options.policy };
+  }
+}
+
+export function getRestartDelay(attempt: number, backoff?: number): number {
+  if (backoff === undefined) {
+    return DEFAULT_RESTART_DELAY;
+  }
+  return Math.min(backoff * 2 ** (attempt - 1), MAX_RESTART_DELAY);
+}
+
+/** Backoff delays are often sub-second, which formatDuration would show as 0s */
+export function formatRestartDelay(delay: number): string {
+  return delay < 1000 ? `${delay}ms` : formatDuration(delay);
+}
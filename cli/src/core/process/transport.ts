@@ -0,0 +1,162 @@
+import crypto from 'crypto';
+import { ProcessError, ValidationError } from '../utils/error-handling.js';
+import { JWK, MessageResult, NetworkConfig, OutgoingMessage, SpawnRequest } from '../../types/aos.js';
+
+export const DEFAULT_TRANSPORT = 'aoconnect';
+
+export interface TransportContext {
+  /** JWK that signs outgoing messages */
+  wallet?: JWK;
+  network?: NetworkConfig;
+}
+
+/**
+ * Delivers messages to AO and fetches their results. `process send` talks
+ * to the network through aoconnect; other transports can be registered to
+ * stand in for it.
+ */
+export interface MessageTransport {
+  readonly name: string;
+  /** Submit a message and return its ID */
+  send(message: OutgoingMessage): Promise<string>;
+  result(target: string, messageId: string): Promise<MessageResult>;
+  /** Evaluate a message without recording it on the process */
+  dryrun(message: OutgoingMessage): Promise<MessageResult>;
+  /** Spawn a process and return its ID */
+  spawn(request: SpawnRequest): Promise<string>;
+}
+
+export type TransportFactory = (context: TransportContext) => MessageTransport;
+
+const transports = new Map<string, TransportFactory>();
+
+export function registerTransport(name: string, factory: TransportFactory): void {
+  transports.set(name, factory);
+}
+
+export function getTransportNames(): string[] {
+  return [...transports.keys()];
+}
+
+export function createTransport(name: string, context: TransportContext = {}): MessageTransport {
+  const factory = transports.get(name);
+  if (!factory) {
+    throw new ValidationError(`Unknown transport: ${name}. Available transports: ${getTransportNames().join(', ')}`);
+  }
+  return factory(context);
+}
+
+/**
+ * Signs messages with the configured wallet, submits them to the messenger
+ * unit and reads results from the compute unit.
+ */
+export class AOConnectTransport implements MessageTransport {
+  readonly name = 'aoconnect';
+  private context: TransportContext;
+  private client: Promise<{ ao: any; signer?: any }> | null = null;
+
+  constructor(context: TransportContext) {
+    this.context = context;
+  }
+
+  async send(message: OutgoingMessage): Promise<string> {
+    const { ao, signer } = await this.connect();
+    if (!signer) {
+      throw new ValidationError('A wallet is required to sign messages');
+    }
+    return ao.message({ process: message.target, tags: message.tags, data: message.data, signer });
+  }
+
+  async result(target: string, messageId: string): Promise<MessageResult> {
+    const { ao } = await this.connect();
+    return ao.result({ process: target, message: messageId });
+  }
+
+  async dryrun(message: OutgoingMessage): Promise<MessageResult> {
+    const { ao } = await this.connect();
+    return ao.dryrun({ process: message.target, tags: message.tags, data: message.data });
+  }
+
+  async spawn(request: SpawnRequest): Promise<string> {
+    const { ao, signer } = await this.connect();
+    if (!signer) {
+      throw new ValidationError('A wallet is required to spawn processes');
+    }
+    return ao.spawn({ module: request.module, scheduler: request.scheduler, tags: request.tags, data: request.data, signer });
+  }
+
+  private connect(): Promise<{ ao: any; signer?: any }> {
+    // Loaded on first use; aoconnect pulls in the Arweave stack
+    this.client ??= import('@permaweb/aoconnect').then((aoconnect: any) => {
+      const { muUrl, cuUrl, gatewayUrl } = this.context.network || {};
+      // Legacy mode finds a process's scheduler through the gateway's GraphQL
+      const ao = aoconnect.connect({
+        MODE: 'legacy',
+        ...(muUrl && { MU_URL: muUrl }),
+        ...(cuUrl && { CU_URL: cuUrl }),
+        ...(gatewayUrl && { GRAPHQL_URL: `${gatewayUrl.replace(/\/+$/, '')}/graphql` })
+      });
+      const signer = this.context.wallet ? aoconnect.createDataItemSigner(this.context.wallet) : undefined;
+      return { ao, signer };
+    });
+    return this.client;
+  }
+}
+
+export type LocalMessageHandler = (message: OutgoingMessage, id: string) => MessageResult | Promise<MessageResult>;
+
+export interface SentMessage {
+  id: string;
+  message: OutgoingMessage;
+}
+
+/**
+ * In-memory stand-in for AO, for tests and code embedding the CLI. Messages
+ * get deterministic IDs and their results come from a handler, which answers
+ * with an empty result by default. It is not registered, as `--transport`
+ * would then report sends nothing handled; `process send --local` runs the
+ * process's code instead.
+ */
+export class LocalTransport implements MessageTransport {
+  readonly name = 'local';
+  readonly sent: SentMessage[] = [];
+  readonly spawned: SpawnRequest[] = [];
+  private handler: LocalMessageHandler;
+  private results: Map<string, MessageResult> = new Map();
+
+  constructor(handler: LocalMessageHandler = () => ({ Messages: [], Spawns: [], Output: '' })) {
+    this.handler = handler;
+  }
+
+  async send(message: OutgoingMessage): Promise<string> {
+    const id = crypto.createHash('sha256')
+      .update(`${this.sent.length}:${JSON.stringify(message)}`)
+      .digest('base64url')
+      .slice(0, 43);
+    this.sent.push({ id, message });
+    this.results.set(id, await this.handler(message, id));
+    return id;
+  }
+
+  async result(_target: string, messageId: string): Promise<MessageResult> {
+    const result = this.results.get(messageId);
+    if (!result) {
+      throw new ProcessError(`No result for message: ${messageId}`);
+    }
+    return result;
+  }
+
+  async dryrun(message: OutgoingMessage): Promise<MessageResult> {
+    return this.handler(message, 'dryrun');
+  }
+
+  async spawn(request: SpawnRequest): Promise<string> {
+    this.spawned.push(request);
+    return crypto.createHash('sha256')
+      .update(`spawn:${this.spawned.length}:${JSON.stringify(request)}`)
+      .digest('base64url')
+      .slice(0, 43);
+  }
+}
+
+registerTransport('aoconnect', context => new AOConnectTransport(context));
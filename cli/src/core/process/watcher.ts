@@ -0,0 +1,203 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { logger } from '../utils/logging.js';
+import { checkLuaSyntax, resolveLuaDependencies } from './lua.js';
+
+export const DEFAULT_RELOAD_DEBOUNCE = 300;
+
+export interface ReloadResult {
+  file: string;
+  ok: boolean;
+  /** Files whose change triggered the reload */
+  changed: string[];
+  /** Set when the file failed the syntax check and was never sent to the process */
+  skipped?: boolean;
+  output?: string;
+  error?: string;
+}
+
+export interface LuaWatcherOptions {
+  debounce?: number;
+  onReload?: (result: ReloadResult) => void;
+}
+
+/**
+ * Watches a process's Lua entry files and everything they `require`. A
+ * burst of saves is collapsed into one reload of each affected entry file;
+ * files that fail the syntax check are reported and not loaded.
+ */
+export class LuaWatcher {
+  private projectPath: string;
+  private entries: string[];
+  private reload: (file: string) => Promise<string>;
+  private debounce: number;
+  private onReload: (result: ReloadResult) => void;
+  private dependencies = new Map<string, string[]>();
+  private watchers = new Map<string, fs.FSWatcher>();
+  private changed = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+  private stopped = false;
+
+  constructor(
+    projectPath: string,
+    entries: string[],
+    reload: (file: string) => Promise<string>,
+    options: LuaWatcherOptions = {}
+  ) {
+    this.projectPath = path.resolve(projectPath);
+    this.entries = entries.map(entry => path.resolve(this.projectPath, entry));
+    this.reload = reload;
+    this.debounce = options.debounce ?? DEFAULT_RELOAD_DEBOUNCE;
+    this.onReload = options.onReload || (() => {});
+  }
+
+  async start(): Promise<void> {
+    this.stopped = false;
+    await this.refresh();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+  }
+
+  /**
+   * Resolves once pending reloads have finished.
+   */
+  idle(): Promise<void> {
+    return this.flushing;
+  }
+
+  getWatchedFiles(): string[] {
+    const files = new Set(this.entries);
+    for (const deps of this.dependencies.values()) {
+      deps.forEach(dep => files.add(dep));
+    }
+    return [...files];
+  }
+
+  private async refresh(): Promise<void> {
+    for (const entry of this.entries) {
+      this.dependencies.set(entry, await resolveLuaDependencies(entry, this.projectPath));
+    }
+
+    // Directories rather than files are watched, so editors that save by
+    // replacing the file do not detach the watch
+    const files = new Set(this.getWatchedFiles());
+    const dirs = new Set([...files].map(file => path.dirname(file)));
+
+    for (const [dir, watcher] of this.watchers) {
+      if (!dirs.has(dir)) {
+        watcher.close();
+        this.watchers.delete(dir);
+      }
+    }
+
+    for (const dir of dirs) {
+      if (this.watchers.has(dir) || !(await fs.pathExists(dir))) {
+        continue;
+      }
+      const watcher = fs.watch(dir, (_event, filename) => {
+        if (!filename) {
+          return;
+        }
+        const file = path.join(dir, filename.toString());
+        if (this.getWatchedFiles().includes(file)) {
+          this.schedule(file);
+        }
+      });
+      watcher.on('error', () => {
+        watcher.close();
+        this.watchers.delete(dir);
+      });
+      this.watchers.set(dir, watcher);
+    }
+  }
+
+  private schedule(file: string): void {
+    this.changed.add(file);
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const changed = [...this.changed];
+      this.changed.clear();
+      // A failed flush must not stop later ones from running
+      this.flushing = this.flushing
+        .then(() => this.flush(changed))
+        .catch(error => logger.error(`Reload failed: ${(error as Error).message}`));
+    }, this.debounce);
+  }
+
+  private async flush(changed: string[]): Promise<void> {
+    const valid: string[] = [];
+    const broken = new Set<string>();
+
+    for (const file of changed) {
+      if (!(await fs.pathExists(file))) {
+        continue;
+      }
+      if (await this.checkSyntax(file, [file])) {
+        valid.push(file);
+      } else {
+        broken.add(file);
+      }
+    }
+
+    // A changed dependency is reloaded through every entry file requiring it,
+    // since `.load` bundles required modules into the loaded chunk
+    for (const entry of this.entries) {
+      const deps = this.dependencies.get(entry) || [];
+      const triggers = valid.filter(file => file === entry || deps.includes(file));
+      if (triggers.length === 0 || broken.has(entry)) {
+        continue;
+      }
+      // An entry file that was not saved is checked too before it is loaded again
+      if (!triggers.includes(entry) && !(await this.checkSyntax(entry, triggers))) {
+        continue;
+      }
+
+      const result: ReloadResult = { file: this.relative(entry), ok: true, changed: triggers.map(file => this.relative(file)) };
+      try {
+        result.output = await this.reload(entry);
+      } catch (error) {
+        result.ok = false;
+        result.error = (error as Error).message;
+      }
+      this.onReload(result);
+    }
+
+    // Edits may have added or removed requires
+    if (!this.stopped) {
+      await this.refresh();
+    }
+  }
+
+  // Report a file that fails the syntax check as a skipped reload
+  private async checkSyntax(file: string, changed: string[]): Promise<boolean> {
+    const syntaxError = checkLuaSyntax(await fs.readFile(file, 'utf8'));
+    if (syntaxError) {
+      this.onReload({
+        file: this.relative(file),
+        ok: false,
+        skipped: true,
+        changed: changed.map(entry => this.relative(entry)),
+        error: `${this.relative(file)}:${syntaxError.line}: ${syntaxError.message}`
+      });
+    }
+    return !syntaxError;
+  }
+
+  private relative(file: string): string {
+    return path.relative(this.projectPath, file);
+  }
+}
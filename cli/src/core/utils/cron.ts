@@ -0,0 +1,185 @@
+import { ValidationError } from './error-handling.js';
+
+const AO_INTERVAL_PATTERN = /^(\d+)-(second|minute|hour|day|week|month)s?$/;
+
+const UNIT_MS: Record<string, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// How far ahead to look for a matching time before giving up (e.g. "0 0 31 2 *")
+const MAX_SEARCH_DAYS = 366 * 5;
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean;
+}
+
+export interface CronFields {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+/**
+ * Milliseconds between runs for the AO interval syntax ("5-minutes",
+ * "1-hour"), or null for anything else. Months count as 30 days.
+ */
+export function parseInterval(expression: string): number | null {
+  const match = AO_INTERVAL_PATTERN.exec(expression.trim());
+  if (!match) {
+    return null;
+  }
+  const amount = parseInt(match[1], 10);
+  return amount > 0 ? amount * UNIT_MS[match[2]] : null;
+}
+
+function parseValue(value: string, min: number, names?: string[]): number {
+  const named = names?.indexOf(value.toLowerCase()) ?? -1;
+  if (named >= 0) {
+    return named + min;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new ValidationError(`Invalid cron value: ${value}`);
+  }
+  return parseInt(value, 10);
+}
+
+function parseField(field: string, min: number, max: number, label: string, names?: string[]): CronField {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1)) {
+      throw new ValidationError(`Invalid step in cron ${label} field: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, min, names);
+      end = parseValue(to, min, names);
+    } else {
+      start = parseValue(range, min, names);
+      end = stepText === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new ValidationError(`Cron ${label} field out of range (${min}-${max}): ${part}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  // Only a bare * leaves a field unrestricted; */2 restricts it like any list
+  return { values, wildcard: field === '*' };
+}
+
+/**
+ * Parse a standard 5-field cron expression (minute hour day-of-month month
+ * day-of-week). Supports lists, ranges, steps and month/day names; Sunday
+ * is 0 or 7.
+ */
+export function parseCronExpression(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new ValidationError(`Cron expression must have 5 fields, got ${fields.length}: ${expression}`);
+  }
+
+  const dayOfWeek = parseField(fields[4], 0, 7, 'day-of-week', DAY_NAMES);
+  if (dayOfWeek.values.delete(7)) {
+    dayOfWeek.values.add(0);
+  }
+
+  return {
+    minute: parseField(fields[0], 0, 59, 'minute'),
+    hour: parseField(fields[1], 0, 23, 'hour'),
+    dayOfMonth: parseField(fields[2], 1, 31, 'day-of-month'),
+    month: parseField(fields[3], 1, 12, 'month', MONTH_NAMES),
+    dayOfWeek
+  };
+}
+
+export function isValidSchedule(expression: string): boolean {
+  if (parseInterval(expression) !== null) {
+    return true;
+  }
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(fields: CronFields, date: Date): boolean {
+  if (!fields.month.values.has(date.getMonth() + 1)) {
+    return false;
+  }
+  const dom = fields.dayOfMonth.values.has(date.getDate());
+  const dow = fields.dayOfWeek.values.has(date.getDay());
+
+  // As in Vixie cron, a restricted day-of-month and day-of-week match either
+  if (!fields.dayOfMonth.wildcard && !fields.dayOfWeek.wildcard) {
+    return dom || dow;
+  }
+  return dom && dow;
+}
+
+/**
+ * First run strictly after `after`. Interval schedules run every interval
+ * from `after`; cron schedules use local time.
+ */
+export function getNextRun(expression: string, after: Date = new Date()): Date {
+  const interval = parseInterval(expression);
+  if (interval !== null) {
+    return new Date(after.getTime() + interval);
+  }
+
+  const fields = parseCronExpression(expression);
+  const start = new Date(after.getTime());
+  start.setSeconds(0, 0);
+  start.setMinutes(start.getMinutes() + 1);
+
+  const day = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++, day.setDate(day.getDate() + 1)) {
+    if (!matchesDay(fields, day)) {
+      continue;
+    }
+    for (const hour of [...fields.hour.values].sort((a, b) => a - b)) {
+      for (const minute of [...fields.minute.values].sort((a, b) => a - b)) {
+        const candidate = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute);
+        if (candidate >= start) {
+          return candidate;
+        }
+      }
+    }
+  }
+
+  throw new ValidationError(`Cron expression never matches: ${expression}`);
+}
+
+export function getNextRuns(expression: string, count: number, after: Date = new Date()): Date[] {
+  const runs: Date[] = [];
+  let current = after;
+  for (let i = 0; i < count; i++) {
+    current = getNextRun(expression, current);
+    runs.push(current);
+  }
+  return runs;
+}
@@ -73,13 +73,19 @@ export class ErrorHandler {
     fn: () => Promise<T>,
     timeout: number = 30000
   ): Promise<T> {
-    return Promise.race([
-      fn(),
-      new Promise<never>((_, reject) => {
-        setTimeout(() => {
-          reject(new ForgeError(`Operation timed out after ${timeout}ms`, 'TIMEOUT_ERROR'));
-        }, timeout);
-      })
-    ]);
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      return await Promise.race([
+        fn(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            reject(new ForgeError(`Operation timed out after ${timeout}ms`, 'TIMEOUT_ERROR'));
+          }, timeout);
+        })
+      ]);
+    } finally {
+      // A pending timer would keep the CLI alive after the operation finished
+      clearTimeout(timer);
+    }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { TestReport } from '../../types/cli.js';
+
+function escapeXML(value: string): string {
+  return value
+    // Characters XML 1.0 cannot represent at all
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+/**
+ * JUnit XML for CI test reporters: one testsuite per spec file. A file that
+ * could not run is reported as a suite with a single errored testcase.
+ */
+export function toJUnitXML(report: TestReport, name: string = 'ao-forge'): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  const errors = report.files.filter(file => file.error).length;
+  const total = report.passed + report.failed + report.skipped + errors;
+
+  lines.push(`<testsuites name="${escapeXML(name)}" tests="${total}" failures="${report.failed}" ` +
+    `errors="${errors}" skipped="${report.skipped}" time="${seconds(report.duration)}">`);
+
+  for (const file of report.files) {
+    const count = (status: string) => file.tests.filter(test => test.status === status).length;
+    lines.push(`  <testsuite name="${escapeXML(file.file)}" tests="${file.tests.length + (file.error ? 1 : 0)}" ` +
+      `failures="${count('failed')}" errors="${file.error ? 1 : 0}" skipped="${count('skipped')}" time="${seconds(file.duration)}">`);
+
+    for (const test of file.tests) {
+      const attributes = `name="${escapeXML(test.name)}" classname="${escapeXML(file.file)}" time="${seconds(test.duration)}"`;
+      if (test.status === 'passed') {
+        lines.push(`    <testcase ${attributes}/>`);
+        continue;
+      }
+      lines.push(`    <testcase ${attributes}>`);
+      if (test.status === 'skipped') {
+        lines.push('      <skipped/>');
+      } else {
+        const message = test.error || 'Test failed';
+        lines.push(`      <failure message="${escapeXML(message.split('\n')[0])}">${escapeXML(message)}</failure>`);
+      }
+      lines.push('    </testcase>');
+    }
+
+    if (file.error) {
+      lines.push(`    <testcase name="${escapeXML(file.file)}" classname="${escapeXML(file.file)}" time="0.000">`);
+      lines.push(`      <error message="${escapeXML(file.error.split('\n')[0])}">${escapeXML(file.error)}</error>`);
+      lines.push('    </testcase>');
+    }
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
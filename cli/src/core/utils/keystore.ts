@@ -0,0 +1,111 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { ValidationError } from './error-handling.js';
+
+export const KEYSTORE_VERSION = 1;
+const CIPHER = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 32;
+const IV_LENGTH = 12;
+const DEFAULT_SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 };
+// Bounds on parameters read from a file, so it cannot make scrypt take minutes or gigabytes
+const MAX_SCRYPT_N = 2 ** 20;
+const MAX_SCRYPT_R = 32;
+const MAX_SCRYPT_P = 16;
+const MAX_SCRYPT_MEMORY = 256 * 1024 * 1024;
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+export interface ScryptParams {
+  N: number;
+  r: number;
+  p: number;
+}
+
+/**
+ * A secret encrypted with a key derived from a passphrase. Anything that
+ * must be readable without the passphrase, such as a wallet's address,
+ * goes in `meta`.
+ */
+export interface EncryptedEnvelope<M = Record<string, string>> {
+  version: number;
+  meta: M;
+  crypto: {
+    cipher: typeof CIPHER;
+    kdf: 'scrypt';
+    kdfparams: ScryptParams & { salt: string };
+    iv: string;
+    tag: string;
+    ciphertext: string;
+  };
+}
+
+export function isEncryptedEnvelope(value: any): value is EncryptedEnvelope<unknown> {
+  return value?.crypto?.cipher === CIPHER && value.crypto.kdf === 'scrypt' && typeof value.crypto.ciphertext === 'string';
+}
+
+function validateScryptParams({ N, r, p }: ScryptParams): void {
+  const valid = Number.isInteger(N) && N > 1 && N <= MAX_SCRYPT_N && (N & (N - 1)) === 0
+    && Number.isInteger(r) && r >= 1 && r <= MAX_SCRYPT_R
+    && Number.isInteger(p) && p >= 1 && p <= MAX_SCRYPT_P
+    && 128 * N * r <= MAX_SCRYPT_MEMORY;
+  if (!valid) {
+    throw new ValidationError(`Unsupported scrypt parameters in keystore: N=${N}, r=${r}, p=${p}`);
+  }
+}
+
+function deriveKey(passphrase: string, salt: Buffer, params: ScryptParams): Promise<Buffer> {
+  // scrypt needs 128 * N * r bytes, which reaches Node's default limit at N = 2^15
+  return scrypt(passphrase, salt, KEY_LENGTH, { ...params, maxmem: 256 * params.N * params.r });
+}
+
+export async function encryptSecret<M>(
+  plaintext: string,
+  passphrase: string,
+  meta: M,
+  params: ScryptParams = DEFAULT_SCRYPT_PARAMS
+): Promise<EncryptedEnvelope<M>> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(CIPHER, await deriveKey(passphrase, salt, params), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return {
+    version: KEYSTORE_VERSION,
+    meta,
+    crypto: {
+      cipher: CIPHER,
+      kdf: 'scrypt',
+      kdfparams: { ...params, salt: salt.toString('base64') },
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64')
+    }
+  };
+}
+
+/**
+ * Decrypt an envelope. A wrong passphrase and tampered data both fail the
+ * GCM authentication check and cannot be told apart.
+ */
+export async function decryptSecret(envelope: EncryptedEnvelope<unknown>, passphrase: string): Promise<string> {
+  if (envelope.version !== KEYSTORE_VERSION) {
+    throw new ValidationError(`Unsupported keystore version: ${envelope.version}`);
+  }
+
+  const { kdfparams, iv, tag, ciphertext } = envelope.crypto;
+  validateScryptParams(kdfparams);
+  const key = await deriveKey(passphrase, Buffer.from(kdfparams.salt, 'base64'), kdfparams);
+  const decipher = crypto.createDecipheriv(CIPHER, key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  try {
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+  } catch {
+    throw new ValidationError('Wrong passphrase, or the keystore file is corrupted');
+  }
+}
@@ -0,0 +1,44 @@
+import { CoverageSummary } from '../../types/cli.js';
+
+/**
+ * LCOV tracefile for coverage tools and CI. Handlers are reported as
+ * functions named after them; a branch whose `if` never ran is `-`.
+ */
+export function toLCOV(summary: CoverageSummary, testName: string = ''): string {
+  const lines: string[] = [];
+
+  for (const file of summary.files) {
+    lines.push(`TN:${testName}`, `SF:${file.file}`);
+
+    for (const handler of file.handlers) {
+      lines.push(`FN:${handler.line},${formatHandlerName(handler.name)}`);
+    }
+    for (const handler of file.handlers) {
+      lines.push(`FNDA:${handler.hits},${formatHandlerName(handler.name)}`);
+    }
+    lines.push(`FNF:${file.handlers.length}`, `FNH:${file.handlers.filter(handler => handler.hits > 0).length}`);
+
+    const blockRan = new Map<number, boolean>();
+    for (const branch of file.branches) {
+      blockRan.set(branch.block, (blockRan.get(branch.block) || false) || branch.hits > 0);
+    }
+    for (const branch of file.branches) {
+      const taken = blockRan.get(branch.block) ? String(branch.hits) : '-';
+      lines.push(`BRDA:${branch.line},${branch.block},${branch.branch},${taken}`);
+    }
+    lines.push(`BRF:${file.branches.length}`, `BRH:${file.branches.filter(branch => branch.hits > 0).length}`);
+
+    const hits = Object.entries(file.lines);
+    for (const [line, count] of hits) {
+      lines.push(`DA:${line},${count}`);
+    }
+    lines.push(`LF:${hits.length}`, `LH:${hits.filter(([, count]) => count > 0).length}`, 'end_of_record');
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// Function names end at a comma in LCOV
+function formatHandlerName(name: string): string {
+  return `handler ${name.replace(/[,\n]/g, ' ')}`;
+}
@@ -0,0 +1,36 @@
+import crypto from 'crypto';
+import { ValidationError } from './error-handling.js';
+
+/**
+ * A seed for createRandom, for runs that should differ unless a seed is
+ * given.
+ */
+export function createSeed(): number {
+  return crypto.randomBytes(4).readUInt32BE(0);
+}
+
+/**
+ * Numbers in [0, 1) from a seed (mulberry32): the same seed always gives
+ * the same sequence, so a run can be repeated.
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Parse a `--seed` value: an unsigned 32-bit integer.
+ */
+export function parseSeed(value: string | number): number {
+  const seed = Number(value);
+  if (value === '' || !Number.isInteger(seed) || seed < 0 || seed > 0xFFFFFFFF) {
+    throw new ValidationError(`Invalid seed: ${value}. Use a whole number from 0 to 4294967295`);
+  }
+  return seed;
+}
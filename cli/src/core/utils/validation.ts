@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { ValidationError } from './error-handling.js';
+import { isValidSchedule } from './cron.js';
 import { AOConfigSchema, AOConfig } from '../../types/config.js';
 
 export class Validator {
@@ -49,13 +50,8 @@ export class Validator {
       return false;
     }
     
-    // Simple validation for common cron patterns
-    const validPatterns = [
-      /^\d+-(second|minute|hour|day|week|month)$/,
-      /^\d+-(seconds|minutes|hours|days|weeks|months)$/
-    ];
-    
-    return validPatterns.some(pattern => pattern.test(expression));
+    // AO interval syntax ("5-minutes") or a standard 5-field cron expression
+    return isValidSchedule(expression);
   }
 
   static validateModuleId(id: string): boolean {
@@ -10,6 +10,58 @@ export interface ProcessState {
   config: ProcessConfig;
 }
 
+export interface CronJob {
+  id: string;
+  process: string;
+  /** AO interval ("5-minutes") or 5-field cron expression */
+  expression: string;
+  /** Lua evaluated in the process on every run */
+  tick: string;
+  onError?: string;
+  maxRetries: number;
+  paused: boolean;
+  createdAt: string;
+}
+
+export interface SchedulerState {
+  name: string;
+  expression: string;
+  running: boolean;
+  retryCount: number;
+  lastRun?: string;
+  nextRun?: string;
+}
+
+/**
+ * JSON-safe view of a ProcessState, as reported by a process host.
+ */
+export interface ProcessStateSnapshot {
+  id: string;
+  pid: number;
+  status: ProcessState['status'];
+  startTime: string;
+  uptime: number;
+  features: AOSFeatures;
+  config: ProcessConfig;
+  messageCount: number;
+  messages: Message[];
+  errorCount: number;
+  errors: string[];
+  schedulers: SchedulerState[];
+}
+
+/**
+ * Lua global state of a process at one point in time, as saved by
+ * `process snapshot`.
+ */
+export interface StateSnapshot {
+  version: number;
+  process: string;
+  processId?: string;
+  createdAt: string;
+  globals: Record<string, unknown>;
+}
+
 export interface AOSFeatures {
   coroutines: boolean;
   requestResponse: boolean;
@@ -40,6 +92,61 @@ export interface Message {
   recipient: string;
 }
 
+export type JournalDirection = 'sent' | 'received' | 'log';
+
+/**
+ * A message persisted to a process's journal, one JSON object per line.
+ * `sent` messages were sent by ao-forge, `received` ones came back from the
+ * process, and `log` entries are its output.
+ */
+export interface JournalEntry extends Omit<Message, 'timestamp'> {
+  process: string;
+  direction: JournalDirection;
+  timestamp: string;
+}
+
+export interface MessageTag {
+  name: string;
+  value: string;
+}
+
+/** An AO message as submitted to a messenger unit */
+export interface OutgoingMessage {
+  target: string;
+  tags: MessageTag[];
+  data: string;
+}
+
+/** A new AO process as submitted to a messenger unit */
+export interface SpawnRequest {
+  module: string;
+  scheduler: string;
+  tags: MessageTag[];
+  data?: string;
+}
+
+/** Result of evaluating a message, as returned by a compute unit */
+export interface MessageResult {
+  Messages: any[];
+  Spawns: any[];
+  Output: any;
+  Error?: any;
+  GasUsed?: number;
+}
+
+/** RSA key in JSON Web Key form, as used for Arweave wallets */
+export interface JWK {
+  kty: string;
+  n: string;
+  e: string;
+  d?: string;
+  p?: string;
+  q?: string;
+  dp?: string;
+  dq?: string;
+  qi?: string;
+}
+
 export interface ProcessOptions {
   name: string;
   wallet?: string;
@@ -52,6 +159,73 @@ export interface ProcessOptions {
   bootloader?: BootloaderConfig;
 }
 
+/** A process declared under `processes:` in ao.config.yml, keyed by its name */
+export interface ProcessDefinition extends Omit<ProcessOptions, 'name' | 'bootloader'> {
+  /** Processes `process up` starts first; their IDs are injected into this one */
+  dependsOn?: string[];
+  inject?: 'globals' | 'tags';
+  /** Overrides the project-wide health checks */
+  health?: HealthConfig;
+}
+
+export type HealthCheckConfig =
+  | { type: 'pid'; name?: string }
+  /** Evaluate code in the process; passes when it answers (and its output contains `expect`) */
+  | { type: 'eval'; name?: string; code: string; expect?: string }
+  /** Dry-run an action; passes when a reply carries every field as a tag or JSON data key */
+  | { type: 'info'; name?: string; action: string; fields: string[] };
+
+export interface HealthConfig {
+  /** Per check, e.g. "10s" */
+  timeout: string | number;
+  checks: HealthCheckConfig[];
+}
+
+/** Most a handler may cost when it handles one message */
+export interface CostBudget {
+  /** Lua VM instructions */
+  instructions?: number;
+  /** Bytes of Lua heap left after garbage collection */
+  memory?: number;
+}
+
+export interface ProfileConfig {
+  /** Where `test --update-baseline` stores handler costs, relative to the project */
+  baseline: string;
+  /** Percentage a handler may cost over its baseline before it is flagged */
+  tolerance: number;
+  /** Applies to every handler */
+  budget: CostBudget;
+  /** Budgets by handler name, in place of `budget` */
+  handlers: Record<string, CostBudget>;
+}
+
+/** What `ao-forge fuzz` checks and sends for one process */
+export interface FuzzConfig {
+  /** Lua returning true while the process state is valid, by name */
+  invariants: Record<string, string>;
+  /** Only send these actions, instead of those the process's Handlers take */
+  actions: string[];
+}
+
+export type HealthCheckStatus = 'pass' | 'fail' | 'skip';
+
+export interface HealthCheckResult {
+  name: string;
+  type: HealthCheckConfig['type'];
+  status: HealthCheckStatus;
+  message: string;
+  duration: number;
+}
+
+/** Outcome of `process health` for one process */
+export interface HealthReport {
+  process: string;
+  healthy: boolean;
+  checkedAt: string;
+  checks: HealthCheckResult[];
+}
+
 export interface BootloaderConfig {
   script?: string;
   txId?: string;
@@ -71,6 +245,7 @@ export interface AOConfig {
   packageManager: 'npm' | 'yarn' | 'pnpm';
   framework: 'nextjs' | 'nuxtjs' | 'svelte' | 'react' | 'vue';
   processName: string;
+  processes?: Record<string, ProcessDefinition>;
   ports: {
     dev: number;
     build?: number;
@@ -83,10 +258,43 @@ export interface AOConfig {
       weavedrive: boolean;
     };
   };
+  ai?: {
+    provider: 'openai' | 'anthropic';
+    model: string;
+    apiKey?: string;
+  };
+  /** Wallet name or JWK path for processes and messages; defaults to the aos wallet in ~/.aos.json */
+  wallet?: string;
+  /** Name of a profile in `networks`, or the endpoints themselves */
+  network?: string | NetworkConfig;
+  networks?: Record<string, NetworkConfig>;
+  health?: HealthConfig;
+  profile?: ProfileConfig;
+  /** By process name */
+  fuzz?: Record<string, FuzzConfig>;
   runWithAO: boolean;
   tags: Record<string, string>;
 }
 
+/** AO units to talk to; aos's and aoconnect's defaults are used for any left out */
+export interface NetworkConfig {
+  muUrl?: string;
+  cuUrl?: string;
+  /** Its GraphQL endpoint tells aoconnect where processes are scheduled */
+  gatewayUrl?: string;
+  /** Module new processes are spawned from */
+  module?: string;
+  /** Scheduler new processes are assigned to */
+  scheduler?: string;
+  /** Wallet name or path used on this network */
+  wallet?: string;
+}
+
+export interface ResolvedNetwork extends NetworkConfig {
+  /** Profile name, unset for endpoints given inline */
+  name?: string;
+}
+
 export interface CreateProjectOptions {
   name: string;
   framework: 'nextjs' | 'nuxtjs' | 'svelte' | 'react' | 'vue';
@@ -97,9 +305,33 @@ export interface CreateProjectOptions {
   initializeGit?: boolean;
 }
 
+export type ProcessInfoStatus = 'running' | 'restarting' | 'stopped' | 'exited' | 'error';
+
+export type RestartPolicy = 'no' | 'on-failure' | 'always';
+
 export interface ProcessInfo {
   name: string;
+  projectPath: string;
   pid: number;
+  /** Start time of the PID when registered, to tell it from a later process given the same PID */
+  pidIdentity?: string;
   startTime: string;
+  status: ProcessInfoStatus;
   config: AOConfig;
+  stopTime?: string;
+  exitCode?: number | null;
+  socketPath?: string;
+  restartPolicy?: RestartPolicy;
+  restartCount?: number;
+  lastExitCode?: number | null;
+  /** AO process ID, once known */
+  processId?: string;
+  /** Run by the local emulator, with no network */
+  local?: boolean;
+  /** Address that owns a local process */
+  owner?: string;
+  /** Temporary directory holding its decrypted wallet */
+  walletDir?: string;
+  /** IDs of its dependencies that `process up` injected, by name */
+  dependencies?: Record<string, string>;
 } 
\ No newline at end of file
@@ -31,4 +31,140 @@ export interface PerformanceReport {
     averageDuration: number;
     slowestOperation: string;
   };
-} 
\ No newline at end of file
+}
+
+export type DoctorStatus = 'pass' | 'warn' | 'fail';
+
+export interface DoctorCheckResult {
+  name: string;
+  status: DoctorStatus;
+  message: string;
+  /** What to do about a warning or failure */
+  fix?: string;
+}
+
+/** Outcome of `ao-forge doctor`; ok unless a check failed */
+export interface DoctorReport {
+  ok: boolean;
+  checks: DoctorCheckResult[];
+}
+
+export type SpecStatus = 'passed' | 'failed' | 'skipped';
+
+export interface SpecTestResult {
+  /** Names of the enclosing describe blocks and the test, space-separated */
+  name: string;
+  status: SpecStatus;
+  /** Milliseconds */
+  duration: number;
+  error?: string;
+}
+
+export interface SpecFileResult {
+  /** Relative to the project */
+  file: string;
+  duration: number;
+  tests: SpecTestResult[];
+  /** Why the file could not be run, e.g. a Lua error outside any test */
+  error?: string;
+}
+
+/** Outcome of `ao-forge test`; ok unless a test or file failed */
+export interface TestReport {
+  ok: boolean;
+  files: SpecFileResult[];
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number;
+  coverage?: CoverageSummary;
+  profile?: ProfileReport;
+}
+
+/** One way through an `if`: its then, elseif or else arm */
+export interface BranchCoverage {
+  line: number;
+  /** The `if` statement, numbered from 0 in the file */
+  block: number;
+  /** The arm, numbered from 0 within the statement */
+  branch: number;
+  /** then, elseif, else or implicit else */
+  label: string;
+  hits: number;
+}
+
+/** A handler added with `Handlers.add` (or append, prepend, once) */
+export interface HandlerCoverage {
+  name: string;
+  line: number;
+  hits: number;
+}
+
+export interface FileCoverage {
+  /** Relative to the project */
+  file: string;
+  /** Hits of each line that has code */
+  lines: Record<number, number>;
+  branches: BranchCoverage[];
+  handlers: HandlerCoverage[];
+  /** Why the file could not be analysed, e.g. a syntax error */
+  error?: string;
+}
+
+export interface CoverageTotals {
+  covered: number;
+  total: number;
+  /** 100 when there is nothing to cover */
+  percent: number;
+}
+
+export interface CoverageSummary {
+  files: FileCoverage[];
+  lines: CoverageTotals;
+  branches: CoverageTotals;
+  handlers: CoverageTotals;
+  /** Percentage lines and branches must each reach */
+  threshold?: number;
+  /** False when below the threshold */
+  ok: boolean;
+}
+
+export interface HandlerCost {
+  /** Lua VM instructions */
+  instructions: number;
+  /** Bytes the Lua heap grew by, after garbage collection; negative when it shrank */
+  memory: number;
+}
+
+/** One run of a handler, measured by the profiler */
+export interface HandlerRun extends HandlerCost {
+  process: string;
+  handler: string;
+  /** Action of the message it handled */
+  action?: string;
+  /** Whether the handler raised an error */
+  failed: boolean;
+}
+
+/** Costs of a handler over every message it handled */
+export interface HandlerProfile {
+  process: string;
+  handler: string;
+  calls: number;
+  /** Mean of its runs */
+  mean: HandlerCost;
+  /** Most of any run, which budgets and the baseline are checked against */
+  max: HandlerCost;
+  baseline?: HandlerCost;
+  /** Budgets and baseline it went over */
+  violations: string[];
+}
+
+export interface ProfileReport {
+  ok: boolean;
+  handlers: HandlerProfile[];
+  /** Relative to the project */
+  baselineFile: string;
+  /** Whether this run was saved as the baseline */
+  updated: boolean;
+}
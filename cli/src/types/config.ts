@@ -1,11 +1,80 @@
 import { z } from 'zod';
 import { ProcessState } from './aos.js';
 
+export const HealthCheckSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('pid'),
+    name: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('eval'),
+    name: z.string().optional(),
+    code: z.string().default('return "pong"'),
+    expect: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('info'),
+    name: z.string().optional(),
+    action: z.string().default('Info'),
+    fields: z.array(z.string()).default([]),
+  }),
+]);
+
+export const HealthConfigSchema = z.object({
+  timeout: z.union([z.string(), z.number()]).default('10s'),
+  checks: z.array(HealthCheckSchema).min(1).default([{ type: 'pid' }, { type: 'eval', code: 'return "pong"' }]),
+});
+
+const CostBudgetSchema = z.object({
+  instructions: z.number().int().positive().optional(),
+  memory: z.number().int().positive().optional(),
+});
+
+export const ProfileConfigSchema = z.object({
+  baseline: z.string().default('profile-baseline.json'),
+  tolerance: z.number().min(0).default(10),
+  budget: CostBudgetSchema.default({}),
+  handlers: z.record(CostBudgetSchema).default({}),
+});
+
+export const FuzzConfigSchema = z.object({
+  invariants: z.record(z.string()).default({}),
+  actions: z.array(z.string()).default([]),
+});
+
+const ArweaveIdSchema = z.string().regex(/^[A-Za-z0-9_-]{43}$/, 'Must be a 43 character Arweave ID');
+
+export const NetworkProfileSchema = z.object({
+  gatewayUrl: z.string().url().optional(),
+  cuUrl: z.string().url().optional(),
+  muUrl: z.string().url().optional(),
+  module: ArweaveIdSchema.optional(),
+  scheduler: ArweaveIdSchema.optional(),
+  wallet: z.string().optional(),
+});
+
+export const ProcessDefinitionSchema = z.object({
+  luaFiles: z.array(z.string()).default([]),
+  wallet: z.string().optional(),
+  module: z.string().optional(),
+  cron: z.string().optional(),
+  tags: z.record(z.string()).default({}),
+  monitor: z.boolean().default(false),
+  sqlite: z.boolean().default(false),
+  dependsOn: z.array(z.string()).default([]),
+  inject: z.enum(['globals', 'tags']).default('globals'),
+  health: HealthConfigSchema.optional(),
+});
+
 export const AOConfigSchema = z.object({
   luaFiles: z.array(z.string()).default([]),
   packageManager: z.enum(['npm', 'yarn', 'pnpm']).default('pnpm'),
   framework: z.enum(['nextjs', 'nuxtjs', 'svelte', 'react', 'vue']).default('nextjs'),
   processName: z.string().default('ao-process'),
+  processes: z.record(
+    z.string().regex(/^[a-zA-Z0-9_-]+$/, 'Process names may only contain letters, numbers, hyphens and underscores'),
+    ProcessDefinitionSchema
+  ).optional(),
   ports: z.object({
     dev: z.number().default(3000),
   }).default({ dev: 3000 }),
@@ -33,6 +102,15 @@ export const AOConfigSchema = z.object({
     model: z.string().default('gpt-4o'),
     apiKey: z.string().optional(),
   }).optional(),
+  wallet: z.string().optional(),
+  network: z.union([z.string(), NetworkProfileSchema]).optional(),
+  networks: z.record(
+    z.string().regex(/^[a-zA-Z0-9_-]+$/, 'Network names may only contain letters, numbers, hyphens and underscores'),
+    NetworkProfileSchema
+  ).optional(),
+  health: HealthConfigSchema.optional(),
+  profile: ProfileConfigSchema.optional(),
+  fuzz: z.record(FuzzConfigSchema).optional(),
   runWithAO: z.boolean().default(false),
   tags: z.record(z.string()).default({}),
 });
@@ -0,0 +1,40 @@
+/** A message the fuzzer sends, as a scenario send step gives it */
+export interface FuzzMessage {
+  /** Sender label, such as alice */
+  from: string;
+  action: string;
+  tags: Record<string, string>;
+}
+
+export interface InvariantFailure {
+  invariant: string;
+  /** What the invariant returned, or the error it raised */
+  reason: string;
+}
+
+export interface FuzzFailure extends InvariantFailure {
+  /** Seed of the run, which the saved scenario replays with */
+  seed: number;
+  /** Messages sent before the invariant failed, before shrinking */
+  sent: number;
+  /** The fewest messages found that still make it fail */
+  messages: FuzzMessage[];
+  /** Scenario file, relative to the project */
+  file: string;
+}
+
+export interface FuzzReport {
+  process: string;
+  seed: number;
+  runs: number;
+  /** Messages sent over all runs */
+  messages: number;
+  actions: string[];
+  /** Handlers whose pattern did not tell which messages they take */
+  skippedHandlers: string[];
+  invariants: string[];
+  /** The first failure found; fuzzing stops there */
+  failure?: FuzzFailure;
+  ok: boolean;
+  duration: number;
+}
@@ -0,0 +1,95 @@
+import { z } from 'zod';
+
+// YAML numbers and booleans are accepted where AO wants strings
+const TagValueSchema = z.union([z.string(), z.number(), z.boolean()]).transform(String);
+
+export const MessageExpectationSchema = z.object({
+  /** Process name from the scenario, or an address */
+  target: z.string().optional(),
+  /** Process that sent it */
+  from: z.string().optional(),
+  action: z.string().optional(),
+  data: z.union([z.string(), z.number()]).transform(String).optional(),
+  tags: z.record(TagValueSchema).default({}),
+}).strict();
+
+export const ExpectationSchema = z.object({
+  /** true: the step must fail; false: it must not; text: it must fail with an error containing it */
+  error: z.union([z.boolean(), z.string()]).optional(),
+  /** Text the output must contain */
+  output: z.string().optional(),
+  /** Each must match a different outgoing message */
+  messages: z.array(MessageExpectationSchema).optional(),
+  /** Lua expressions evaluated in the process after the step, and their expected values */
+  state: z.record(z.any()).optional(),
+}).strict();
+
+export const SpawnStepSchema = z.object({
+  spawn: z.string(),
+  /** Instead of the Lua files of the process defined in ao.config.yml */
+  luaFiles: z.array(z.string()).optional(),
+  owner: z.string().optional(),
+  expect: ExpectationSchema.optional(),
+}).strict();
+
+export const SendStepSchema = z.object({
+  send: z.string(),
+  from: z.string().optional(),
+  action: z.string().optional(),
+  tags: z.record(TagValueSchema).default({}),
+  data: z.union([z.string(), z.number()]).transform(String).optional(),
+  expect: ExpectationSchema.optional(),
+}).strict();
+
+export const EvalStepSchema = z.object({
+  eval: z.string(),
+  code: z.string().optional(),
+  expect: ExpectationSchema.optional(),
+}).strict();
+
+// Steps are told apart by their spawn, send or eval key and validated one by one
+export const ScenarioSchema = z.object({
+  name: z.string().optional(),
+  /** Makes local runs repeat exactly; `--seed` overrides it */
+  seed: z.number().int().min(0).max(0xFFFFFFFF).optional(),
+  steps: z.array(z.record(z.unknown())).min(1),
+}).strict();
+
+export type MessageExpectation = z.infer<typeof MessageExpectationSchema>;
+export type Expectation = z.infer<typeof ExpectationSchema>;
+export type SpawnStep = z.infer<typeof SpawnStepSchema>;
+export type SendStep = z.infer<typeof SendStepSchema>;
+export type EvalStep = z.infer<typeof EvalStepSchema>;
+export type ScenarioStep = SpawnStep | SendStep | EvalStep;
+
+export interface Scenario {
+  name?: string;
+  seed?: number;
+  steps: ScenarioStep[];
+}
+
+export type ScenarioStepStatus = 'passed' | 'failed' | 'skipped';
+
+export interface ScenarioStepResult {
+  /** What the step did, e.g. "send Transfer to token" */
+  description: string;
+  status: ScenarioStepStatus;
+  /** One entry per unmet expectation, with the differences found */
+  failures: string[];
+  duration: number;
+}
+
+export interface ScenarioReport {
+  name: string;
+  /** Relative to the project */
+  file: string;
+  /** `local`, or the network profile the scenario ran against */
+  target: string;
+  /** Seed of a local run, to repeat it */
+  seed?: number;
+  ok: boolean;
+  steps: ScenarioStepResult[];
+  duration: number;
+  /** Why the file could not be run, e.g. invalid YAML */
+  error?: string;
+}
@@ -69,13 +69,14 @@ describe('BuildCommand', () => {
     it('should create build command with correct properties', () => {
       expect(command.name).toBe('build');
       expect(command.description).toBe('Build the project for production');
-      expect(command.options.length).toBe(2);
+      expect(command.options.length).toBe(3);
     });
 
     it('should have correct option flags', () => {
       const optionFlags = command.options.map(opt => opt.flag);
       expect(optionFlags).toContain('-o, --output <dir>');
       expect(optionFlags).toContain('--clean');
+      expect(optionFlags).toContain('--process <name>');
     });
   });
 
@@ -108,6 +109,49 @@ describe('BuildCommand', () => {
     });
   });
 
+  describe('process definitions', () => {
+    beforeEach(() => {
+      const { ConfigManager } = require('../../../../src/core/managers/config-manager') as any;
+      ConfigManager.mockImplementation(() => ({
+        // @ts-expect-error - Jest mock typing issue
+        loadConfig: jest.fn().mockResolvedValue({
+          framework: 'nextjs',
+          packageManager: 'npm',
+          processName: 'token',
+          processes: {
+            token: { luaFiles: ['token.lua'], tags: {} },
+            dex: { luaFiles: ['dex.lua'], module: 'mod-1', wallet: 'dex.json' }
+          }
+        })
+      }));
+    });
+
+    it('should package each process into its own directory', async () => {
+      const fs = require('fs-extra') as any;
+      await command.execute({ output: 'dist' });
+
+      expect(fs.copy).toHaveBeenCalledWith(expect.stringContaining('token.lua'), expect.stringContaining('aos/token/token.lua'));
+      expect(fs.copy).toHaveBeenCalledWith(expect.stringContaining('dex.lua'), expect.stringContaining('aos/dex/dex.lua'));
+      const manifest = fs.writeJSON.mock.calls[0][1];
+      expect(manifest.processes).toEqual({
+        token: { luaFiles: ['token.lua'], tags: {} },
+        dex: { luaFiles: ['dex.lua'], module: 'mod-1' }
+      });
+    });
+
+    it('should only package the selected process', async () => {
+      const fs = require('fs-extra') as any;
+      await command.execute({ output: 'dist', process: 'dex' });
+
+      expect(fs.copy).not.toHaveBeenCalledWith(expect.anything(), expect.stringContaining('aos/token'));
+      expect(Object.keys(fs.writeJSON.mock.calls[0][1].processes)).toEqual(['dex']);
+    });
+
+    it('should reject unknown processes', async () => {
+      await expect(command.execute({ output: 'dist', process: 'bridge' })).rejects.toThrow('Unknown process: bridge');
+    });
+  });
+
   describe('help text', () => {
     it('should return help text with examples', () => {
       const helpText = command['getHelpText']();
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import os from 'os';
+import net from 'net';
+import path from 'path';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import {
+  CommandRunner,
+  DoctorManager,
+  parseVersion,
+  renderDoctorReport
+} from '../../../../src/core/managers/doctor-manager';
+import { WalletManager } from '../../../../src/core/managers/wallet-manager';
+import { APIKeyManager } from '../../../../src/ai/api-config';
+import { createMockConfig } from '../../../setup';
+
+jest.mock('../../../../src/core/utils/logging');
+
+describe('DoctorManager', () => {
+  let tempDir: string;
+  let versions: Record<string, string>;
+  let doctor: DoctorManager;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ao-forge-doctor-'));
+    versions = { git: 'git version 2.43.0', npm: '10.2.4', aos: '2.0.1' };
+    const run: CommandRunner = async command => {
+      if (!(command in versions)) {
+        throw new Error(`spawn ${command} ENOENT`);
+      }
+      return versions[command];
+    };
+    doctor = new DoctorManager(run, new WalletManager(path.join(tempDir, 'wallets')), new APIKeyManager(path.join(tempDir, 'ao-config')));
+  });
+
+  afterEach(async () => {
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.ANTHROPIC_API_KEY;
+    await fs.remove(tempDir);
+  });
+
+  it('should parse versions out of command output', () => {
+    expect(parseVersion('aos 2.0.4')).toEqual({ major: 2, version: '2.0.4' });
+    expect(parseVersion('v18.19.0')).toEqual({ major: 18, version: '18.19.0' });
+    expect(parseVersion('unknown')).toBeNull();
+  });
+
+  it('should fail on a Node.js older than 18', () => {
+    expect(doctor.checkNode('16.20.2').status).toBe('fail');
+    expect(doctor.checkNode('20.11.0')).toEqual({ name: 'Node.js', status: 'pass', message: 'v20.11.0' });
+  });
+
+  it('should fail when the aos major version does not match aos.version', async () => {
+    const config = createMockConfig({ aos: { version: '1.x', features: { coroutines: true, bootloader: false, weavedrive: false } } });
+
+    const [installed, version] = await doctor.checkAOS(config);
+
+    expect(installed.status).toBe('pass');
+    expect(version).toMatchObject({ status: 'fail', message: 'aos 2.0.1 does not match aos.version 1.x' });
+    expect(version.fix).toContain("aos.version: '2.x'");
+  });
+
+  it('should fail with an install hint when aos is missing', async () => {
+    delete versions.aos;
+
+    const [installed, version] = await doctor.checkAOS(createMockConfig());
+
+    expect(installed).toMatchObject({ status: 'fail', message: 'aos not found' });
+    expect(installed.fix).toContain('npm i -g');
+    expect(version.status).toBe('warn');
+  });
+
+  it('should report every problem in an invalid config', async () => {
+    await fs.writeFile(path.join(tempDir, 'ao.config.yml'), 'packageManager: bun\nluaFiles: main.lua\n');
+
+    const { result } = await doctor.checkConfig(tempDir);
+
+    expect(result.status).toBe('fail');
+    expect(result.message).toContain('packageManager');
+    expect(result.message).toContain('luaFiles');
+  });
+
+  it('should warn when there is no config', async () => {
+    const { config, result } = await doctor.checkConfig(tempDir);
+
+    expect(result.status).toBe('warn');
+    expect(config.packageManager).toBe('npm');
+  });
+
+  it('should look for the key of the configured AI provider', async () => {
+    process.env.OPENAI_API_KEY = 'sk-test';
+    const config = createMockConfig({ ai: { provider: 'anthropic', model: 'claude' } });
+
+    expect(await doctor.checkAIKey(config)).toMatchObject({ status: 'warn', fix: expect.stringContaining('ANTHROPIC_API_KEY') });
+
+    process.env.ANTHROPIC_API_KEY = 'sk-ant-test';
+    expect((await doctor.checkAIKey(config)).status).toBe('pass');
+  });
+
+  it('should find a key saved by the ai commands', async () => {
+    const config = createMockConfig({ ai: { provider: 'anthropic', model: 'claude' } });
+    await new APIKeyManager(path.join(tempDir, 'ao-config')).saveConfig({ anthropic: 'sk-ant-saved' });
+
+    expect(await doctor.checkAIKey(config)).toMatchObject({ status: 'pass', message: expect.stringContaining('saved') });
+  });
+
+  it('should fail on a wallet that is not a 4096-bit key', async () => {
+    const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 1024 });
+    await fs.writeJSON(path.join(tempDir, 'small.json'), privateKey.export({ format: 'jwk' }));
+
+    const result = await doctor.checkWallet(tempDir, createMockConfig({ wallet: 'small.json' }));
+
+    expect(result).toMatchObject({ status: 'fail', message: expect.stringContaining('4096-bit') });
+  });
+
+  it('should fail on a missing wallet file', async () => {
+    const result = await doctor.checkWallet(tempDir, createMockConfig({ wallet: 'missing.json' }));
+
+    expect(result.status).toBe('fail');
+  });
+
+  it('should warn when the dev port is in use', async () => {
+    const server = net.createServer();
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const port = (server.address() as net.AddressInfo).port;
+
+    try {
+      const result = await doctor.checkDevPort(createMockConfig({ ports: { dev: port } }));
+      expect(result).toMatchObject({ status: 'warn', message: `${port} is in use` });
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it('should not be ok when any check fails', async () => {
+    delete versions.npm;
+    await fs.writeFile(path.join(tempDir, 'ao.config.yml'), 'packageManager: npm\n');
+
+    const report = await doctor.diagnose(tempDir);
+
+    expect(report.ok).toBe(false);
+    expect(report.checks.find(check => check.name === 'Package manager')).toMatchObject({ status: 'fail', message: 'npm not found' });
+    expect(report.checks.find(check => check.name === 'git')?.status).toBe('pass');
+  });
+
+  it('should render fixes for warnings and failures only', () => {
+    const output = renderDoctorReport({
+      ok: false,
+      checks: [
+        { name: 'git', status: 'pass', message: 'git 2.43.0', fix: 'unused' },
+        { name: 'aos', status: 'fail', message: 'aos not found', fix: 'Install aos' }
+      ]
+    });
+
+    expect(output).toContain('aos  aos not found');
+    expect(output).toContain('Fix: Install aos');
+    expect(output).not.toContain('unused');
+    expect(output).toContain('1 passed, 0 warning(s), 1 failed');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { FuzzManager, renderFuzzReport } from '../../../../src/core/managers/fuzz-manager';
+import { ScenarioManager } from '../../../../src/core/managers/scenario-manager';
+import { FUZZ_SENDERS } from '../../../../src/core/process/fuzz';
+import { ValidationError } from '../../../../src/core/utils/error-handling';
+import { createMockConfig } from '../../../setup';
+
+jest.mock('../../../../src/core/utils/logging');
+
+// Transfer takes negative quantities, and debits before checking the recipient
+const TOKEN = `
+Balances = Balances or { [Owner] = 1000 }
+TotalSupply = TotalSupply or 1000
+
+Handlers.add('transfer', { Action = 'Transfer' }, function(msg)
+  local quantity = assert(tonumber(msg.Quantity), 'Invalid quantity')
+  assert((Balances[msg.From] or 0) >= quantity, 'Insufficient balance')
+  Balances[msg.From] = Balances[msg.From] - quantity
+  Balances[msg.Recipient] = (Balances[msg.Recipient] or 0) + quantity
+end)
+
+Handlers.add('balance', Handlers.utils.hasMatchingTag('Action', 'Balance'), function(msg)
+  msg.reply({ Balance = tostring(Balances[msg.Tags.Target or msg.From] or 0) })
+end)
+
+Handlers.add('cron', function(msg) return msg.Cron ~= nil end, function() end)
+`;
+
+const POSITIVE = `
+for _, balance in pairs(Balances) do
+  if balance < 0 then return false end
+end
+return true
+`;
+
+const SUPPLY = `
+local sum = 0
+for _, balance in pairs(Balances) do sum = sum + balance end
+return sum == TotalSupply
+`;
+
+describe('FuzzManager', () => {
+  let tempDir: string;
+  let manager: FuzzManager;
+  const config = createMockConfig({ processes: { token: { luaFiles: ['ao/token.lua'] } } });
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ao-forge-fuzz-'));
+    await fs.outputFile(path.join(tempDir, 'ao', 'token.lua'), TOKEN);
+    manager = new FuzzManager();
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  it('should find a broken invariant, shrink it and save a scenario that replays it', async () => {
+    // Not a wallet; senders must not be resolved to files of the project
+    await fs.outputFile(path.join(tempDir, 'alice'), 'not a wallet');
+    const report = await manager.run(tempDir, config, 'token', {
+      seed: 1,
+      runs: 20,
+      length: 10,
+      invariants: { positive: POSITIVE }
+    });
+
+    expect(report.actions).toEqual(['Transfer', 'Balance']);
+    expect(report.skippedHandlers).toEqual(['cron']);
+    expect(report.ok).toBe(false);
+    expect(report.failure).toMatchObject({ invariant: 'positive', reason: 'returned false' });
+    const [transfer] = report.failure!.messages;
+    expect(report.failure!.messages).toHaveLength(1);
+    expect(transfer).toMatchObject({ from: FUZZ_SENDERS[0], action: 'Transfer' });
+    expect(Number(transfer.tags.Quantity)).toBeLessThan(0);
+    expect(renderFuzzReport(report)).toContain(`Replay with: ao-forge scenario run ${report.failure!.file}`);
+
+    const [replay] = await new ScenarioManager().run(tempDir, config, [report.failure!.file]);
+    expect(replay.seed).toBe(report.failure!.seed);
+    expect(replay.steps.map(step => step.status)).toEqual(['passed', 'passed', 'failed']);
+    expect(replay.steps[2].failures[0]).toContain('Invariant positive does not hold');
+  });
+
+  it('should repeat a session with the same seed', async () => {
+    const options = { seed: 7, runs: 2, length: 5, invariants: { supply: SUPPLY }, actions: ['Balance'] };
+    const config = createMockConfig({
+      processes: { token: { luaFiles: ['ao/token.lua'] } },
+      fuzz: { token: { invariants: { holds: 'TotalSupply == 1000' }, actions: [] } }
+    });
+
+    const first = await manager.run(tempDir, config, 'token', options);
+    const second = await manager.run(tempDir, config, 'token', options);
+
+    expect(first).toMatchObject({ ok: true, runs: 2, messages: 10, actions: ['Balance'], invariants: ['holds', 'supply'] });
+    expect({ ...second, duration: 0 }).toEqual({ ...first, duration: 0 });
+    expect(renderFuzzReport(first)).toContain('All invariants held');
+    expect(await fs.pathExists(path.join(tempDir, 'scenarios'))).toBe(false);
+  });
+
+  it('should require an invariant', async () => {
+    await expect(manager.run(tempDir, config, 'token')).rejects.toThrow(ValidationError);
+  });
+});
@@ -1,12 +1,28 @@
 import { ProcessManager, Schedule } from '../../../../src/core/managers/process-manager';
 import { AOConfig } from '../../../../src/types/aos';
 import { logger } from '../../../../src/core/utils/logging';
+import { LocalTransport } from '../../../../src/core/process/transport';
+import fs from 'fs-extra';
 
 // Mock dependencies
 jest.mock('../../../../src/core/utils/logging');
 jest.mock('fs-extra');
 jest.mock('child_process');
 
+// A child that starts, or fails to with the given error
+const createMockChild = (error?: Error) => ({
+  pid: 12345,
+  stdout: { on: jest.fn() },
+  stderr: { on: jest.fn() },
+  on: jest.fn(),
+  once: jest.fn((event: string, listener: (error?: Error) => void) => {
+    if (event === (error ? 'error' : 'spawn')) {
+      setImmediate(() => listener(error));
+    }
+  }),
+  removeListener: jest.fn()
+});
+
 describe('ProcessManager', () => {
   let processManager: ProcessManager;
   let mockConfig: AOConfig;
@@ -59,12 +75,7 @@ describe('ProcessManager', () => {
 
   describe('startAOProcess', () => {
     it('should start an AO process with correct arguments', async () => {
-      const mockSpawn = jest.fn().mockReturnValue({
-        pid: 12345,
-        stdout: { on: jest.fn() },
-        stderr: { on: jest.fn() },
-        on: jest.fn()
-      });
+      const mockSpawn = jest.fn().mockReturnValue(createMockChild());
 
       const { spawn } = require('child_process');
       spawn.mockImplementation(mockSpawn);
@@ -77,6 +88,41 @@ describe('ProcessManager', () => {
       });
       expect(result).toBeDefined();
     });
+
+    it('should fill in endpoints, module and scheduler from the network profile', async () => {
+      const mockSpawn = jest.fn().mockReturnValue(createMockChild());
+      const { spawn } = require('child_process');
+      spawn.mockImplementation(mockSpawn);
+      const config: AOConfig = {
+        ...mockConfig,
+        network: 'local',
+        networks: {
+          local: { gatewayUrl: 'http://localhost:4000', cuUrl: 'http://localhost:6363', module: 'm'.repeat(43), scheduler: 's'.repeat(43) }
+        }
+      };
+
+      await processManager.startAOProcess('/test/path', config, { cuUrl: 'http://localhost:7000' });
+
+      const [, args, options] = mockSpawn.mock.calls[0] as [string, string[], any];
+      expect(args.join(' ')).toContain(`--module ${'m'.repeat(43)}`);
+      expect(args.join(' ')).toContain('--gateway-url http://localhost:4000 --cu-url http://localhost:7000');
+      expect(options.env.SCHEDULER).toBe('s'.repeat(43));
+    });
+
+    it('should reject aos flags that local processes do not support', async () => {
+      await expect(processManager.startAOProcess('/test/path', mockConfig, { local: true, data: 'data.txt' }))
+        .rejects.toThrow('--data is not supported for local processes');
+      await expect(processManager.startAOProcess('/test/path', mockConfig, { local: true, cron: '5-minutes' }))
+        .rejects.toThrow('cron is not supported for local processes');
+    });
+
+    it('should reject when aos is not installed', async () => {
+      const { spawn } = require('child_process');
+      spawn.mockReturnValue(createMockChild(Object.assign(new Error('spawn aos ENOENT'), { code: 'ENOENT' })));
+
+      await expect(processManager.startAOProcess('/test/path', mockConfig)).rejects.toThrow('spawn aos ENOENT');
+      expect(logger.error).toHaveBeenCalledWith('AOS command not found. Please install AOS first:');
+    });
   });
 
   describe('stopProcess', () => {
@@ -96,6 +142,266 @@ describe('ProcessManager', () => {
     });
   });
 
+  describe('stopProcessByName', () => {
+    it('should fail for a process that was never registered', async () => {
+      jest.spyOn(processManager.getRegistry(), 'get').mockResolvedValue(null);
+
+      await expect(processManager.stopProcessByName('/test/path', 'missing'))
+        .rejects.toThrow('No process named "missing" found for this project');
+    });
+
+    it('should mark an already exited process as stopped', async () => {
+      const registry = processManager.getRegistry();
+      jest.spyOn(registry, 'get').mockResolvedValue({
+        name: 'token',
+        projectPath: '/test/path',
+        pid: 2147483646,
+        startTime: new Date().toISOString(),
+        status: 'running',
+        config: mockConfig
+      });
+      const update = jest.spyOn(registry, 'update').mockResolvedValue(null);
+
+      const result = await processManager.stopProcessByName('/test/path', 'token');
+
+      expect(result).toBe(false);
+      expect(update).toHaveBeenCalledWith('/test/path', 'token', { status: 'stopped' });
+    });
+  });
+
+  describe('process groups', () => {
+    const groupConfig = () => ({
+      ...mockConfig,
+      processes: {
+        dex: { luaFiles: ['dex.lua'], dependsOn: ['token', 'oracle'], inject: 'tags' as const },
+        oracle: { luaFiles: ['oracle.lua'] },
+        token: { luaFiles: ['token.lua'], dependsOn: ['oracle'] }
+      }
+    });
+
+    it('should start processes in dependency order and inject earlier IDs', async () => {
+      jest.spyOn(processManager.getRegistry(), 'get').mockResolvedValue(null);
+      const start = jest.spyOn(ProcessManager.prototype, 'startAOProcessBackground').mockResolvedValue({} as any);
+      const wait = jest.spyOn(ProcessManager.prototype as any, 'waitForProcessId')
+        .mockImplementation(async (...args: any[]) => `${args[1]}-id`);
+
+      const results = await processManager.upProcesses('/test/path', groupConfig());
+
+      expect(results.map(result => result.name)).toEqual(['oracle', 'token', 'dex']);
+      expect(start.mock.calls[0][2]).toEqual(expect.objectContaining({ name: 'oracle', preload: undefined }));
+      expect(start.mock.calls[1][1].luaFiles).toEqual(['token.lua']);
+      expect(start.mock.calls[1][2]?.preload).toEqual([expect.stringContaining('token.lua')]);
+      expect(start.mock.calls[2][2]?.tags).toEqual({ 'Process-Id-token': 'token-id', 'Process-Id-oracle': 'oracle-id' });
+      start.mockRestore();
+      wait.mockRestore();
+    });
+
+    it('should restart running dependents whose dependencies got new IDs', async () => {
+      const running = (name: string, dependencies?: Record<string, string>) => ({
+        name,
+        projectPath: '/test/path',
+        pid: process.pid,
+        startTime: new Date().toISOString(),
+        status: 'running' as const,
+        config: mockConfig,
+        dependencies
+      });
+      const registry = processManager.getRegistry();
+      jest.spyOn(registry, 'get').mockImplementation(async (_projectPath, name) => name === 'oracle' ? null
+        : running(name, name === 'token' ? { oracle: 'oracle-id' } : { token: 'token-id', oracle: 'old-oracle-id' }));
+      const update = jest.spyOn(registry, 'update').mockResolvedValue(null);
+      const stop = jest.spyOn(processManager, 'stopProcessByName').mockResolvedValue(true);
+      const start = jest.spyOn(ProcessManager.prototype, 'startAOProcessBackground').mockResolvedValue({} as any);
+      const wait = jest.spyOn(ProcessManager.prototype as any, 'waitForProcessId')
+        .mockImplementation(async (...args: any[]) => `${args[1]}-id`);
+
+      const results = await processManager.upProcesses('/test/path', groupConfig());
+
+      expect(results.map(result => [result.name, result.started])).toEqual([['oracle', true], ['token', false], ['dex', true]]);
+      expect(stop).toHaveBeenCalledWith('/test/path', 'dex');
+      expect(start.mock.calls.map(call => call[2]?.name)).toEqual(['oracle', 'dex']);
+      expect(update).toHaveBeenCalledWith('/test/path', 'dex', { dependencies: { token: 'token-id', oracle: 'oracle-id' } });
+      start.mockRestore();
+      wait.mockRestore();
+    });
+
+    it('should stop dependents before their dependencies', async () => {
+      jest.spyOn(processManager.getRegistry(), 'get').mockImplementation(async (_projectPath, name) => ({
+        name,
+        projectPath: '/test/path',
+        pid: process.pid,
+        startTime: new Date().toISOString(),
+        status: 'running',
+        config: mockConfig
+      }));
+      const stop = jest.spyOn(processManager, 'stopProcessByName').mockResolvedValue(true);
+
+      expect(await processManager.downProcesses('/test/path', groupConfig())).toEqual(['dex', 'token', 'oracle']);
+      expect(await processManager.downProcesses('/test/path', groupConfig(), { names: ['token'] })).toEqual(['dex', 'token']);
+      expect(stop).toHaveBeenCalledTimes(5);
+    });
+  });
+
+  describe('evaluateProcess', () => {
+    it('should require a running background process', async () => {
+      jest.spyOn(processManager.getRegistry(), 'get').mockResolvedValue(null);
+
+      await expect(processManager.evaluateProcess('return 1', { name: 'token', projectPath: '/test/path' }))
+        .rejects.toThrow('Process "token" is not running');
+    });
+
+    it('should require a process name', async () => {
+      await expect(processManager.evaluateProcess('return 1')).rejects.toThrow('No process specified for evaluation');
+    });
+  });
+
+  describe('sendMessage', () => {
+    const processId = 'p'.repeat(43);
+
+    it('should send to a process started by process up and await the result', async () => {
+      jest.spyOn(processManager.getRegistry(), 'get').mockResolvedValue({
+        name: 'token',
+        projectPath: '/test/path',
+        pid: process.pid,
+        startTime: new Date().toISOString(),
+        status: 'running',
+        config: mockConfig,
+        processId
+      });
+      const transport = new LocalTransport(message => ({
+        Messages: [{ Target: 'x'.repeat(43), Tags: [{ name: 'Action', value: 'Credit-Notice' }] }],
+        Spawns: [],
+        Output: `got ${message.tags[0].value}`
+      }));
+
+      const sent = await processManager.sendMessage('/test/path', mockConfig, {
+        target: 'token',
+        action: 'Transfer',
+        tags: ['Quantity=10'],
+        await: true,
+        transport
+      });
+
+      expect(sent.target).toBe(processId);
+      expect(sent.messageId).toHaveLength(43);
+      expect(sent.result?.Output).toBe('got Transfer');
+      expect(transport.sent[0].message).toEqual({
+        target: processId,
+        tags: [{ name: 'Action', value: 'Transfer' }, { name: 'Quantity', value: '10' }],
+        data: ''
+      });
+
+      // The message and its result are journaled under the process name
+      const journaled = (fs.appendFileSync as jest.Mock).mock.calls
+        .filter(call => String(call[0]).endsWith('/.ao-forge/messages/token.ndjson'))
+        .map(call => JSON.parse(String(call[1])));
+      expect(journaled.map(entry => [entry.direction, entry.action])).toEqual([
+        ['sent', 'Transfer'],
+        ['log', 'log'],
+        ['received', 'Credit-Notice']
+      ]);
+    });
+
+    it('should reject targets that are neither IDs nor known processes', async () => {
+      jest.spyOn(processManager.getRegistry(), 'get').mockResolvedValue(null);
+
+      await expect(processManager.sendMessage('/test/path', mockConfig, { target: 'ghost', transport: new LocalTransport() }))
+        .rejects.toThrow('Unknown target: ghost');
+    });
+
+    it('should reject a transport for a process running in the local emulator', async () => {
+      jest.spyOn(processManager.getRegistry(), 'get').mockResolvedValue({
+        name: 'token',
+        projectPath: '/test/path',
+        pid: process.pid,
+        startTime: new Date().toISOString(),
+        status: 'running',
+        config: mockConfig,
+        processId,
+        local: true
+      });
+
+      await expect(processManager.sendMessage('/test/path', mockConfig, { target: 'token', transport: 'aoconnect' }))
+        .rejects.toThrow('token runs in the local emulator; --transport does not apply to it');
+    });
+
+    it('should not wait for a result unless asked to', async () => {
+      const transport = new LocalTransport();
+      const result = jest.spyOn(transport, 'result');
+
+      const sent = await processManager.sendMessage('/test/path', mockConfig, { target: processId, transport });
+
+      expect(sent.result).toBeUndefined();
+      expect(result).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deployProcess', () => {
+    const network = { module: 'm'.repeat(43), scheduler: 's'.repeat(43) };
+
+    it('should spawn a process on the network scheduler and load its files', async () => {
+      (fs.readFile as unknown as jest.Mock).mockImplementation(async (file: any) =>
+        String(file).endsWith('token.lua') ? 'Balances = {}' : '');
+      const transport = new LocalTransport();
+
+      const deployed = await processManager.deployProcess('/test/path', { ...mockConfig, network }, {
+        name: 'token',
+        luaFiles: ['token.lua'],
+        tags: { 'App-Name': 'forge' }
+      } as any, { transport });
+
+      expect(transport.spawned).toEqual([{
+        module: network.module,
+        scheduler: network.scheduler,
+        tags: [{ name: 'Name', value: 'token' }, { name: 'App-Name', value: 'forge' }]
+      }]);
+      expect(deployed).toEqual({ name: 'token', processId: expect.stringMatching(/^[A-Za-z0-9_-]{43}$/) });
+      expect(transport.sent.map(entry => entry.message)).toEqual([{
+        target: deployed.processId,
+        tags: [{ name: 'Action', value: 'Eval' }],
+        data: 'Balances = {}'
+      }]);
+    });
+
+    it('should fail when a file does not load', async () => {
+      (fs.readFile as unknown as jest.Mock).mockImplementation(async () => 'error("broken")');
+      const transport = new LocalTransport(() => ({ Messages: [], Spawns: [], Output: '', Error: 'broken' }));
+
+      await expect(processManager.deployProcess('/test/path', { ...mockConfig, network }, { name: 'token', luaFiles: ['token.lua'] } as any, { transport }))
+        .rejects.toThrow('Could not load token.lua into token: broken');
+    });
+  });
+
+  describe('checkHealth', () => {
+    it('should check every defined process with its own checks', async () => {
+      jest.spyOn(processManager.getRegistry(), 'get').mockResolvedValue(null);
+      const config = {
+        ...mockConfig,
+        health: { timeout: '1s', checks: [{ type: 'pid' as const }] },
+        processes: {
+          token: { luaFiles: [] },
+          dex: { luaFiles: [], health: { timeout: '1s', checks: [{ type: 'info' as const, action: 'Info', fields: [] }] } }
+        }
+      };
+
+      const reports = await processManager.checkHealth('/test/path', config, { transport: new LocalTransport() });
+
+      expect(reports.map(report => [report.process, report.healthy, report.checks[0].type])).toEqual([
+        ['token', false, 'pid'],
+        ['dex', false, 'info']
+      ]);
+    });
+
+    it('should check processes that are not defined with the project checks', async () => {
+      jest.spyOn(processManager.getRegistry(), 'get').mockResolvedValue(null);
+
+      const [report] = await processManager.checkHealth('/test/path', mockConfig, { names: ['adhoc'] });
+
+      expect(report.process).toBe('adhoc');
+      expect(report.checks.map(check => check.status)).toEqual(['fail', 'skip']);
+    });
+  });
+
   describe('isProcessRunning', () => {
     it('should return true when process is running', () => {
       const mockProcess = { killed: false };
@@ -129,6 +435,25 @@ describe('ProcessManager', () => {
       expect(result).toBeNull();
     });
   });
+
+  describe('previewCron', () => {
+    it('should list upcoming runs for both schedule syntaxes', () => {
+      const from = new Date(2026, 0, 1, 10, 7);
+
+      expect(processManager.previewCron('5-minutes', 2, from)).toEqual([
+        new Date(2026, 0, 1, 10, 12),
+        new Date(2026, 0, 1, 10, 17)
+      ]);
+      expect(processManager.previewCron('0 * * * *', 2, from)).toEqual([
+        new Date(2026, 0, 1, 11, 0),
+        new Date(2026, 0, 1, 12, 0)
+      ]);
+    });
+
+    it('should reject invalid schedules', () => {
+      expect(() => processManager.previewCron('every minute', 3)).toThrow('Invalid schedule');
+    });
+  });
 });
 
 describe('Schedule', () => {
@@ -142,7 +467,7 @@ describe('Schedule', () => {
 
   describe('start', () => {
     it('should start the scheduler', async () => {
-      jest.spyOn(mockProcessManager, 'evaluateProcess').mockResolvedValue();
+      jest.spyOn(mockProcessManager, 'evaluateProcess').mockResolvedValue('');
 
       await schedule.start();
       
@@ -150,7 +475,7 @@ describe('Schedule', () => {
     });
 
     it('should throw error if already running', async () => {
-      jest.spyOn(mockProcessManager, 'evaluateProcess').mockResolvedValue();
+      jest.spyOn(mockProcessManager, 'evaluateProcess').mockResolvedValue('');
 
       await schedule.start();
       
@@ -160,7 +485,7 @@ describe('Schedule', () => {
 
   describe('stop', () => {
     it('should stop the scheduler', async () => {
-      jest.spyOn(mockProcessManager, 'evaluateProcess').mockResolvedValue();
+      jest.spyOn(mockProcessManager, 'evaluateProcess').mockResolvedValue('');
 
       await schedule.start();
       await schedule.stop();
@@ -171,7 +496,7 @@ describe('Schedule', () => {
 
   describe('isRunning', () => {
     it('should return true when scheduler is running', async () => {
-      jest.spyOn(mockProcessManager, 'evaluateProcess').mockResolvedValue();
+      jest.spyOn(mockProcessManager, 'evaluateProcess').mockResolvedValue('');
 
       await schedule.start();
       expect(schedule.isRunning()).toBe(true);
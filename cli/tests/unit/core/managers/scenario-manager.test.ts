@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { NetworkScenarioBackend, ScenarioManager, renderScenarioReport } from '../../../../src/core/managers/scenario-manager';
+import { ProcessManager } from '../../../../src/core/managers/process-manager';
+import { ProcessError } from '../../../../src/core/utils/error-handling';
+import { createMockConfig } from '../../../setup';
+
+jest.mock('../../../../src/core/utils/logging');
+
+const TOKEN = `
+Balances = Balances or { [Owner] = 100 }
+
+Handlers.add('transfer', { Action = 'Transfer' }, function(msg)
+  local quantity = tonumber(msg.Quantity)
+  assert(Balances[msg.From] and Balances[msg.From] >= quantity, 'Insufficient balance')
+  Balances[msg.From] = Balances[msg.From] - quantity
+  Balances[msg.Recipient] = (Balances[msg.Recipient] or 0) + quantity
+  msg.reply({ Action = 'Debit-Notice', Quantity = msg.Quantity })
+  Send({ Target = msg.Recipient, Action = 'Credit-Notice', Quantity = msg.Quantity })
+end)
+`;
+
+const TRANSFER = `
+name: transfer
+steps:
+  - spawn: token
+    owner: alice
+  - send: token
+    from: alice
+    action: Transfer
+    tags: { Recipient: $token, Quantity: 30 }
+    expect:
+      messages:
+        - { target: alice, action: Debit-Notice, tags: { Quantity: 30 } }
+        - { target: token, action: Credit-Notice }
+      state:
+        Balances: { alice: 70, $token: 30 }
+  - send: token
+    from: bob
+    action: Transfer
+    tags: { Recipient: alice, Quantity: 1 }
+    expect:
+      error: Insufficient balance
+  - eval: token
+    code: print(Balances.alice)
+    expect:
+      output: '70'
+`;
+
+const MISMATCH = `
+steps:
+  - spawn: token
+    owner: alice
+  - send: token
+    from: alice
+    action: Transfer
+    tags: { Recipient: bob, Quantity: 30 }
+    expect:
+      messages:
+        - { target: alice, action: Debit-Notice, tags: { Quantity: 20 } }
+      state:
+        Balances: { alice: 80, bob: 30, carol: 0 }
+  - send: nobody
+  - eval: token
+`;
+
+const ESCROW = `
+Handlers.add('credit', { Action = 'Credit-Notice' }, function(msg)
+  Received = (Received or 0) + tonumber(msg.Quantity)
+  Send({ Target = msg.From, Action = 'Transfer', Recipient = Owner, Quantity = msg.Quantity })
+end)
+`;
+
+const ESCROW_FLOW = `
+seed: 7
+steps:
+  - spawn: token
+    owner: alice
+  - spawn: escrow
+    luaFiles: [ao/escrow.lua]
+    owner: carol
+  - send: token
+    from: alice
+    action: Transfer
+    tags: { Recipient: $escrow, Quantity: 25 }
+    expect:
+      messages:
+        - { from: escrow, target: token, action: Transfer, tags: { Recipient: carol } }
+        - { from: token, target: carol, action: Credit-Notice }
+      state:
+        Balances: { alice: 75, carol: 25, $escrow: 0 }
+`;
+
+describe('ScenarioManager', () => {
+  let tempDir: string;
+  let manager: ScenarioManager;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ao-forge-scenario-'));
+    await fs.outputFile(path.join(tempDir, 'ao', 'token.lua'), TOKEN);
+    manager = new ScenarioManager();
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  it('should run a scenario against local emulated processes', async () => {
+    await fs.outputFile(path.join(tempDir, 'scenarios', 'transfer.yml'), TRANSFER);
+    const config = createMockConfig({ processes: { token: { luaFiles: ['ao/token.lua'] } } });
+
+    const [report] = await manager.run(tempDir, config, ['scenarios/transfer.yml']);
+
+    expect(report).toMatchObject({ name: 'transfer', file: path.join('scenarios', 'transfer.yml'), target: 'local', ok: true });
+    expect(report.steps.map(step => [step.description, step.status])).toEqual([
+      ['spawn token', 'passed'],
+      ['send Transfer to token from alice', 'passed'],
+      ['send Transfer to token from bob', 'passed'],
+      ['eval in token', 'passed']
+    ]);
+  });
+
+  it('should report differences and skip steps after one that cannot run', async () => {
+    await fs.outputFile(path.join(tempDir, 'mismatch.yaml'), MISMATCH);
+    const config = createMockConfig({ processes: { token: { luaFiles: ['ao/token.lua'] } } });
+
+    const [report] = await manager.run(tempDir, config, ['mismatch.yaml']);
+
+    expect(report.ok).toBe(false);
+    expect(report.steps.map(step => step.status)).toEqual(['passed', 'failed', 'failed', 'skipped']);
+    const [messages, state] = report.steps[1].failures;
+    expect(messages).toContain('No message matching {"target":"alice","action":"Debit-Notice","tags":{"Quantity":"20"}}');
+    expect(messages).toContain('~ Quantity: expected "20", got "30"');
+    expect(messages).toContain('to bob {Action=Credit-Notice, Quantity=30');
+    expect(state).toContain('~ Balances.alice: expected 80, got 70');
+    expect(state).toContain('- Balances.carol: missing, expected 0');
+    expect(report.steps[2].failures).toEqual(['Process nobody has not been spawned in this scenario']);
+    expect(renderScenarioReport([report])).toContain('0 passed, 1 failed');
+  });
+
+  it('should deliver messages between spawned processes', async () => {
+    await fs.outputFile(path.join(tempDir, 'ao', 'escrow.lua'), ESCROW);
+    await fs.outputFile(path.join(tempDir, 'escrow.yml'), ESCROW_FLOW);
+    const config = createMockConfig({ processes: { token: { luaFiles: ['ao/token.lua'] } } });
+
+    const [first] = await manager.run(tempDir, config, ['escrow.yml']);
+    const [second] = await manager.run(tempDir, config, ['escrow.yml'], { seed: 8 });
+
+    expect(first.steps.flatMap(step => step.failures)).toEqual([]);
+    expect(first).toMatchObject({ ok: true, seed: 7 });
+    expect(second.seed).toBe(8);
+    expect(renderScenarioReport([first])).toContain('(escrow.yml, local, seed 7)');
+  });
+
+  it('should report a scenario file that is not valid', async () => {
+    await fs.outputFile(path.join(tempDir, 'invalid.yml'), 'steps:\n  - send: token\n    tags: [1]\n');
+    const config = createMockConfig();
+
+    const [report] = await manager.run(tempDir, config, ['invalid.yml', 'missing.yml']);
+
+    expect(report.ok).toBe(false);
+    expect(report.error).toContain('Invalid scenario: steps.0.tags');
+    expect(renderScenarioReport([report])).toContain('Could not run the scenario');
+  });
+
+  it('should not expect load errors of a spawn on a network', async () => {
+    await fs.outputFile(path.join(tempDir, 'broken.yml'), 'steps:\n  - spawn: token\n    expect:\n      error: syntax\n');
+    const config = createMockConfig({ processes: { token: { luaFiles: ['ao/token.lua'] } } });
+
+    const [report] = await manager.run(tempDir, config, ['broken.yml'], { live: true });
+
+    expect(report.error).toBe('Invalid scenario: steps.0.expect.error: load errors of a spawn are not reported on a network');
+  });
+
+  it('should take the Lua error of a live eval as its result', async () => {
+    const processManager = new ProcessManager();
+    const evaluate = jest.spyOn(processManager, 'evaluateProcess')
+      .mockRejectedValueOnce(new ProcessError('Evaluation failed: eval:1: boom', { output: 'before', error: 'eval:1: boom' }))
+      .mockRejectedValueOnce(new ProcessError('Could not connect to process'));
+    const backend = new NetworkScenarioBackend(tempDir, createMockConfig(), processManager);
+
+    await expect(backend.evaluate('token', 'error("boom")')).resolves.toEqual({ Messages: [], Spawns: [], Output: 'before', Error: 'eval:1: boom' });
+    await expect(backend.evaluate('token', 'return 1')).rejects.toThrow('Could not connect to process');
+    expect(evaluate).toHaveBeenCalledWith('error("boom")', { name: 'token', projectPath: tempDir });
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { LCOV_FILE, TestManager, getSpecSubject, renderCoverage, renderTestReport } from '../../../../src/core/managers/test-manager';
+import { createMockConfig } from '../../../setup';
+
+jest.mock('../../../../src/core/utils/logging');
+
+const TOKEN = `
+Balances = Balances or { [Owner] = 100 }
+
+Handlers.add('balance', { Action = 'Balance' }, function(msg)
+  msg.reply({ Action = 'Balance-Notice', Balance = tostring(Balances[msg.Recipient or msg.From] or 0) })
+end)
+
+Handlers.add('transfer', { Action = 'Transfer' }, function(msg)
+  local quantity = tonumber(msg.Quantity)
+  assert(Balances[msg.From] and Balances[msg.From] >= quantity, 'Insufficient balance')
+  Balances[msg.From] = Balances[msg.From] - quantity
+  Balances[msg.Recipient] = (Balances[msg.Recipient] or 0) + quantity
+  msg.reply({ Action = 'Debit-Notice', Quantity = msg.Quantity })
+end)
+`;
+
+const TOKEN_SPEC = `
+describe('token', function()
+  before_each(function()
+    Balances = { [Owner] = 100 }
+  end)
+
+  it('reports balances', function()
+    local result = send({ Action = 'Balance' })
+    expect.reply(result, { Target = Owner, Action = 'Balance-Notice', Balance = 100 })
+  end)
+
+  it('transfers', function()
+    expect.ok(send({ Action = 'Transfer', Recipient = 'bob', Quantity = '30' }))
+    expect.state('Balances.bob', 30)
+    expect.equal(Balances[Owner], 70)
+  end)
+
+  it('rejects overdrafts', function()
+    expect.error(send({ From = 'bob', Action = 'Transfer', Recipient = 'alice', Quantity = '1' }), 'Insufficient balance')
+  end)
+
+  it('replies with a notice', function()
+    expect.reply(send({ Action = 'Balance' }), { Action = 'Credit-Notice' })
+  end)
+
+  pending('burns tokens')
+end)
+`;
+
+describe('TestManager', () => {
+  let tempDir: string;
+  let manager: TestManager;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ao-forge-test-'));
+    await fs.outputFile(path.join(tempDir, 'ao', 'token.lua'), TOKEN);
+    await fs.outputFile(path.join(tempDir, 'spec', 'token_spec.lua'), TOKEN_SPEC);
+    manager = new TestManager();
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  it('should name specs after their process', () => {
+    expect(getSpecSubject('spec/token_spec.lua')).toBe('token');
+    expect(getSpecSubject('dex.test.lua')).toBe('dex');
+  });
+
+  it('should run specs against the Lua files of their process', async () => {
+    const config = createMockConfig({ processes: { token: { luaFiles: ['ao/token.lua'] }, dex: { luaFiles: [] } } });
+
+    const report = await manager.run(tempDir, config);
+
+    expect(report.ok).toBe(false);
+    expect(report).toMatchObject({ passed: 3, failed: 1, skipped: 1 });
+    const [file] = report.files;
+    expect(file.file).toBe(path.join('spec', 'token_spec.lua'));
+    expect(file.tests.map(test => [test.name, test.status])).toEqual([
+      ['token reports balances', 'passed'],
+      ['token transfers', 'passed'],
+      ['token rejects overdrafts', 'passed'],
+      ['token replies with a notice', 'failed'],
+      ['token burns tokens', 'skipped']
+    ]);
+    expect(file.tests[3].error).toContain('token_spec.lua:23: expected a message matching {"Action":"Credit-Notice"}');
+    expect(file.tests[3].error).toContain('"Action":"Balance-Notice"');
+  });
+
+  it('should only run tests matching grep', async () => {
+    const config = createMockConfig({ luaFiles: ['ao/token.lua'] });
+
+    const report = await manager.run(tempDir, config, { grep: 'transfers' });
+
+    expect(report.ok).toBe(true);
+    expect(report.files[0].tests.map(test => test.name)).toEqual(['token transfers']);
+  });
+
+  it('should report a file that cannot run', async () => {
+    await fs.outputFile(path.join(tempDir, 'broken.test.lua'), 'describe("x", function() error("setup failed") end)');
+    const config = createMockConfig({ luaFiles: ['ao/token.lua'] });
+
+    const report = await manager.run(tempDir, config, { paths: ['broken.test.lua'] });
+
+    expect(report.ok).toBe(false);
+    expect(report.files[0].error).toContain('broken.test.lua:1: setup failed');
+    expect(renderTestReport(report)).toContain('1 file(s) with errors');
+  });
+
+  it('should reject paths that do not exist or hold no specs', async () => {
+    const config = createMockConfig({ luaFiles: ['ao/token.lua'] });
+
+    await expect(manager.run(tempDir, config, { paths: ['missing_spec.lua'] })).rejects.toThrow('No such file or directory: missing_spec.lua');
+    await expect(manager.run(tempDir, config, { paths: ['ao'] })).rejects.toThrow('No spec files (*_spec.lua, *.test.lua) in ao');
+  });
+
+  it('should ask for a process when a spec matches none of several', async () => {
+    const config = createMockConfig({ processes: { a: { luaFiles: [] }, b: { luaFiles: [] } } });
+
+    const report = await manager.run(tempDir, config);
+
+    expect(report.files[0].error).toContain('Several processes are defined (a, b)');
+  });
+
+  it('should write a JUnit report', async () => {
+    const config = createMockConfig({ luaFiles: ['ao/token.lua'] });
+
+    await manager.run(tempDir, config, { junit: 'reports/junit.xml' });
+
+    const xml = await fs.readFile(path.join(tempDir, 'reports', 'junit.xml'), 'utf8');
+    expect(xml).toContain('<testsuites name="ao-forge" tests="5" failures="1" errors="0" skipped="1"');
+    expect(xml).toContain('<testcase name="token transfers" classname="spec/token_spec.lua"');
+    expect(xml).toContain('<failure message="spec/token_spec.lua:23: expected a message matching {&quot;Action&quot;:&quot;Credit-Notice&quot;}');
+    expect(xml).toContain('<skipped/>');
+  });
+
+  it('should measure coverage of the process files and write LCOV', async () => {
+    const config = createMockConfig({ luaFiles: ['ao/token.lua'] });
+
+    const report = await manager.run(tempDir, config, { grep: 'transfers', coverageThreshold: 95 });
+
+    expect(report.ok).toBe(true);
+    expect(report.coverage).toMatchObject({ threshold: 95, ok: false, handlers: { covered: 1, total: 2 } });
+    expect(report.coverage!.files.map(file => file.file)).toEqual([path.join('ao', 'token.lua')]);
+    const lcov = await fs.readFile(path.join(tempDir, LCOV_FILE), 'utf8');
+    expect(lcov).toContain(`SF:${path.join('ao', 'token.lua')}`);
+    expect(lcov).toContain('FNDA:0,handler balance');
+    expect(lcov).toContain('FNDA:1,handler transfer');
+    expect(lcov).toContain('DA:5,0');
+    expect(lcov).toContain('DA:9,1');
+    const rendered = renderCoverage(report.coverage!);
+    expect(rendered).toContain('Lines not run:[/GRAY] 5');
+    expect(rendered).toContain('Handlers not run:[/GRAY] balance (line 4)');
+    expect(rendered).toContain('Coverage is below the threshold of 95%');
+  });
+
+  it('should profile handlers by process and save a baseline', async () => {
+    const config = createMockConfig({ processes: { token: { luaFiles: ['ao/token.lua'] } }, profile: { budget: { instructions: 5 } } });
+
+    const report = await manager.run(tempDir, config, { grep: 'transfers', updateBaseline: true });
+
+    expect(report.profile).toMatchObject({ ok: false, updated: true, baselineFile: 'profile-baseline.json' });
+    expect(report.profile!.handlers.map(profile => [profile.process, profile.handler, profile.calls])).toEqual([['token', 'transfer', 1]]);
+    expect(report.profile!.handlers[0].violations[0]).toMatch(/instructions, over the budget of 5 instructions$/);
+    const baseline = await fs.readJson(path.join(tempDir, 'profile-baseline.json'));
+    expect(baseline.processes.token.transfer).toEqual(report.profile!.handlers[0].max);
+    await expect(manager.run(tempDir, config, { profile: true, coverage: true })).rejects.toThrow('Measure coverage and profile in separate runs');
+  });
+
+  it('should not save a baseline when specs fail', async () => {
+    await fs.outputFile(path.join(tempDir, 'token.test.lua'), `
+      describe('token', function()
+        it('fails', function() send({ Action = 'Transfer', Quantity = '1000' }); error('boom') end)
+      end)
+    `);
+    const config = createMockConfig({ processes: { token: { luaFiles: ['ao/token.lua'] } } });
+
+    const report = await manager.run(tempDir, config, { paths: ['token.test.lua'], updateBaseline: true });
+
+    expect(report.ok).toBe(false);
+    expect(report.profile?.updated).toBe(false);
+    expect(await fs.pathExists(path.join(tempDir, 'profile-baseline.json'))).toBe(false);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, jest } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import {
+  WALLET_PASSPHRASE_ENV,
+  WalletManager,
+  generateWallet,
+  getConfiguredWallet,
+  removeStaleWalletFiles
+} from '../../../../src/core/managers/wallet-manager';
+import { NETWORK_ENV } from '../../../../src/core/process/network';
+import { getWalletAddress } from '../../../../src/core/process/message';
+import { ValidationError } from '../../../../src/core/utils/error-handling';
+import { JWK } from '../../../../src/types/aos';
+import { createMockConfig } from '../../../setup';
+
+jest.mock('../../../../src/core/utils/logging');
+
+describe('WalletManager', () => {
+  let jwk: JWK;
+  let tempDir: string;
+  let walletManager: WalletManager;
+
+  beforeAll(async () => {
+    // One key for the whole suite; 4096-bit generation takes a while
+    jwk = await generateWallet();
+  }, 60000);
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ao-forge-wallets-'));
+    walletManager = new WalletManager(path.join(tempDir, 'wallets'));
+    process.env[WALLET_PASSPHRASE_ENV] = 'correct horse battery';
+  });
+
+  afterEach(async () => {
+    delete process.env[NETWORK_ENV];
+    delete process.env[WALLET_PASSPHRASE_ENV];
+    await fs.remove(tempDir);
+  });
+
+  it('should generate 4096-bit RSA wallets', () => {
+    expect(jwk.kty).toBe('RSA');
+    expect(jwk.e).toBe('AQAB');
+    expect(Buffer.from(jwk.n, 'base64url')).toHaveLength(512);
+    expect(jwk.d).toBeDefined();
+  });
+
+  it('should import a wallet encrypted and readable only by its owner', async () => {
+    const source = path.join(tempDir, 'key.json');
+    await fs.writeJSON(source, jwk);
+
+    const wallet = await walletManager.importWallet('dev', source);
+
+    expect(wallet).toEqual({ name: 'dev', address: getWalletAddress(jwk), path: walletManager.getWalletPath('dev'), encrypted: true });
+    expect((await fs.stat(wallet.path)).mode & 0o777).toBe(0o600);
+    expect(await fs.readFile(wallet.path, 'utf8')).not.toContain(jwk.d);
+    expect(await walletManager.listWallets()).toEqual([wallet]);
+  });
+
+  it('should unlock a stored wallet with the passphrase', async () => {
+    const source = path.join(tempDir, 'key.json');
+    await fs.writeJSON(source, jwk);
+    await walletManager.importWallet('dev', source);
+
+    // A fresh manager has nothing unlocked in this process for another directory
+    const other = new WalletManager(path.join(tempDir, 'other'));
+    await fs.copy(path.join(tempDir, 'wallets'), path.join(tempDir, 'other'));
+    expect(await other.loadWallet('dev', '/project')).toEqual(jwk);
+
+    process.env[WALLET_PASSPHRASE_ENV] = 'wrong passphrase';
+    const third = new WalletManager(path.join(tempDir, 'third'));
+    await fs.copy(path.join(tempDir, 'wallets'), path.join(tempDir, 'third'));
+    await expect(third.loadWallet('dev', '/project')).rejects.toThrow('Could not unlock wallet dev');
+  });
+
+  it('should require the passphrase from the environment without a terminal', async () => {
+    const source = path.join(tempDir, 'key.json');
+    await fs.writeJSON(source, jwk);
+    delete process.env[WALLET_PASSPHRASE_ENV];
+    const isTTY = process.stdin.isTTY;
+    process.stdin.isTTY = false;
+
+    try {
+      await expect(walletManager.importWallet('dev', source)).rejects.toThrow(`Set ${WALLET_PASSPHRASE_ENV}`);
+    } finally {
+      process.stdin.isTTY = isTTY;
+    }
+    process.env[WALLET_PASSPHRASE_ENV] = 'short';
+    await expect(walletManager.importWallet('dev', source)).rejects.toThrow('at least 8 characters');
+  });
+
+  it('should decrypt a wallet for aos to a private temporary file', async () => {
+    const source = path.join(tempDir, 'key.json');
+    await fs.writeJSON(source, jwk);
+    await walletManager.importWallet('dev', source);
+
+    const file = await walletManager.getWalletFile('dev', '/project');
+    try {
+      expect(file.tempDir).toBeDefined();
+      expect(await fs.readJSON(file.path)).toEqual(jwk);
+      expect((await fs.stat(file.path)).mode & 0o777).toBe(0o600);
+      expect((await fs.stat(file.tempDir!)).mode & 0o777).toBe(0o700);
+    } finally {
+      await fs.remove(file.tempDir!);
+    }
+    expect(await walletManager.getWalletFile(source, '/project')).toEqual({ path: source });
+  });
+
+  it('should refuse to replace a wallet without force', async () => {
+    const source = path.join(tempDir, 'key.json');
+    await fs.writeJSON(source, jwk);
+    await walletManager.importWallet('dev', source);
+
+    await expect(walletManager.importWallet('dev', source)).rejects.toThrow('Wallet dev already exists');
+    await expect(walletManager.importWallet('dev', source, { force: true })).resolves.toMatchObject({ name: 'dev' });
+    await expect(walletManager.importWallet('../dev', source)).rejects.toThrow(ValidationError);
+  });
+
+  it('should reject files that are not RSA private keys', async () => {
+    const source = path.join(tempDir, 'public.json');
+    await fs.writeJSON(source, { kty: 'RSA', n: jwk.n, e: jwk.e });
+
+    await expect(walletManager.importWallet('dev', source)).rejects.toThrow('not an RSA private key');
+    expect(await walletManager.listWallets()).toEqual([]);
+  });
+
+  it('should resolve wallet names before paths', async () => {
+    const source = path.join(tempDir, 'key.json');
+    await fs.writeJSON(source, jwk);
+    await walletManager.importWallet('dev', source);
+
+    expect(await walletManager.resolveWalletPath('dev', '/project')).toBe(walletManager.getWalletPath('dev'));
+    expect(await walletManager.resolveWalletPath('./keys/dev.json', '/project')).toBe(path.resolve('/project/keys/dev.json'));
+    await expect(walletManager.getWallet('missing')).rejects.toThrow('Unknown wallet: missing');
+  });
+
+  it("should select the network's wallet over the project's", async () => {
+    const config = createMockConfig({ wallet: 'dev', networks: { mainnet: { wallet: 'main' } } });
+
+    expect(getConfiguredWallet(config)).toEqual({ wallet: 'dev', source: 'project' });
+    process.env[NETWORK_ENV] = 'mainnet';
+    expect(getConfiguredWallet(config)).toEqual({ wallet: 'main', source: 'network' });
+  });
+
+  it('should remove only decrypted wallets that nothing uses anymore', async () => {
+    const dead = 2147483646;
+    const stale = await fs.mkdtemp(path.join(os.tmpdir(), `ao-forge-wallet-${dead}-`));
+    const inUse = await fs.mkdtemp(path.join(os.tmpdir(), `ao-forge-wallet-${dead}-`));
+    const ours = await fs.mkdtemp(path.join(os.tmpdir(), `ao-forge-wallet-${process.pid}-`));
+
+    await removeStaleWalletFiles([inUse]);
+
+    expect(await fs.pathExists(stale)).toBe(false);
+    expect(await fs.pathExists(inUse)).toBe(true);
+    expect(await fs.pathExists(ours)).toBe(true);
+    await Promise.all([fs.remove(inUse), fs.remove(ours)]);
+  });
+});
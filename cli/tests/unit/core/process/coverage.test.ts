@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { AOEmulator } from '../../../../src/core/process/emulator';
+import { CoverageCollector, instrumentLua } from '../../../../src/core/process/coverage';
+
+const TOKEN = `Balances = Balances or { [Owner] = 100 }
+
+local function mint(msg)
+  assert(msg.From == Owner, 'Only the owner can mint')
+  Balances[Owner] = Balances[Owner] + tonumber(msg.Quantity)
+end
+
+Handlers.add('transfer', { Action = 'Transfer' }, function(msg)
+  local quantity = tonumber(msg.Quantity)
+  if Balances[msg.From] == nil then
+    error('No balance')
+  elseif Balances[msg.From] < quantity then
+    error('Insufficient balance')
+  end
+  Balances[msg.From] = Balances[msg.From] - quantity
+  Balances[msg.Recipient] = (Balances[msg.Recipient] or 0) + quantity
+  if msg.Cast then return end
+  msg.reply({ Action = 'Debit-Notice' })
+end)
+
+Handlers.add('mint', Handlers.utils.hasMatchingTag('Action', 'Mint'), mint)
+Handlers.add('burn', { Action = 'Burn' }, function(msg) Balances[msg.From] = 0 end)
+`;
+
+describe('instrumentLua', () => {
+  it('should add a probe to every arm of an if and every handler', () => {
+    const { source, branches, handlers } = instrumentLua(TOKEN);
+
+    expect(source.split('\n')).toHaveLength(TOKEN.split('\n').length);
+    expect(branches.map(branch => [branch.line, branch.block, branch.branch, branch.label])).toEqual([
+      [10, 0, 0, 'then'],
+      [12, 0, 1, 'elseif'],
+      [10, 0, 2, 'implicit else'],
+      [17, 1, 0, 'then'],
+      [17, 1, 1, 'implicit else']
+    ]);
+    expect(handlers.map(handler => [handler.name, handler.line])).toEqual([
+      ['transfer', 8],
+      ['mint', 21],
+      ['burn', 22]
+    ]);
+    expect(source).toContain('local function mint(msg) __aoforge_cover(7);');
+    expect(source).toContain('if msg.Cast then __aoforge_cover(4);  return  else __aoforge_cover(5); end');
+  });
+
+  it('should not take an inline pattern for the handle', () => {
+    const { source, handlers } = instrumentLua([
+      'local function refund(msg) Balances[msg.From] = 0 end',
+      `Handlers.add('refund', function(msg) return msg.Action == 'Refund' end, refund)`
+    ].join('\n'));
+
+    expect(handlers.map(handler => [handler.name, handler.line])).toEqual([['refund', 2]]);
+    expect(source).toMatch(/local function refund\(msg\) __aoforge_cover\(\d+\); +Balances/);
+    expect(source).toContain('function(msg) return msg.Action');
+  });
+
+  it('should leave strings and comments alone', () => {
+    const { source, branches } = instrumentLua(`local s = "if x then" -- if y then\nreturn s`);
+
+    expect(branches).toEqual([]);
+    expect(source).toBe(`local s = "if x then" -- if y then\nreturn s`);
+  });
+});
+
+describe('CoverageCollector', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ao-forge-coverage-'));
+    await fs.outputFile(path.join(tempDir, 'token.lua'), TOKEN);
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  it('should count the lines, branches and handlers an emulator ran', async () => {
+    const collector = await CoverageCollector.create(tempDir, ['token.lua']);
+    const emulator = await AOEmulator.create({ projectPath: tempDir, name: 'token', owner: 'alice', transform: collector.transform });
+    collector.attach(emulator);
+    emulator.load('token.lua');
+    emulator.deliver({ From: 'alice', Tags: [{ name: 'Action', value: 'Transfer' }, { name: 'Recipient', value: 'bob' }, { name: 'Quantity', value: '10' }] });
+    emulator.deliver({ From: 'carol', Tags: [{ name: 'Action', value: 'Transfer' }, { name: 'Recipient', value: 'bob' }, { name: 'Quantity', value: '10' }] });
+    collector.collect(emulator);
+    emulator.close();
+
+    const summary = collector.summarize(90);
+    const [file] = summary.files;
+
+    expect(file.file).toBe('token.lua');
+    expect(file.lines).toMatchObject({ 1: 1, 4: 0, 5: 0, 9: 2, 11: 1, 12: 1, 13: 0, 15: 1, 18: 1, 21: 1, 22: 1 });
+    expect(file.branches.map(branch => branch.hits)).toEqual([1, 0, 1, 0, 1]);
+    expect(file.handlers.map(handler => [handler.name, handler.hits])).toEqual([['transfer', 2], ['mint', 0], ['burn', 0]]);
+    expect(summary.branches).toEqual({ covered: 3, total: 5, percent: 60 });
+    expect(summary.ok).toBe(false);
+  });
+});
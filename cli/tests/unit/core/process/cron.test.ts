@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import path from 'path';
+import os from 'os';
+import fs from 'fs-extra';
+import { CronStore, getCronFile } from '../../../../src/core/process/cron';
+
+jest.mock('../../../../src/core/utils/logging');
+
+describe('CronStore', () => {
+  let tmpDir: string;
+  let store: CronStore;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ao-forge-cron-'));
+    store = new CronStore(tmpDir);
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmpDir);
+  });
+
+  const job = (overrides: Record<string, any> = {}) => ({
+    process: 'token',
+    expression: '5-minutes',
+    tick: 'tick()',
+    maxRetries: 3,
+    ...overrides
+  });
+
+  it('should persist jobs with generated ids', async () => {
+    const first = await store.add(job());
+    const second = await store.add(job({ expression: '*/10 * * * *' }));
+    await store.add(job({ process: 'other' }));
+
+    expect(first).toEqual(expect.objectContaining({ id: 'cron-1', paused: false }));
+    expect(second.id).toBe('cron-2');
+    expect(await fs.pathExists(getCronFile(tmpDir))).toBe(true);
+
+    const reloaded = new CronStore(tmpDir);
+    expect((await reloaded.list('token')).map(entry => entry.id)).toEqual(['cron-1', 'cron-2']);
+    expect(await reloaded.list()).toHaveLength(3);
+  });
+
+  it('should reject invalid schedules and duplicate ids', async () => {
+    await expect(store.add(job({ expression: 'every minute' }))).rejects.toThrow('Invalid schedule');
+    await store.add(job({ id: 'tick' }));
+    await expect(store.add(job({ id: 'tick' }))).rejects.toThrow('already exists');
+  });
+
+  it('should pause, resume and remove jobs', async () => {
+    await store.add(job({ id: 'tick' }));
+
+    expect((await store.setPaused('token', 'tick', true))?.paused).toBe(true);
+    expect((await store.get('token', 'tick'))?.paused).toBe(true);
+    expect((await store.setPaused('token', 'tick', false))?.paused).toBe(false);
+    expect(await store.setPaused('token', 'missing', true)).toBeNull();
+
+    expect(await store.remove('token', 'tick')).toBe(true);
+    expect(await store.remove('token', 'tick')).toBe(false);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should keep jobs added concurrently by separate stores', async () => {
+    await Promise.all(['a', 'b', 'c', 'd'].map(id => new CronStore(tmpDir).add(job({ id }))));
+
+    expect((await store.list('token')).map(entry => entry.id).sort()).toEqual(['a', 'b', 'c', 'd']);
+    expect(await fs.readdir(path.dirname(getCronFile(tmpDir)))).toEqual(['cron.json']);
+  });
+});
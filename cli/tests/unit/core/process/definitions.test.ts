@@ -0,0 +1,35 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  getDefaultProcessDefinition,
+  getProcessDefinitions,
+  selectProcessDefinitions
+} from '../../../../src/core/process/definitions';
+import { createMockConfig } from '../../../setup';
+
+describe('process definitions', () => {
+  const config = (overrides: Record<string, any>) => createMockConfig(overrides) as any;
+  const processes = {
+    token: { luaFiles: ['token.lua'], wallet: 'token.json', tags: { Type: 'Token' } },
+    dex: { luaFiles: ['dex.lua', 'lib/math.lua'], sqlite: true }
+  };
+
+  it('should fall back to processName and luaFiles without a processes map', () => {
+    expect(getProcessDefinitions(config({ processName: 'app', luaFiles: ['main.lua'] }))).toEqual([
+      { name: 'app', luaFiles: ['main.lua'] }
+    ]);
+  });
+
+  it('should list and select defined processes', () => {
+    const withProcesses = config({ processes });
+    expect(getProcessDefinitions(withProcesses).map(definition => definition.name)).toEqual(['token', 'dex']);
+    expect(selectProcessDefinitions(withProcesses, 'dex')).toEqual([{ name: 'dex', ...processes.dex }]);
+    expect(selectProcessDefinitions(withProcesses)).toHaveLength(2);
+    expect(() => selectProcessDefinitions(withProcesses, 'bridge')).toThrow('Unknown process: bridge. Defined processes: token, dex');
+  });
+
+  it('should pick the default definition by processName or when only one exists', () => {
+    expect(getDefaultProcessDefinition(config({ processName: 'dex', processes })).name).toBe('dex');
+    expect(getDefaultProcessDefinition(config({ processName: 'app', processes: { token: processes.token } })).name).toBe('token');
+    expect(() => getDefaultProcessDefinition(config({ processName: 'app', processes }))).toThrow('Pass a process name or --all');
+  });
+});
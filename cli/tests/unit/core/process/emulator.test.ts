@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { AOEmulator, InboundMessage, getOutputText } from '../../../../src/core/process/emulator';
+import { MessageResult } from '../../../../src/types/aos';
+
+const TOKEN = `
+local json = require('json')
+Balances = Balances or { [Owner] = 100 }
+
+Handlers.add('balance', Handlers.utils.hasMatchingTag('Action', 'Balance'), function(msg)
+  msg.reply({ Action = 'Balance-Notice', Data = tostring(Balances[msg.Recipient or msg.From] or 0) })
+end)
+
+Handlers.add('transfer', { Action = 'Transfer' }, function(msg)
+  local quantity = tonumber(msg.Quantity)
+  assert(Balances[msg.From] and Balances[msg.From] >= quantity, 'Insufficient balance')
+  Balances[msg.From] = Balances[msg.From] - quantity
+  Balances[msg.Recipient] = (Balances[msg.Recipient] or 0) + quantity
+  print('Transferred ' .. quantity)
+  Send({ Target = msg.Recipient, Action = 'Credit-Notice', Data = json.encode({ quantity = quantity }) })
+end)
+`;
+
+function getTag(message: any, name: string): string | undefined {
+  return message.Tags.find((tag: any) => tag.name === name)?.value;
+}
+
+describe('AOEmulator', () => {
+  let tempDir: string;
+  let emulator: AOEmulator;
+  let selfMessages: Array<{ message: InboundMessage; result: MessageResult }>;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ao-forge-emulator-'));
+    await fs.writeFile(path.join(tempDir, 'token.lua'), TOKEN);
+    selfMessages = [];
+    emulator = await AOEmulator.create({
+      projectPath: tempDir,
+      name: 'token',
+      owner: 'owner-address',
+      now: () => 1700000000000,
+      onMessage: (message, result) => selfMessages.push({ message, result })
+    });
+  });
+
+  afterEach(async () => {
+    emulator.close();
+    await fs.remove(tempDir);
+  });
+
+  it('should provide the aos globals', () => {
+    expect(emulator.id).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(getOutputText(emulator.evaluate('ao.id'))).toBe(emulator.id);
+    expect(getOutputText(emulator.evaluate('Owner'))).toBe('owner-address');
+    expect(getOutputText(emulator.evaluate('type(Send) .. type(Handlers.add) .. #Inbox'))).toBe('functionfunction0');
+  });
+
+  it('should print expression values and statement output like the aos prompt', () => {
+    expect(getOutputText(emulator.evaluate('x = 21'))).toBe('');
+    expect(getOutputText(emulator.evaluate('x * 2'))).toBe('42');
+    expect(getOutputText(emulator.evaluate('print("a", 1); print({ 1, b = true })'))).toBe('a\t1\n{\n  1,\n  b = true\n}');
+  });
+
+  it('should report Lua errors in the result', () => {
+    expect(emulator.evaluate('error("boom")').Error).toContain('boom');
+    expect(emulator.evaluate('local = 1').Error).toContain('eval');
+  });
+
+  it('should dispatch messages through Handlers and reply to the sender', () => {
+    emulator.load('token.lua');
+
+    const result = emulator.deliver({ From: 'owner-address', Tags: [{ name: 'Action', value: 'Balance' }] });
+
+    expect(result.Error).toBeUndefined();
+    expect(result.Messages).toHaveLength(1);
+    expect(result.Messages[0].Target).toBe('owner-address');
+    expect(result.Messages[0].Data).toBe('100');
+    expect(getTag(result.Messages[0], 'Action')).toBe('Balance-Notice');
+    expect(getTag(result.Messages[0], 'Reference')).toBe('1');
+  });
+
+  it('should keep state between messages and capture printed output', () => {
+    emulator.load('token.lua');
+    const transfer = (quantity: string) => emulator.deliver({
+      Tags: [{ name: 'Action', value: 'Transfer' }, { name: 'Recipient', value: 'bob' }, { name: 'Quantity', value: quantity }]
+    });
+
+    const result = transfer('30');
+
+    expect(getOutputText(result)).toBe('Transferred 30');
+    expect(result.Messages[0]).toMatchObject({ Target: 'bob', Data: '{"quantity":30}' });
+    expect(getOutputText(emulator.evaluate('Balances.bob'))).toBe('30');
+    expect(transfer('500').Error).toContain('Insufficient balance');
+  });
+
+  it('should not send what a failed message queued', () => {
+    emulator.evaluate('Handlers.add("fail", "Fail", function(msg) Send({ Target = "bob", Data = "queued" }); error("boom") end)');
+
+    const result = emulator.deliver({ From: 'alice', Tags: [{ name: 'Action', value: 'Fail' }] });
+
+    expect(result.Error).toContain('boom');
+    expect(result.Messages).toEqual([]);
+  });
+
+  it('should put unhandled messages in the Inbox', () => {
+    const result = emulator.deliver({ From: 'alice', Tags: [{ name: 'Action', value: 'Hello' }], Data: 'hi' });
+
+    expect(getOutputText(result)).toBe('New Message From alice: Action = Hello');
+    expect(getOutputText(emulator.evaluate('Inbox[1].Data .. " " .. Inbox[1].Timestamp'))).toBe('hi 1700000000000');
+  });
+
+  it('should deliver messages the process sends itself', () => {
+    emulator.evaluate('Handlers.add("cron", "Cron", function(msg) Ticks = (Ticks or 0) + 1; print("tick") end)');
+
+    emulator.evaluate('Send({ Target = ao.id, Action = "Cron" })');
+
+    expect(getOutputText(emulator.evaluate('Ticks'))).toBe('1');
+    expect(selfMessages).toHaveLength(1);
+    expect(selfMessages[0].message.From).toBe(emulator.id);
+    expect(getOutputText(selfMessages[0].result)).toBe('tick');
+  });
+
+  it('should evaluate Eval messages from the owner only', () => {
+    const evalMessage = (from: string) => emulator.deliver({ From: from, Tags: [{ name: 'Action', value: 'Eval' }], Data: 'Counter = 7' });
+
+    evalMessage('someone-else');
+    expect(getOutputText(emulator.evaluate('Counter'))).toBe('');
+
+    evalMessage('owner-address');
+    expect(getOutputText(emulator.evaluate('Counter'))).toBe('7');
+  });
+
+  it('should require project modules and the json module', async () => {
+    await fs.ensureDir(path.join(tempDir, 'lib'));
+    await fs.writeFile(path.join(tempDir, 'lib', 'math.lua'), 'return { double = function(n) return n * 2 end }');
+
+    const output = emulator.evaluate('local json = require("json"); return json.encode({ n = require("lib.math").double(4), list = { 1, 2 }, empty = {} })');
+
+    expect(getOutputText(output)).toBe('{"empty":[],"list":[1,2],"n":8}');
+    expect(getOutputText(emulator.evaluate('require("json").decode(\'{"a":[1,"\\\\u00e9",null,true]}\').a[2]'))).toBe('é');
+    expect(emulator.evaluate('require("missing")').Error).toContain("module 'missing' not found");
+  });
+});
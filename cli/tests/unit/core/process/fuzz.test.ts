@@ -0,0 +1,79 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import os from 'os';
+import { AOEmulator } from '../../../../src/core/process/emulator';
+import { FUZZ_SENDERS, createMessage, discoverHandlers, findTagNames, shrinkMessages, toInvariantExpression } from '../../../../src/core/process/fuzz';
+import { createRandom } from '../../../../src/core/utils/random';
+import { FuzzMessage } from '../../../../src/types/fuzz';
+
+describe('fuzz', () => {
+  let emulator: AOEmulator | undefined;
+
+  afterEach(() => {
+    emulator?.close();
+    emulator = undefined;
+  });
+
+  it('should discover the actions and tags handlers match', async () => {
+    emulator = await AOEmulator.create({ projectPath: os.tmpdir() });
+    emulator.run(`
+      Handlers.add('transfer', { Action = 'Transfer', Recipient = '_', Kind = 'gift' }, function() end)
+      Handlers.add('info', 'Info', function() end)
+      Handlers.add('balance', Handlers.utils.hasMatchingTag('Action', 'Balance'), function() end)
+      Handlers.add('any', function() return true end, function() end)
+    `);
+
+    expect(discoverHandlers(emulator)).toEqual([
+      { name: 'transfer', action: 'Transfer', tags: { Recipient: '_', Kind: 'gift' } },
+      { name: 'info', action: 'Info', tags: {} },
+      { name: 'balance', action: 'Balance', tags: {} },
+      { name: 'any', tags: {} }
+    ]);
+  });
+
+  it('should find the tags Lua reads from messages', () => {
+    const source = `
+      local quantity = tonumber(msg.Quantity)
+      local note = msg.Tags['X-Note'] .. msg.Tags.Memo
+      if msg.From == Owner and msg.Action == 'Mint' then msg.reply({ Data = msg.Data }) end
+      local text = "msg.Ignored"
+    `;
+
+    expect(findTagNames(source)).toEqual(['Memo', 'Quantity', 'X-Note']);
+  });
+
+  it('should create messages that repeat with their seed', () => {
+    const model = { actions: [{ action: 'Transfer', tags: { Recipient: '_' } }], tagNames: ['Quantity'], addresses: ['alice', '$token'] };
+    const messages = (seed: number) => Array.from({ length: 5 }, ((random) => () => createMessage(random, model))(createRandom(seed)));
+
+    expect(messages(3)).toEqual(messages(3));
+    for (const message of messages(3)) {
+      expect(message.action).toBe('Transfer');
+      expect(['alice', '$token']).toContain(message.tags.Recipient);
+    }
+  });
+
+  it('should take invariants as expressions or chunks', async () => {
+    emulator = await AOEmulator.create({ projectPath: os.tmpdir() });
+    emulator.run('Total = 3');
+
+    expect(emulator.run(`return ${toInvariantExpression(emulator, 'Total == 3')}`)).toBe(true);
+    expect(emulator.run(`return ${toInvariantExpression(emulator, 'local t = { [[a]] }\nreturn #t == Total')}`)).toBe(false);
+  });
+
+  it('should shrink messages to the fewest that still fail', async () => {
+    const messages: FuzzMessage[] = Array.from({ length: 12 }, (_, index) => ({
+      from: FUZZ_SENDERS[1],
+      action: index === 7 ? 'Burn' : 'Transfer',
+      tags: { Quantity: String(100 + index), Note: 'x' }
+    }));
+    // Fails once a Burn of more than 50 was sent, returning the messages up to it
+    const fails = async (candidate: FuzzMessage[]) => {
+      const index = candidate.findIndex(message => message.action === 'Burn' && Number(message.tags.Quantity) > 50);
+      return index === -1 ? null : candidate.slice(0, index + 1);
+    };
+
+    expect(await shrinkMessages(messages, fails)).toEqual([
+      { from: FUZZ_SENDERS[0], action: 'Burn', tags: { Quantity: '53' } }
+    ]);
+  });
+});
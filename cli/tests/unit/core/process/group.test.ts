@@ -0,0 +1,54 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  getInjectedTags,
+  orderProcessDefinitions,
+  parseProcessId,
+  renderInjectedGlobals,
+  withDependencies,
+  withDependents
+} from '../../../../src/core/process/group';
+
+describe('process groups', () => {
+  const definitions = [
+    { name: 'ui-bridge', dependsOn: ['dex'] },
+    { name: 'dex', dependsOn: ['token', 'oracle'] },
+    { name: 'oracle' },
+    { name: 'token', dependsOn: ['oracle'] },
+    { name: 'standalone' }
+  ];
+  const names = (list: { name: string }[]) => list.map(entry => entry.name);
+
+  it('should order processes after their dependencies', () => {
+    expect(names(orderProcessDefinitions(definitions))).toEqual(['oracle', 'token', 'dex', 'ui-bridge', 'standalone']);
+  });
+
+  it('should reject cycles and unknown dependencies', () => {
+    expect(() => orderProcessDefinitions([
+      { name: 'a', dependsOn: ['b'] },
+      { name: 'b', dependsOn: ['a'] }
+    ])).toThrow('Circular dependency: a -> b -> a');
+    expect(() => orderProcessDefinitions([{ name: 'a', dependsOn: ['ghost'] }])).toThrow('unknown process: ghost');
+  });
+
+  it('should select dependencies for up and dependents for down', () => {
+    expect(names(withDependencies(definitions, ['dex']))).toEqual(['dex', 'oracle', 'token']);
+    expect(names(withDependents(definitions, ['token']))).toEqual(['ui-bridge', 'dex', 'token']);
+    expect(() => withDependencies(definitions, ['ghost'])).toThrow('Unknown process: ghost');
+  });
+
+  it('should find the process ID in aos output', () => {
+    const id = 'dY9XE6pVLwHVPD-IRAiP2cjUXxX9UBn5u04ySH4wQ0E';
+    expect(parseProcessId(`print(ao.id)\n${id}\n`)).toBe(id);
+    expect(parseProcessId('nil')).toBeNull();
+    // Only a run of exactly 43 ID characters
+    expect(parseProcessId(`${id}x`)).toBeNull();
+    expect(parseProcessId(`-${id}`)).toBeNull();
+    expect(parseProcessId(`"${id}"`)).toBe(id);
+  });
+
+  it('should render injected globals and tags', () => {
+    const ids = { token: 'token-id', 'price-oracle': 'oracle-id' };
+    expect(renderInjectedGlobals(ids)).toContain('ProcessIds = ProcessIds or {}\nProcessIds["token"] = "token-id"\nProcessIds["price-oracle"] = "oracle-id"');
+    expect(getInjectedTags(ids)).toEqual({ 'Process-Id-token': 'token-id', 'Process-Id-price-oracle': 'oracle-id' });
+  });
+});
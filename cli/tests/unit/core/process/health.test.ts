@@ -0,0 +1,143 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import {
+  DEFAULT_HEALTH_CONFIG,
+  findMissingFields,
+  getHealthConfig,
+  renderHealthReport,
+  runHealthChecks
+} from '../../../../src/core/process/health';
+import { ProcessBridge } from '../../../../src/core/process/bridge';
+import { LocalTransport } from '../../../../src/core/process/transport';
+import { HealthCheckConfig, ProcessInfo } from '../../../../src/types/aos';
+import { createMockConfig } from '../../../setup';
+
+describe('process health', () => {
+  const processId = 'p'.repeat(43);
+  const info = (overrides: Partial<ProcessInfo> = {}): ProcessInfo => ({
+    name: 'token',
+    projectPath: '/project',
+    pid: process.pid,
+    startTime: new Date().toISOString(),
+    status: 'running',
+    config: createMockConfig(),
+    socketPath: '/tmp/token.sock',
+    processId,
+    ...overrides
+  });
+  const infoReply = new LocalTransport(() => ({
+    Messages: [{ Target: 'x', Tags: [{ name: 'Name', value: 'Token' }, { name: 'Ticker', value: 'TKN' }], Data: '{"Denomination":"12"}' }],
+    Spawns: [],
+    Output: ''
+  }));
+  const checks: HealthCheckConfig[] = [
+    { type: 'pid' },
+    { type: 'eval', code: 'return "pong"', expect: 'pong' },
+    { type: 'info', action: 'Info', fields: ['Name', 'Ticker', 'Denomination'] }
+  ];
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should pass when the process is alive, responsive and answers Info', async () => {
+    jest.spyOn(ProcessBridge.prototype, 'evaluate').mockResolvedValue('pong');
+
+    const report = await runHealthChecks('token', checks, { info: info(), timeout: 1000, transport: () => infoReply });
+
+    expect(report.healthy).toBe(true);
+    expect(report.checks.map(check => [check.name, check.status])).toEqual([
+      ['pid', 'pass'],
+      ['eval', 'pass'],
+      ['info (Info)', 'pass']
+    ]);
+    expect(report.checks[2].message).toBe('Reply has Name, Ticker, Denomination');
+  });
+
+  it('should fail unexpected output and missing Info fields', async () => {
+    jest.spyOn(ProcessBridge.prototype, 'evaluate').mockResolvedValue('nil');
+
+    const report = await runHealthChecks('token', [
+      checks[1],
+      { type: 'info', name: 'metadata', action: 'Info', fields: ['Name', 'Logo'] }
+    ], { info: info(), timeout: 1000, transport: () => infoReply });
+
+    expect(report.healthy).toBe(false);
+    expect(report.checks[0].message).toBe('Expected output containing "pong", got "nil"');
+    expect(report.checks[1]).toEqual(expect.objectContaining({ name: 'metadata', status: 'fail', message: 'Reply is missing Logo' }));
+  });
+
+  it('should skip evaluation when the process is down', async () => {
+    const report = await runHealthChecks('token', checks, {
+      info: info({ pid: 999999999, status: 'exited' }),
+      timeout: 1000,
+      transport: () => infoReply
+    });
+
+    expect(report.checks.map(check => check.status)).toEqual(['fail', 'skip', 'pass']);
+    expect(report.checks[0].message).toContain('PID 999999999 is not running');
+  });
+
+  it('should skip info checks of local processes, whose state a dry run would change', async () => {
+    const transport = jest.fn(() => infoReply);
+
+    const report = await runHealthChecks('token', [checks[2]], { info: info({ local: true }), timeout: 1000, transport });
+
+    expect(report.healthy).toBe(true);
+    expect(report.checks[0]).toMatchObject({ status: 'skip', message: expect.stringContaining('cannot dry-run') });
+    expect(transport).not.toHaveBeenCalled();
+  });
+
+  it('should fail checks that take too long', async () => {
+    jest.spyOn(ProcessBridge.prototype, 'evaluate').mockReturnValue(new Promise(() => {}));
+
+    const report = await runHealthChecks('token', [checks[1]], { info: info(), timeout: 50, transport: () => infoReply });
+
+    expect(report.checks[0]).toEqual(expect.objectContaining({ status: 'fail', message: 'Operation timed out after 50ms' }));
+  });
+
+  it('should explain processes that were never started or have no ID', async () => {
+    const report = await runHealthChecks('token', [{ type: 'pid' }, checks[2]], {
+      info: null,
+      timeout: 1000,
+      transport: () => infoReply
+    });
+
+    expect(report.checks.map(check => check.message)).toEqual([
+      'Process is not registered for this project',
+      'Process ID unknown; start the process with "ao-forge process up"'
+    ]);
+  });
+
+  it('should find fields in reply tags and JSON data', () => {
+    expect(findMissingFields({
+      Messages: [{ Tags: [{ name: 'Name', value: 'x' }], Data: '{"Balance":"1"}' }, { Data: 'plain' }],
+      Spawns: [],
+      Output: ''
+    }, ['Name', 'Balance', 'Ticker'])).toEqual(['Ticker']);
+  });
+
+  it('should prefer process, then project, then default checks', () => {
+    const project = { timeout: '5s', checks: [{ type: 'pid' as const }] };
+    const own = { timeout: '1s', checks: [checks[2]] };
+
+    expect(getHealthConfig(createMockConfig())).toBe(DEFAULT_HEALTH_CONFIG);
+    expect(getHealthConfig(createMockConfig({ health: project }))).toBe(project);
+    expect(getHealthConfig(createMockConfig({ health: project }), { health: own })).toBe(own);
+  });
+
+  it('should render one line per check', () => {
+    const output = renderHealthReport({
+      process: 'token',
+      healthy: false,
+      checkedAt: new Date().toISOString(),
+      checks: [
+        { name: 'pid', type: 'pid', status: 'fail', message: 'PID 1 is not running', duration: 1 },
+        { name: 'eval', type: 'eval', status: 'skip', message: 'Process is not running', duration: 0 }
+      ]
+    });
+
+    expect(output).toContain('unhealthy');
+    expect(output).toContain('pid   PID 1 is not running');
+    expect(output).toContain('eval  Process is not running');
+  });
+});
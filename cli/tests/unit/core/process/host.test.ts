@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import path from 'path';
+import os from 'os';
+import fs from 'fs-extra';
+import { ProcessHost, buildEvalInput, parseEvalOutput, toLuaString } from '../../../../src/core/process/host';
+import { AOEmulator, getOutputText } from '../../../../src/core/process/emulator';
+import { ProcessBridge } from '../../../../src/core/process/bridge';
+import { CronStore } from '../../../../src/core/process/cron';
+import { ProcessRegistry } from '../../../../src/core/process/registry';
+import { createMockConfig } from '../../../setup';
+
+jest.mock('../../../../src/core/utils/logging');
+
+// Minimal stand-in for the aos REPL: echoes input behind a prompt and
+// answers the eval markers the host writes, one line at a time
+const FAKE_REPL = `
+const rl = require('readline').createInterface({ input: process.stdin });
+let hang = false;
+let queue = Promise.resolve();
+const handle = async (line) => {
+  const marker = /^print\\("(.*)" \\.\\. "(.*)"\\)$/.exec(line);
+  if (marker) return hang && marker[2].startsWith('END') ? (hang = false) : console.log(marker[1] + marker[2]);
+  console.log('aos> ' + line);
+  if (line.includes('hang')) return (hang = true);
+  if (line.includes('slow')) await new Promise(resolve => setTimeout(resolve, 300));
+  if (line.includes('notice')) console.log('New Message From alice: Action = Transfer');
+  console.log('\\x1b[32mresult:' + line.length + '\\x1b[0m');
+};
+rl.on('line', (line) => (queue = queue.then(() => handle(line))));
+`;
+
+describe('toLuaString', () => {
+  it('should escape quotes, backslashes and control characters', () => {
+    expect(toLuaString('say "hi"\\n')).toBe('"say \\"hi\\"\\\\n"');
+    expect(toLuaString('a\nb\tc')).toBe('"a\\nb\\009c"');
+  });
+
+  it('should produce single-line eval input', () => {
+    const input = buildEvalInput('local x = 1\nreturn x');
+    expect(input).not.toContain('\n');
+    expect(input).toContain('load("return " .. src, "=eval")');
+  });
+
+  it('should report the errors of eval input apart from its output', async () => {
+    const emulator = await AOEmulator.create({ projectPath: os.tmpdir(), name: 'eval', owner: 'alice' });
+    const evaluate = (code: string) => parseEvalOutput(getOutputText(emulator.evaluate(buildEvalInput(code))));
+
+    expect(evaluate('1 + 1')).toEqual({ output: '2' });
+    expect(evaluate('print("before"); error("boom")')).toEqual({ output: 'before', error: 'eval:1: boom' });
+    expect(evaluate('local =').error).toContain('eval:1:');
+    emulator.close();
+  });
+});
+
+describe('ProcessHost', () => {
+  let tmpDir: string;
+  let host: ProcessHost;
+  let bridge: ProcessBridge;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ao-forge-host-'));
+    const socketPath = path.join(tmpDir, 'host.sock');
+    host = new ProcessHost({
+      name: 'fake',
+      projectPath: tmpDir,
+      socketPath,
+      command: process.execPath,
+      args: ['-e', FAKE_REPL],
+      journalFile: path.join(tmpDir, 'fake.ndjson'),
+      cleanup: [path.join(tmpDir, 'wallet')]
+    });
+    await host.start();
+    bridge = new ProcessBridge(socketPath);
+  });
+
+  afterEach(async () => {
+    await host.shutdown();
+    await fs.remove(tmpDir);
+  });
+
+  it('should answer pings', async () => {
+    expect(await bridge.ping()).toBe(true);
+  });
+
+  it('should return captured output without echo or colors', async () => {
+    const output = await bridge.evaluate('return 1 + 1');
+    expect(output).toBe(`result:${buildEvalInput('return 1 + 1').length}`);
+  });
+
+  it('should run concurrent evaluations one at a time', async () => {
+    const [first, second] = await Promise.all([
+      bridge.evaluate('return 1'),
+      bridge.evaluate('return 22')
+    ]);
+    expect(first).toBe(`result:${buildEvalInput('return 1').length}`);
+    expect(second).toBe(`result:${buildEvalInput('return 22').length}`);
+  });
+
+  it('should not wait for output when await is false', async () => {
+    await expect(bridge.evaluate('return 1', { await: false })).resolves.toBe('');
+  });
+
+  it('should time out when the process never finishes', async () => {
+    await expect(bridge.evaluate('hang()', { timeout: 200 })).rejects.toThrow('Evaluation timed out after 200ms');
+  });
+
+  it('should not mix late output of a timed out evaluation into the next', async () => {
+    await expect(bridge.evaluate('slow()', { timeout: 100 })).rejects.toThrow('Evaluation timed out after 100ms');
+
+    await expect(bridge.evaluate('return 1')).resolves.toBe(`result:${buildEvalInput('return 1').length}`);
+  });
+
+  it('should report live state with captured output', async () => {
+    await bridge.evaluate('return 1');
+    expect((await bridge.request('state')).messageCount).toBe(0);
+
+    await bridge.evaluate('notice()');
+    const state = await bridge.request('state');
+
+    expect(state).toEqual(expect.objectContaining({ id: 'fake', status: 'running', errorCount: 0, messageCount: 1 }));
+    expect(state.messages[state.messages.length - 1].data).toContain('result:');
+  });
+
+  it('should journal process output', async () => {
+    await bridge.evaluate('return 1');
+    const lines = (await fs.readFile(path.join(tmpDir, 'fake.ndjson'), 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+
+    expect(lines[lines.length - 1]).toEqual(expect.objectContaining({
+      process: 'fake',
+      direction: 'log',
+      data: expect.stringContaining('result:')
+    }));
+  });
+
+  it('should run aos .load with an absolute path', async () => {
+    const output = await bridge.load('main.lua');
+    expect(output).toBe(`result:${`.load ${path.join(tmpDir, 'main.lua')}`.length}`);
+  });
+
+  it('should run and report cron jobs from the project cron file', async () => {
+    expect((await bridge.request('state')).schedulers).toEqual([]);
+
+    const store = new CronStore(tmpDir);
+    await store.add({ id: 'tick', process: 'fake', expression: '*/5 * * * *', tick: 'tick()', maxRetries: 3 });
+    await store.add({ id: 'report', process: 'fake', expression: '1-hour', tick: 'report()', maxRetries: 3 });
+    await store.add({ id: 'other', process: 'someone-else', expression: '1-hour', tick: 'x()', maxRetries: 3 });
+    await store.setPaused('fake', 'report', true);
+
+    const { schedulers } = await bridge.request('cron-reload');
+    expect(schedulers).toEqual([
+      expect.objectContaining({ name: 'tick', expression: '*/5 * * * *', running: true, nextRun: expect.any(String) }),
+      expect.objectContaining({ name: 'report', running: false })
+    ]);
+
+    await store.remove('fake', 'tick');
+    expect((await bridge.request('cron-reload')).schedulers).toEqual([
+      expect.objectContaining({ name: 'report', running: false })
+    ]);
+  });
+
+  it('should only deliver messages to local processes', async () => {
+    await expect(bridge.deliver({ Tags: [] })).rejects.toThrow('Process fake is not local');
+  });
+
+  it('should reject unknown requests', async () => {
+    await expect(bridge.request('nope')).rejects.toThrow('Unknown request type: nope');
+  });
+
+  it('should report an unreachable process', async () => {
+    const missing = new ProcessBridge(path.join(tmpDir, 'missing.sock'));
+    expect(await missing.ping()).toBe(false);
+  });
+
+  it('should remove cleanup files on shutdown', async () => {
+    await fs.outputJSON(path.join(tmpDir, 'wallet', 'dev.json'), { kty: 'RSA' });
+    await host.shutdown();
+    expect(await fs.pathExists(path.join(tmpDir, 'wallet'))).toBe(false);
+  });
+});
+
+describe('ProcessHost supervision', () => {
+  let tmpDir: string;
+  let registry: ProcessRegistry;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ao-forge-supervise-'));
+    registry = new ProcessRegistry(path.join(tmpDir, 'processes.json'));
+    await registry.register({
+      name: 'crashy',
+      projectPath: tmpDir,
+      pid: process.pid,
+      startTime: new Date().toISOString(),
+      status: 'running',
+      config: createMockConfig()
+    });
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmpDir);
+  });
+
+  function startCrashingHost(script: string, restart: any): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const host = new ProcessHost({
+        name: 'crashy',
+        projectPath: tmpDir,
+        socketPath: path.join(tmpDir, 'crashy.sock'),
+        command: process.execPath,
+        args: ['-e', script],
+        logFile: path.join(tmpDir, 'crashy.log'),
+        restart
+      }, resolve, registry);
+      host.start().catch(reject);
+    });
+  }
+
+  it('should restart a crashing process until max restarts', async () => {
+    const code = await startCrashingHost('process.exit(3)', { policy: 'on-failure', maxRestarts: 2, backoff: 10 });
+
+    expect(code).toBe(3);
+    expect(await registry.get(tmpDir, 'crashy')).toEqual(expect.objectContaining({
+      status: 'exited',
+      restartCount: 2,
+      lastExitCode: 3
+    }));
+    const log = await fs.readFile(path.join(tmpDir, 'crashy.log'), 'utf8');
+    expect(log).toContain('Restarting in 10ms (attempt 1/2, policy on-failure)');
+    expect(log).toContain('Not restarting: gave up after 2 restart(s)');
+  });
+
+  it('should not restart a clean exit with on-failure', async () => {
+    await expect(startCrashingHost('process.exit(0)', { policy: 'on-failure' })).resolves.toBe(0);
+    expect((await registry.get(tmpDir, 'crashy'))?.restartCount).toBeUndefined();
+  });
+
+  it('should cancel a pending restart when the process is stopped', async () => {
+    const exited = startCrashingHost('process.exit(1)', { policy: 'always', backoff: 1000 });
+    while ((await registry.get(tmpDir, 'crashy'))?.status !== 'restarting') {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    await registry.update(tmpDir, 'crashy', { status: 'stopped' });
+
+    await expect(exited).resolves.toBe(0);
+    expect(await fs.readFile(path.join(tmpDir, 'crashy.log'), 'utf8')).toContain('Restart cancelled');
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import {
+  MessageJournal,
+  createOutputEntry,
+  formatJournalEntry,
+  getJournalFile,
+  readJournal,
+  toJournalCSV
+} from '../../../../src/core/process/journal';
+import { JournalEntry } from '../../../../src/types/aos';
+
+describe('message journal', () => {
+  const target = 't'.repeat(43);
+  let projectPath: string;
+  let filePath: string;
+  let journal: MessageJournal;
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'ao-forge-journal-'));
+    filePath = getJournalFile(projectPath, 'token');
+    journal = MessageJournal.forProcess(projectPath, 'token');
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectPath);
+  });
+
+  const entry = (overrides: Partial<JournalEntry>): JournalEntry => ({
+    id: 'm1',
+    process: 'token',
+    direction: 'sent',
+    timestamp: '2026-01-01T10:00:00.000Z',
+    action: 'Transfer',
+    sender: 'alice',
+    recipient: target,
+    tags: { Action: 'Transfer', Recipient: 'bob', Quantity: '10' },
+    data: '',
+    ...overrides
+  });
+
+  it('should classify process output', () => {
+    expect(createOutputEntry('token', '\x1b[32mhello\x1b[0m', '1')).toEqual(expect.objectContaining({
+      direction: 'log', action: 'log', sender: 'process', recipient: 'stdout', data: 'hello'
+    }));
+    expect(createOutputEntry('token', 'New Message From \x1b[32mabc...xyz\x1b[0m: Action = Credit-Notice', '2'))
+      .toEqual(expect.objectContaining({ direction: 'received', action: 'Credit-Notice', sender: 'abc...xyz', recipient: 'token' }));
+  });
+
+  it('should persist sent messages and their results as NDJSON', async () => {
+    journal.recordSent('m1', {
+      target,
+      tags: [{ name: 'Action', value: 'Transfer' }, { name: 'Quantity', value: '10' }],
+      data: 'note'
+    }, 'alice');
+    journal.recordResult('m1', target, {
+      Messages: [{ Target: 'bob', Tags: [{ name: 'Action', value: 'Credit-Notice' }], Data: 'You got 10' }],
+      Spawns: [],
+      Output: { data: 'Transferred' }
+    });
+
+    const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(lines).toEqual([
+      expect.objectContaining({ id: 'm1', direction: 'sent', action: 'Transfer', sender: 'alice', recipient: target, data: 'note' }),
+      expect.objectContaining({ id: 'm1/output', direction: 'log', sender: target, data: 'Transferred' }),
+      expect.objectContaining({ id: 'm1/1', direction: 'received', action: 'Credit-Notice', sender: target, recipient: 'bob' })
+    ]);
+  });
+
+  it('should filter by direction, action, sender, tags and time', async () => {
+    journal.append(entry({ id: 'a' }));
+    journal.append(entry({ id: 'b', action: 'Balance', tags: { Action: 'Balance' }, timestamp: '2026-01-01T11:00:00.000Z' }));
+    journal.append(entry({ id: 'c', direction: 'received', sender: 'bob', tags: { Recipient: 'carol' }, timestamp: '2026-01-01T12:00:00.000Z' }));
+    await fs.appendFile(filePath, '{"id":"partial"\n');
+
+    const ids = async (query: object) => (await readJournal(filePath, query)).map(found => found.id);
+    expect(await ids({})).toEqual(['a', 'b', 'c']);
+    expect(await ids({ direction: 'sent', action: 'Transfer' })).toEqual(['a']);
+    expect(await ids({ from: 'bob' })).toEqual(['c']);
+    expect(await ids({ tags: [{ name: 'Recipient', value: 'bob' }] })).toEqual(['a']);
+    expect(await ids({ tags: [{ name: 'Recipient', value: '*o*' }] })).toEqual(['a', 'c']);
+    expect(await ids({ since: new Date('2026-01-01T10:30:00.000Z'), until: new Date('2026-01-01T11:30:00.000Z') })).toEqual(['b']);
+    expect(await ids({ limit: 2 })).toEqual(['b', 'c']);
+  });
+
+  it('should read nothing for a process without a journal', async () => {
+    await expect(readJournal(getJournalFile(projectPath, 'ghost'))).resolves.toEqual([]);
+  });
+
+  it('should export CSV with quoted fields', () => {
+    const csv = toJournalCSV([entry({ data: 'a, "b"\nc' })]);
+    const [header, row] = csv.split('\n');
+
+    expect(header).toBe('timestamp,direction,process,id,action,sender,recipient,tags,data');
+    expect(row).toContain('2026-01-01T10:00:00.000Z,sent,token,m1,Transfer,alice,');
+    expect(row).toContain('"{""Action"":""Transfer"",""Recipient"":""bob"",""Quantity"":""10""}"');
+    expect(csv).toContain('"a, ""b""\nc"');
+  });
+
+  it('should format entries on one line', () => {
+    const line = formatJournalEntry(entry({ data: { amount: 10 } }));
+
+    expect(line).toContain(`[Transfer] alice -> ${target}`);
+    expect(line).toContain('Recipient=bob Quantity=10');
+    expect(line).toContain('{"amount":10}');
+    expect(formatJournalEntry(entry({ direction: 'log', data: 'hello\nworld' }))).toContain('hello world');
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { AOEmulator, getOutputText } from '../../../../src/core/process/emulator';
+import { LOCAL_RESULT_MARKER, LocalProcessTransport, parseLocalResult } from '../../../../src/core/process/local';
+import { ProcessBridge } from '../../../../src/core/process/bridge';
+
+describe('parseLocalResult', () => {
+  it('should read the result line after other output', () => {
+    const result = { Messages: [], Spawns: [], Assignments: [], Output: 'done' };
+
+    expect(parseLocalResult(`tick\n${LOCAL_RESULT_MARKER}${JSON.stringify(result)}`)).toEqual(result);
+  });
+
+  it('should fail when there is no result line', () => {
+    expect(() => parseLocalResult('syntax error')).toThrow('did not return a result: syntax error');
+  });
+});
+
+describe('LocalProcessTransport', () => {
+  let tempDir: string;
+  let emulator: AOEmulator;
+  let transport: LocalProcessTransport;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ao-forge-local-'));
+    emulator = await AOEmulator.create({ projectPath: tempDir, owner: 'owner-address' });
+    emulator.evaluate('Handlers.add("ping", "Ping", function(msg) Pings = (Pings or 0) + 1; msg.reply({ Data = msg.From }) end)');
+    // Stands in for the host, which hands messages to `process __local`
+    const bridge = { deliver: async (message: any) => emulator.deliver(message) } as unknown as ProcessBridge;
+    transport = new LocalProcessTransport(bridge, 'owner-address');
+  });
+
+  afterEach(async () => {
+    emulator.close();
+    await fs.remove(tempDir);
+  });
+
+  it('should deliver messages from its sender and keep their results', async () => {
+    const id = await transport.send({ target: emulator.id, tags: [{ name: 'Action', value: 'Ping' }], data: '' });
+
+    const result = await transport.result(emulator.id, id);
+
+    expect(result.Messages[0]).toMatchObject({ Target: 'owner-address', Data: 'owner-address' });
+    expect(getOutputText(emulator.evaluate('Pings'))).toBe('1');
+    await expect(transport.result(emulator.id, 'unknown')).rejects.toThrow('No result for message: unknown');
+  });
+
+  it('should refuse dry runs, which would change state', async () => {
+    await expect(transport.dryrun({ target: emulator.id, tags: [{ name: 'Action', value: 'Ping' }], data: '' }))
+      .rejects.toThrow('cannot dry-run');
+
+    expect(getOutputText(emulator.evaluate('Pings == nil'))).toBe('true');
+  });
+});
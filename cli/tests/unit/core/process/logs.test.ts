@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import path from 'path';
+import os from 'os';
+import fs from 'fs-extra';
+import {
+  RotatingLogWriter,
+  LogEntry,
+  followLog,
+  parseLogLine,
+  parseSince,
+  readLogEntries
+} from '../../../../src/core/process/logs';
+
+describe('process logs', () => {
+  let tmpDir: string;
+  let logFile: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ao-forge-logs-'));
+    logFile = path.join(tmpDir, 'logs', 'token.log');
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmpDir);
+  });
+
+  it('should write timestamped lines without ANSI colors', async () => {
+    const writer = new RotatingLogWriter(logFile);
+    writer.write('stdout', '\x1b[32mHello\x1b[0m\nWorld\n');
+    writer.write('stderr', 'boom');
+
+    const entries = await readLogEntries(logFile);
+    expect(entries.map(entry => [entry.stream, entry.message])).toEqual([
+      ['stdout', 'Hello'],
+      ['stdout', 'World'],
+      ['stderr', 'boom']
+    ]);
+  });
+
+  it('should rotate by size and read rotated files oldest first', async () => {
+    const writer = new RotatingLogWriter(logFile, { maxSize: 100, maxFiles: 3 });
+    for (let i = 0; i < 10; i++) {
+      writer.write('stdout', `line ${i}`);
+    }
+
+    const files = (await fs.readdir(path.dirname(logFile))).sort();
+    expect(files).toEqual(['token.log', 'token.log.1', 'token.log.2']);
+    for (const file of files) {
+      expect((await fs.stat(path.join(path.dirname(logFile), file))).size).toBeLessThanOrEqual(100);
+    }
+
+    const messages = (await readLogEntries(logFile)).map(entry => entry.message);
+    expect(messages[messages.length - 1]).toBe('line 9');
+    expect(messages).toEqual([...messages].sort());
+  });
+
+  it('should filter by time and pattern', async () => {
+    await fs.ensureDir(path.dirname(logFile));
+    await fs.writeFile(logFile, [
+      '2026-01-01T00:00:00.000Z stdout old Transfer',
+      '2026-01-02T00:00:00.000Z stdout new Transfer',
+      '2026-01-02T00:00:01.000Z stderr new Error',
+      'not a log line'
+    ].join('\n'));
+
+    const since = new Date('2026-01-01T12:00:00.000Z');
+    const entries = await readLogEntries(logFile, { since, grep: /Transfer/ });
+    expect(entries.map(entry => entry.message)).toEqual(['new Transfer']);
+  });
+
+  it('should return nothing for a process without logs', async () => {
+    expect(await readLogEntries(path.join(tmpDir, 'missing', 'x.log'))).toEqual([]);
+  });
+
+  it('should parse durations and dates for --since', () => {
+    const now = Date.parse('2026-01-01T01:00:00.000Z');
+    expect(parseSince('10m', now).toISOString()).toBe('2026-01-01T00:50:00.000Z');
+    expect(parseSince('2025-12-31T00:00:00Z', now).toISOString()).toBe('2025-12-31T00:00:00.000Z');
+    expect(() => parseSince('yesterday-ish', now)).toThrow('Invalid --since value');
+    expect(parseSince('2024', now).getUTCFullYear()).toBe(2024);
+    expect(() => parseSince('90', now)).toThrow('Use a duration with a unit');
+  });
+
+  it('should ignore malformed lines', () => {
+    expect(parseLogLine('garbage')).toBeNull();
+    expect(parseLogLine('nope stdout hi')).toBeNull();
+  });
+
+  it('should follow appended lines', async () => {
+    const writer = new RotatingLogWriter(logFile);
+    writer.write('stdout', 'before');
+
+    const seen: LogEntry[] = [];
+    const following = followLog(logFile, {}, entry => seen.push(entry), () => seen.length >= 2);
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    writer.write('stdout', 'after 1');
+    writer.write('stdout', 'after 2');
+    await following;
+
+    expect(seen.map(entry => entry.message)).toEqual(['after 1', 'after 2']);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import path from 'path';
+import os from 'os';
+import fs from 'fs-extra';
+import { AOEmulator } from '../../../../src/core/process/emulator';
+import {
+  bundleLua,
+  checkLuaSyntax,
+  findRequires,
+  resolveLuaDependencies
+} from '../../../../src/core/process/lua';
+
+describe('checkLuaSyntax', () => {
+  it('should accept balanced code', () => {
+    const source = [
+      '#!/usr/bin/env lua',
+      'local json = require("json")',
+      '-- a comment with "quotes" and end',
+      '--[==[ long comment',
+      'function broken( ]==]',
+      'Handlers.add("ping", function(msg)',
+      '  for i = 1, 3 do print(i) end',
+      '  if msg.Data == [[end]] then return end',
+      '  repeat local x = {1, 2, t[1]} until true',
+      '  while false do end',
+      '  print(\'it\\\'s \' .. 0x1F .. 1e-3)',
+      'end)'
+    ].join('\n');
+
+    expect(checkLuaSyntax(source)).toBeNull();
+  });
+
+  it('should report an unclosed block', () => {
+    expect(checkLuaSyntax('function f()\n  if x then\n    return 1\nend')).toEqual({
+      line: 4,
+      message: "'end' expected (to close 'function' at line 1) near '<eof>'"
+    });
+  });
+
+  it('should report mismatched closers', () => {
+    expect(checkLuaSyntax('repeat\n  x = 1\nend')).toEqual({
+      line: 3,
+      message: "'until' expected (to close 'repeat' at line 1) near 'end'"
+    });
+    expect(checkLuaSyntax('print("a"))')).toEqual({ line: 1, message: "'<eof>' expected near ')'" });
+  });
+
+  it('should report unfinished strings and comments', () => {
+    expect(checkLuaSyntax('x = 1\nprint("oops)\n')?.line).toBe(2);
+    expect(checkLuaSyntax('--[[ never closed')?.message).toContain('unfinished long comment');
+  });
+});
+
+describe('findRequires', () => {
+  it('should find literal requires outside comments and strings', () => {
+    const source = [
+      'local a = require("lib.a")',
+      "local b = require 'b'",
+      '-- require("commented")',
+      'print("require(\'quoted\')")',
+      'local c = require(name)',
+      'local a2 = require("lib.a")'
+    ].join('\n');
+
+    expect(findRequires(source)).toEqual(['lib.a', 'b']);
+  });
+});
+
+describe('resolveLuaDependencies', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ao-forge-lua-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmpDir);
+  });
+
+  it('should follow requires transitively and skip unknown modules', async () => {
+    await fs.outputFile(path.join(tmpDir, 'main.lua'), 'local json = require("json")\nlocal u = require("lib.utils")');
+    await fs.outputFile(path.join(tmpDir, 'lib', 'utils.lua'), 'return require("lib.math")');
+    await fs.outputFile(path.join(tmpDir, 'lib', 'math', 'init.lua'), 'return require("lib.utils")');
+
+    const deps = await resolveLuaDependencies('main.lua', tmpDir);
+    expect(deps.sort()).toEqual([
+      path.join(tmpDir, 'lib', 'math', 'init.lua'),
+      path.join(tmpDir, 'lib', 'utils.lua')
+    ]);
+  });
+});
+
+describe('bundleLua', () => {
+  let tmpDir: string;
+  let emulator: AOEmulator | undefined;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ao-forge-lua-'));
+  });
+
+  afterEach(async () => {
+    emulator?.close();
+    await fs.remove(tmpDir);
+  });
+
+  it('should carry the required project modules into a process without the files', async () => {
+    await fs.outputFile(path.join(tmpDir, 'main.lua'), 'local json = require("json")\nTotal = require("lib.sum")(2, 3)');
+    await fs.outputFile(path.join(tmpDir, 'lib', 'sum.lua'), 'local add = require("lib.add")\nreturn function(a, b) return add(a, b) end');
+    await fs.outputFile(path.join(tmpDir, 'lib', 'add.lua'), 'return function(a, b) return a + b end');
+
+    const bundle = await bundleLua('main.lua', tmpDir);
+    emulator = await AOEmulator.create({ projectPath: os.tmpdir() });
+    emulator.run(bundle);
+
+    expect(emulator.run('return Total')).toBe(5);
+    expect(bundle).not.toContain('package.preload["json"]');
+  });
+});
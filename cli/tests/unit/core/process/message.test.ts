@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import {
+  buildMessage,
+  getWalletAddress,
+  parseTag,
+  readMessageData,
+  readWallet,
+  renderMessageResult
+} from '../../../../src/core/process/message';
+
+describe('process messages', () => {
+  const target = 't'.repeat(43);
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'ao-forge-message-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectPath);
+  });
+
+  it('should parse Name=Value tags', () => {
+    expect(parseTag('Recipient=abc')).toEqual({ name: 'Recipient', value: 'abc' });
+    expect(parseTag('Note=a=b')).toEqual({ name: 'Note', value: 'a=b' });
+    expect(parseTag('Empty=')).toEqual({ name: 'Empty', value: '' });
+    expect(() => parseTag('=value')).toThrow('Invalid tag');
+    expect(() => parseTag('Recipient')).toThrow('Invalid tag');
+  });
+
+  it('should build a message with the action as its first tag', () => {
+    expect(buildMessage({ target, action: 'Transfer', tags: ['Quantity=10'], data: 'hi' })).toEqual({
+      target,
+      tags: [{ name: 'Action', value: 'Transfer' }, { name: 'Quantity', value: '10' }],
+      data: 'hi'
+    });
+    expect(buildMessage({ target })).toEqual({ target, tags: [], data: '' });
+  });
+
+  it('should reject invalid targets and duplicate actions', () => {
+    expect(() => buildMessage({ target: 'token' })).toThrow('Invalid target process ID');
+    expect(() => buildMessage({ target, action: 'Transfer', tags: ['Action=Balance'] })).toThrow('not both');
+  });
+
+  it('should read @file data relative to the project', async () => {
+    await fs.writeFile(path.join(projectPath, 'payload.json'), '{"amount":1}');
+
+    await expect(readMessageData(projectPath, '@payload.json')).resolves.toBe('{"amount":1}');
+    await expect(readMessageData(projectPath, 'plain')).resolves.toBe('plain');
+    await expect(readMessageData(projectPath)).resolves.toBeUndefined();
+    await expect(readMessageData(projectPath, '@missing.json')).rejects.toThrow('Data file not found');
+  });
+
+  it('should read RSA wallets only', async () => {
+    const walletPath = path.join(projectPath, 'wallet.json');
+    await fs.writeJSON(walletPath, { kty: 'RSA', n: 'AQAB', e: 'AQAB', d: 'AQAB' });
+    await fs.writeJSON(path.join(projectPath, 'public.json'), { kty: 'RSA', n: 'AQAB', e: 'AQAB' });
+
+    await expect(readWallet(walletPath)).resolves.toEqual(expect.objectContaining({ kty: 'RSA' }));
+    await expect(readWallet(path.join(projectPath, 'public.json'))).rejects.toThrow('not an RSA private key');
+    await expect(readWallet(path.join(projectPath, 'none.json'))).rejects.toThrow('Wallet not found');
+  });
+
+  it('should derive the address from the public modulus', () => {
+    expect(getWalletAddress({ kty: 'RSA', n: 'AQAB', e: 'AQAB' })).toBe('hfkN_qHYAn4UY-XKlxolARCiDfARnSBKdCILxjUW0Vs');
+  });
+
+  it('should render results with their output and outgoing messages', () => {
+    const output = renderMessageResult({
+      Messages: [{ Target: target, Tags: [{ name: 'Action', value: 'Debit-Notice' }], Data: 'You sent 10' }],
+      Spawns: [],
+      Output: { data: 'Transferred 10' }
+    });
+
+    expect(output).toContain('Output:\n  Transferred 10');
+    expect(output).toContain(`Messages: 1\n  -> ${target} [Debit-Notice] You sent 10`);
+    expect(renderMessageResult({ Messages: [], Spawns: [], Output: '', Error: 'boom' })).toContain('Error: boom');
+  });
+});
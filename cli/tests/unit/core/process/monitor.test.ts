@@ -0,0 +1,133 @@
+import { describe, it, expect } from '@jest/globals';
+import { MonitorEntry, renderDashboard, renderInspection, toInspectJSON, toMonitorJSON } from '../../../../src/core/process/monitor';
+import { ProcessInfo, ProcessStateSnapshot } from '../../../../src/types/aos';
+import { createMockConfig } from '../../../setup';
+
+const now = new Date('2026-01-01T01:00:00.000Z');
+
+function createInfo(overrides: Partial<ProcessInfo> = {}): ProcessInfo {
+  return {
+    name: 'token',
+    projectPath: '/project',
+    pid: 1234,
+    startTime: '2026-01-01T00:00:00.000Z',
+    status: 'running',
+    config: createMockConfig(),
+    socketPath: '/tmp/token.sock',
+    ...overrides
+  };
+}
+
+function createSnapshot(overrides: Partial<ProcessStateSnapshot> = {}): ProcessStateSnapshot {
+  return {
+    id: 'token',
+    pid: 1234,
+    status: 'running',
+    startTime: '2026-01-01T00:00:00.000Z',
+    uptime: 90000,
+    features: {
+      version: '2.x',
+      coroutines: true,
+      requestResponse: false,
+      defaultActions: true,
+      bootloader: false,
+      weavedrive: false
+    },
+    config: { name: 'token', monitor: true, sqlite: false, tags: {}, luaFiles: [] },
+    messageCount: 12,
+    messages: Array.from({ length: 7 }, (_, i) => ({
+      id: `m${i}`,
+      timestamp: new Date(`2026-01-01T00:00:0${i}.000Z`),
+      action: 'log',
+      data: `line ${i}`,
+      tags: {},
+      sender: 'token',
+      recipient: 'token'
+    })),
+    errorCount: 1,
+    errors: ['Handler failed'],
+    schedulers: [{
+      name: 'tick',
+      expression: '5-minutes',
+      running: true,
+      retryCount: 2,
+      nextRun: '2026-01-01T01:05:00.000Z'
+    }],
+    ...overrides
+  };
+}
+
+describe('process monitor', () => {
+  it('should render live state for each process', () => {
+    const output = renderDashboard([{ info: createInfo(), snapshot: createSnapshot() }], now);
+
+    expect(output).toContain('token');
+    expect(output).toContain('uptime 1m 30s');
+    expect(output).toContain('Messages: 12');
+    expect(output).toContain('Errors: 1');
+    expect(output).toContain('Features: coroutines, defaultActions');
+    expect(output).toContain('tick (5-minutes)');
+    expect(output).toContain('next 01:05:00');
+    expect(output).toContain('2 failed');
+    expect(output).toContain('Handler failed');
+    // Only the most recent messages are shown
+    expect(output).not.toContain('line 1');
+    expect(output).toContain('line 6');
+  });
+
+  it('should explain missing live state', () => {
+    const entries: MonitorEntry[] = [
+      { info: createInfo({ name: 'fg', socketPath: undefined }), snapshot: null },
+      { info: createInfo({ name: 'dead' }), snapshot: null }
+    ];
+    const output = renderDashboard(entries, now);
+
+    expect(output).toContain('not started with --detach');
+    expect(output).toContain('Process host is not responding');
+  });
+
+  it('should report when there is nothing to monitor', () => {
+    expect(renderDashboard([], now)).toContain('No processes found');
+  });
+
+  it('should produce JSON entries', () => {
+    const snapshot = createSnapshot({ status: 'error' });
+    const json = toMonitorJSON([
+      { info: createInfo(), snapshot },
+      { info: createInfo({ name: 'old', status: 'stopped' }), snapshot: null }
+    ]);
+
+    expect(json).toEqual([
+      expect.objectContaining({ name: 'token', status: 'error', state: snapshot }),
+      expect.objectContaining({ name: 'old', status: 'stopped', state: null })
+    ]);
+  });
+
+  it('should render the full detail of one process', () => {
+    const output = renderInspection({ info: createInfo({ processId: 'p'.repeat(43) }), snapshot: createSnapshot() }, now);
+
+    expect(output).toContain(`Process ID:   ${'p'.repeat(43)}`);
+    expect(output).toContain('Uptime:       1m 30s');
+    expect(output).toContain('Lua files:    none');
+    expect(output).toContain('Messages: 12\nRecent output (7 retained):');
+    // Every retained line is shown, unlike the dashboard
+    expect(output).toContain('line 0');
+    expect(output).toContain('line 6');
+    expect(output).toContain('Handler failed');
+  });
+
+  it('should inspect processes without live state', () => {
+    const output = renderInspection({ info: createInfo({ status: 'exited', exitCode: 3 }), snapshot: null }, now);
+
+    expect(output).toContain('Exit code:    3');
+    expect(output).toContain('Process host is not responding');
+  });
+
+  it('should leave the project config out of inspect JSON', () => {
+    const snapshot = createSnapshot();
+    const json = toInspectJSON({ info: createInfo(), snapshot });
+
+    expect(json).toEqual(expect.objectContaining({ name: 'token', pid: 1234, state: snapshot }));
+    expect(json).not.toHaveProperty('config');
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { NETWORK_ENV, getSpawnTarget, resolveNetwork } from '../../../../src/core/process/network';
+import { ValidationError } from '../../../../src/core/utils/error-handling';
+import { createMockConfig } from '../../../setup';
+
+describe('network profiles', () => {
+  const networks = {
+    local: { gatewayUrl: 'http://localhost:4000', cuUrl: 'http://localhost:6363', muUrl: 'http://localhost:4002' },
+    testnet: { cuUrl: 'https://cu.ao-testnet.xyz', scheduler: 's'.repeat(43) }
+  };
+
+  afterEach(() => {
+    delete process.env[NETWORK_ENV];
+  });
+
+  it('should resolve a profile by name', () => {
+    expect(resolveNetwork(createMockConfig({ networks }), 'local')).toEqual({ name: 'local', ...networks.local });
+  });
+
+  it('should prefer the --network name over the configured network', () => {
+    const config = createMockConfig({ networks, network: 'testnet' });
+    expect(resolveNetwork(config)?.name).toBe('testnet');
+    process.env[NETWORK_ENV] = 'local';
+    expect(resolveNetwork(config)?.name).toBe('local');
+  });
+
+  it('should use inline endpoints when no profile is named', () => {
+    const network = { muUrl: 'http://localhost:4002' };
+    expect(resolveNetwork(createMockConfig({ network }))).toEqual(network);
+    expect(resolveNetwork(createMockConfig())).toBeUndefined();
+  });
+
+  it('should reject unknown networks, listing the configured ones', () => {
+    expect(() => resolveNetwork(createMockConfig({ networks }), 'mainnet'))
+      .toThrow('Unknown network: mainnet. Networks in ao.config.yml: local, testnet');
+    expect(() => resolveNetwork(createMockConfig({ network: 'mainnet' }))).toThrow(ValidationError);
+  });
+
+  it('should spawn from the process module, else the network one, on the network scheduler', () => {
+    const network = { name: 'testnet', ...networks.testnet, module: 'm'.repeat(43) };
+
+    expect(getSpawnTarget(network, 'token', {})).toEqual({ module: 'm'.repeat(43), scheduler: 's'.repeat(43) });
+    expect(getSpawnTarget(network, 'token', { module: 'x'.repeat(43) }).module).toBe('x'.repeat(43));
+    expect(() => getSpawnTarget(undefined, 'token', { module: 'x'.repeat(43) })).toThrow('No scheduler to spawn token on');
+    expect(() => getSpawnTarget({ name: 'local', ...networks.local }, 'token', {})).toThrow('No module to spawn token from');
+  });
+});
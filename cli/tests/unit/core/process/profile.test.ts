@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { AOEmulator } from '../../../../src/core/process/emulator';
+import { Profiler, createProfileReport, renderProfileReport, summarizeRuns } from '../../../../src/core/process/profile';
+import { HandlerRun } from '../../../../src/types/cli';
+import { createMockConfig } from '../../../setup';
+
+const TOKEN = `
+Balances = Balances or { [Owner] = 100 }
+Log = {}
+
+Handlers.add('sum', { Action = 'Sum' }, function(msg)
+  local total = 0
+  for i = 1, tonumber(msg.Count) do total = total + i end
+  msg.reply({ Total = tostring(total) })
+end)
+
+Handlers.add('record', { Action = 'Record' }, function(msg)
+  for i = 1, 100 do Log[#Log + 1] = string.rep('x', 64) .. i end
+end)
+
+Handlers.add('fail', { Action = 'Fail' }, function(msg)
+  error('Nope')
+end)
+`;
+
+function run(handler: string, instructions: number, memory: number): HandlerRun {
+  return { process: 'token', handler, instructions, memory, failed: false };
+}
+
+describe('Profiler', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ao-forge-profile-'));
+    await fs.writeFile(path.join(tempDir, 'token.lua'), TOKEN);
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  it('should measure instructions and heap growth of each handler run', async () => {
+    const emulator = await AOEmulator.create({ projectPath: tempDir, owner: 'alice' });
+    const profiler = new Profiler();
+    emulator.load('token.lua');
+    profiler.attach(emulator);
+
+    const small = emulator.deliver({ Tags: [{ name: 'Action', value: 'Sum' }, { name: 'Count', value: '10' }] });
+    emulator.deliver({ Tags: [{ name: 'Action', value: 'Sum' }, { name: 'Count', value: '1000' }] });
+    emulator.deliver({ Tags: [{ name: 'Action', value: 'Record' }] });
+    const failed = emulator.deliver({ Tags: [{ name: 'Action', value: 'Fail' }] });
+    const runs = profiler.collect(emulator, 'token');
+    emulator.close();
+
+    expect(small.Messages[0].Tags).toContainEqual({ name: 'Total', value: '55' });
+    expect(failed.Error).toContain('Nope');
+    expect(runs.map(entry => [entry.process, entry.handler, entry.action, entry.failed])).toEqual([
+      ['token', 'sum', 'Sum', false],
+      ['token', 'sum', 'Sum', false],
+      ['token', 'record', 'Record', false],
+      ['token', 'fail', 'Fail', true]
+    ]);
+    expect(runs[0].instructions).toBeGreaterThan(10);
+    expect(runs[1].instructions).toBeGreaterThan(runs[0].instructions + 1900);
+    expect(runs[2].memory).toBeGreaterThan(runs[0].memory + 100 * 64);
+    expect(profiler.runs).toEqual(runs);
+  });
+
+  it('should add up runs by handler', () => {
+    const [sum, record] = summarizeRuns([run('sum', 100, 0), run('record', 50, 2048), run('sum', 300, 64)]);
+
+    expect(sum).toMatchObject({ handler: 'sum', calls: 2, mean: { instructions: 200, memory: 32 }, max: { instructions: 300, memory: 64 } });
+    expect(record).toMatchObject({ handler: 'record', calls: 1, max: { instructions: 50, memory: 2048 } });
+  });
+});
+
+describe('createProfileReport', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ao-forge-profile-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  it('should flag handlers over their budget', async () => {
+    const config = createMockConfig({ profile: { budget: { instructions: 1000 }, handlers: { record: { memory: 1024 } } } });
+
+    const report = await createProfileReport(tempDir, config, [run('sum', 1500, 0), run('record', 2000, 4096)]);
+
+    expect(report.ok).toBe(false);
+    expect(report.handlers.map(profile => profile.violations)).toEqual([
+      ['1,500 instructions, over the budget of 1,000 instructions'],
+      ['4.0 KB, over the budget of 1.0 KB']
+    ]);
+    expect(renderProfileReport(report)).toContain('✗ token/record: 4.0 KB, over the budget of 1.0 KB');
+  });
+
+  it('should save a baseline and flag regressions against it', async () => {
+    const config = createMockConfig({ profile: { baseline: 'perf/baseline.json', tolerance: 20 } });
+
+    const saved = await createProfileReport(tempDir, config, [run('sum', 1000, 100), run('record', 500, 0)], { updateBaseline: true });
+    const later = await createProfileReport(tempDir, config, [run('sum', 1100, 100), run('record', 700, 0)]);
+
+    expect(saved).toMatchObject({ ok: true, updated: true, baselineFile: path.join('perf', 'baseline.json') });
+    const baseline = await fs.readJson(path.join(tempDir, 'perf', 'baseline.json'));
+    expect(baseline.processes.token.sum).toEqual({ instructions: 1000, memory: 100 });
+    expect(later.ok).toBe(false);
+    expect(later.handlers[0]).toMatchObject({ baseline: { instructions: 1000 }, violations: [] });
+    expect(later.handlers[1].violations).toEqual(['700 instructions (+40%), over the baseline of 500 instructions']);
+    expect(renderProfileReport(saved)).toContain(`Saved the baseline to ${path.join('perf', 'baseline.json')}`);
+  });
+});
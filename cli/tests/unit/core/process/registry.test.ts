@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import path from 'path';
+import os from 'os';
+import fs from 'fs-extra';
+import { ProcessRegistry, getProcessIdentity } from '../../../../src/core/process/registry';
+import { ProcessInfo } from '../../../../src/types/aos';
+import { createMockConfig } from '../../../setup';
+
+const DEAD_PID = 2147483646;
+
+const createInfo = (overrides: Partial<ProcessInfo> = {}): ProcessInfo => ({
+  name: 'token',
+  projectPath: '/projects/app',
+  pid: process.pid,
+  startTime: new Date().toISOString(),
+  status: 'running',
+  config: createMockConfig() as any,
+  ...overrides,
+});
+
+describe('ProcessRegistry', () => {
+  let tmpDir: string;
+  let registry: ProcessRegistry;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ao-forge-registry-'));
+    registry = new ProcessRegistry(path.join(tmpDir, 'processes.json'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmpDir);
+  });
+
+  it('should keep several processes per project', async () => {
+    await registry.register(createInfo({ name: 'token' }));
+    await registry.register(createInfo({ name: 'registry' }));
+    await registry.register(createInfo({ name: 'oracle', projectPath: '/projects/other' }));
+
+    const processes = await registry.list('/projects/app');
+    expect(processes.map(info => info.name).sort()).toEqual(['registry', 'token']);
+    expect(await registry.list()).toHaveLength(3);
+  });
+
+  it('should overwrite an entry with the same project and name', async () => {
+    await registry.register(createInfo({ startTime: 'first' }));
+    await registry.register(createInfo({ startTime: 'second' }));
+
+    const processes = await registry.list();
+    expect(processes).toHaveLength(1);
+    expect(processes[0].startTime).toBe('second');
+  });
+
+  it('should update and remove entries', async () => {
+    await registry.register(createInfo());
+
+    const updated = await registry.update('/projects/app', 'token', { status: 'stopped', exitCode: 0 });
+    expect(updated?.status).toBe('stopped');
+    expect((await registry.get('/projects/app', 'token'))?.exitCode).toBe(0);
+
+    expect(await registry.remove('/projects/app', 'token')).toBe(true);
+    expect(await registry.get('/projects/app', 'token')).toBeNull();
+    expect(await registry.update('/projects/app', 'token', { status: 'stopped' })).toBeNull();
+  });
+
+  it('should reap running and restarting entries whose PID is gone', async () => {
+    await registry.register(createInfo({ name: 'alive' }));
+    await registry.register(createInfo({ name: 'dead', pid: DEAD_PID }));
+    await registry.register(createInfo({ name: 'crashed', pid: DEAD_PID, status: 'restarting' }));
+    await registry.register(createInfo({ name: 'stopped', pid: DEAD_PID, status: 'stopped' }));
+
+    const reaped = await registry.reap();
+    expect(reaped.map(info => info.name)).toEqual(['dead', 'crashed']);
+
+    const names = (await registry.list()).map(info => info.name).sort();
+    expect(names).toEqual(['alive', 'stopped']);
+  });
+
+  it('should record the identity of a PID and take another process given it for a dead one', async () => {
+    await registry.register(createInfo({ name: 'alive' }));
+    await registry.register(createInfo({ name: 'reused', pidIdentity: 'an earlier process' }));
+
+    const alive = await registry.get('/projects/app', 'alive');
+    expect(alive?.pidIdentity).toBe(getProcessIdentity(process.pid));
+    expect(ProcessRegistry.isActive(alive!)).toBe(true);
+
+    const reaped = await registry.reap();
+    expect(reaped.map(info => info.name)).toEqual(['reused']);
+  });
+
+  it('should serialize concurrent writers', async () => {
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) => registry.register(createInfo({ name: `process-${i}` })))
+    );
+
+    expect(await registry.list()).toHaveLength(10);
+    expect(await fs.readdir(tmpDir)).toEqual(['processes.json']);
+  });
+
+  it('should break a lock left behind by a dead process', async () => {
+    await fs.writeFile(`${registry.getRegistryPath()}.lock`, String(DEAD_PID));
+
+    await registry.register(createInfo());
+    expect(await registry.list()).toHaveLength(1);
+  });
+});
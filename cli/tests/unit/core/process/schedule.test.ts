@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { Schedule, ScheduleTarget } from '../../../../src/core/process/schedule';
+
+jest.mock('../../../../src/core/utils/logging');
+
+describe('Schedule', () => {
+  let evaluateProcess: jest.Mock<ScheduleTarget['evaluateProcess']>;
+  let target: ScheduleTarget;
+  let schedule: Schedule | null;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date(2026, 0, 1, 10, 0, 30));
+    evaluateProcess = jest.fn<ScheduleTarget['evaluateProcess']>().mockResolvedValue('');
+    target = { evaluateProcess };
+    schedule = null;
+  });
+
+  afterEach(async () => {
+    await schedule?.stop();
+    jest.useRealTimers();
+  });
+
+  it('should tick on AO intervals', async () => {
+    schedule = new Schedule('token', { expression: '30-seconds', tick: 'tick()' }, target);
+    await schedule.start();
+
+    await jest.advanceTimersByTimeAsync(90000);
+    expect(evaluateProcess).toHaveBeenCalledTimes(3);
+    expect(evaluateProcess).toHaveBeenCalledWith('tick()', { await: true, timeout: '30000', name: 'token' });
+  });
+
+  it('should tick on cron minutes', async () => {
+    schedule = new Schedule('token', { expression: '*/5 * * * *', name: 'report' }, target);
+    await schedule.start();
+
+    expect(schedule.getState()).toEqual(expect.objectContaining({
+      name: 'report',
+      running: true,
+      nextRun: new Date(2026, 0, 1, 10, 5).toISOString()
+    }));
+
+    await jest.advanceTimersByTimeAsync(4 * 60 * 1000 + 29000);
+    expect(evaluateProcess).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(evaluateProcess).toHaveBeenCalledTimes(1);
+    expect(schedule.getState().lastRun).toBe(new Date(2026, 0, 1, 10, 5).toISOString());
+    expect(schedule.getState().nextRun).toBe(new Date(2026, 0, 1, 10, 10).toISOString());
+  });
+
+  it('should stop and run onError after max retries', async () => {
+    evaluateProcess.mockImplementation(async (input: string) => {
+      if (input === 'tick()') {
+        throw new Error('boom');
+      }
+      return '';
+    });
+    schedule = new Schedule('token', {
+      expression: '1-minute',
+      tick: 'tick()',
+      onError: 'onTickFailed()',
+      maxRetries: 2
+    }, target);
+    await schedule.start();
+
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(schedule.getState().retryCount).toBe(1);
+    expect(schedule.isRunning()).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(schedule.isRunning()).toBe(false);
+    expect(evaluateProcess).toHaveBeenLastCalledWith('onTickFailed()', { name: 'token' });
+
+    await jest.advanceTimersByTimeAsync(5 * 60000);
+    expect(evaluateProcess).toHaveBeenCalledTimes(3);
+  });
+
+  it('should reset retries after a successful tick', async () => {
+    evaluateProcess.mockRejectedValueOnce(new Error('boom'));
+    schedule = new Schedule('token', { expression: '1-minute', maxRetries: 2 }, target);
+    await schedule.start();
+
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(schedule.getState().retryCount).toBe(1);
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(schedule.getState().retryCount).toBe(0);
+    expect(schedule.isRunning()).toBe(true);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { LocalScheduler, VIRTUAL_EPOCH, getRunResult } from '../../../../src/core/process/scheduler';
+
+const TOKEN = `
+Balances = Balances or { [Owner] = 100 }
+
+Handlers.add('transfer', { Action = 'Transfer' }, function(msg)
+  local quantity = tonumber(msg.Quantity)
+  assert(Balances[msg.From] and Balances[msg.From] >= quantity, 'Insufficient balance')
+  Balances[msg.From] = Balances[msg.From] - quantity
+  Balances[msg.Recipient] = (Balances[msg.Recipient] or 0) + quantity
+  msg.reply({ Action = 'Debit-Notice', Quantity = msg.Quantity })
+  Send({ Target = msg.Recipient, Action = 'Credit-Notice', Sender = msg.From, Quantity = msg.Quantity, ['X-Listing'] = msg['X-Listing'] })
+end)
+`;
+
+// Sells listings for tokens: a buyer transfers the price to the market,
+// which pays the seller once the token confirms the credit
+const MARKET = `
+Listings = Listings or {}
+
+Handlers.add('list', { Action = 'List' }, function(msg)
+  Listings[msg.Listing] = { seller = msg.From, price = tonumber(msg.Price) }
+end)
+
+Handlers.add('buyListing', { Action = 'Credit-Notice' }, function(msg)
+  assert(msg.From == Token, 'Unknown token')
+  local listing = assert(Listings[msg['X-Listing']], 'No such listing')
+  assert(not listing.buyer, 'Listing is sold')
+  assert(tonumber(msg.Quantity) >= listing.price, 'Insufficient payment')
+  listing.buyer = msg.Sender
+  listing.soldAt = msg.Timestamp
+  Send({ Target = Token, Action = 'Transfer', Recipient = listing.seller, Quantity = tostring(listing.price) })
+  Send({ Target = msg.Sender, Action = 'Purchase-Notice', Listing = msg['X-Listing'], Roll = tostring(math.random(1000)) })
+end)
+`;
+
+function getTag(message: any, name: string): string | undefined {
+  return message.Tags.find((tag: any) => tag.name === name)?.value;
+}
+
+describe('LocalScheduler', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ao-forge-scheduler-'));
+    await fs.writeFile(path.join(tempDir, 'token.lua'), TOKEN);
+    await fs.writeFile(path.join(tempDir, 'market.lua'), MARKET);
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  async function buyListing(seed: number) {
+    const scheduler = new LocalScheduler({ projectPath: tempDir, seed });
+    const token = await scheduler.spawn('token', { owner: 'bob' });
+    const market = await scheduler.spawn('market', { owner: 'market-owner' });
+    scheduler.load(token, 'token.lua');
+    scheduler.load(market, 'market.lua');
+    market.run(`Token = '${token.id}'`);
+    scheduler.deliver(market, { From: 'alice', Tags: [{ name: 'Action', value: 'List' }, { name: 'Listing', value: 'l1' }, { name: 'Price', value: '40' }] });
+
+    const run = scheduler.deliver(token, {
+      From: 'bob',
+      Tags: [
+        { name: 'Action', value: 'Transfer' },
+        { name: 'Recipient', value: market.id },
+        { name: 'Quantity', value: '40' },
+        { name: 'X-Listing', value: 'l1' }
+      ]
+    });
+    const state = {
+      balances: token.run('return require("json").encode(Balances)'),
+      listing: market.run('return require("json").encode(Listings.l1)')
+    };
+    scheduler.close();
+    return { scheduler, token, market, run, state };
+  }
+
+  it('should route messages between processes in the order they were sent', async () => {
+    const { token, market, run, state } = await buyListing(7);
+
+    expect(run.result.Error).toBeUndefined();
+    expect(run.deliveries.map(delivery => [delivery.process, getTag(delivery.message, 'Action')])).toEqual([
+      ['market', 'Credit-Notice'],
+      ['token', 'Transfer'],
+      ['market', 'Debit-Notice']
+    ]);
+    expect(run.deliveries[1].message.From).toBe(market.id);
+    expect(run.messages.map(message => [message.From === token.id ? 'token' : 'market', message.Target, getTag(message, 'Action')])).toEqual([
+      ['token', 'bob', 'Debit-Notice'],
+      ['token', market.id, 'Credit-Notice'],
+      ['market', token.id, 'Transfer'],
+      ['market', 'bob', 'Purchase-Notice'],
+      ['token', market.id, 'Debit-Notice'],
+      ['token', 'alice', 'Credit-Notice']
+    ]);
+    expect(JSON.parse(String(state.balances))).toEqual({ bob: 60, alice: 40, [market.id]: 0 });
+    expect(JSON.parse(String(state.listing))).toMatchObject({ buyer: 'bob', seller: 'alice' });
+  });
+
+  it('should give the same IDs, timestamps and random numbers for the same seed', async () => {
+    const first = await buyListing(42);
+    const second = await buyListing(42);
+    const other = await buyListing(43);
+
+    expect(second.token.id).toBe(first.token.id);
+    expect(second.run).toEqual(first.run);
+    expect(second.state).toEqual(first.state);
+    expect(other.token.id).not.toBe(first.token.id);
+    expect(first.run.deliveries.map(delivery => delivery.message.Timestamp)).toEqual([
+      first.scheduler.now - 2, first.scheduler.now - 1, first.scheduler.now
+    ]);
+    expect(JSON.parse(String(first.state.listing)).soldAt).toBeGreaterThan(VIRTUAL_EPOCH);
+  });
+
+  it('should report the first error of a run with its process', async () => {
+    const scheduler = new LocalScheduler({ projectPath: tempDir, seed: 1 });
+    const token = await scheduler.spawn('token', { owner: 'bob' });
+    const market = await scheduler.spawn('market');
+    scheduler.load(token, 'token.lua');
+    scheduler.load(market, 'market.lua');
+
+    const result = getRunResult(scheduler.deliver(token, {
+      Tags: [{ name: 'Action', value: 'Transfer' }, { name: 'Recipient', value: market.id }, { name: 'Quantity', value: '5' }]
+    }));
+    scheduler.close();
+
+    expect(result.Error).toMatch(/^market: .*Unknown token/);
+    expect(result.Messages).toHaveLength(2);
+  });
+
+  it('should stop processes that keep messaging each other', async () => {
+    await fs.writeFile(path.join(tempDir, 'ping.lua'), `
+      Handlers.add('ping', { Action = 'Ping' }, function(msg) Send({ Target = msg.From, Action = 'Ping' }) end)
+    `);
+    const scheduler = new LocalScheduler({ projectPath: tempDir, maxDeliveries: 10 });
+    const a = await scheduler.spawn('a');
+    const b = await scheduler.spawn('b');
+    scheduler.load(a, 'ping.lua');
+    scheduler.load(b, 'ping.lua');
+
+    expect(() => scheduler.deliver(a, { From: b.id, Tags: [{ name: 'Action', value: 'Ping' }] }))
+      .toThrow('Processes sent more than 10 messages for one input');
+    scheduler.close();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from '@jest/globals';
+import { spawn } from 'child_process';
+import { terminateProcess, waitForExit } from '../../../../src/core/process/signals';
+import { ProcessRegistry, getProcessIdentity } from '../../../../src/core/process/registry';
+
+const spawnDetached = (script: string) => {
+  const child = spawn('sh', ['-c', script], { detached: true, stdio: 'ignore' });
+  return child.pid!;
+};
+
+describe('signals', () => {
+  it('should stop a detached process group with SIGTERM', async () => {
+    const pid = spawnDetached('sleep 30 & wait');
+
+    await expect(terminateProcess(pid, 2000)).resolves.toBe('SIGTERM');
+    expect(ProcessRegistry.isAlive(pid)).toBe(false);
+  });
+
+  it('should escalate to SIGKILL when SIGTERM is ignored', async () => {
+    const pid = spawnDetached('trap "" TERM; while true; do sleep 1; done');
+    // Give the shell time to install its trap
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    await expect(terminateProcess(pid, 300)).resolves.toBe('SIGKILL');
+    expect(ProcessRegistry.isAlive(pid)).toBe(false);
+  });
+
+  it('should report a process that keeps running past the timeout', async () => {
+    const pid = spawnDetached('sleep 30');
+
+    await expect(waitForExit(pid, 100)).resolves.toBe(false);
+    await terminateProcess(pid, 1000);
+  });
+
+  it('should wait for the rest of a group after its leader exits', async () => {
+    const pid = spawnDetached('trap "" TERM; (trap "" TERM; sleep 30) & exit 0');
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    expect(ProcessRegistry.isAlive(pid)).toBe(false);
+    await expect(waitForExit(pid, 100)).resolves.toBe(false);
+    await expect(terminateProcess(pid, 300)).resolves.toBe('SIGKILL');
+  });
+
+  it('should not take a reused PID for the process it stopped', async () => {
+    const child = spawn('sleep', ['30'], { stdio: 'ignore' });
+    const pid = child.pid!;
+
+    expect(getProcessIdentity(pid)).toBeTruthy();
+    await expect(waitForExit(pid, 100, getProcessIdentity(pid))).resolves.toBe(false);
+    await expect(waitForExit(pid, 100, 'an earlier process')).resolves.toBe(true);
+    child.kill('SIGKILL');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import {
+  SNAPSHOT_VERSION,
+  buildSnapshotScript,
+  diffState,
+  formatStatePath,
+  loadSnapshot,
+  parseSnapshotOutput,
+  renderStateDiff,
+  saveSnapshot
+} from '../../../../src/core/process/snapshot';
+import { StateSnapshot } from '../../../../src/types/aos';
+
+describe('process snapshots', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'ao-forge-snapshot-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectPath);
+  });
+
+  const createSnapshot = (globals: Record<string, unknown>): StateSnapshot => ({
+    version: SNAPSHOT_VERSION,
+    process: 'token',
+    createdAt: '2026-01-01T10:00:00.000Z',
+    globals
+  });
+
+  it('should build a script for the requested globals', () => {
+    const script = buildSnapshotScript({ globals: ['Balances', 'Owner'], depth: 5 });
+
+    expect(script).toContain('local only = { "Balances", "Owner" }');
+    expect(script).toContain('if level > 5 then');
+    expect(buildSnapshotScript()).toContain('local only = nil');
+  });
+
+  it('should parse the state printed by the process', () => {
+    const output = 'noise\n__AO_FORGE_SNAPSHOT__{"Balances":{"a":"10"},"Ticker":"TKN"}\n';
+
+    expect(parseSnapshotOutput(output)).toEqual({ Balances: { a: '10' }, Ticker: 'TKN' });
+    // Lua cannot tell an empty table from an empty sequence
+    expect(parseSnapshotOutput('__AO_FORGE_SNAPSHOT__[]')).toEqual({});
+    expect(() => parseSnapshotOutput('Error: boom')).toThrow('did not return its state');
+  });
+
+  it('should save snapshots by process and load them back', async () => {
+    const snapshot = createSnapshot({ Ticker: 'TKN' });
+    const filePath = await saveSnapshot(projectPath, snapshot);
+
+    expect(filePath).toBe(path.join(projectPath, '.ao-forge', 'snapshots', 'token', '2026-01-01T10-00-00-000Z.json'));
+    await expect(loadSnapshot(projectPath, filePath)).resolves.toEqual(snapshot);
+    await expect(loadSnapshot(projectPath, 'token/2026-01-01T10-00-00-000Z')).resolves.toEqual(snapshot);
+    await expect(loadSnapshot(projectPath, 'token/missing')).rejects.toThrow('Snapshot not found');
+  });
+
+  it('should reject files that are not readable snapshots', async () => {
+    await fs.writeJSON(path.join(projectPath, 'other.json'), { name: 'x' });
+    await fs.writeJSON(path.join(projectPath, 'future.json'), { ...createSnapshot({}), version: SNAPSHOT_VERSION + 1 });
+
+    await expect(loadSnapshot(projectPath, 'other.json')).rejects.toThrow('Not a process snapshot');
+    await expect(loadSnapshot(projectPath, 'future.json')).rejects.toThrow(`reads up to version ${SNAPSHOT_VERSION}`);
+  });
+
+  it('should report structural differences at the deepest changed path', () => {
+    const before = { Balances: { alice: '100', bob: '5' }, Owners: ['a', 'b'], Ticker: 'TKN', Paused: false };
+    const after = { Balances: { alice: '90', carol: '10' }, Owners: ['a', 'b', 'c'], Ticker: 'TKN', Denomination: 12 };
+
+    expect(diffState(before, after)).toEqual([
+      { path: ['Balances', 'alice'], type: 'changed', before: '100', after: '90' },
+      { path: ['Balances', 'bob'], type: 'removed', before: '5' },
+      { path: ['Balances', 'carol'], type: 'added', after: '10' },
+      { path: ['Denomination'], type: 'added', after: 12 },
+      { path: ['Owners', 2], type: 'added', after: 'c' },
+      { path: ['Paused'], type: 'removed', before: false }
+    ]);
+    expect(diffState({ Value: { a: 1 } }, { Value: [1] })).toEqual([
+      { path: ['Value'], type: 'changed', before: { a: 1 }, after: [1] }
+    ]);
+    expect(diffState(before, before)).toEqual([]);
+  });
+
+  it('should format paths like Lua expressions', () => {
+    expect(formatStatePath(['Balances', 'alice'])).toBe('Balances.alice');
+    expect(formatStatePath(['Owners', 0])).toBe('Owners[1]');
+    expect(formatStatePath(['Balances', 'x-y'])).toBe('Balances["x-y"]');
+    expect(formatStatePath([])).toBe('(root)');
+  });
+
+  it('should render a summary of the differences', () => {
+    const output = renderStateDiff(diffState({ A: 1, B: 2 }, { A: 3, C: 4 }));
+
+    expect(output).toContain('~ A: 1 -> 3');
+    expect(output).toContain('- B: 2');
+    expect(output).toContain('+ C: 4');
+    expect(output).toContain('3 difference(s): 1 added, 1 removed, 1 changed');
+    expect(renderStateDiff([])).toBe('No differences');
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_RESTART_DELAY,
+  RestartTracker,
+  formatRestartDelay,
+  getRestartDelay,
+  parseRestartPolicy
+} from '../../../../src/core/process/supervisor';
+
+describe('supervisor', () => {
+  it('should parse restart policies', () => {
+    expect(parseRestartPolicy('on-failure')).toBe('on-failure');
+    expect(() => parseRestartPolicy('sometimes')).toThrow('Invalid restart policy: sometimes');
+  });
+
+  it('should only restart failures with on-failure', () => {
+    const tracker = new RestartTracker({ policy: 'on-failure' });
+
+    expect(tracker.onExit(0, 100).restart).toBe(false);
+    expect(tracker.onExit(1, 100)).toEqual(expect.objectContaining({ restart: true, attempt: 1 }));
+    // Killed by a signal
+    expect(tracker.onExit(null, 100).restart).toBe(true);
+    expect(tracker.restarts).toBe(2);
+  });
+
+  it('should restart clean exits with always', () => {
+    expect(new RestartTracker({ policy: 'always' }).onExit(0, 100).restart).toBe(true);
+  });
+
+  it('should give up after max consecutive restarts', () => {
+    const tracker = new RestartTracker({ policy: 'always', maxRestarts: 2 });
+
+    expect(tracker.onExit(1, 100).restart).toBe(true);
+    expect(tracker.onExit(1, 100).restart).toBe(true);
+    expect(tracker.onExit(1, 100)).toEqual(expect.objectContaining({
+      restart: false,
+      reason: 'gave up after 2 restart(s)'
+    }));
+  });
+
+  it('should reset the consecutive count after a stable run', () => {
+    const tracker = new RestartTracker({ policy: 'always', maxRestarts: 1, backoff: 1000 });
+
+    expect(tracker.onExit(1, 100).delay).toBe(1000);
+    expect(tracker.onExit(1, 120000)).toEqual(expect.objectContaining({ restart: true, attempt: 1, delay: 1000 }));
+    expect(tracker.restarts).toBe(2);
+  });
+
+  it('should back off exponentially up to a cap', () => {
+    expect(getRestartDelay(1)).toBe(DEFAULT_RESTART_DELAY);
+    expect(getRestartDelay(5)).toBe(DEFAULT_RESTART_DELAY);
+    expect([1, 2, 3, 4].map(attempt => getRestartDelay(attempt, 500))).toEqual([500, 1000, 2000, 4000]);
+    expect(getRestartDelay(30, 1000)).toBe(5 * 60 * 1000);
+  });
+
+  it('should format sub-second delays in milliseconds', () => {
+    expect(formatRestartDelay(200)).toBe('200ms');
+    expect(formatRestartDelay(90000)).toBe('1m 30s');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  AOConnectTransport,
+  LocalTransport,
+  createTransport,
+  getTransportNames,
+  registerTransport
+} from '../../../../src/core/process/transport';
+
+const mockSpawn = jest.fn(async (_request: Record<string, unknown>) => 'p'.repeat(43));
+const mockConnect = jest.fn((_options: Record<string, string>) => ({ dryrun: async () => ({ Output: 'ok' }), spawn: mockSpawn }));
+jest.mock('@permaweb/aoconnect', () => ({ connect: mockConnect, createDataItemSigner: jest.fn(() => 'signer') }));
+
+describe('message transports', () => {
+  const message = { target: 't'.repeat(43), tags: [{ name: 'Action', value: 'Ping' }], data: '' };
+
+  it('should answer messages with results from its handler', async () => {
+    const transport = new LocalTransport(sent => ({ Messages: [], Spawns: [], Output: `pong to ${sent.tags[0].value}` }));
+
+    const first = await transport.send(message);
+    const second = await transport.send(message);
+
+    expect(first).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(second).not.toBe(first);
+    expect(transport.sent.map(entry => entry.id)).toEqual([first, second]);
+    await expect(transport.result(message.target, first)).resolves.toEqual(expect.objectContaining({ Output: 'pong to Ping' }));
+    await expect(transport.result(message.target, 'unknown')).rejects.toThrow('No result for message');
+  });
+
+  it('should create registered transports by name', () => {
+    const custom = new LocalTransport();
+    registerTransport('custom', () => custom);
+
+    expect(getTransportNames()).toEqual(expect.arrayContaining(['aoconnect', 'custom']));
+    expect(createTransport('custom')).toBe(custom);
+    expect(createTransport('aoconnect').name).toBe('aoconnect');
+    expect(() => createTransport('carrier-pigeon')).toThrow('Unknown transport: carrier-pigeon');
+    // Local sends go through the emulator, not a transport answering nothing
+    expect(() => createTransport('local')).toThrow('Unknown transport: local');
+  });
+
+  it('should point aoconnect at the units and gateway of the network', async () => {
+    const transport = new AOConnectTransport({
+      network: { muUrl: 'http://localhost:4002', cuUrl: 'http://localhost:6363', gatewayUrl: 'http://localhost:4000/' }
+    });
+
+    await expect(transport.dryrun(message)).resolves.toEqual({ Output: 'ok' });
+    expect(mockConnect).toHaveBeenCalledWith({
+      MODE: 'legacy',
+      MU_URL: 'http://localhost:4002',
+      CU_URL: 'http://localhost:6363',
+      GRAPHQL_URL: 'http://localhost:4000/graphql'
+    });
+  });
+
+  it('should spawn processes signed with the wallet', async () => {
+    const request = { module: 'm'.repeat(43), scheduler: 's'.repeat(43), tags: [{ name: 'Name', value: 'token' }] };
+
+    await expect(new AOConnectTransport({}).spawn(request)).rejects.toThrow('A wallet is required to spawn processes');
+    await expect(new AOConnectTransport({ wallet: { kty: 'RSA', n: 'n', e: 'AQAB' } }).spawn(request)).resolves.toBe('p'.repeat(43));
+    expect(mockSpawn).toHaveBeenCalledWith({ ...request, data: undefined, signer: 'signer' });
+  });
+});
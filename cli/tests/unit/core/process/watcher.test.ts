@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import path from 'path';
+import os from 'os';
+import fs from 'fs-extra';
+import { LuaWatcher, ReloadResult } from '../../../../src/core/process/watcher';
+
+jest.mock('../../../../src/core/utils/logging');
+
+function waitFor(condition: () => boolean, timeout = 3000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      if (condition()) return resolve();
+      if (Date.now() > deadline) return reject(new Error('Timed out waiting for condition'));
+      setTimeout(check, 20);
+    };
+    check();
+  });
+}
+
+describe('LuaWatcher', () => {
+  let tmpDir: string;
+  let watcher: LuaWatcher;
+  let loaded: string[];
+  let results: ReloadResult[];
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ao-forge-watch-'));
+    await fs.outputFile(path.join(tmpDir, 'main.lua'), 'local utils = require("lib.utils")');
+    await fs.outputFile(path.join(tmpDir, 'lib', 'utils.lua'), 'return {}');
+
+    loaded = [];
+    results = [];
+    watcher = new LuaWatcher(tmpDir, ['main.lua'], async (file) => {
+      loaded.push(path.relative(tmpDir, file));
+      return 'ok';
+    }, { debounce: 50, onReload: result => results.push(result) });
+    await watcher.start();
+  });
+
+  afterEach(async () => {
+    watcher.stop();
+    await watcher.idle();
+    await fs.remove(tmpDir);
+  });
+
+  it('should watch entry files and their requires', () => {
+    expect(watcher.getWatchedFiles().sort()).toEqual([
+      path.join(tmpDir, 'lib', 'utils.lua'),
+      path.join(tmpDir, 'main.lua')
+    ]);
+  });
+
+  it('should debounce a burst of saves into one reload', async () => {
+    const file = path.join(tmpDir, 'main.lua');
+    await fs.writeFile(file, 'local utils = require("lib.utils")\n-- 1');
+    await fs.writeFile(file, 'local utils = require("lib.utils")\n-- 2');
+
+    await waitFor(() => results.length > 0);
+    await watcher.idle();
+    expect(loaded).toEqual(['main.lua']);
+    expect(results[0]).toEqual({ file: 'main.lua', ok: true, changed: ['main.lua'], output: 'ok' });
+  });
+
+  it('should reload the entry file when a dependency changes', async () => {
+    await fs.writeFile(path.join(tmpDir, 'lib', 'utils.lua'), 'return { version = 2 }');
+
+    await waitFor(() => results.length > 0);
+    expect(loaded).toEqual(['main.lua']);
+    expect(results[0].changed).toEqual([path.join('lib', 'utils.lua')]);
+  });
+
+  it('should not load files with syntax errors', async () => {
+    await fs.writeFile(path.join(tmpDir, 'main.lua'), 'function broken(');
+
+    await waitFor(() => results.length > 0);
+    expect(loaded).toEqual([]);
+    expect(results[0]).toEqual(expect.objectContaining({ ok: false, skipped: true }));
+    expect(results[0].error).toMatch(/^main\.lua:1: '\)' expected/);
+  });
+
+  it('should not reload an entry file with syntax errors when a dependency changes', async () => {
+    watcher.stop();
+    await fs.writeFile(path.join(tmpDir, 'main.lua'), 'local utils = require("lib.utils")\nfunction broken(');
+    watcher = new LuaWatcher(tmpDir, ['main.lua'], async (file) => {
+      loaded.push(path.relative(tmpDir, file));
+      return 'ok';
+    }, { debounce: 50, onReload: result => results.push(result) });
+    await watcher.start();
+
+    await fs.writeFile(path.join(tmpDir, 'lib', 'utils.lua'), 'return { version = 2 }');
+
+    await waitFor(() => results.length > 0);
+    await watcher.idle();
+    expect(loaded).toEqual([]);
+    expect(results[0]).toEqual(expect.objectContaining({ file: 'main.lua', skipped: true, changed: [path.join('lib', 'utils.lua')] }));
+  });
+
+  it('should keep reloading after a reload fails', async () => {
+    watcher.stop();
+    let calls = 0;
+    watcher = new LuaWatcher(tmpDir, ['main.lua'], async () => 'ok', {
+      debounce: 50,
+      onReload: () => {
+        if (++calls === 1) {
+          throw new Error('listener failed');
+        }
+      }
+    });
+    await watcher.start();
+
+    await fs.writeFile(path.join(tmpDir, 'main.lua'), 'local utils = require("lib.utils")\n-- 1');
+    await waitFor(() => calls === 1);
+    await watcher.idle();
+    await fs.writeFile(path.join(tmpDir, 'main.lua'), 'local utils = require("lib.utils")\n-- 2');
+
+    await waitFor(() => calls === 2);
+  });
+});
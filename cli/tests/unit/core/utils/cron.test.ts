@@ -0,0 +1,84 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  getNextRun,
+  getNextRuns,
+  parseCronExpression,
+  parseInterval
+} from '../../../../src/core/utils/cron';
+
+// Local time, as cron expressions are evaluated in the local timezone
+const at = (month: number, day: number, hour = 0, minute = 0) => new Date(2026, month - 1, day, hour, minute);
+
+describe('cron utilities', () => {
+  describe('parseInterval', () => {
+    it('should parse AO interval syntax', () => {
+      expect(parseInterval('30-seconds')).toBe(30000);
+      expect(parseInterval('1-minute')).toBe(60000);
+      expect(parseInterval('2-hours')).toBe(2 * 60 * 60 * 1000);
+      expect(parseInterval('1-month')).toBe(30 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should return null for anything else', () => {
+      expect(parseInterval('0-minutes')).toBeNull();
+      expect(parseInterval('*/5 * * * *')).toBeNull();
+      expect(parseInterval('5 minutes')).toBeNull();
+    });
+  });
+
+  describe('parseCronExpression', () => {
+    it('should expand lists, ranges, steps and names', () => {
+      const fields = parseCronExpression('*/20 9-11 1,15 jan-mar sun,7');
+      expect([...fields.minute.values]).toEqual([0, 20, 40]);
+      expect([...fields.hour.values]).toEqual([9, 10, 11]);
+      expect([...fields.dayOfMonth.values]).toEqual([1, 15]);
+      expect([...fields.month.values]).toEqual([1, 2, 3]);
+      expect([...fields.dayOfWeek.values]).toEqual([0]);
+    });
+
+    it('should reject malformed expressions', () => {
+      expect(() => parseCronExpression('* * * *')).toThrow('must have 5 fields');
+      expect(() => parseCronExpression('60 * * * *')).toThrow('minute field out of range');
+      expect(() => parseCronExpression('*/0 * * * *')).toThrow('Invalid step');
+      expect(() => parseCronExpression('* * * foo *')).toThrow('Invalid cron value');
+    });
+  });
+
+  describe('getNextRun', () => {
+    it('should add the interval for AO syntax', () => {
+      expect(getNextRun('5-minutes', at(1, 1, 10, 3))).toEqual(at(1, 1, 10, 8));
+    });
+
+    it('should find the next matching minute', () => {
+      expect(getNextRun('*/15 * * * *', at(1, 1, 10, 3))).toEqual(at(1, 1, 10, 15));
+      expect(getNextRun('*/15 * * * *', at(1, 1, 10, 15))).toEqual(at(1, 1, 10, 30));
+      expect(getNextRun('0 9 * * *', at(1, 1, 10, 0))).toEqual(at(1, 2, 9, 0));
+    });
+
+    it('should respect weekdays and months', () => {
+      // 2026-01-02 is a Friday
+      expect(getNextRun('30 8 * * mon-fri', at(1, 2, 9, 0))).toEqual(at(1, 5, 8, 30));
+      expect(getNextRun('0 0 1 jun *', at(1, 1))).toEqual(at(6, 1));
+    });
+
+    it('should match either day field when both are restricted', () => {
+      // The 10th or any Monday, whichever comes first
+      expect(getNextRun('0 12 10 * mon', at(1, 2))).toEqual(at(1, 5, 12, 0));
+      expect(getNextRun('0 12 10 * mon', at(1, 6))).toEqual(at(1, 10, 12, 0));
+    });
+
+    it('should take a stepped day field as restricted', () => {
+      // Days 1, 6, 11, ... or any Monday, not only Mondays among those days
+      expect(getNextRun('0 12 */5 * mon', at(1, 2))).toEqual(at(1, 5, 12, 0));
+      expect(getNextRun('0 12 */5 * mon', at(1, 5, 13))).toEqual(at(1, 6, 12, 0));
+      expect(getNextRun('0 12 * * */2', at(1, 2))).toEqual(at(1, 3, 12, 0));
+    });
+
+    it('should fail for dates that never occur', () => {
+      expect(() => getNextRun('0 0 31 2 *', at(1, 1))).toThrow('never matches');
+    });
+  });
+
+  it('should list consecutive runs', () => {
+    expect(getNextRuns('0 */6 * * *', 3, at(1, 1, 1, 0))).toEqual([at(1, 1, 6), at(1, 1, 12), at(1, 1, 18)]);
+  });
+});
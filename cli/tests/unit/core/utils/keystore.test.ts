@@ -0,0 +1,53 @@
+import { describe, it, expect } from '@jest/globals';
+import { decryptSecret, encryptSecret, isEncryptedEnvelope } from '../../../../src/core/utils/keystore';
+import { ValidationError } from '../../../../src/core/utils/error-handling';
+
+describe('keystore', () => {
+  // Cheap parameters keep the tests fast; the defaults are much slower
+  const params = { N: 1024, r: 8, p: 1 };
+
+  it('should round-trip a secret and keep the meta readable', async () => {
+    const envelope = await encryptSecret('{"kty":"RSA"}', 'correct horse', { address: 'abc' }, params);
+
+    expect(isEncryptedEnvelope(envelope)).toBe(true);
+    expect(envelope.meta).toEqual({ address: 'abc' });
+    expect(JSON.stringify(envelope)).not.toContain('RSA');
+    expect(await decryptSecret(envelope, 'correct horse')).toBe('{"kty":"RSA"}');
+  });
+
+  it('should use a fresh salt and IV for every encryption', async () => {
+    const first = await encryptSecret('secret', 'passphrase', {}, params);
+    const second = await encryptSecret('secret', 'passphrase', {}, params);
+
+    expect(first.crypto.kdfparams.salt).not.toBe(second.crypto.kdfparams.salt);
+    expect(first.crypto.iv).not.toBe(second.crypto.iv);
+    expect(first.crypto.ciphertext).not.toBe(second.crypto.ciphertext);
+  });
+
+  it('should reject a wrong passphrase or tampered data', async () => {
+    const envelope = await encryptSecret('secret', 'passphrase', {}, params);
+    const tampered = {
+      ...envelope,
+      crypto: { ...envelope.crypto, ciphertext: Buffer.from('tampered').toString('base64') }
+    };
+
+    await expect(decryptSecret(envelope, 'wrong')).rejects.toThrow(ValidationError);
+    await expect(decryptSecret(tampered, 'passphrase')).rejects.toThrow('Wrong passphrase');
+  });
+
+  it('should refuse scrypt parameters out of bounds before deriving a key', async () => {
+    const envelope = await encryptSecret('secret', 'passphrase', {}, params);
+    const withParams = (kdfparams: Record<string, number>) => ({
+      ...envelope,
+      crypto: { ...envelope.crypto, kdfparams: { ...envelope.crypto.kdfparams, ...kdfparams } }
+    });
+
+    await expect(decryptSecret(withParams({ N: 2 ** 30 }), 'passphrase')).rejects.toThrow('Unsupported scrypt parameters');
+    await expect(decryptSecret(withParams({ N: 1000 }), 'passphrase')).rejects.toThrow('Unsupported scrypt parameters');
+    await expect(decryptSecret(withParams({ p: 1000 }), 'passphrase')).rejects.toThrow(ValidationError);
+  });
+
+  it('should not mistake a plain JWK for an envelope', () => {
+    expect(isEncryptedEnvelope({ kty: 'RSA', n: 'n', d: 'd' })).toBe(false);
+  });
+});
@@ -21,6 +21,46 @@ describe('Validator', () => {
         Validator.validateConfig(invalidConfig);
       }).toThrow(ValidationError);
     });
+
+    it('should fill in process definition defaults', () => {
+      const result = Validator.validateConfig({
+        ...createMockConfig(),
+        processes: { token: { luaFiles: ['token.lua'], module: 'mod-1' } }
+      });
+      expect(result.processes).toEqual({
+        token: { luaFiles: ['token.lua'], module: 'mod-1', tags: {}, monitor: false, sqlite: false, dependsOn: [], inject: 'globals' }
+      });
+    });
+
+    it('should reject invalid process definition names', () => {
+      expect(() => Validator.validateConfig({ ...createMockConfig(), processes: { 'my token': {} } })).toThrow(ValidationError);
+    });
+
+    it('should fill in health check defaults', () => {
+      const result = Validator.validateConfig({
+        ...createMockConfig(),
+        health: { checks: [{ type: 'eval' }, { type: 'info', fields: ['Name'] }] }
+      });
+      expect(result.health).toEqual({
+        timeout: '10s',
+        checks: [{ type: 'eval', code: 'return "pong"' }, { type: 'info', action: 'Info', fields: ['Name'] }]
+      });
+      expect(() => Validator.validateConfig({ ...createMockConfig(), health: { checks: [{ type: 'http' }] } })).toThrow(ValidationError);
+    });
+
+    it('should accept network units as URLs only', () => {
+      const network = { muUrl: 'http://localhost:4002', cuUrl: 'http://localhost:6363' };
+      expect(Validator.validateConfig({ ...createMockConfig(), network }).network).toEqual(network);
+      expect(() => Validator.validateConfig({ ...createMockConfig(), network: { muUrl: 'mu' } })).toThrow(ValidationError);
+    });
+
+    it('should accept network profiles and a profile name as the network', () => {
+      const networks = { local: { gatewayUrl: 'http://localhost:4000', module: 'm'.repeat(43) } };
+      const result = Validator.validateConfig({ ...createMockConfig(), networks, network: 'local' });
+      expect(result.networks).toEqual(networks);
+      expect(result.network).toBe('local');
+      expect(() => Validator.validateConfig({ ...createMockConfig(), networks: { local: { module: 'short' } } })).toThrow(ValidationError);
+    });
   });
 
   describe('validateProcessName', () => {
@@ -59,10 +99,19 @@ describe('Validator', () => {
       expect(Validator.validateCronExpression('2-hours')).toBe(true);
     });
 
+    it('should validate standard 5-field cron expressions', () => {
+      expect(Validator.validateCronExpression('*/15 * * * *')).toBe(true);
+      expect(Validator.validateCronExpression('0 9-17 * * mon-fri')).toBe(true);
+      expect(Validator.validateCronExpression('0 0 1,15 * *')).toBe(true);
+      expect(Validator.validateCronExpression('60 * * * *')).toBe(false);
+      expect(Validator.validateCronExpression('* * * *')).toBe(false);
+    });
+
     it('should reject invalid cron expressions', () => {
       expect(Validator.validateCronExpression('')).toBe(false);
       expect(Validator.validateCronExpression('1-minute-invalid')).toBe(false);
       expect(Validator.validateCronExpression('invalid')).toBe(false);
+      expect(Validator.validateCronExpression('0-minutes')).toBe(false);
     });
   });
 }); 
\ No newline at end of file